@@ -0,0 +1,60 @@
+import crypto from 'node:crypto';
+import { db } from './db.js';
+import type { Role } from './store.js';
+
+export type ApiKeyRow = {
+  id: number;
+  name: string;
+  key_prefix: string;
+  created_at: Date;
+  last_used_at: Date | null;
+};
+
+function hashKey(key: string) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function newApiKey() {
+  return `mvb_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export async function listApiKeys(userId: string) {
+  const r = await db().query<ApiKeyRow>(
+    `select id, name, key_prefix, created_at, last_used_at
+       from subsonic_api_keys
+      where user_id = $1
+      order by created_at desc`,
+    [userId]
+  );
+  return r.rows.map((row) => ({ ...row, id: Number(row.id) }));
+}
+
+// Returns the plain key once; only its hash is persisted
+export async function createApiKey(userId: string, name: string) {
+  const key = newApiKey();
+  const r = await db().query<ApiKeyRow>(
+    `insert into subsonic_api_keys(user_id, name, key_hash, key_prefix)
+     values ($1, $2, $3, $4)
+     returning id, name, key_prefix, created_at, last_used_at`,
+    [userId, name, hashKey(key), key.slice(0, 8)]
+  );
+  return { key, row: { ...r.rows[0], id: Number(r.rows[0].id) } };
+}
+
+export async function deleteApiKey(id: number, userId: string) {
+  const r = await db().query('delete from subsonic_api_keys where id = $1 and user_id = $2', [id, userId]);
+  return (r.rowCount ?? 0) > 0;
+}
+
+// Resolves an apiKey parameter to its approved owner and records the use
+export async function findApiKeyUser(key: string) {
+  const r = await db().query<{ key_id: number; id: string; email: string; role: Role }>(
+    `update subsonic_api_keys k
+        set last_used_at = now()
+       from users u
+      where k.key_hash = $1 and u.id = k.user_id and u.approval_status = 'approved'
+      returning k.id as key_id, u.id, u.email, u.role`,
+    [hashKey(key)]
+  );
+  return r.rows[0] ?? null;
+}
@@ -1,12 +1,23 @@
 import fp from 'fastify-plugin';
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { execFile } from 'node:child_process';
+import crypto from 'node:crypto';
 import { createReadStream } from 'node:fs';
-import { stat } from 'node:fs/promises';
+import { mkdir, stat } from 'node:fs/promises';
 import path from 'node:path';
+import { promisify } from 'node:util';
 import { db } from './db.js';
 import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+import { config } from './config.js';
+import { requestOrigin } from './stream.js';
 
 const ART_DIR = process.env.ART_DIR ?? '/data/cache/art';
+const SIZED_ART_DIR = path.join(ART_DIR, 'sized');
+
+// Sizes advertised to Subsonic clients as small/medium/large image URLs
+export const ART_SIZES = { small: 150, medium: 300, large: 600 } as const;
+
+const execFileAsync = promisify(execFile);
 
 function safeJoinArt(relPath: string) {
   const abs = path.resolve(ART_DIR, relPath);
@@ -15,6 +26,65 @@ function safeJoinArt(relPath: string) {
   return abs;
 }
 
+function parseArtSize(value: unknown): number | null {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(Math.max(Math.round(n), 32), 1200);
+}
+
+// Downscaled JPEG copy of a cached image, generated on first request. Falls back to the original.
+async function sizedArt(relPath: string, size: number | null): Promise<{ abs: string; mime: string | null }> {
+  const original = safeJoinArt(relPath);
+  if (size === null) return { abs: original, mime: null };
+
+  const out = path.join(SIZED_ART_DIR, String(size), `${relPath.replace(/[\\/]/g, '_')}.jpg`);
+  try {
+    await stat(out);
+    return { abs: out, mime: 'image/jpeg' };
+  } catch {
+    // not generated yet
+  }
+
+  try {
+    await mkdir(path.dirname(out), { recursive: true });
+    await execFileAsync('ffmpeg', [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', original,
+      '-vf', `scale='min(iw,${size})':'min(ih,${size})':force_original_aspect_ratio=decrease`,
+      '-frames:v', '1', '-q:v', '3',
+      out,
+    ], { timeout: 20_000 });
+    return { abs: out, mime: 'image/jpeg' };
+  } catch {
+    return { abs: original, mime: null };
+  }
+}
+
+type ArtKind = 'artist' | 'album' | 'track';
+
+// Signed art URLs let Subsonic clients load images without sending credentials.
+// Expiry is rounded to whole days so URLs stay cacheable.
+function artSignature(kind: ArtKind, id: number, expiresAt: number) {
+  return crypto.createHmac('sha256', config.jwtSecret).update(`art.${kind}.${id}.${expiresAt}`).digest('base64url');
+}
+
+function hasValidArtSignature(req: FastifyRequest, kind: ArtKind, id: number) {
+  const query = req.query as { exp?: string; sig?: string };
+  const expiresAt = Number(query.exp);
+  if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000) || !query.sig) return false;
+  const sigBuf = Buffer.from(query.sig);
+  const expectedBuf = Buffer.from(artSignature(kind, id, expiresAt));
+  return sigBuf.length === expectedBuf.length && crypto.timingSafeEqual(sigBuf, expectedBuf);
+}
+
+export function signedArtUrl(req: FastifyRequest, kind: ArtKind, id: number, size: number) {
+  const day = 86400;
+  const expiresAt = (Math.floor(Date.now() / 1000 / day) + 8) * day;
+  const qs = new URLSearchParams({ size: String(size), exp: String(expiresAt), sig: artSignature(kind, id, expiresAt) });
+  const base = kind === 'artist' ? `/api/artists/${id}/art` : kind === 'album' ? `/api/albums/${id}/art` : `/api/library/tracks/${id}/art`;
+  return `${requestOrigin(req)}${base}?${qs.toString()}`;
+}
+
 export const artPlugin: FastifyPluginAsync = fp(async (app) => {
   // Direct art path endpoint (for album/artist art)
   app.get('/api/art/*', async (req, reply) => {
@@ -57,10 +127,10 @@ export const artPlugin: FastifyPluginAsync = fp(async (app) => {
   });
 
   app.get('/api/library/tracks/:id/art', async (req, reply) => {
-    if (!req.user) return reply.code(401).send({ ok: false });
-
     const id = Number((req.params as { id: string }).id);
     if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const signed = hasValidArtSignature(req, 'track', id);
+    if (!req.user && !signed) return reply.code(401).send({ ok: false });
 
     const r = await db().query<{ library_id: number; art_path: string | null; art_mime: string | null; art_hash: string | null }>(
       'select library_id, art_path, art_mime, art_hash from active_tracks where id=$1',
@@ -69,18 +139,21 @@ export const artPlugin: FastifyPluginAsync = fp(async (app) => {
     const row = r.rows[0];
     if (!row?.art_path || !row.art_mime) return reply.code(404).send({ ok: false });
 
-    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
-    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+    if (req.user && !signed) {
+      const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+      if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+    }
 
-    const etag = row.art_hash ? `"${row.art_hash}"` : undefined;
+    const size = parseArtSize((req.query as { size?: string }).size);
+    const etag = row.art_hash ? `"${row.art_hash}${size ? `-${size}` : ''}"` : undefined;
     const inm = req.headers['if-none-match'];
     if (etag && inm === etag) return reply.code(304).send();
 
-    const abs = safeJoinArt(row.art_path);
+    const { abs, mime } = await sizedArt(row.art_path, size);
     const st = await stat(abs);
 
     reply
-      .header('Content-Type', row.art_mime)
+      .header('Content-Type', mime ?? row.art_mime)
       .header('Content-Length', String(st.size))
       .header('Cache-Control', 'private, max-age=3600')
       .header('ETag', etag ?? '');
@@ -88,12 +161,50 @@ export const artPlugin: FastifyPluginAsync = fp(async (app) => {
     return reply.send(createReadStream(abs));
   });
 
+  // Album artwork, picked by the scanner from the album's tracks
+  app.get('/api/albums/:id/art', async (req, reply) => {
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const signed = hasValidArtSignature(req, 'album', id);
+    if (!req.user && !signed) return reply.code(401).send({ ok: false });
+
+    const allowed = req.user && !signed ? await allowedLibrariesForUser(req.user.userId, req.user.role) : null;
+    const r = await db().query<{ art_path: string | null; art_mime: string | null; art_hash: string | null }>(
+      `select t.art_path, t.art_mime, t.art_hash
+         from albums a
+         join active_tracks t on t.album_id = a.id and t.art_path is not null
+        where a.id = $1 ${allowed === null ? '' : 'and t.library_id = any($2)'}
+        order by (t.art_path = a.art_path) desc, t.id
+        limit 1`,
+      allowed === null ? [id] : [id, allowed]
+    );
+    const row = r.rows[0];
+    if (!row?.art_path || !row.art_mime) return reply.code(404).send({ ok: false });
+
+    const size = parseArtSize((req.query as { size?: string }).size);
+    const etag = row.art_hash ? `"${row.art_hash}${size ? `-${size}` : ''}"` : undefined;
+    const inm = req.headers['if-none-match'];
+    if (etag && inm === etag) return reply.code(304).send();
+
+    try {
+      const { abs, mime } = await sizedArt(row.art_path, size);
+      const st = await stat(abs);
+      reply
+        .header('Content-Type', mime ?? row.art_mime)
+        .header('Content-Length', String(st.size))
+        .header('Cache-Control', 'private, max-age=3600')
+        .header('ETag', etag ?? '');
+      return reply.send(createReadStream(abs));
+    } catch {
+      return reply.code(404).send({ ok: false });
+    }
+  });
+
   // Artist artwork endpoint
   app.get('/api/artists/:id/art', async (req, reply) => {
-    if (!req.user) return reply.code(401).send({ ok: false });
-
     const id = Number((req.params as { id: string }).id);
     if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    if (!req.user && !hasValidArtSignature(req, 'artist', id)) return reply.code(401).send({ ok: false });
 
     const r = await db().query<{ art_path: string | null; art_hash: string | null }>(
       'select art_path, art_hash from artists where id=$1',
@@ -102,12 +213,14 @@ export const artPlugin: FastifyPluginAsync = fp(async (app) => {
     const row = r.rows[0];
     if (!row?.art_path) return reply.code(404).send({ ok: false });
 
-    const etag = row.art_hash ? `"${row.art_hash}"` : undefined;
+    const size = parseArtSize((req.query as { size?: string }).size);
+    const etag = row.art_hash ? `"${row.art_hash}${size ? `-${size}` : ''}"` : undefined;
     const inm = req.headers['if-none-match'];
     if (etag && inm === etag) return reply.code(304).send();
 
     try {
-      const abs = safeJoinArt(row.art_path);
+      const sized = await sizedArt(row.art_path, size);
+      const abs = sized.abs;
       const st = await stat(abs);
 
       // Determine MIME type from extension
@@ -118,7 +231,7 @@ export const artPlugin: FastifyPluginAsync = fp(async (app) => {
         '.png': 'image/png',
         '.webp': 'image/webp',
       };
-      const mime = mimeTypes[ext] || 'image/jpeg';
+      const mime = sized.mime ?? (mimeTypes[ext] || 'image/jpeg');
 
       reply
         .header('Content-Type', mime)
@@ -168,7 +168,16 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
       clearAuthCookie(reply, secure);
       return reply.code(401).send({ ok: false, error: 'session_invalid' });
     }
-    return { ok: true, user: { id: user.id, email: user.email, role: user.role, avatar_path: user.avatar_path || null } };
+    return {
+      ok: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        avatar_path: user.avatar_path || null,
+        download_allowed: user.role === 'admin' || user.download_allowed !== false,
+      },
+    };
   });
 
   app.post('/api/auth/logout', async (req, reply) => {
@@ -218,18 +227,8 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
 
     const id = randomId('u');
     await users.createUser({ id, email, passwordHash: hashPassword(password), role });
-    // Save for Subsonic token auth
-    await db().query('UPDATE users SET subsonic_password = $1 WHERE id = $2', [password, id]);
-
-    // Default access: all current libraries (admin can later restrict).
-    try {
-      const r = await db().query<{ id: number }>('select id from libraries');
-      for (const lib of r.rows) {
-        await db().query('insert into user_libraries(user_id, library_id) values ($1,$2) on conflict do nothing', [id, lib.id]);
-      }
-    } catch {
-      // ignore
-    }
+    await users.setSubsonicPassword(id, password);
+    await users.grantAllLibraries(id);
 
     await audit('admin_create_user', { email, role, by: req.user.userId });
     return { ok: true, user: { id, email, role } };
@@ -246,8 +245,7 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
     if (!user) return reply.code(404).send({ ok: false });
 
     await users.setPassword(id, hashPassword(password));
-    // Save for Subsonic token auth
-    await db().query('UPDATE users SET subsonic_password = $1 WHERE id = $2', [password, id]);
+    await users.setSubsonicPassword(id, password);
     await users.bumpSessionVersion(id);
     await audit('admin_reset_password', { userId: id, by: req.user.userId });
     return { ok: true };
@@ -283,8 +281,7 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
     const u = await users.getUserById(id);
     if (!u) return reply.code(404).send({ ok: false });
 
-    const r = await db().query<{ library_id: number }>('select library_id from user_libraries where user_id=$1 order by library_id asc', [id]);
-    return { ok: true, libraryIds: r.rows.map((x) => Number(x.library_id)) };
+    return { ok: true, libraryIds: await users.listUserLibraryIds(id) };
   });
 
   app.put('/api/admin/users/:id/libraries', async (req, reply) => {
@@ -297,20 +294,7 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
     const libraryIds = Array.isArray(body.libraryIds) ? body.libraryIds.map((x) => Number(x)).filter((x) => Number.isFinite(x)) : null;
     if (!libraryIds) return reply.code(400).send({ ok: false });
 
-    const client = await db().connect();
-    try {
-      await client.query('BEGIN');
-      await client.query('delete from user_libraries where user_id=$1', [id]);
-      for (const lid of libraryIds) {
-        await client.query('insert into user_libraries(user_id, library_id) values ($1,$2) on conflict do nothing', [id, lid]);
-      }
-      await client.query('COMMIT');
-    } catch (e) {
-      await client.query('ROLLBACK');
-      throw e;
-    } finally {
-      client.release();
-    }
+    await users.setUserLibraries(id, libraryIds);
 
     const sv = await users.bumpSessionVersion(id);
     await audit('admin_set_user_libraries', { by: req.user.userId, userId: id, libraryIds, sessionVersion: sv });
@@ -335,6 +319,20 @@ export const authPlugin: FastifyPluginAsync = fp(async (app) => {
     return { ok: true };
   });
 
+  app.put('/api/admin/users/:id/download', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const { id } = req.params as { id: string };
+    const body = (req.body ?? {}) as { allowed?: unknown };
+    if (typeof body.allowed !== 'boolean') return reply.code(400).send({ ok: false });
+
+    const u = await users.getUserById(id);
+    if (!u) return reply.code(404).send({ ok: false });
+
+    await users.setDownloadAllowed(id, body.allowed);
+    await audit('admin_set_download', { by: req.user.userId, userId: id, allowed: body.allowed });
+    return { ok: true };
+  });
+
   app.delete('/api/admin/users/:id', async (req, reply) => {
     if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
     const { id } = req.params as { id: string };
@@ -3,6 +3,7 @@ import type { FastifyPluginAsync } from 'fastify';
 import { db } from './db.js';
 import { allowedLibrariesForUser } from './access.js';
 import { asciiFold } from './asciiFold.js';
+import { getArtistDetails } from './metadataInfo.js';
 
 export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
   // Paginated artists list with ID for routing
@@ -61,7 +62,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         a.art_path,
         a.art_hash,
         count(distinct t.id)::int as track_count,
-        count(distinct nullif(t.album, ''))::int as album_count
+        count(distinct t.album_id)::int as album_count
       from artists a
       join track_artists ta on ta.artist_id = a.id
       join active_tracks t on t.id = ta.track_id
@@ -188,7 +189,8 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
     const r = await db().query(
       `
       with unique_albums as (
-        select distinct on (t.album)
+        select distinct on (t.album_id)
+          t.album_id,
           t.album,
           t.id as first_track_id,
           t.art_path,
@@ -196,24 +198,25 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
           t.updated_at,
           t.mtime_ms
         from active_tracks t
-        where t.album is not null and t.album <> ''
+        where t.album_id is not null
         ${artistFilter}
         ${nameFilter}
         ${letterFilter}
         ${libFilter}
-        order by t.album, t.path
+        order by t.album_id, t.path
       ),
       album_counts as (
-        select t.album, count(*)::int as track_count, max(t.updated_at) as max_updated, min(t.created_at) as min_created_at
+        select t.album_id, count(*)::int as track_count, max(t.updated_at) as max_updated, min(t.created_at) as min_created_at
         from active_tracks t
-        where t.album is not null and t.album <> ''
+        where t.album_id is not null
         ${artistFilter}
         ${nameFilter}
         ${letterFilter}
         ${libFilter}
-        group by t.album
+        group by t.album_id
       )
       select
+        ua.album_id as id,
         ua.album,
         coalesce(
           (select a.name from track_artists ta join artists a on a.id = ta.artist_id 
@@ -229,7 +232,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         ac.max_updated,
         ac.min_created_at
       from unique_albums ua
-      join album_counts ac on ac.album = ua.album
+      join album_counts ac on ac.album_id = ua.album_id
       order by ${orderBy}
       limit $1 offset $2
     `,
@@ -272,9 +275,9 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
 
     const countR = await db().query(
       `
-      select count(distinct t.album)::int as total
+      select count(distinct t.album_id)::int as total
       from active_tracks t
-      where t.album is not null and t.album <> ''
+      where t.album_id is not null
       ${countArtistFilter}
       ${countNameFilter}
       ${countLetterFilter}
@@ -675,12 +678,13 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
     if (!artistR.rows[0]) return reply.code(404).send({ ok: false, error: 'Artist not found' });
     const artist = artistR.rows[0];
 
-    // Get albums where this artist is album artist - group by album only
+    // Get albums where this artist is album artist
     // First get first track per album, then look up album artist name
     const albumsR = await db().query(
       `
       with album_tracks as (
-        select distinct on (t.album)
+        select distinct on (t.album_id)
+          t.album_id,
           t.album,
           t.id as first_track_id,
           t.art_path,
@@ -689,21 +693,22 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         join active_tracks t on t.id = ta.track_id
         where ta.artist_id = $1
           and ta.role = 'albumartist'
-          and t.album is not null and t.album <> ''
+          and t.album_id is not null
           ${libFilter}
-        order by t.album, t.path
+        order by t.album_id, t.path
       ),
       album_counts as (
-        select t.album, count(*)::int as track_count
+        select t.album_id, count(*)::int as track_count
         from track_artists ta
         join active_tracks t on t.id = ta.track_id
         where ta.artist_id = $1
           and ta.role = 'albumartist'
-          and t.album is not null and t.album <> ''
+          and t.album_id is not null
           ${libFilter}
-        group by t.album
+        group by t.album_id
       )
       select 
+        at.album_id as id,
         at.album,
         (select a.name from track_artists ta2 join artists a on a.id = ta2.artist_id 
          where ta2.track_id = at.first_track_id and ta2.role = 'albumartist' 
@@ -712,28 +717,29 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         at.art_path,
         at.art_hash
       from album_tracks at
-      join album_counts ac on ac.album = at.album
+      join album_counts ac on ac.album_id = at.album_id
       order by at.album
     `,
       params as any
     );
 
-    // Get "appears on" albums (where artist but not album artist) - group by album only
+    // Get "appears on" albums (where artist but not album artist)
     // Exclude albums where the artist is the album artist on ANY track in the album
     const appearsOnR = await db().query(
       `
       with own_albums as (
         -- Albums where this artist is album artist on at least one track
-        select distinct t.album
+        select distinct t.album_id
         from track_artists ta
         join active_tracks t on t.id = ta.track_id
         where ta.artist_id = $1
           and ta.role = 'albumartist'
-          and t.album is not null and t.album <> ''
+          and t.album_id is not null
           ${libFilter}
       ),
       album_tracks as (
-        select distinct on (t.album)
+        select distinct on (t.album_id)
+          t.album_id,
           t.album,
           t.id as first_track_id,
           t.art_path,
@@ -742,23 +748,24 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         join active_tracks t on t.id = ta.track_id
         where ta.artist_id = $1
           and ta.role = 'artist'
-          and t.album is not null and t.album <> ''
+          and t.album_id is not null
           ${libFilter}
-          and t.album not in (select album from own_albums)
-        order by t.album, t.path
+          and t.album_id not in (select album_id from own_albums)
+        order by t.album_id, t.path
       ),
       album_counts as (
-        select t.album, count(*)::int as track_count
+        select t.album_id, count(*)::int as track_count
         from track_artists ta
         join active_tracks t on t.id = ta.track_id
         where ta.artist_id = $1
           and ta.role = 'artist'
-          and t.album is not null and t.album <> ''
+          and t.album_id is not null
           ${libFilter}
-          and t.album not in (select album from own_albums)
-        group by t.album
+          and t.album_id not in (select album_id from own_albums)
+        group by t.album_id
       )
       select 
+        at.album_id as id,
         at.album,
         (select a.name from track_artists ta2 join artists a on a.id = ta2.artist_id 
          where ta2.track_id = at.first_track_id and ta2.role = 'albumartist' 
@@ -767,7 +774,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         at.art_path,
         at.art_hash
       from album_tracks at
-      join album_counts ac on ac.album = at.album
+      join album_counts ac on ac.album_id = at.album_id
       order by at.album
     `,
       params as any
@@ -808,7 +815,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
       r = await db().query(
         `
         select distinct on (t.id) t.id, t.title, t.artist, t.album_artist, t.album, t.duration_ms, t.art_path, t.art_hash, t.path, t.genre, t.country, t.language, t.year,
-               t.track_number, t.track_total, t.disc_number, t.disc_total
+               t.track_number, t.track_total, t.disc_number, t.disc_total, t.album_id
         from active_tracks t
         join track_artists ta on ta.track_id = t.id
         where ta.artist_id = $1
@@ -842,7 +849,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         r = await db().query(
           `
           select distinct on (t.id) t.id, t.title, t.artist, t.album_artist, t.album, t.duration_ms, t.art_path, t.art_hash, t.path, t.genre, t.country, t.language, t.year,
-                 t.track_number, t.track_total, t.disc_number, t.disc_total
+                 t.track_number, t.track_total, t.disc_number, t.disc_total, t.album_id
           from active_tracks t
           join track_artists ta on ta.track_id = t.id
           where ta.artist_id = $1
@@ -867,7 +874,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
         r = await db().query(
           `
           select t.id, t.title, t.artist, t.album_artist, t.album, t.duration_ms, t.art_path, t.art_hash, t.path, t.genre, t.country, t.language, t.year,
-                 t.track_number, t.track_total, t.disc_number, t.disc_total
+                 t.track_number, t.track_total, t.disc_number, t.disc_total, t.album_id
           from active_tracks t
           where t.album = $2 and (
             t.album_artist = $1 
@@ -887,7 +894,7 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
       r = await db().query(
         `
         select t.id, t.title, t.artist, t.album_artist, t.album, t.duration_ms, t.art_path, t.art_hash, t.path, t.genre, t.country, t.language, t.year,
-               t.track_number, t.track_total, t.disc_number, t.disc_total
+               t.track_number, t.track_total, t.disc_number, t.disc_total, t.album_id
         from active_tracks t
         where t.album = $1
         ${libFilter}
@@ -898,58 +905,59 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
     }
 
     if (!r.rows.length) return reply.code(404).send({ ok: false, error: 'Album not found' });
+    return { ok: true, ...(await albumDetail(r.rows, album)) };
+  });
 
-    // Fetch all artists for each track
-    const trackIds = r.rows.map((t: any) => Number(t.id));
-    const artistsMap = await getTrackArtists(trackIds);
-    
-    const tracks = r.rows.map((t: any) => {
-      // Compute display_artist: album_artist first, fallback to first artist
-      const albumArtist = t.album_artist?.split(/[;|]/)[0]?.trim();
-      const firstArtist = t.artist?.split(/[;|]/)[0]?.trim();
-      const displayArtist = albumArtist || firstArtist || 'Unknown Artist';
-      
-      return {
-        ...t,
-        id: Number(t.id),
-        trackNumber: t.track_number,
-        trackTotal: t.track_total,
-        discNumber: t.disc_number,
-        discTotal: t.disc_total,
-        artists: artistsMap.get(Number(t.id)) ?? [],
-        display_artist: displayArtist
-      };
-    });
-
-    // Get album artist from track_artists table (first album artist of first track)
-    const firstTrack = r.rows[0];
-    const albumArtistR = await db().query(
-      `select a.name from track_artists ta
-       join artists a on a.id = ta.artist_id
-       where ta.track_id = $1 and ta.role = 'albumartist'
-       order by ta.position asc, a.name asc limit 1`,
-      [Number(firstTrack.id)]
+  // Album detail page by albums.id
+  app.get('/api/browse/albums/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const albumId = Number((req.params as { id: string }).id);
+    if (!Number.isInteger(albumId) || albumId <= 0) return reply.code(400).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const libFilter = allowed === null ? '' : `and t.library_id = any($2)`;
+    const r = await db().query(
+      `
+      select t.id, t.title, t.artist, t.album_artist, t.album, t.duration_ms, t.art_path, t.art_hash, t.path, t.genre, t.country, t.language, t.year,
+             t.track_number, t.track_total, t.disc_number, t.disc_total, t.album_id
+      from active_tracks t
+      where t.album_id = $1
+      ${libFilter}
+      order by coalesce(t.disc_number, 1), coalesce(t.track_number, 0), t.path, t.title
+      `,
+      allowed === null ? [albumId] : [albumId, allowed]
     );
-    const displayArtist = albumArtistR.rows[0]?.name 
-      || artistsMap.get(Number(firstTrack.id))?.[0]?.name 
-      || firstTrack.artist?.split(';')[0]?.trim() 
-      || 'Unknown Artist';
+    if (!r.rows.length) return reply.code(404).send({ ok: false, error: 'Album not found' });
 
-    // Calculate total discs
-    const discNumbers = r.rows.map((t: any) => t.disc_number).filter(Boolean) as number[];
-    const totalDiscs = discNumbers.length > 0 ? Math.max(...discNumbers) : 1;
+    const albumR = await db().query<{ name: string; art_path: string | null; art_hash: string | null }>(
+      'select name, art_path, art_hash from albums where id = $1',
+      [albumId]
+    );
+    const detail = await albumDetail(r.rows, albumR.rows[0]?.name ?? r.rows[0].album);
+    if (albumR.rows[0]?.art_path) {
+      detail.album.art_path = albumR.rows[0].art_path;
+      detail.album.art_hash = albumR.rows[0].art_hash;
+    }
+    return { ok: true, ...detail };
+  });
 
-    return { 
-      ok: true, 
-      album: {
-        name: album,
-        artist: displayArtist,
-        art_path: firstTrack.art_path,
-        art_hash: firstTrack.art_hash,
-        track_count: tracks.length,
-        total_discs: totalDiscs
-      },
-      tracks 
+  // Biography and similar artists (Last.fm, cached), limited to the user's libraries
+  app.get('/api/browse/artist/:id/info', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { id } = req.params as { id: string };
+    const artistId = Number(id);
+    if (!artistId) return reply.code(400).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const details = await getArtistDetails(artistId, allowed, 12);
+    if (!details) return reply.code(404).send({ ok: false, error: 'Artist not found' });
+
+    return {
+      ok: true,
+      biography: details.biography,
+      musicBrainzId: details.musicBrainzId,
+      lastfmUrl: details.lastfmUrl,
+      similar: details.similar.map((a) => ({ id: a.id, name: a.name, art_path: a.art_path, art_hash: a.art_hash })),
     };
   });
 
@@ -997,13 +1005,13 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
 
       const albumsR = await db().query(
         `
-        select t.album, count(*)::int as track_count
+        select t.album_id as id, min(t.album) as album, count(*)::int as track_count
         from track_artists ta
         join active_tracks t on t.id = ta.track_id
-        where ta.artist_id = $1 and t.album is not null and t.album <> ''
+        where ta.artist_id = $1 and t.album_id is not null
         ${libFilter}
-        group by t.album
-        order by t.album
+        group by t.album_id
+        order by album
       `,
         params as any
       );
@@ -1042,6 +1050,62 @@ export const browsePlugin: FastifyPluginAsync = fp(async (app) => {
   });
 });
 
+// Album header + tracks for the album detail endpoints; rows are already sorted by disc/track
+async function albumDetail(rows: any[], name: string) {
+  // Fetch all artists for each track
+  const trackIds = rows.map((t: any) => Number(t.id));
+  const artistsMap = await getTrackArtists(trackIds);
+  
+  const tracks = rows.map((t: any) => {
+    // Compute display_artist: album_artist first, fallback to first artist
+    const albumArtist = t.album_artist?.split(/[;|]/)[0]?.trim();
+    const firstArtist = t.artist?.split(/[;|]/)[0]?.trim();
+    const displayArtist = albumArtist || firstArtist || 'Unknown Artist';
+    
+    return {
+      ...t,
+      id: Number(t.id),
+      trackNumber: t.track_number,
+      trackTotal: t.track_total,
+      discNumber: t.disc_number,
+      discTotal: t.disc_total,
+      artists: artistsMap.get(Number(t.id)) ?? [],
+      display_artist: displayArtist
+    };
+  });
+
+  // Get album artist from track_artists table (first album artist of first track)
+  const firstTrack = rows[0];
+  const albumArtistR = await db().query(
+    `select a.name from track_artists ta
+     join artists a on a.id = ta.artist_id
+     where ta.track_id = $1 and ta.role = 'albumartist'
+     order by ta.position asc, a.name asc limit 1`,
+    [Number(firstTrack.id)]
+  );
+  const displayArtist = albumArtistR.rows[0]?.name 
+    || artistsMap.get(Number(firstTrack.id))?.[0]?.name 
+    || firstTrack.artist?.split(';')[0]?.trim() 
+    || 'Unknown Artist';
+
+  // Calculate total discs
+  const discNumbers = rows.map((t: any) => t.disc_number).filter(Boolean) as number[];
+  const totalDiscs = discNumbers.length > 0 ? Math.max(...discNumbers) : 1;
+
+  return {
+    album: {
+      id: firstTrack.album_id != null ? Number(firstTrack.album_id) : null,
+      name,
+      artist: displayArtist,
+      art_path: firstTrack.art_path as string | null,
+      art_hash: firstTrack.art_hash as string | null,
+      track_count: tracks.length,
+      total_discs: totalDiscs
+    },
+    tracks
+  };
+}
+
 // Helper to get all artists for a list of track IDs
 async function getTrackArtists(trackIds: number[]): Promise<Map<number, Array<{ id: number; name: string }>>> {
   if (!trackIds.length) return new Map();
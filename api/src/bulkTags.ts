@@ -0,0 +1,196 @@
+import path from 'node:path';
+import { db } from './db.js';
+import { readTagValues, TAG_FIELDS, tagFormatFor, type TagField, type TagValues } from './tagWriter.js';
+
+export const MAX_BULK_TRACKS = 1000;
+
+// Fields a find/replace can run on; numbers go through `set` or renumbering instead
+const TEXT_FIELDS: TagField[] = [
+  'title', 'album', 'artists', 'albumArtist', 'genre', 'country', 'language', 'composer', 'initialKey', 'isrc',
+];
+
+export type CurrentTags = { trackId: number; path: string; values: Record<TagField, string[]> };
+
+export type FieldReplace = { field: TagField; find: string; replace: string; regex?: boolean; caseSensitive?: boolean };
+
+export type BulkEdit = {
+  set: TagValues;
+  replace: FieldReplace[];
+  // Numbers tracks 1..n by file name, restarting on each disc
+  renumber: boolean;
+};
+
+export type TrackChange = {
+  trackId: number;
+  path: string;
+  fields: Partial<Record<TagField, { from: string[]; to: string[] }>>;
+  values: TagValues;
+};
+
+function safeJoinMount(mountPath: string, relPath: string) {
+  const abs = path.resolve(mountPath, relPath);
+  const base = path.resolve(mountPath);
+  if (!abs.startsWith(base + path.sep)) throw new Error('invalid path');
+  return abs;
+}
+
+const splitList = (s: string | null | undefined) =>
+  (s ?? '').split(/\s*;\s*/).map((x) => x.trim()).filter(Boolean);
+
+const single = (v: string | number | null | undefined) => (v == null || String(v).trim() === '' ? [] : [String(v).trim()]);
+
+/**
+ * Reads what the tags of each track currently hold, as stored by the last scan. `fromFile` fields are read
+ * from the file itself instead: the scanner splits artists and moves genres into country/language, and a
+ * find/replace must not write those derived values back.
+ */
+export async function loadCurrentTags(trackIds: number[], fromFile: TagField[] = []): Promise<CurrentTags[]> {
+  const fileFields = [...new Set(fromFile)].filter((f) => TEXT_FIELDS.includes(f));
+  const r = await db().query<{
+    id: number;
+    path: string;
+    ext: string;
+    mount_path: string;
+    title: string | null;
+    album: string | null;
+    artist: string | null;
+    album_artist: string | null;
+    artists: string[] | null;
+    album_artists: string[] | null;
+    genre: string | null;
+    year: number | null;
+    track_number: number | null;
+    disc_number: number | null;
+    country: string | null;
+    language: string | null;
+    composer: string | null;
+    bpm: number | null;
+    initial_key: string | null;
+    isrc: string | null;
+    musicbrainz_track_id: string | null;
+    musicbrainz_release_id: string | null;
+    musicbrainz_artist_id: string | null;
+    musicbrainz_album_artist_id: string | null;
+  }>(
+    `select t.id, t.path, t.ext, l.mount_path, t.title, t.album, t.artist, t.album_artist, t.genre, t.year, t.track_number, t.disc_number,
+            t.country, t.language, t.composer, t.bpm, t.initial_key, t.isrc,
+            t.musicbrainz_track_id, t.musicbrainz_release_id, t.musicbrainz_artist_id, t.musicbrainz_album_artist_id,
+            (select array_agg(a.name order by ta.position) from track_artists ta join artists a on a.id = ta.artist_id
+              where ta.track_id = t.id and ta.role = 'artist') as artists,
+            (select array_agg(a.name order by ta.position) from track_artists ta join artists a on a.id = ta.artist_id
+              where ta.track_id = t.id and ta.role = 'albumartist') as album_artists
+       from active_tracks t
+       join libraries l on l.id = t.library_id
+      where t.id = any($1)
+      order by t.path`,
+    [trackIds]
+  );
+
+  const out: CurrentTags[] = [];
+  // One file at a time: reads are async so the server stays responsive, and memory stays at one file
+  for (const t of r.rows) {
+    let fileValues: Partial<Record<TagField, string[]>> = {};
+    // Formats we can't tag fail on write anyway; keep the stored values for their preview
+    if (fileFields.length > 0 && tagFormatFor(t.ext ?? '')) {
+      try {
+        fileValues = await readTagValues(safeJoinMount(t.mount_path, t.path), fileFields);
+      } catch (e: any) {
+        throw new Error(`Could not read tags of ${t.path}: ${e?.message ?? String(e)}`);
+      }
+    }
+    const values: Record<TagField, string[]> = {
+      title: single(t.title),
+      album: single(t.album),
+      artists: t.artists?.length ? t.artists : single(t.artist),
+      albumArtist: t.album_artists?.length ? t.album_artists : splitList(t.album_artist),
+      genre: splitList(t.genre),
+      year: single(t.year),
+      trackNumber: single(t.track_number),
+      discNumber: single(t.disc_number),
+      country: splitList(t.country),
+      language: splitList(t.language),
+      composer: splitList(t.composer),
+      bpm: t.bpm == null ? [] : single(Math.round(Number(t.bpm))),
+      initialKey: single(t.initial_key),
+      isrc: single(t.isrc),
+      musicbrainzTrackId: single(t.musicbrainz_track_id),
+      musicbrainzReleaseId: single(t.musicbrainz_release_id),
+      musicbrainzArtistId: splitList(t.musicbrainz_artist_id),
+      musicbrainzAlbumArtistId: splitList(t.musicbrainz_album_artist_id),
+    };
+    out.push({ trackId: Number(t.id), path: t.path, values: { ...values, ...fileValues } });
+  }
+  return out;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Checks a find/replace rule up front so a bad pattern fails the request instead of one track. */
+export function compileReplace(rule: FieldReplace): { field: TagField; apply: (v: string) => string } {
+  if (!TEXT_FIELDS.includes(rule.field)) throw new Error(`Find/replace is not supported for ${rule.field}`);
+  if (!rule.find) throw new Error('Find text is required');
+  const flags = rule.caseSensitive ? 'g' : 'gi';
+  if (rule.regex) {
+    let re: RegExp;
+    try {
+      re = new RegExp(rule.find, flags);
+    } catch (e: any) {
+      throw new Error(`Invalid pattern: ${e?.message ?? String(e)}`);
+    }
+    return { field: rule.field, apply: (v) => v.replace(re, rule.replace ?? '') };
+  }
+  // Plain text: `$` in the replacement is literal
+  const re = new RegExp(escapeRegExp(rule.find), flags);
+  return { field: rule.field, apply: (v) => v.replace(re, () => rule.replace ?? '') };
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((x, i) => x === b[i]);
+
+/** Works out the new tag values for every track; tracks that end up unchanged are left out. */
+export function planBulkEdit(tracks: CurrentTags[], edit: BulkEdit): TrackChange[] {
+  const rules = edit.replace.map(compileReplace);
+
+  const planned = tracks.map((t) => {
+    const next = { ...t.values };
+    for (const field of TAG_FIELDS) {
+      const v = edit.set[field];
+      if (v !== undefined) next[field] = v ?? [];
+    }
+    for (const rule of rules) {
+      next[rule.field] = next[rule.field].map(rule.apply).map((x) => x.trim()).filter(Boolean);
+    }
+    return { track: t, next };
+  });
+
+  if (edit.renumber) {
+    const byDisc = new Map<string, typeof planned>();
+    for (const p of planned) {
+      const disc = p.next.discNumber[0] ?? '';
+      const list = byDisc.get(disc) ?? [];
+      list.push(p);
+      byDisc.set(disc, list);
+    }
+    const fileName = (p: string) => p.replace(/\\/g, '/').split('/').pop() ?? p;
+    for (const list of byDisc.values()) {
+      list.sort((a, b) => fileName(a.track.path).localeCompare(fileName(b.track.path), undefined, { numeric: true, sensitivity: 'base' })
+        || a.track.path.localeCompare(b.track.path));
+      list.forEach((p, i) => {
+        p.next.trackNumber = [String(i + 1)];
+      });
+    }
+  }
+
+  const changes: TrackChange[] = [];
+  for (const { track, next } of planned) {
+    const change: TrackChange = { trackId: track.trackId, path: track.path, fields: {}, values: {} };
+    for (const field of TAG_FIELDS) {
+      if (sameList(track.values[field], next[field])) continue;
+      change.fields[field] = { from: track.values[field], to: next[field] };
+      change.values[field] = next[field].length ? next[field] : null;
+    }
+    if (Object.keys(change.fields).length > 0) changes.push(change);
+  }
+  return changes;
+}
@@ -0,0 +1,34 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { addChatMessage, CHAT_MESSAGE_MAX_LENGTH, listChatMessages, type ChatMessageRow } from './chatRepo.js';
+import { broadcast } from './websocket.js';
+
+export function serializeChatMessage(m: ChatMessageRow) {
+  return { id: m.id, userId: m.user_id, username: m.username, message: m.message, time: m.created_at.getTime() };
+}
+
+// Stores a message and pushes it to every connected web client
+export async function postChatMessage(userId: string, text: string) {
+  const message = await addChatMessage(userId, text.trim().slice(0, CHAT_MESSAGE_MAX_LENGTH));
+  broadcast('chat:message', serializeChatMessage(message));
+  return message;
+}
+
+export const chatPlugin: FastifyPluginAsync = fp(async (app) => {
+  app.get('/api/chat', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const q = req.query as { since?: string };
+    const since = q.since ? Number(q.since) : NaN;
+    const messages = await listChatMessages(Number.isFinite(since) ? new Date(since) : null);
+    return { ok: true, messages: messages.map(serializeChatMessage) };
+  });
+
+  app.post('/api/chat', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const body = (req.body ?? {}) as { message?: string };
+    const text = String(body.message ?? '');
+    if (!text.trim()) return reply.code(400).send({ ok: false, error: 'message_required' });
+    const message = await postChatMessage(req.user.userId, text);
+    return { ok: true, message: serializeChatMessage(message) };
+  });
+});
@@ -0,0 +1,47 @@
+import { db } from './db.js';
+
+export const CHAT_MESSAGE_MAX_LENGTH = 2000;
+
+export type ChatMessageRow = {
+  id: number;
+  user_id: string;
+  username: string;
+  message: string;
+  created_at: Date;
+};
+
+function mapRow(row: ChatMessageRow): ChatMessageRow {
+  return { ...row, id: Number(row.id) };
+}
+
+// Newest `limit` messages after `since`, returned oldest first.
+// `since` comes back from clients as a millisecond timestamp, so compare at that precision.
+export async function listChatMessages(since: Date | null, limit = 200) {
+  const r = await db().query<ChatMessageRow>(
+    `select * from (
+       select m.id, m.user_id, u.email as username, m.message, m.created_at
+         from chat_messages m
+         join users u on u.id = m.user_id
+        where ($1::timestamptz is null or date_trunc('milliseconds', m.created_at) > $1)
+        order by m.created_at desc, m.id desc
+        limit $2
+     ) x
+     order by created_at asc, id asc`,
+    [since, limit]
+  );
+  return r.rows.map(mapRow);
+}
+
+export async function addChatMessage(userId: string, message: string) {
+  const r = await db().query<ChatMessageRow>(
+    `with inserted as (
+       insert into chat_messages(user_id, message) values ($1, $2)
+       returning id, user_id, message, created_at
+     )
+     select i.id, i.user_id, u.email as username, i.message, i.created_at
+       from inserted i
+       join users u on u.id = i.user_id`,
+    [userId, message]
+  );
+  return mapRow(r.rows[0]);
+}
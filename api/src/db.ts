@@ -126,9 +126,58 @@ export async function initDb() {
     );
   `);
 
+  // Comma-separated rendition set (e.g. aac-64,aac-128); null for single-rendition jobs
+  await pool.query('alter table transcode_jobs add column if not exists profiles text');
+  // Cache accounting for LRU eviction (sizes are filled in by the worker)
+  await pool.query('alter table transcode_jobs add column if not exists size_bytes bigint');
+  await pool.query('alter table transcode_jobs add column if not exists last_accessed_at timestamptz');
+  // Higher runs first: 100 = the track being played, 50 = prefetch of upcoming queue entries, 10 = bulk
+  await pool.query('alter table transcode_jobs add column if not exists priority smallint not null default 100');
+  // Worker instance holding a running job; stale heartbeats are re-queued by the other workers
+  await pool.query('alter table transcode_jobs add column if not exists claimed_by text');
+  await pool.query('alter table transcode_jobs add column if not exists heartbeat_at timestamptz');
   await pool.query('create index if not exists transcode_jobs_state_id_idx on transcode_jobs(state, id)');
   await pool.query('create index if not exists transcode_jobs_track_cache_idx on transcode_jobs(track_id, cache_key, id desc)');
 
+  // Everyone waiting on a job and at which priority; a job is only cancelled once nobody wants it
+  await pool.query(`
+    create table if not exists transcode_job_requests (
+      job_id bigint not null references transcode_jobs(id) on delete cascade,
+      user_id text not null,
+      priority smallint not null,
+      requested_at timestamptz not null default now(),
+      primary key (job_id, user_id)
+    );
+  `);
+  await pool.query('create index if not exists transcode_job_requests_user_idx on transcode_job_requests(user_id)');
+
+  // One waveform per track; mtime_ms is the file version the peaks were (or will be) computed from
+  await pool.query(`
+    create table if not exists waveform_jobs (
+      track_id bigint primary key references tracks(id) on delete cascade,
+      mtime_ms bigint not null,
+      state text not null default 'queued',
+      requested_at timestamptz not null default now(),
+      started_at timestamptz,
+      finished_at timestamptz,
+      error text
+    );
+  `);
+  await pool.query('create index if not exists waveform_jobs_state_idx on waveform_jobs(state, requested_at)');
+  await pool.query('create index if not exists transcode_jobs_queue_idx on transcode_jobs(state, priority desc, id)');
+
+  // Bytes served to each user per day and client type; live sessions only exist in memory
+  await pool.query(`
+    create table if not exists stream_bandwidth (
+      day date not null,
+      user_id text not null references users(id) on delete cascade,
+      client text not null,
+      bytes bigint not null default 0,
+      streams integer not null default 0,
+      primary key (day, user_id, client)
+    );
+  `);
+
   await pool.query(`
     create table if not exists playlists (
       id bigserial primary key,
@@ -196,6 +245,97 @@ export async function initDb() {
 
   await pool.query('create index if not exists user_track_stats_user_play_count_idx on user_track_stats(user_id, play_count desc)');
 
+  // Per-user 1-5 star ratings (shared by the web UI and Subsonic setRating)
+  await pool.query(`
+    create table if not exists track_ratings (
+      user_id text not null references users(id) on delete cascade,
+      track_id bigint not null references tracks(id) on delete cascade,
+      rating smallint not null check (rating between 1 and 5),
+      rated_at timestamptz not null default now(),
+      primary key (user_id, track_id)
+    );
+  `);
+  await pool.query('create index if not exists track_ratings_user_rating_idx on track_ratings(user_id, rating desc)');
+
+  // Public share links (tracks are snapshotted when the share is created)
+  await pool.query(`
+    create table if not exists shares (
+      id bigserial primary key,
+      token text not null unique,
+      user_id text not null references users(id) on delete cascade,
+      kind text not null default 'tracks',
+      title text,
+      description text,
+      password_hash text,
+      expires_at timestamptz,
+      view_count int not null default 0,
+      last_viewed_at timestamptz,
+      created_at timestamptz not null default now()
+    );
+  `);
+  await pool.query('create index if not exists shares_user_id_idx on shares(user_id, created_at desc)');
+  await pool.query(`
+    create table if not exists share_items (
+      share_id bigint not null references shares(id) on delete cascade,
+      track_id bigint not null references tracks(id) on delete cascade,
+      position int not null,
+      primary key (share_id, track_id)
+    );
+  `);
+
+  // Internet radio stations; user_id null = shared station managed by admins
+  await pool.query(`
+    create table if not exists radio_stations (
+      id bigserial primary key,
+      user_id text references users(id) on delete cascade,
+      name text not null,
+      stream_url text not null,
+      homepage_url text,
+      artwork_url text,
+      relay boolean not null default false,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    );
+  `);
+  await pool.query('create index if not exists radio_stations_user_id_idx on radio_stations(user_id)');
+
+  // OpenSubsonic API keys; only a sha256 of the key is stored
+  await pool.query(`
+    create table if not exists subsonic_api_keys (
+      id bigserial primary key,
+      user_id text not null references users(id) on delete cascade,
+      name text not null,
+      key_hash text not null unique,
+      key_prefix text not null,
+      created_at timestamptz not null default now(),
+      last_used_at timestamptz
+    );
+  `);
+  await pool.query('create index if not exists subsonic_api_keys_user_id_idx on subsonic_api_keys(user_id)');
+
+  // Shared message board for the web app and Subsonic chat clients
+  await pool.query(`
+    create table if not exists chat_messages (
+      id bigserial primary key,
+      user_id text not null references users(id) on delete cascade,
+      message text not null,
+      created_at timestamptz not null default now()
+    );
+  `);
+  await pool.query('create index if not exists chat_messages_created_at_idx on chat_messages(created_at desc)');
+
+  // Per-user play queue shared by the web player and Subsonic get/savePlayQueue
+  await pool.query(`
+    create table if not exists play_queues (
+      user_id text primary key references users(id) on delete cascade,
+      track_ids bigint[] not null default '{}',
+      current_index int not null default 0,
+      position_ms bigint not null default 0,
+      changed_by text,
+      updated_at timestamptz not null default now()
+    );
+  `);
+
   await pool.query(`
     create table if not exists libraries (
       id bigserial primary key,
@@ -252,6 +392,19 @@ export async function initDb() {
   await pool.query('alter table tracks add column if not exists musicbrainz_release_id text');
   await pool.query('alter table tracks add column if not exists musicbrainz_artist_id text');
   await pool.query('alter table tracks add column if not exists musicbrainz_album_artist_id text');
+  // ReplayGain (dB relative to -18 LUFS, linear peaks), from tags or the worker's ebur128 backfill
+  await pool.query('alter table tracks add column if not exists replaygain_track_gain real');
+  await pool.query('alter table tracks add column if not exists replaygain_track_peak real');
+  await pool.query('alter table tracks add column if not exists replaygain_album_gain real');
+  await pool.query('alter table tracks add column if not exists replaygain_album_peak real');
+  // Measured integrated loudness (LUFS); loudness_checked_at marks files the backfill already tried
+  await pool.query('alter table tracks add column if not exists loudness_lufs real');
+  await pool.query('alter table tracks add column if not exists loudness_checked_at timestamptz');
+  // Gapless playback: encoder delay/padding (samples) from LAME or iTunSMPB, total samples including both
+  await pool.query('alter table tracks add column if not exists encoder_delay integer');
+  await pool.query('alter table tracks add column if not exists encoder_padding integer');
+  await pool.query('alter table tracks add column if not exists sample_rate integer');
+  await pool.query('alter table tracks add column if not exists sample_count bigint');
 
   await pool.query(`
     create table if not exists artists (
@@ -429,6 +582,8 @@ export async function initDb() {
     alter table users add column if not exists listenbrainz_username text;
     alter table users add column if not exists subsonic_password text;
   `);
+  // ZIP and Subsonic downloads; streaming is unaffected
+  await pool.query('alter table users add column if not exists download_allowed boolean not null default true');
 
   // Search logs for search-based recommendation buckets
   await pool.query(`
@@ -467,6 +622,43 @@ export async function initDb() {
   await pool.query('alter table tracks add column if not exists created_at timestamptz not null default now()');
   await pool.query('create index if not exists tracks_created_at_idx on tracks(created_at desc)');
 
+  // Albums: keyed by MusicBrainz release id, or by folder + album + album artist when untagged
+  await pool.query(`
+    create table if not exists albums (
+      id bigserial primary key,
+      album_key text not null unique,
+      name text not null,
+      album_artist text,
+      musicbrainz_release_id text,
+      year integer,
+      art_path text,
+      art_hash text,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    );
+  `);
+  await pool.query('create index if not exists albums_name_idx on albums(lower(name))');
+  await pool.query('alter table tracks add column if not exists album_id bigint references albums(id) on delete set null');
+  await pool.query('create index if not exists tracks_album_id_idx on tracks(album_id)');
+
+  // Fingerprint of the file's size + head + tail, used by the scanner to follow moved/renamed files
+  await pool.query('alter table tracks add column if not exists content_hash text');
+  await pool.query('create index if not exists tracks_content_hash_idx on tracks(library_id, content_hash) where content_hash is not null');
+
+  // Original tag items replaced by admin metadata edits, kept for undo
+  await pool.query(`
+    create table if not exists track_tag_backups (
+      id bigserial primary key,
+      track_id bigint not null references tracks(id) on delete cascade,
+      path text not null,
+      backup jsonb not null,
+      created_by text references users(id) on delete set null,
+      created_at timestamptz not null default now(),
+      restored_at timestamptz
+    );
+  `);
+  await pool.query('create index if not exists track_tag_backups_track_idx on track_tag_backups(track_id, created_at desc)');
+
   // Recreate active_tracks view; only append columns to avoid breaking CREATE OR REPLACE VIEW
   await pool.query(`
     create or replace view active_tracks as
@@ -478,7 +670,9 @@ export async function initDb() {
            isrc, release_date, original_year, compilation,
            title_sort, artist_sort, album_sort, album_artist_sort,
            musicbrainz_track_id, musicbrainz_release_id, musicbrainz_artist_id, musicbrainz_album_artist_id,
-           embedded_lyrics, embedded_lyrics_synced
+           embedded_lyrics, embedded_lyrics_synced,
+           replaygain_track_gain, replaygain_track_peak, replaygain_album_gain, replaygain_album_peak,
+           encoder_delay, encoder_padding, sample_rate, sample_count, album_id
     from tracks where deleted_at is null
   `);
 
@@ -649,6 +843,16 @@ export async function initDb() {
       updated_at timestamptz not null default now()
     );
   `);
+  // Default transcoding for Subsonic streams ('raw' keeps the original file; 0 = no bitrate cap)
+  await pool.query("alter table user_preferences add column if not exists transcode_format text not null default 'raw'");
+  await pool.query('alter table user_preferences add column if not exists transcode_max_bitrate int not null default 0');
+  // Web player volume normalization: 'off', 'track' or 'album' ReplayGain
+  await pool.query("alter table user_preferences add column if not exists replaygain_mode text not null default 'off'");
+  // Web player crossfade between queue entries (0 = gapless only)
+  await pool.query('alter table user_preferences add column if not exists crossfade_seconds int not null default 0');
+  // Web player equalizer presets and the preset chosen per output device
+  await pool.query("alter table user_preferences add column if not exists eq_presets jsonb not null default '[]'::jsonb");
+  await pool.query("alter table user_preferences add column if not exists eq_outputs jsonb not null default '{}'::jsonb");
 
   // ========================================================================
   // POPULATE ASCII NAMES FOR ARTISTS (one-time migration - runs in background)
@@ -0,0 +1,319 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { audit, db } from './db.js';
+import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+import { buildSmartPlaylistQuery, normalizeFilters } from './smartPlaylists.js';
+import { resolveTranscode, startTranscode } from './transcode.js';
+import { createZipStream, type ZipEntry } from './zipStream.js';
+import { sanitizeSegment } from './pathTemplate.js';
+import * as users from './userRepo.js';
+
+const MAX_ZIP_TRACKS = 5000;
+// On-the-fly transcodes offered for phones; anything else sends the original files
+const ZIP_FORMATS = new Set(['mp3', 'opus']);
+
+const DOWNLOAD_COLUMNS = `t.id, t.library_id, t.path, t.ext, t.mtime_ms, t.size_bytes, t.duration_ms, t.title, t.artist,
+  t.album_artist, t.album, t.track_number, t.disc_number, t.year`;
+
+type DownloadTrack = {
+  id: number;
+  library_id: number;
+  path: string;
+  ext: string;
+  mtime_ms: string;
+  size_bytes: string;
+  duration_ms: number | null;
+  title: string | null;
+  artist: string | null;
+  album_artist: string | null;
+  album: string | null;
+  track_number: number | null;
+  disc_number: number | null;
+  year: number | null;
+};
+
+type ZipOptions = { pattern: string; format: 'mp3' | 'opus' | null; bitrate: number };
+
+function safeJoinMount(mountPath: string, relPath: string) {
+  const abs = path.resolve(mountPath, relPath);
+  const base = path.resolve(mountPath);
+  if (!abs.startsWith(base + path.sep)) throw new Error('invalid path');
+  return abs;
+}
+
+function zipOptions(req: FastifyRequest): ZipOptions {
+  const q = req.query as { pattern?: string; format?: string; bitrate?: string };
+  const format = q.format && ZIP_FORMATS.has(q.format) ? (q.format as 'mp3' | 'opus') : null;
+  const bitrate = Number(q.bitrate);
+  return {
+    pattern: String(q.pattern ?? '').slice(0, 300),
+    format,
+    bitrate: Number.isFinite(bitrate) && bitrate > 0 ? bitrate : 0,
+  };
+}
+
+const pad = (n: number | null, width: number) => (n == null ? '' : String(n).padStart(width, '0'));
+
+// Tokens: {artist} {albumartist} {album} {title} {track} {disc} {year} {n} {filename}; "/" makes folders
+function renderName(t: DownloadTrack, pattern: string, position: number, total: number, ext: string) {
+  const original = path.basename(t.path, path.extname(t.path));
+  if (!pattern.trim()) return `${sanitizeSegment(original)}${ext}`;
+  const values: Record<string, string> = {
+    artist: t.artist ?? 'Unknown Artist',
+    albumartist: t.album_artist ?? t.artist ?? 'Unknown Artist',
+    album: t.album ?? 'Unknown Album',
+    title: t.title ?? original,
+    track: pad(t.track_number, 2),
+    disc: pad(t.disc_number, 1),
+    year: t.year ? String(t.year) : '',
+    n: pad(position, Math.max(2, String(total).length)),
+    filename: original,
+  };
+  const segments = pattern
+    .split('/')
+    .map((seg) => seg.replace(/\{(\w+)\}/g, (m, key: string) => values[key.toLowerCase()] ?? m).trim())
+    .filter((seg) => seg.length > 0)
+    .map(sanitizeSegment);
+  return `${segments.length ? segments.join('/') : sanitizeSegment(original)}${ext}`;
+}
+
+function uniqueName(name: string, used: Set<string>) {
+  const ext = path.posix.extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  let candidate = name;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) candidate = `${stem} (${i})${ext}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function contentDisposition(label: string) {
+  const name = `${sanitizeSegment(label)}.zip`;
+  const ascii = name.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, "'");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+async function mountPaths() {
+  const r = await db().query<{ id: number; mount_path: string }>('select id, mount_path from libraries');
+  return new Map(r.rows.map((l) => [Number(l.id), l.mount_path]));
+}
+
+async function sendZip(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  kind: string,
+  target: Record<string, unknown>,
+  label: string,
+  tracks: DownloadTrack[]
+) {
+  if (tracks.length === 0) return reply.code(404).send({ ok: false, error: 'no_tracks' });
+  if (tracks.length > MAX_ZIP_TRACKS) return reply.code(413).send({ ok: false, error: 'too_many_tracks', max: MAX_ZIP_TRACKS });
+
+  const opts = zipOptions(req);
+  const mounts = await mountPaths();
+  const used = new Set<string>();
+
+  const entries: ZipEntry[] = tracks.map((t, i) => {
+    const transcode = opts.format
+      ? resolveTranscode({
+          ext: t.ext,
+          sizeBytes: Number(t.size_bytes),
+          durationMs: t.duration_ms ?? 0,
+          requestedFormat: opts.format,
+          requestedMaxKbps: opts.bitrate,
+          userFormat: 'raw',
+          userMaxKbps: 0,
+        })
+      : null;
+    const ext = transcode ? `.${transcode.format}` : t.ext.toLowerCase();
+    return {
+      name: uniqueName(renderName(t, opts.pattern, i + 1, tracks.length, ext), used),
+      mtime: new Date(Number(t.mtime_ms)),
+      open: async () => {
+        const mount = mounts.get(Number(t.library_id));
+        if (!mount) return null;
+        try {
+          const abs = safeJoinMount(mount, t.path);
+          if (!(await stat(abs)).isFile()) return null;
+          return transcode ? startTranscode(abs, transcode) : { stream: createReadStream(abs) };
+        } catch {
+          return null;
+        }
+      },
+    };
+  });
+
+  await audit('download_zip', {
+    userId: req.user!.userId,
+    kind,
+    ...target,
+    tracks: tracks.length,
+    format: opts.format ?? 'original',
+    pattern: opts.pattern || null,
+  });
+
+  reply
+    .header('Content-Type', 'application/zip')
+    .header('Content-Disposition', contentDisposition(label))
+    .header('Cache-Control', 'no-store');
+  return reply.send(createZipStream(entries));
+}
+
+// Sends the error reply and returns false when the user may not download
+async function checkDownload(req: FastifyRequest, reply: FastifyReply) {
+  if (!req.user) {
+    reply.code(401).send({ ok: false });
+    return false;
+  }
+  if (!(await users.canDownload(req.user.userId, req.user.role))) {
+    reply.code(403).send({ ok: false, error: 'downloads_not_allowed' });
+    return false;
+  }
+  return true;
+}
+
+const sortTracks = `order by t.album nulls last, coalesce(t.disc_number, 1), coalesce(t.track_number, 0), t.path`;
+
+// Streamed ZIP archives of an album, artist, playlist, smart playlist or folder
+export const downloadsPlugin: FastifyPluginAsync = fp(async (app) => {
+  // Same album identification as /api/browse/album: by artist id, artist name, or album name alone
+  app.get('/api/download/album', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const q = req.query as { album?: string; artist?: string; artistId?: string };
+    const album = (q.album ?? '').trim();
+    if (!album) return reply.code(400).send({ ok: false });
+    // The web client sends "null"/"undefined" for albums without an artist
+    let artist = (q.artist ?? '').trim();
+    if (artist === 'null' || artist === 'undefined') artist = '';
+    let artistId = Number(q.artistId);
+    if (!(artistId > 0) && artist) {
+      const found = await db().query<{ id: number }>('select id from artists where name = $1 limit 1', [artist]);
+      artistId = Number(found.rows[0]?.id ?? 0);
+    }
+
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    const params: unknown[] = [album];
+    let artistFilter = '';
+    if (artistId > 0) {
+      params.push(artistId);
+      artistFilter = `and exists (select 1 from track_artists ta where ta.track_id = t.id and ta.artist_id = $${params.length})`;
+    } else if (artist) {
+      // Artist not in the artists table yet: match the tag strings like the browse view does
+      params.push(artist);
+      const n = params.length;
+      artistFilter = `and (t.album_artist = $${n} or t.artist = $${n} or t.album_artist like $${n} || ';%' or t.artist like $${n} || ';%')`;
+    }
+    let libFilter = '';
+    if (allowed !== null) {
+      params.push(allowed);
+      libFilter = `and t.library_id = any($${params.length})`;
+    }
+
+    const r = await db().query<DownloadTrack>(
+      `select ${DOWNLOAD_COLUMNS} from active_tracks t where t.album = $1 ${artistFilter} ${libFilter} ${sortTracks}`,
+      params
+    );
+    const label = artist ? `${artist} - ${album}` : album;
+    return sendZip(req, reply, 'album', { album, artistId: artistId > 0 ? artistId : null, artist: artist || null }, label, r.rows);
+  });
+
+  app.get('/api/download/albums/:id', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const albumId = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(albumId)) return reply.code(400).send({ ok: false });
+    const a = await db().query<{ name: string; album_artist: string | null }>('select name, album_artist from albums where id = $1', [albumId]);
+    if (!a.rows[0]) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    const libFilter = allowed === null ? '' : 'and t.library_id = any($2)';
+    const r = await db().query<DownloadTrack>(
+      `select ${DOWNLOAD_COLUMNS} from active_tracks t where t.album_id = $1 ${libFilter} ${sortTracks}`,
+      allowed === null ? [albumId] : [albumId, allowed]
+    );
+    const { name, album_artist } = a.rows[0];
+    return sendZip(req, reply, 'album', { albumId, album: name }, album_artist ? `${album_artist} - ${name}` : name, r.rows);
+  });
+
+  app.get('/api/download/artist/:id', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const artistId = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(artistId)) return reply.code(400).send({ ok: false });
+    const a = await db().query<{ name: string }>('select name from artists where id = $1', [artistId]);
+    if (!a.rows[0]) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    const params: unknown[] = allowed === null ? [artistId] : [artistId, allowed];
+    const r = await db().query<DownloadTrack>(
+      `select ${DOWNLOAD_COLUMNS} from active_tracks t
+        where t.id in (select track_id from track_artists where artist_id = $1)
+          ${allowed === null ? '' : 'and t.library_id = any($2)'}
+        ${sortTracks}`,
+      params
+    );
+    return sendZip(req, reply, 'artist', { artistId }, a.rows[0].name, r.rows);
+  });
+
+  app.get('/api/download/playlist/:id', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const playlistId = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(playlistId)) return reply.code(400).send({ ok: false });
+    const p = await db().query<{ name: string }>('select name from playlists where id = $1 and user_id = $2', [playlistId, req.user!.userId]);
+    if (!p.rows[0]) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    const r = await db().query<DownloadTrack>(
+      `select ${DOWNLOAD_COLUMNS} from playlist_items pi
+         join active_tracks t on t.id = pi.track_id
+        where pi.playlist_id = $1
+        order by pi.position asc, pi.track_id asc`,
+      [playlistId]
+    );
+    const tracks = r.rows.filter((t) => isLibraryAllowed(Number(t.library_id), allowed));
+    return sendZip(req, reply, 'playlist', { playlistId }, p.rows[0].name, tracks);
+  });
+
+  app.get('/api/download/smart-playlist/:id', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const sp = await db().query<{ name: string; filters_json: unknown; sort_mode: string | null }>(
+      'select name, filters_json, sort_mode from smart_playlists where id = $1 and user_id = $2',
+      [id, req.user!.userId]
+    );
+    const row = sp.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+
+    const filters = normalizeFilters(row.filters_json);
+    const limit = Math.min(MAX_ZIP_TRACKS + 1, filters.maxResults ?? MAX_ZIP_TRACKS + 1);
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    const { sql, params } = await buildSmartPlaylistQuery(req.user!.userId, filters, row.sort_mode || 'random', allowed, DOWNLOAD_COLUMNS);
+    const r = await db().query<DownloadTrack>(`${sql} limit $${params.length + 1}`, [...params, limit]);
+    return sendZip(req, reply, 'smart_playlist', { smartPlaylistId: id }, row.name, r.rows);
+  });
+
+  // Everything below a directory of a library; an empty path downloads the whole library
+  app.get('/api/download/folder', async (req, reply) => {
+    if (!(await checkDownload(req, reply))) return reply;
+    const q = req.query as { libraryId?: string; path?: string };
+    const libraryId = Number(q.libraryId);
+    if (!Number.isFinite(libraryId)) return reply.code(400).send({ ok: false });
+    const allowed = await allowedLibrariesForUser(req.user!.userId, req.user!.role);
+    if (!isLibraryAllowed(libraryId, allowed)) return reply.code(404).send({ ok: false });
+
+    const dir = String(q.path ?? '').replace(/^\/+|\/+$/g, '');
+    if (dir.split('/').includes('..')) return reply.code(400).send({ ok: false });
+    const prefix = dir ? `${dir.replace(/[\\%_]/g, '\\$&')}/%` : '%';
+    const r = await db().query<DownloadTrack>(
+      `select ${DOWNLOAD_COLUMNS} from active_tracks t
+        where t.library_id = $1 and t.path like $2
+        order by t.path
+        limit ${MAX_ZIP_TRACKS + 1}`,
+      [libraryId, prefix]
+    );
+    const lib = await db().query<{ mount_path: string }>('select mount_path from libraries where id = $1', [libraryId]);
+    const label = dir ? path.posix.basename(dir) : path.basename(lib.rows[0]?.mount_path ?? 'library');
+    return sendZip(req, reply, 'folder', { libraryId, path: dir }, label, r.rows);
+  });
+});
@@ -1,13 +1,50 @@
 import fp from 'fastify-plugin';
 import type { FastifyPluginAsync } from 'fastify';
 import { createReadStream } from 'node:fs';
-import { mkdir, stat } from 'node:fs/promises';
+import { mkdir, rm, stat } from 'node:fs/promises';
 import path from 'node:path';
-import { db } from './db.js';
+import { audit, db, redis } from './db.js';
 import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+import { openStreamSession } from './streamSessions.js';
 
 const HLS_DIR = process.env.HLS_DIR ?? '/hls';
 
+type HlsProfile = { codec: 'aac' | 'opus'; kbps: number };
+
+// Renditions listed in the master playlist, e.g. "aac-64,aac-128,aac-256,opus-96"
+function parseHlsProfiles(raw: string) {
+  const profiles: HlsProfile[] = [];
+  for (const part of raw.split(',')) {
+    const m = /^(aac|opus)-(\d+)$/.exec(part.trim().toLowerCase());
+    if (!m) continue;
+    const kbps = Number(m[2]);
+    if (kbps >= 16 && kbps <= 512) profiles.push({ codec: m[1] as HlsProfile['codec'], kbps });
+  }
+  return profiles.length > 0 ? profiles : [{ codec: 'aac', kbps: 192 } as HlsProfile];
+}
+
+// Same budget the worker enforces; only reported here
+const HLS_CACHE_MAX_BYTES = Math.max(0, Number(process.env.HLS_CACHE_MAX_MB ?? '10240')) * 1024 * 1024;
+const HLS_STATS_KEY = 'hls:cache:stats';
+
+// Interactive plays run before prefetches, which run before admin pre-transcodes
+const PRIORITY_INTERACTIVE = 100;
+const PRIORITY_PREFETCH = 50;
+const PRIORITY_BULK = 10;
+const TRANSCODE_COMMANDS_CHANNEL = 'transcode:commands';
+const HLS_PREFETCH_MAX = 5;
+const HLS_BULK_MAX = 2000;
+
+const HLS_PROFILES = parseHlsProfiles(process.env.HLS_PROFILES ?? 'aac-64,aac-128,aac-256');
+const HLS_PROFILE_SET = HLS_PROFILES.map((p) => `${p.codec}-${p.kbps}`).join(',');
+
+// Segments are named after their variant ("v1_00003.ts"); single-rendition caches use "seg_"
+function hlsSegmentProfile(file: string) {
+  const m = /^v(\d+)_/.exec(file);
+  const p = m ? HLS_PROFILES[Number(m[1])] : null;
+  return p ? `hls ${p.codec} ${p.kbps}k` : 'hls aac';
+}
+
 function safeJoin(baseDir: string, rel: string) {
   const abs = path.resolve(baseDir, rel);
   const base = path.resolve(baseDir);
@@ -31,7 +68,16 @@ async function getTrackRow(trackId: number) {
   return r.rows[0] ?? null;
 }
 
-function cacheKeyForTrack(t: { id: number; mtime_ms: number; size_bytes: number; ext: string }) {
+type CacheKeySource = { id: number; mtime_ms: number; size_bytes: number; ext: string };
+
+// The profile set is part of the key so changing HLS_PROFILES never serves renditions from another set
+function cacheKeyForTrack(t: CacheKeySource) {
+  const profiles = HLS_PROFILES.map((p) => `${p.codec}${p.kbps}`).join('-');
+  return `${legacyCacheKeyForTrack(t)}_abr_${profiles}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+// Single-bitrate caches from before ABR; still playable, so they are served until evicted
+function legacyCacheKeyForTrack(t: CacheKeySource) {
   return `t${t.id}_${t.mtime_ms}_${t.size_bytes}${t.ext}`.replace(/[^a-zA-Z0-9._-]/g, '_');
 }
 
@@ -43,23 +89,127 @@ async function getLatestDoneJob(trackId: number, cacheKey: string) {
   return r.rows[0] ?? null;
 }
 
+// Finished cache for the current file version: the ABR one, else a legacy one
+async function findDoneCache(t: CacheKeySource) {
+  const cacheKey = cacheKeyForTrack(t);
+  const done = await getLatestDoneJob(Number(t.id), cacheKey);
+  if (done) return { ...done, cacheKey };
+  const legacyKey = legacyCacheKeyForTrack(t);
+  const legacy = await getLatestDoneJob(Number(t.id), legacyKey);
+  return legacy ? { ...legacy, cacheKey: legacyKey } : null;
+}
+
 async function getLatestJob(trackId: number, cacheKey: string) {
-  const r = await db().query<{ id: number; state: string; out_dir: string | null; error: string | null }>(
-    'select id, state, out_dir, error from transcode_jobs where track_id=$1 and cache_key=$2 order by id desc limit 1',
+  const r = await db().query<{ id: number; state: string; out_dir: string | null; error: string | null; priority: number }>(
+    'select id, state, out_dir, error, priority from transcode_jobs where track_id=$1 and cache_key=$2 order by id desc limit 1',
     [trackId, cacheKey]
   );
   return r.rows[0] ?? null;
 }
 
-async function enqueueJob(trackId: number, cacheKey: string, requestedBy: string) {
+async function enqueueJob(trackId: number, cacheKey: string, requestedBy: string, priority = PRIORITY_INTERACTIVE) {
   await mkdir(HLS_DIR, { recursive: true });
   const r = await db().query<{ id: number }>(
-    "insert into transcode_jobs(track_id, cache_key, state, requested_by) values ($1,$2,'queued',$3) returning id",
-    [trackId, cacheKey, requestedBy]
+    "insert into transcode_jobs(track_id, cache_key, state, requested_by, profiles, priority) values ($1,$2,'queued',$3,$4,$5) returning id",
+    [trackId, cacheKey, requestedBy, HLS_PROFILE_SET, priority]
   );
+  await addJobRequest(r.rows[0].id, requestedBy, priority);
+  await publishTranscodeCommand({ command: 'wake' });
   return r.rows[0].id;
 }
 
+// Records (or raises) a user's interest in a job; a queued job runs at its highest requested priority
+async function addJobRequest(jobId: number, userId: string, priority: number) {
+  await db().query(
+    `insert into transcode_job_requests(job_id, user_id, priority) values ($1,$2,$3)
+     on conflict (job_id, user_id) do update set priority = greatest(transcode_job_requests.priority, excluded.priority)`,
+    [jobId, userId, priority]
+  );
+  await db().query("update transcode_jobs set priority=$2 where id=$1 and state='queued' and priority < $2", [jobId, priority]);
+}
+
+async function publishTranscodeCommand(cmd: { command: 'wake' } | { command: 'cancel'; jobId: number }) {
+  try {
+    await redis().publish(TRANSCODE_COMMANDS_CHANNEL, JSON.stringify(cmd));
+  } catch {
+    // workers still poll, just slower
+  }
+}
+
+// Drops the caller's prefetch interest in tracks that left their upcoming list, then the queued
+// prefetches nobody is waiting on any more
+async function cancelStalePrefetches(userId: string, upcoming: number[]) {
+  await db().query(
+    `delete from transcode_job_requests r
+      using transcode_jobs j
+      where r.job_id = j.id and r.user_id = $1 and r.priority = $2
+        and j.state = 'queued' and not (j.track_id = any($3::bigint[]))`,
+    [userId, PRIORITY_PREFETCH, upcoming]
+  );
+  const r = await db().query(
+    `delete from transcode_jobs j
+      where j.state = 'queued' and j.priority = $1
+        and not exists (select 1 from transcode_job_requests r where r.job_id = j.id)`,
+    [PRIORITY_PREFETCH]
+  );
+  return r.rowCount ?? 0;
+}
+
+// Withdraws one user's interest; the job itself is only dropped (or aborted) when nobody else wants it
+async function releaseJob(jobId: number, userId: string) {
+  await db().query('delete from transcode_job_requests where job_id=$1 and user_id=$2', [jobId, userId]);
+  const left = await db().query<{ priority: number | null }>(
+    'select max(priority)::int as priority from transcode_job_requests where job_id=$1',
+    [jobId]
+  );
+  const keep = left.rows[0]?.priority ?? null;
+  if (keep !== null) {
+    await db().query("update transcode_jobs set priority=$2 where id=$1 and state='queued'", [jobId, keep]);
+    return false;
+  }
+  const del = await db().query("delete from transcode_jobs where id=$1 and state='queued'", [jobId]);
+  if ((del.rowCount ?? 0) === 0) {
+    // Already claimed: the worker running it aborts ffmpeg and drops the row
+    await publishTranscodeCommand({ command: 'cancel', jobId });
+  }
+  return true;
+}
+
+async function countCacheLookup(field: 'hits' | 'misses') {
+  try {
+    await redis().hincrby(HLS_STATS_KEY, field, 1);
+  } catch {
+    // stats are best effort
+  }
+}
+
+// Marks a cache as used for LRU eviction; at most one write per minute per job
+async function touchJob(jobId: number) {
+  await db().query(
+    "update transcode_jobs set last_accessed_at = now() where id = $1 and (last_accessed_at is null or last_accessed_at < now() - interval '1 minute')",
+    [jobId]
+  );
+}
+
+// Drops finished jobs (and their folders) so the next play re-transcodes; queued/running jobs are left alone
+async function purgeCache(trackId: number | null) {
+  const r = await db().query<{ cache_key: string; size_bytes: string | null }>(
+    `delete from transcode_jobs
+      where state in ('done','failed') and ($1::bigint is null or track_id = $1)
+      returning cache_key, size_bytes`,
+    [trackId]
+  );
+  const keys = new Set(r.rows.map((x) => x.cache_key));
+  for (const key of keys) {
+    try {
+      await rm(safeJoin(HLS_DIR, key), { recursive: true, force: true });
+    } catch {
+      // invalid key or already gone
+    }
+  }
+  return { caches: keys.size, bytes: r.rows.reduce((sum, x) => sum + Number(x.size_bytes ?? 0), 0) };
+}
+
 export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
   // Request an HLS transcode (idempotent for the current file version).
   app.post('/api/hls/:id/request', async (req, reply) => {
@@ -74,20 +224,77 @@ export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
     if (!isLibraryAllowed(Number(t.library_id), allowed)) return reply.code(404).send({ ok: false });
 
     const cacheKey = cacheKeyForTrack(t);
-    const done = await getLatestDoneJob(id, cacheKey);
+    const done = await findDoneCache(t);
     if (done) {
+      await countCacheLookup('hits');
       return { ok: true, state: 'done', jobId: done.id, ready: true, manifestUrl: `/api/hls/${id}/index.m3u8` };
     }
 
     const existing = await getLatestJob(id, cacheKey);
     if (existing && (existing.state === 'queued' || existing.state === 'running')) {
+      // A prefetch (or someone else's job) that is now being played jumps ahead of the other prefetches
+      await addJobRequest(Number(existing.id), req.user.userId, PRIORITY_INTERACTIVE);
       return { ok: true, state: existing.state, jobId: existing.id, ready: false };
     }
 
+    await countCacheLookup('misses');
     const jobId = await enqueueJob(id, cacheKey, req.user.userId);
     return { ok: true, state: 'queued', jobId, ready: false };
   });
 
+  // Low-priority transcodes for the next few queue entries so they can start on HLS right away
+  app.post('/api/hls/prefetch', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const body = (req.body ?? {}) as { trackIds?: unknown };
+    if (!Array.isArray(body.trackIds)) return reply.code(400).send({ ok: false });
+    const trackIds = [...new Set(body.trackIds.map(Number).filter((x) => Number.isInteger(x) && x > 0))].slice(0, HLS_PREFETCH_MAX);
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const queued: number[] = [];
+    const ready: number[] = [];
+    for (const id of trackIds) {
+      const t = await getTrackRow(id);
+      if (!t || !isLibraryAllowed(Number(t.library_id), allowed)) continue;
+      const cacheKey = cacheKeyForTrack(t);
+      if (await findDoneCache(t)) {
+        ready.push(id);
+        continue;
+      }
+      const existing = await getLatestJob(id, cacheKey);
+      if (existing && (existing.state === 'queued' || existing.state === 'running')) {
+        await addJobRequest(Number(existing.id), req.user.userId, PRIORITY_PREFETCH);
+        queued.push(id);
+        continue;
+      }
+      // Earlier failures are not retried from prefetch; an actual play will retry them
+      if (existing?.state === 'failed') continue;
+      await enqueueJob(id, cacheKey, req.user.userId, PRIORITY_PREFETCH);
+      queued.push(id);
+    }
+
+    const cancelled = await cancelStalePrefetches(req.user.userId, trackIds);
+    return { ok: true, queued, ready, cancelled };
+  });
+
+  // Called when the user skips a track before its transcode finished
+  app.post('/api/hls/:id/cancel', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+
+    const r = await db().query<{ id: number }>(
+      `select j.id from transcode_jobs j
+         join transcode_job_requests r on r.job_id = j.id
+        where j.track_id=$1 and r.user_id=$2 and j.state in ('queued','running')`,
+      [id, req.user.userId]
+    );
+    let cancelled = 0;
+    for (const job of r.rows) {
+      if (await releaseJob(Number(job.id), req.user.userId)) cancelled++;
+    }
+    return { ok: true, cancelled };
+  });
+
   app.get('/api/hls/:id/status', async (req, reply) => {
     if (!req.user) return reply.code(401).send({ ok: false });
     const id = Number((req.params as { id: string }).id);
@@ -99,8 +306,8 @@ export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
     const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
     if (!isLibraryAllowed(Number(t.library_id), allowed)) return reply.code(404).send({ ok: false });
 
-    const cacheKey = cacheKeyForTrack(t);
-    const job = await getLatestJob(id, cacheKey);
+    const done = await findDoneCache(t);
+    const job = done ? { id: done.id, state: 'done', error: null } : await getLatestJob(id, cacheKeyForTrack(t));
     if (!job) return { ok: true, state: 'missing', ready: false };
 
     const ready = job.state === 'done';
@@ -114,7 +321,7 @@ export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
     };
   });
 
-  // Serve manifest + segments for the *current* file version.
+  // Serve the master playlist, variant playlists and segments for the *current* file version.
   app.get('/api/hls/:id/:file', async (req, reply) => {
     if (!req.user) return reply.code(401).send({ ok: false });
     const id = Number((req.params as { id: string }).id);
@@ -127,11 +334,12 @@ export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
     const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
     if (!isLibraryAllowed(Number(t.library_id), allowed)) return reply.code(404).send({ ok: false });
 
-    const cacheKey = cacheKeyForTrack(t);
-    const done = await getLatestDoneJob(id, cacheKey);
+    const done = await findDoneCache(t);
     if (!done) return reply.code(404).send({ ok: false, error: 'not_ready' });
 
-    const rel = path.join(cacheKey, file);
+    if (file === 'index.m3u8') await touchJob(done.id);
+
+    const rel = path.join(done.cacheKey, file);
     const abs = safeJoin(HLS_DIR, rel);
 
     try {
@@ -145,9 +353,130 @@ export const hlsPlugin: FastifyPluginAsync = fp(async (app) => {
       ? 'application/vnd.apple.mpegurl'
       : file.endsWith('.ts')
         ? 'video/mp2t'
-        : 'application/octet-stream';
+        : file.endsWith('.m4s') || file.endsWith('.mp4')
+          ? 'audio/mp4'
+          : 'application/octet-stream';
+
+    // Playlists are tiny; only segments count towards the session
+    if (file.endsWith('.m3u8')) {
+      reply.header('Content-Type', ct);
+      return reply.send(createReadStream(abs));
+    }
+    const session = openStreamSession(req, { userId: req.user.userId, client: 'hls', trackId: id, profile: hlsSegmentProfile(file) });
+    if (!session) return reply.code(403).send({ ok: false, error: 'stream_stopped' });
 
     reply.header('Content-Type', ct);
-    return reply.send(createReadStream(abs));
+    return reply.send(session.track(createReadStream(abs)));
+  });
+
+  app.get('/api/admin/hls/cache', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+
+    const totals = await db().query<{ caches: number; size_bytes: string | null; queued: number; running: number; failed: number }>(
+      `select count(distinct cache_key) filter (where state = 'done')::int as caches,
+              sum(size_bytes) filter (where state = 'done') as size_bytes,
+              count(*) filter (where state = 'queued')::int as queued,
+              count(*) filter (where state = 'running')::int as running,
+              count(*) filter (where state = 'failed')::int as failed
+         from transcode_jobs`
+    );
+    const queue = await db().query(
+      `select j.id, j.track_id, j.state, j.requested_at, j.started_at, t.title, t.artist
+         from transcode_jobs j
+         left join tracks t on t.id = j.track_id
+        where j.state in ('queued','running')
+        order by j.state desc, j.id asc
+        limit 50`
+    );
+    const failures = await db().query(
+      `select j.id, j.track_id, j.error, j.finished_at, t.title, t.artist
+         from transcode_jobs j
+         left join tracks t on t.id = j.track_id
+        where j.state = 'failed'
+        order by j.id desc
+        limit 20`
+    );
+
+    let hits = 0;
+    let misses = 0;
+    try {
+      const stats = await redis().hgetall(HLS_STATS_KEY);
+      hits = Number(stats.hits ?? 0);
+      misses = Number(stats.misses ?? 0);
+    } catch {
+      // redis unavailable
+    }
+
+    const row = totals.rows[0];
+    return {
+      ok: true,
+      sizeBytes: Number(row?.size_bytes ?? 0),
+      budgetBytes: HLS_CACHE_MAX_BYTES,
+      cachedTracks: row?.caches ?? 0,
+      profiles: HLS_PROFILE_SET,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      queued: row?.queued ?? 0,
+      running: row?.running ?? 0,
+      failed: row?.failed ?? 0,
+      queue: queue.rows,
+      failures: failures.rows,
+    };
+  });
+
+  // Warms the cache for a whole album (or track list) below every play and prefetch
+  app.post('/api/admin/hls/pretranscode', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const body = (req.body ?? {}) as { albumId?: unknown; trackIds?: unknown };
+    let trackIds: number[];
+    if (body.albumId !== undefined) {
+      const albumId = Number(body.albumId);
+      if (!Number.isInteger(albumId)) return reply.code(400).send({ ok: false, error: 'Invalid albumId' });
+      const r = await db().query<{ id: number }>('select id from active_tracks where album_id = $1 order by id limit $2', [albumId, HLS_BULK_MAX]);
+      trackIds = r.rows.map((x) => Number(x.id));
+    } else if (Array.isArray(body.trackIds)) {
+      trackIds = [...new Set(body.trackIds.map(Number).filter((x) => Number.isInteger(x) && x > 0))].slice(0, HLS_BULK_MAX);
+    } else {
+      return reply.code(400).send({ ok: false, error: 'albumId or trackIds is required' });
+    }
+
+    let queued = 0;
+    let cached = 0;
+    for (const id of trackIds) {
+      const t = await getTrackRow(id);
+      if (!t) continue;
+      const cacheKey = cacheKeyForTrack(t);
+      if (await findDoneCache(t)) {
+        cached++;
+        continue;
+      }
+      const existing = await getLatestJob(id, cacheKey);
+      if (existing && (existing.state === 'queued' || existing.state === 'running')) {
+        await addJobRequest(Number(existing.id), req.user.userId, PRIORITY_BULK);
+      } else {
+        await enqueueJob(id, cacheKey, req.user.userId, PRIORITY_BULK);
+      }
+      queued++;
+    }
+    await audit('admin_hls_pretranscode', { by: req.user.userId, albumId: body.albumId ?? null, tracks: trackIds.length, queued });
+    return { ok: true, queued, cached };
+  });
+
+  app.delete('/api/admin/hls/cache', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const purged = await purgeCache(null);
+    try { await redis().del(HLS_STATS_KEY); } catch {}
+    await audit('admin_hls_cache_purged', { by: req.user.userId, ...purged });
+    return { ok: true, ...purged };
+  });
+
+  app.delete('/api/admin/hls/cache/:trackId', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const trackId = Number((req.params as { trackId: string }).trackId);
+    if (!Number.isFinite(trackId)) return reply.code(400).send({ ok: false });
+    const purged = await purgeCache(trackId);
+    await audit('admin_hls_cache_purged', { by: req.user.userId, trackId, ...purged });
+    return { ok: true, ...purged };
   });
 });
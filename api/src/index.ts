@@ -5,13 +5,22 @@ import { authPlugin } from './auth.js';
 
 const trustProxy = config.trustProxy === 'true';
 import { libraryPlugin } from './library.js';
+import { organizerPlugin } from './organizer.js';
 import { smartSearchPlugin } from './smartSearch.js';
 import { streamPlugin } from './stream.js';
 import { artPlugin } from './art.js';
+import { waveformPlugin } from './waveform.js';
+import { downloadsPlugin } from './downloads.js';
+import { streamSessionsPlugin } from './streamSessions.js';
 import { lyricsPlugin } from './lyrics.js';
 import { playlistsPlugin } from './playlists.js';
 import { browsePlugin } from './browse.js';
 import { favoritesPlugin } from './favorites.js';
+import { ratingsPlugin } from './ratings.js';
+import { queuePlugin } from './queue.js';
+import { sharesPlugin } from './shares.js';
+import { radioPlugin } from './radio.js';
+import { chatPlugin } from './chat.js';
 import { historyPlugin } from './history.js';
 import { statsPlugin } from './stats.js';
 import { recommendationsPlugin } from './recommendations.js';
@@ -114,13 +123,22 @@ app.get('/api/version', async () => ({
 await app.register(authPlugin);
 await app.register(googleAuthPlugin);
 await app.register(libraryPlugin);
+await app.register(organizerPlugin);
 await app.register(smartSearchPlugin);
 await app.register(streamPlugin);
 await app.register(artPlugin);
+await app.register(waveformPlugin);
+await app.register(downloadsPlugin);
+await app.register(streamSessionsPlugin);
 await app.register(lyricsPlugin);
 await app.register(playlistsPlugin);
 await app.register(browsePlugin);
 await app.register(favoritesPlugin);
+await app.register(ratingsPlugin);
+await app.register(queuePlugin);
+await app.register(sharesPlugin);
+await app.register(radioPlugin);
+await app.register(chatPlugin);
 await app.register(historyPlugin);
 await app.register(statsPlugin);
 await app.register(recommendationsPlugin);
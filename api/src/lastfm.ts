@@ -14,10 +14,20 @@ interface SimilarArtist {
 interface ArtistInfo {
   name: string;
   mbid?: string;
+  bio?: string;
+  url?: string;
   tags: string[];
   similar: SimilarArtist[];
 }
 
+interface AlbumInfo {
+  name: string;
+  artist: string;
+  mbid?: string;
+  notes?: string;
+  url?: string;
+}
+
 interface TrackInfo {
   name: string;
   artist: string;
@@ -62,6 +72,15 @@ async function setCache(key: string, data: unknown): Promise<void> {
   }
 }
 
+// Last.fm bios end with a "Read more on Last.fm" anchor and may carry other markup
+function cleanLastfmText(text: unknown): string {
+  if (typeof text !== 'string') return '';
+  return text
+    .replace(/<a [^>]*>Read more on Last\.fm<\/a>\.?/gi, '')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
 // Fetch from Last.fm API
 async function fetchLastfm(method: string, params: Record<string, string>): Promise<any> {
   if (!isLastfmEnabled()) return null;
@@ -126,7 +145,8 @@ export async function getArtistInfo(artistName: string): Promise<ArtistInfo | nu
 
   const cacheKey = `artist:${artistName.toLowerCase()}`;
   const cached = await getCache<ArtistInfo>(cacheKey);
-  if (cached) return cached;
+  // Entries cached before bios were stored are refreshed
+  if (cached && cached.bio !== undefined) return cached;
 
   const data = await fetchLastfm('artist.getinfo', { artist: artistName });
   if (!data?.artist) return null;
@@ -135,6 +155,8 @@ export async function getArtistInfo(artistName: string): Promise<ArtistInfo | nu
   const info: ArtistInfo = {
     name: artist.name,
     mbid: artist.mbid || undefined,
+    bio: cleanLastfmText(artist.bio?.summary),
+    url: artist.url || undefined,
     tags: (artist.tags?.tag || []).map((t: any) => t.name),
     similar: (artist.similar?.artist || []).map((a: any) => ({
       name: a.name,
@@ -147,6 +169,32 @@ export async function getArtistInfo(artistName: string): Promise<ArtistInfo | nu
   return info;
 }
 
+/**
+ * Get album notes (wiki summary) and MusicBrainz id
+ */
+export async function getAlbumInfo(artistName: string, albumName: string): Promise<AlbumInfo | null> {
+  if (!artistName || !albumName || !isLastfmEnabled()) return null;
+
+  const cacheKey = `album:${artistName.toLowerCase()}:${albumName.toLowerCase()}`;
+  const cached = await getCache<AlbumInfo>(cacheKey);
+  if (cached) return cached;
+
+  const data = await fetchLastfm('album.getinfo', { artist: artistName, album: albumName });
+  if (!data?.album) return null;
+
+  const album = data.album;
+  const info: AlbumInfo = {
+    name: album.name,
+    artist: album.artist || artistName,
+    mbid: album.mbid || undefined,
+    notes: cleanLastfmText(album.wiki?.summary),
+    url: album.url || undefined
+  };
+
+  await setCache(cacheKey, info);
+  return info;
+}
+
 /**
  * Get top tags for an artist (genres)
  */
@@ -2,10 +2,11 @@ import fp from 'fastify-plugin';
 import type { FastifyPluginAsync } from 'fastify';
 import { audit, db, redis } from './db.js';
 import * as scans from './scanRepo.js';
-import { allowedLibrariesForUser } from './access.js';
+import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
 import { store } from './store.js';
+import { loadCurrentTags, MAX_BULK_TRACKS, planBulkEdit, type FieldReplace, type TrackChange } from './bulkTags.js';
+import { restoreTags, tagFormatFor, writeTags, type TagBackup, type TagValues } from './tagWriter.js';
 import { access, constants } from 'node:fs/promises';
-import { readFileSync, writeFileSync } from 'node:fs';
 import path from 'node:path';
 
 function safeJoinMount(mountPath: string, relPath: string) {
@@ -15,266 +16,100 @@ function safeJoinMount(mountPath: string, relPath: string) {
   return abs;
 }
 
-type Id3Frame = { id: string; data: Buffer; flags: Buffer; txxxDescription?: string };
-
-function decodeSyncSafeInt(buf: Buffer) {
-  // 4 bytes, 7 bits each
-  return ((buf[0] & 0x7f) << 21) | ((buf[1] & 0x7f) << 14) | ((buf[2] & 0x7f) << 7) | (buf[3] & 0x7f);
-}
-
-function encodeSyncSafeInt(n: number) {
-  return Buffer.from([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
-}
-
-function encodeUtf16WithBom(s: string) {
-  return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(s, 'utf16le')]);
-}
-
-function decodeText(buf: Buffer, encodingByte: number) {
-  if (!buf.length) return '';
-  if (encodingByte === 0x01 || encodingByte === 0x02) {
-    // UTF-16 with/without BOM (best-effort)
-    if (buf.length >= 2) {
-      const b0 = buf[0];
-      const b1 = buf[1];
-      if (b0 === 0xff && b1 === 0xfe) return buf.subarray(2).toString('utf16le');
-      if (b0 === 0xfe && b1 === 0xff) {
-        const swapped = Buffer.alloc(buf.length - 2);
-        for (let i = 2; i + 1 < buf.length; i += 2) {
-          swapped[i - 2] = buf[i + 1];
-          swapped[i - 1] = buf[i];
-        }
-        return swapped.toString('utf16le');
-      }
-    }
-    // Assume LE
-    return buf.toString('utf16le');
-  }
-  if (encodingByte === 0x03) return buf.toString('utf8');
-  return buf.toString('latin1');
-}
-
-function parseTxxxDescription(frameData: Buffer) {
-  if (!frameData.length) return undefined;
-  const enc = frameData[0] ?? 0x00;
-  const charSize = enc === 0x01 || enc === 0x02 ? 2 : 1;
-  let pos = 1;
-  for (; pos + charSize - 1 < frameData.length; pos += charSize) {
-    let isTerm = true;
-    for (let j = 0; j < charSize; j++) if (frameData[pos + j] !== 0x00) isTerm = false;
-    if (isTerm) break;
-  }
-  const descBuf = frameData.subarray(1, pos);
-  return decodeText(descBuf, enc).replace(/\0/g, '').trim() || undefined;
-}
-
-function buildFrame(id: string, data: Buffer, version: 3 | 4, flags?: Buffer) {
-  const header = Buffer.alloc(10);
-  header.write(id, 0, 4, 'ascii');
-  if (version === 4) encodeSyncSafeInt(data.length).copy(header, 4);
-  else header.writeUInt32BE(data.length, 4);
-  (flags ?? Buffer.from([0x00, 0x00])).copy(header, 8);
-  return Buffer.concat([header, data]);
-}
-
-function buildTextFrame(id: string, values: string[], version: 3 | 4) {
-  if (!values.length) return null;
-  const joined = version === 4 ? values.join('\u0000') : values.join('/');
-  const text = encodeUtf16WithBom(joined);
-  const body = Buffer.concat([Buffer.from([0x01]), text]);
-  return buildFrame(id, body, version);
-}
-
-function buildTxxxFrame(description: string, values: string[], version: 3 | 4) {
-  if (!values.length) return null;
-  const joined = version === 4 ? values.join('\u0000') : values.join('/');
-  const desc = encodeUtf16WithBom(description);
-  const val = encodeUtf16WithBom(joined);
-  const body = Buffer.concat([Buffer.from([0x01]), desc, Buffer.from([0x00, 0x00]), val]);
-  return buildFrame('TXXX', body, version);
-}
-
-function applyUnsync(buf: Buffer) {
-  // Insert 0x00 after 0xFF if next byte is 0x00 or >= 0xE0 (prevents false MPEG syncs).
-  const out: number[] = [];
-  for (let i = 0; i < buf.length; i++) {
-    const b = buf[i]!;
-    out.push(b);
-    if (b === 0xff) {
-      const next = buf[i + 1];
-      if (next === 0x00 || (next !== undefined && (next & 0xe0) === 0xe0)) out.push(0x00);
-    }
-  }
-  return Buffer.from(out);
-}
-
-function parseId3Frames(file: Buffer): { frames: Id3Frame[]; audioOffset: number; version: 3 | 4; usesSyncsafeFrameSizes: boolean; headerFlags: number } {
-  if (file.length < 10 || file.toString('ascii', 0, 3) !== 'ID3') return { frames: [], audioOffset: 0, version: 3, usesSyncsafeFrameSizes: false, headerFlags: 0 };
-
-  const version = (file[3] === 4 ? 4 : 3) as 3 | 4;
-  const flags = file[5] ?? 0;
-  const tagSize = decodeSyncSafeInt(file.subarray(6, 10));
-  const tagEnd = Math.min(file.length, 10 + tagSize);
-  let body = file.subarray(10, tagEnd);
-
-  // Skip extended header if present.
-  const hasExtended = (flags & 0x40) !== 0;
-  if (hasExtended && body.length >= 4) {
-    // v2.3 extended headers are messy in the wild; if present we just skip a conservative amount.
-    const extSize = version === 4 ? decodeSyncSafeInt(body.subarray(0, 4)) : body.readUInt32BE(0);
-    const extTotal = version === 4 ? extSize : extSize + 4;
-    if (extTotal > 0 && extTotal <= body.length) body = body.subarray(extTotal);
-  }
-
-  const frames: Id3Frame[] = [];
-  let pos = 0;
-  let usesSyncsafeFrameSizes = version === 4;
-
-  while (pos + 10 <= body.length) {
-    const id = body.toString('ascii', pos, pos + 4);
-    if (!id || /^\0{4}$/.test(id) || id.trim() === '') break;
-
-    const sizeBytes = body.subarray(pos + 4, pos + 8);
-    let size = version === 4 ? decodeSyncSafeInt(sizeBytes) : sizeBytes.readUInt32BE(0);
-    let end = pos + 10 + size;
-
-    // Some files lie (v2.3 header but v2.4-style syncsafe frame sizes). If the v2.3 size is impossible,
-    // fall back to syncsafe to avoid producing mixed/invalid tags on rewrite.
-    if (version === 3 && (size < 0 || end > body.length)) {
-      const alt = decodeSyncSafeInt(sizeBytes);
-      const altEnd = pos + 10 + alt;
-      if (alt >= 0 && altEnd <= body.length) {
-        usesSyncsafeFrameSizes = true;
-        size = alt;
-        end = altEnd;
-      } else {
-        break;
-      }
-    }
-
-    if (size < 0 || end > body.length) break;
-
-    const flagsBuf = Buffer.from(body.subarray(pos + 8, pos + 10));
-    const data = Buffer.from(body.subarray(pos + 10, end));
-    const f: Id3Frame = { id, data, flags: flagsBuf };
-    if (id === 'TXXX') f.txxxDescription = parseTxxxDescription(data);
-    frames.push(f);
-    pos = end;
-  }
-
-  return { frames, audioOffset: tagEnd, version, usesSyncsafeFrameSizes, headerFlags: flags };
-}
-
-function updateId3Tag(absPath: string, opts: {
+type TrackMetadataBody = {
   title?: string | null;
-  album?: string | null;
-  genre?: string[] | null;
   artists?: string[] | null;
-  albumArtist?: string[] | null;
-  year?: number | null;
+  album?: string | null;
+  albumArtist?: string | null;
   trackNumber?: number | null;
   discNumber?: number | null;
-  country?: string[] | null;
-  language?: string[] | null;
-}) {
-  const file = readFileSync(absPath);
-  const parsed = parseId3Frames(file);
-  // Always write ID3v2.4 so multi-value text frames use NUL separators (MP3Tag-compatible, avoids v2.3 '/').
-  const targetVersion: 4 = 4;
-  const needsUnsync = (parsed.headerFlags & 0x80) !== 0;
-
-  const removeIds = new Set<string>();
-  const removeTxxx = new Set<string>();
-
-  if (opts.title !== undefined) removeIds.add('TIT2');
-  if (opts.album !== undefined) removeIds.add('TALB');
-  if (opts.genre !== undefined) removeIds.add('TCON');
-  if (opts.artists !== undefined) {
-    removeIds.add('TPE1');
-    removeTxxx.add('artists');
-  }
-  if (opts.albumArtist !== undefined) removeIds.add('TPE2');
-  if (opts.year !== undefined) {
-    removeIds.add('TYER');
-    removeIds.add('TDRC');
-  }
-  if (opts.trackNumber !== undefined) removeIds.add('TRCK');
-  if (opts.discNumber !== undefined) removeIds.add('TPOS');
-  if (opts.language !== undefined) {
-    removeIds.add('TLAN');
-    removeTxxx.add('language');
-  }
-  if (opts.country !== undefined) removeTxxx.add('country');
-
-  const kept = parsed.frames.filter((f) => {
-    if (removeIds.has(f.id)) return false;
-    if (f.id === 'TXXX' && f.txxxDescription) {
-      const key = f.txxxDescription.trim().toLowerCase();
-      if (removeTxxx.has(key)) return false;
-    }
-    return true;
-  });
-
-  const added: Buffer[] = [];
-  const addTextList = (id: string, parts: string[] | null | undefined) => {
-    if (parts === undefined) return;
-    const v = (parts ?? []).map((x) => String(x ?? '').trim()).filter(Boolean);
-    const f = buildTextFrame(id, v, targetVersion);
-    if (f) added.push(f);
+  year?: number | null;
+  genre?: string | null;
+  country?: string | null;
+  language?: string | null;
+  composer?: string | null;
+  bpm?: number | null;
+  initialKey?: string | null;
+  isrc?: string | null;
+  musicbrainzTrackId?: string | null;
+  musicbrainzReleaseId?: string | null;
+  musicbrainzArtistId?: string | null;
+  musicbrainzAlbumArtistId?: string | null;
+};
+
+// Turns an editor payload into tag values: undefined leaves a field alone, null/empty clears it
+function tagValuesFromBody(body: TrackMetadataBody): TagValues {
+  // Normalize inputs
+  const normStr = (s: any) => {
+    if (s === undefined) return undefined;
+    if (s === null) return null;
+    const v = String(s).trim();
+    return v === '' ? null : v;
   };
-  const addTextOne = (id: string, v: string | null | undefined) => {
-    if (v === undefined || v === null) return;
-    const f = buildTextFrame(id, [String(v)], targetVersion);
-    if (f) added.push(f);
+
+  const normNum = (n: any) => {
+    if (n === undefined) return undefined;
+    if (n === null) return null;
+    const v = Number(n);
+    if (!Number.isFinite(v) || v <= 0) return null;
+    return Math.floor(v);
   };
-  const addTxxx = (desc: string, parts: string[] | null | undefined) => {
-    if (parts === undefined) return;
-    const v = (parts ?? []).map((x) => String(x ?? '').trim()).filter(Boolean);
-    const f = buildTxxxFrame(desc, v, targetVersion);
-    if (f) added.push(f);
+
+  const multiParts = (s: string | null | undefined) => {
+    if (s === undefined) return undefined;
+    if (s === null) return null;
+    return String(s)
+      // Support both our preferred NUL-separated encoding and legacy/newline payloads.
+      .split(/(?:\u0000|\\n|\r?\n)+/)
+      .map((x) => x.trim())
+      .filter(Boolean);
   };
 
-  if (opts.title !== undefined) addTextOne('TIT2', opts.title);
-  if (opts.album !== undefined) addTextOne('TALB', opts.album);
-  if (opts.genre !== undefined) addTextList('TCON', opts.genre);
-  if (opts.artists !== undefined) {
-    addTextList('TPE1', opts.artists);
-  }
-  if (opts.albumArtist !== undefined) addTextList('TPE2', opts.albumArtist);
-  if (opts.year !== undefined && opts.year !== null) {
-    if (targetVersion === 4) addTextOne('TDRC', String(opts.year));
-    else addTextOne('TYER', String(opts.year));
-  }
-  if (opts.trackNumber !== undefined && opts.trackNumber !== null) addTextOne('TRCK', String(opts.trackNumber));
-  if (opts.discNumber !== undefined && opts.discNumber !== null) addTextOne('TPOS', String(opts.discNumber));
-  if (opts.country !== undefined) addTxxx('Country', opts.country);
-  if (opts.language !== undefined) {
-    addTextList('TLAN', opts.language);
-  }
+  const one = (v: string | number | null | undefined) => (v === undefined ? undefined : v === null ? null : [String(v)]);
+
+  return {
+    title: one(normStr(body.title)),
+    album: one(normStr(body.album)),
+    artists: body.artists === undefined ? undefined : (body.artists ?? []).map((x) => String(x ?? '').trim()).filter(Boolean),
+    albumArtist: multiParts(normStr(body.albumArtist)),
+    genre: multiParts(normStr(body.genre)),
+    year: one(normNum(body.year)),
+    trackNumber: one(normNum(body.trackNumber)),
+    discNumber: one(normNum(body.discNumber)),
+    country: multiParts(normStr(body.country)),
+    language: multiParts(normStr(body.language)),
+    composer: multiParts(normStr(body.composer)),
+    bpm: one(normNum(body.bpm)),
+    initialKey: one(normStr(body.initialKey)),
+    isrc: one(normStr(body.isrc)),
+    musicbrainzTrackId: one(normStr(body.musicbrainzTrackId)),
+    musicbrainzReleaseId: one(normStr(body.musicbrainzReleaseId)),
+    musicbrainzArtistId: multiParts(normStr(body.musicbrainzArtistId)),
+    musicbrainzAlbumArtistId: multiParts(normStr(body.musicbrainzAlbumArtistId)),
+  };
+}
 
-  // If we upgrade v2.3 -> v2.4 (syncsafe mismatch), drop per-frame flags to avoid writing invalid flags for the new version.
-  if (needsUnsync) {
-    for (let i = 0; i < added.length; i++) added[i] = applyUnsync(added[i]!);
+// Resolves a track whose file tags can be rewritten in place
+async function writableTrack(id: number): Promise<{ abs: string; path: string } | { code: number; error: string }> {
+  const r = await db().query<{ path: string; ext: string; mount_path: string }>(
+    'select t.path, t.ext, l.mount_path from active_tracks t join libraries l on l.id=t.library_id where t.id=$1',
+    [id]
+  );
+  const row = r.rows[0];
+  if (!row) return { code: 404, error: 'Track not found' };
+
+  if (!tagFormatFor(row.ext ?? '')) {
+    return { code: 400, error: `Tag editing is not supported for ${row.ext || 'this'} files` };
   }
 
-  const keptBuf = kept.map((f) => buildFrame(f.id, f.data, targetVersion, targetVersion === parsed.version ? f.flags : undefined));
-  const framesBuf = Buffer.concat([...keptBuf, ...added]);
-  if (framesBuf.length === 0) {
-    // Remove ID3 tag entirely.
-    writeFileSync(absPath, file.subarray(parsed.audioOffset));
-    return;
+  // Must be writable
+  try {
+    await access(row.mount_path, constants.W_OK);
+  } catch {
+    return { code: 400, error: `Library mount is not writable: ${row.mount_path}` };
   }
 
-  const header = Buffer.alloc(10);
-  header.write('ID3', 0, 3, 'ascii');
-  header[3] = targetVersion;
-  header[4] = 0x00;
-  // Preserve original header flags when possible; we don't emit extended headers or footers.
-  header[5] = parsed.headerFlags & ~0x50;
-  encodeSyncSafeInt(framesBuf.length).copy(header, 6);
-
-  const out = Buffer.concat([header, framesBuf, file.subarray(parsed.audioOffset)]);
-  writeFileSync(absPath, out);
+  return { abs: safeJoinMount(row.mount_path, row.path), path: row.path };
 }
 
 export const libraryPlugin: FastifyPluginAsync = fp(async (app) => {
@@ -384,7 +219,7 @@ export const libraryPlugin: FastifyPluginAsync = fp(async (app) => {
     const activity = await db().query<{ id: number; event: string; meta: any; ts: Date }>(
       `select id, event, meta, ts
        from audit_events 
-       where event in ('track_added', 'track_updated', 'track_removed', 'scan_enqueued', 'scan_started', 'scan_finished')
+       where event in ('track_added', 'track_updated', 'track_removed', 'track_moved', 'scan_enqueued', 'scan_started', 'scan_finished')
        order by ts desc 
        limit $1 offset $2`,
       [limit, offset]
@@ -452,125 +287,192 @@ export const libraryPlugin: FastifyPluginAsync = fp(async (app) => {
     return { ok: true, anyWritable: writable.length > 0, writableMounts: writable, libraries: results };
   });
 
-  // Edit track metadata (MP3 only) for writable libraries
+  // Edit track metadata (MP3, FLAC, Ogg/Opus, M4A) for writable libraries
   app.post('/api/admin/tracks/:id/metadata', async (req, reply) => {
     if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
 
     const id = Number((req.params as { id: string }).id);
     if (!Number.isFinite(id)) return reply.code(400).send({ ok: false, error: 'Invalid track id' });
 
-    const body = (req.body ?? {}) as {
-      title?: string | null;
-      artists?: string[] | null;
-      album?: string | null;
-      albumArtist?: string | null;
-      trackNumber?: number | null;
-      discNumber?: number | null;
-      year?: number | null;
-      genre?: string | null;
-      country?: string | null;
-      language?: string | null;
-    };
+    const body = (req.body ?? {}) as TrackMetadataBody;
 
-    const r = await db().query<{ path: string; ext: string; library_id: number; mount_path: string }>(
-      'select t.path, t.ext, t.library_id, l.mount_path from active_tracks t join libraries l on l.id=t.library_id where t.id=$1',
-      [id]
-    );
-    const row = r.rows[0];
-    if (!row) return reply.code(404).send({ ok: false, error: 'Track not found' });
+    const target = await writableTrack(id);
+    if ('error' in target) return reply.code(target.code).send({ ok: false, error: target.error });
 
-    if ((row.ext ?? '').toLowerCase() !== '.mp3') {
-      return reply.code(400).send({ ok: false, error: 'Only .mp3 files are editable (v1)' });
-    }
+    const values = tagValuesFromBody(body);
 
-    // Must be writable
+    let backup: TagBackup;
     try {
-      await access(row.mount_path, constants.W_OK);
-    } catch {
-      return reply.code(400).send({ ok: false, error: `Library mount is not writable: ${row.mount_path}` });
+      backup = await writeTags(target.abs, values);
+    } catch (e: any) {
+      return reply.code(500).send({ ok: false, error: e?.message ?? String(e) });
     }
 
-    const abs = safeJoinMount(row.mount_path, row.path);
+    await db().query(
+      'insert into track_tag_backups(track_id, path, backup, created_by) values ($1, $2, $3, $4)',
+      [id, target.path, JSON.stringify(backup), req.user.userId]
+    );
+    await audit('track_metadata_updated', { trackId: id, by: req.user.userId, format: backup.format });
 
-    // Normalize inputs
-    const normStr = (s: any) => {
-      if (s === undefined) return undefined;
-      if (s === null) return null;
-      const v = String(s).trim();
-      return v === '' ? null : v;
-    };
+    // Trigger quick scan so DB reflects new tags without forcing a full reprocess
+    await redis().publish('library:commands', JSON.stringify({ command: 'rescan', by: req.user.userId, force: false }));
 
-    const normNum = (n: any) => {
-      if (n === undefined) return undefined;
-      if (n === null) return null;
-      const v = Number(n);
-      if (!Number.isFinite(v) || v <= 0) return null;
-      return Math.floor(v);
-    };
+    return { ok: true };
+  });
 
-    const title = normStr(body.title);
-    const album = normStr(body.album);
-    const albumArtist = normStr(body.albumArtist);
-    const genre = normStr(body.genre);
-    const country = normStr(body.country);
-    const language = normStr(body.language);
-
-    const multiParts = (s: string | null | undefined) => {
-      if (s === undefined) return undefined;
-      if (s === null) return null;
-      return String(s)
-        // Support both our preferred NUL-separated encoding and legacy/newline payloads.
-        .split(/(?:\u0000|\\n|\r?\n)+/)
-        .map((x) => x.trim())
-        .filter(Boolean);
-    };
+  // Current values of the extended fields plus whether an edit can be undone
+  app.get('/api/admin/tracks/:id/metadata', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false, error: 'Invalid track id' });
 
-    const genreParts = multiParts(genre);
-    const countryParts = multiParts(country);
-    const languageParts = multiParts(language);
-    const year = normNum(body.year);
-    const trackNumber = normNum(body.trackNumber);
-    const discNumber = normNum(body.discNumber);
+    const r = await db().query<{
+      ext: string;
+      composer: string | null;
+      bpm: number | null;
+      initial_key: string | null;
+      isrc: string | null;
+      musicbrainz_track_id: string | null;
+      musicbrainz_release_id: string | null;
+      musicbrainz_artist_id: string | null;
+      musicbrainz_album_artist_id: string | null;
+      can_undo: boolean;
+    }>(
+      `select t.ext, t.composer, t.bpm, t.initial_key, t.isrc,
+              t.musicbrainz_track_id, t.musicbrainz_release_id, t.musicbrainz_artist_id, t.musicbrainz_album_artist_id,
+              exists(select 1 from track_tag_backups b where b.track_id = t.id and b.restored_at is null) as can_undo
+         from active_tracks t where t.id = $1`,
+      [id]
+    );
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false, error: 'Track not found' });
 
-    const artistsList = body.artists === undefined
-      ? undefined
-      : (body.artists ?? [])
-          .map((x) => String(x ?? '').trim())
-          .filter(Boolean);
+    return {
+      ok: true,
+      format: tagFormatFor(row.ext ?? ''),
+      composer: row.composer,
+      bpm: row.bpm == null ? null : Math.round(Number(row.bpm)),
+      initialKey: row.initial_key,
+      isrc: row.isrc,
+      musicbrainzTrackId: row.musicbrainz_track_id,
+      musicbrainzReleaseId: row.musicbrainz_release_id,
+      musicbrainzArtistId: row.musicbrainz_artist_id,
+      musicbrainzAlbumArtistId: row.musicbrainz_album_artist_id,
+      canUndo: row.can_undo,
+    };
+  });
 
-    const updateOpts: Parameters<typeof updateId3Tag>[1] = {};
+  // Put back the tags replaced by the most recent edit that hasn't been undone yet
+  app.post('/api/admin/tracks/:id/metadata/undo', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
 
-    if (title !== undefined) updateOpts.title = title;
-    if (album !== undefined) updateOpts.album = album;
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false, error: 'Invalid track id' });
 
-    if (genre !== undefined) updateOpts.genre = genreParts === null ? null : (genreParts ?? []);
+    const target = await writableTrack(id);
+    if ('error' in target) return reply.code(target.code).send({ ok: false, error: target.error });
 
-    if (artistsList !== undefined) updateOpts.artists = artistsList;
+    const b = await db().query<{ id: number; path: string; backup: TagBackup }>(
+      'select id, path, backup from track_tag_backups where track_id = $1 and restored_at is null order by created_at desc, id desc limit 1',
+      [id]
+    );
+    const last = b.rows[0];
+    if (!last) return reply.code(404).send({ ok: false, error: 'No edit to undo' });
+    if (last.path !== target.path) return reply.code(409).send({ ok: false, error: 'File has moved since it was edited' });
 
-    if (albumArtist !== undefined) {
-      const aaParts = multiParts(albumArtist);
-      updateOpts.albumArtist = aaParts === null ? null : (aaParts ?? []);
+    try {
+      await restoreTags(target.abs, last.backup);
+    } catch (e: any) {
+      return reply.code(500).send({ ok: false, error: e?.message ?? String(e) });
     }
 
-    if (year !== undefined) updateOpts.year = year;
-    if (trackNumber !== undefined) updateOpts.trackNumber = trackNumber;
-    if (discNumber !== undefined) updateOpts.discNumber = discNumber;
+    await db().query('update track_tag_backups set restored_at = now() where id = $1', [last.id]);
+    await audit('track_metadata_restored', { trackId: id, backupId: last.id, by: req.user.userId });
+    await redis().publish('library:commands', JSON.stringify({ command: 'rescan', by: req.user.userId, force: false }));
+
+    return { ok: true };
+  });
+
+  // Edit tags of many tracks at once (a track-id set or a whole album); dryRun returns the diff only
+  app.post('/api/admin/tracks/metadata/bulk', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+
+    const body = (req.body ?? {}) as {
+      trackIds?: number[];
+      albumId?: number;
+      set?: TrackMetadataBody;
+      replace?: FieldReplace[];
+      renumber?: boolean;
+      dryRun?: boolean;
+    };
 
-    if (country !== undefined) updateOpts.country = countryParts === null ? null : (countryParts ?? []);
-    if (language !== undefined) updateOpts.language = languageParts === null ? null : (languageParts ?? []);
+    let trackIds: number[];
+    if (body.albumId != null) {
+      const albumId = Number(body.albumId);
+      if (!Number.isFinite(albumId)) return reply.code(400).send({ ok: false, error: 'Invalid album id' });
+      const r = await db().query<{ id: number }>('select id from active_tracks where album_id = $1', [albumId]);
+      trackIds = r.rows.map((x) => Number(x.id));
+    } else if (Array.isArray(body.trackIds)) {
+      trackIds = [...new Set(body.trackIds.map(Number).filter(Number.isFinite))];
+    } else {
+      return reply.code(400).send({ ok: false, error: 'trackIds or albumId is required' });
+    }
+    if (trackIds.length === 0) return reply.code(404).send({ ok: false, error: 'No tracks found' });
+    if (trackIds.length > MAX_BULK_TRACKS) {
+      return reply.code(400).send({ ok: false, error: `At most ${MAX_BULK_TRACKS} tracks can be edited at once` });
+    }
 
+    const edit = {
+      set: tagValuesFromBody(body.set ?? {}),
+      replace: Array.isArray(body.replace) ? body.replace : [],
+      renumber: Boolean(body.renumber),
+    };
+
+    let changes: TrackChange[];
     try {
-      updateId3Tag(abs, updateOpts);
+      changes = planBulkEdit(await loadCurrentTags(trackIds, edit.replace.map((r) => r?.field)), edit);
     } catch (e: any) {
-      return reply.code(500).send({ ok: false, error: e?.message ?? String(e) });
+      return reply.code(400).send({ ok: false, error: e?.message ?? String(e) });
     }
 
-    await audit('track_metadata_updated', { trackId: id, by: req.user.userId });
+    const diff = changes.map((c) => ({ trackId: c.trackId, path: c.path, fields: c.fields }));
+    if (body.dryRun) return { ok: true, dryRun: true, total: trackIds.length, changes: diff };
 
-    // Trigger quick scan so DB reflects new tags without forcing a full reprocess
-    await redis().publish('library:commands', JSON.stringify({ command: 'rescan', by: req.user.userId, force: false }));
+    const failed: Array<{ trackId: number; path: string; error: string }> = [];
+    let updated = 0;
+    for (const c of changes) {
+      const target = await writableTrack(c.trackId);
+      if ('error' in target) {
+        failed.push({ trackId: c.trackId, path: c.path, error: target.error });
+        continue;
+      }
+      try {
+        const backup = await writeTags(target.abs, c.values);
+        await db().query(
+          'insert into track_tag_backups(track_id, path, backup, created_by) values ($1, $2, $3, $4)',
+          [c.trackId, target.path, JSON.stringify(backup), req.user.userId]
+        );
+        updated++;
+      } catch (e: any) {
+        failed.push({ trackId: c.trackId, path: c.path, error: e?.message ?? String(e) });
+      }
+    }
 
-    return { ok: true };
+    await audit('track_metadata_bulk_updated', {
+      by: req.user.userId,
+      albumId: body.albumId ?? null,
+      tracks: trackIds.length,
+      updated,
+      failed: failed.length,
+    });
+
+    // One quick scan for the whole batch
+    if (updated > 0) {
+      await redis().publish('library:commands', JSON.stringify({ command: 'rescan', by: req.user.userId, force: false }));
+    }
+
+    return { ok: true, dryRun: false, total: trackIds.length, updated, failed, changes: diff };
   });
 
   app.get('/api/admin/library/scan/status', async (req, reply) => {
@@ -674,7 +576,8 @@ export const libraryPlugin: FastifyPluginAsync = fp(async (app) => {
     const r = await db().query(
       `select id, path, ext, title, artist, album_artist, album, duration_ms,
               library_id, created_at, updated_at, art_path, art_hash,
-              genre, country, language, year, bpm, track_number, disc_number
+              genre, country, language, year, bpm, track_number, disc_number,
+              replaygain_track_gain, replaygain_track_peak, replaygain_album_gain, replaygain_album_peak
        from active_tracks ${where} ${orderBy} limit $1 offset $2`,
       params as any
     );
@@ -682,6 +585,77 @@ export const libraryPlugin: FastifyPluginAsync = fp(async (app) => {
     return { ok: true, tracks: r.rows, limit, offset };
   });
 
+  // ReplayGain values for the player (dB relative to -18 LUFS, linear peaks; null when unknown)
+  app.get('/api/library/tracks/:id/replaygain', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+
+    const r = await db().query<{
+      library_id: number;
+      replaygain_track_gain: number | null;
+      replaygain_track_peak: number | null;
+      replaygain_album_gain: number | null;
+      replaygain_album_peak: number | null;
+    }>(
+      `select library_id, replaygain_track_gain, replaygain_track_peak, replaygain_album_gain, replaygain_album_peak
+       from active_tracks where id = $1`,
+      [id]
+    );
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+
+    return {
+      ok: true,
+      trackGain: row.replaygain_track_gain,
+      trackPeak: row.replaygain_track_peak,
+      albumGain: row.replaygain_album_gain,
+      albumPeak: row.replaygain_album_peak,
+    };
+  });
+
+  // Gapless join info for the player; album identity lets it skip crossfades inside an album
+  app.get('/api/library/tracks/:id/gapless', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+
+    const r = await db().query<{
+      library_id: number;
+      album: string | null;
+      album_artist: string | null;
+      artist: string | null;
+      encoder_delay: number | null;
+      encoder_padding: number | null;
+      sample_rate: number | null;
+      sample_count: string | null;
+    }>(
+      `select library_id, album, album_artist, artist, encoder_delay, encoder_padding, sample_rate, sample_count
+       from active_tracks where id = $1`,
+      [id]
+    );
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+
+    return {
+      ok: true,
+      album: row.album,
+      albumArtist: row.album_artist ?? row.artist,
+      encoderDelay: row.encoder_delay,
+      encoderPadding: row.encoder_padding,
+      sampleRate: row.sample_rate,
+      sampleCount: row.sample_count == null ? null : Number(row.sample_count),
+    };
+  });
+
   // Rate limit bypass management
   app.get('/api/admin/rate-limit/bypass', async (req, reply) => {
     if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
@@ -0,0 +1,102 @@
+import { db } from './db.js';
+import { getAlbumInfo, getArtistInfo, getSimilarArtists } from './lastfm.js';
+
+export type ArtistDetails = {
+  id: number;
+  name: string;
+  biography: string;
+  musicBrainzId: string | null;
+  lastfmUrl: string | null;
+  hasArt: boolean;
+  similar: { id: number; name: string; match: number; art_path: string | null; art_hash: string | null; album_count: number; art_track_id: number | null }[];
+};
+
+export type AlbumDetails = {
+  name: string;
+  artist: string;
+  notes: string;
+  musicBrainzId: string | null;
+  lastfmUrl: string | null;
+  artTrackId: number | null;
+};
+
+// Biography, MBID and similar artists for an artist visible in the given libraries.
+// Last.fm data comes from lastfm_cache when fresh; similar artists are limited to local ones.
+export async function getArtistDetails(artistId: number, allowed: number[] | null, similarLimit = 20): Promise<ArtistDetails | null> {
+  const libFilter = allowed === null ? '' : 'and t.library_id = any($2)';
+  const params = allowed === null ? [artistId] : [artistId, allowed];
+  const r = await db().query<{ id: number; name: string; musicbrainz_id: string | null; art_path: string | null; track_mbid: string | null }>(
+    `select a.id, a.name, a.musicbrainz_id, a.art_path,
+            (select t.musicbrainz_artist_id from track_artists ta join active_tracks t on t.id = ta.track_id
+              where ta.artist_id = a.id and t.musicbrainz_artist_id is not null ${libFilter} limit 1) as track_mbid
+       from artists a
+      where a.id = $1
+        and exists (select 1 from track_artists ta join active_tracks t on t.id = ta.track_id where ta.artist_id = a.id ${libFilter})`,
+    params as any
+  );
+  const artist = r.rows[0];
+  if (!artist) return null;
+
+  const info = await getArtistInfo(artist.name);
+  const similar = await getSimilarArtists(artist.name, 50);
+  const matchByName = new Map(similar.map((s) => [s.name.toLowerCase(), s.match]));
+
+  let similarRows: ArtistDetails['similar'] = [];
+  if (matchByName.size > 0) {
+    const simParams = allowed === null ? [[...matchByName.keys()], artistId] : [[...matchByName.keys()], artistId, allowed];
+    const simFilter = allowed === null ? '' : 'and t.library_id = any($3)';
+    const sr = await db().query<{ id: number; name: string; art_path: string | null; art_hash: string | null; album_count: number; art_track_id: number | null }>(
+      `select a.id, a.name, a.art_path, a.art_hash, count(distinct t.album)::int as album_count,
+              min(t.id) filter (where t.art_path is not null) as art_track_id
+         from artists a
+         join track_artists ta on ta.artist_id = a.id
+         join active_tracks t on t.id = ta.track_id
+        where lower(a.name) = any($1::text[]) and a.id <> $2 ${simFilter}
+        group by a.id, a.name, a.art_path, a.art_hash`,
+      simParams as any
+    );
+    similarRows = sr.rows
+      .map((row) => ({ ...row, id: Number(row.id), art_track_id: row.art_track_id ? Number(row.art_track_id) : null, match: matchByName.get(row.name.toLowerCase()) ?? 0 }))
+      .sort((a, b) => b.match - a.match)
+      .slice(0, similarLimit);
+  }
+
+  return {
+    id: Number(artist.id),
+    name: artist.name,
+    biography: info?.bio ?? '',
+    musicBrainzId: artist.musicbrainz_id || artist.track_mbid || info?.mbid || null,
+    lastfmUrl: info?.url ?? null,
+    hasArt: !!artist.art_path,
+    similar: similarRows,
+  };
+}
+
+// Notes and MBID for an album visible in the given libraries
+export async function getAlbumDetails(albumId: number, allowed: number[] | null): Promise<AlbumDetails | null> {
+  const libFilter = allowed === null ? '' : 'and t.library_id = any($2)';
+  const params = allowed === null ? [albumId] : [albumId, allowed];
+  const r = await db().query<{ name: string; artist: string; release_mbid: string | null; art_track_id: number | null }>(
+    `select min(t.album) as name,
+            coalesce(max(t.album_artist), max(t.artist)) as artist,
+            max(t.musicbrainz_release_id) as release_mbid,
+            min(t.id) filter (where t.art_path is not null) as art_track_id
+       from active_tracks t
+      where t.album_id = $1 ${libFilter}
+     having count(*) > 0`,
+    params as any
+  );
+  const album = r.rows[0];
+  if (!album) return null;
+  const albumName = album.name;
+
+  const info = await getAlbumInfo(album.artist, albumName);
+  return {
+    name: albumName,
+    artist: album.artist,
+    notes: info?.notes ?? '',
+    musicBrainzId: album.release_mbid || info?.mbid || null,
+    lastfmUrl: info?.url ?? null,
+    artTrackId: album.art_track_id ? Number(album.art_track_id) : null,
+  };
+}
@@ -0,0 +1,337 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { access, constants, copyFile, lstat, mkdir, readdir, rename, rmdir } from 'node:fs/promises';
+import path from 'node:path';
+import { audit, db, redis } from './db.js';
+import { renderPathTemplate } from './pathTemplate.js';
+
+const MAX_ORGANIZE_TRACKS = 20000;
+const DEFAULT_TEMPLATE = '{albumartist}/{year} - {album}/{disc}-{track:02} {title}.{ext}';
+const TEMPLATE_TOKENS = new Set([
+  'artist', 'albumartist', 'album', 'title', 'genre', 'composer', 'year', 'track', 'tracktotal', 'disc', 'disctotal', 'ext', 'filename',
+]);
+
+// Lyrics sidecars share the audio file's name; images in the folder are treated as cover art
+const LYRICS_EXTS = ['.lrc', '.txt'];
+const IMAGE_EXTS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif']);
+
+type OrganizeTrack = {
+  id: number;
+  path: string;
+  ext: string;
+  title: string | null;
+  artist: string | null;
+  album_artist: string | null;
+  album: string | null;
+  genre: string | null;
+  composer: string | null;
+  year: number | null;
+  track_number: number | null;
+  track_total: number | null;
+  disc_number: number | null;
+  disc_total: number | null;
+  lyrics_path: string | null;
+};
+
+type Sidecar = { from: string; to: string };
+
+type Move = { trackId: number; from: string; to: string; sidecars: Sidecar[]; lyricsPath: string | null };
+
+type Conflict = { trackId: number; from: string; to: string; reason: string };
+
+type CoverMove = { from: string; to: string[]; keepSource: boolean };
+
+type Plan = { moves: Move[]; conflicts: Conflict[]; covers: CoverMove[]; unchanged: number };
+
+function safeJoinMount(mountPath: string, relPath: string) {
+  const abs = path.resolve(mountPath, relPath);
+  const base = path.resolve(mountPath);
+  if (!abs.startsWith(base + path.sep)) throw new Error('invalid path');
+  return abs;
+}
+
+async function exists(abs: string) {
+  try {
+    await lstat(abs);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function listDir(abs: string) {
+  try {
+    return await readdir(abs, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+const splitFirst = (s: string | null) => (s ?? '').split(/\s*;\s*/).map((x) => x.trim()).find(Boolean) ?? null;
+
+// Target path (relative to the mount, "/"-separated) for one track
+function targetPath(t: OrganizeTrack, template: string) {
+  const ext = (t.ext || path.extname(t.path)).replace(/^\./, '').toLowerCase();
+  const original = path.posix.basename(t.path.replace(/\\/g, '/'), path.extname(t.path));
+  // The extension is added after sanitizing so long titles can't cut it off
+  const stemTemplate = template.replace(/\.\{ext\}\s*$/i, '');
+  const segments = renderPathTemplate(stemTemplate, {
+    artist: splitFirst(t.artist) ?? 'Unknown Artist',
+    albumartist: splitFirst(t.album_artist) ?? splitFirst(t.artist) ?? 'Unknown Artist',
+    album: t.album?.trim() || 'Unknown Album',
+    title: t.title?.trim() || original,
+    genre: splitFirst(t.genre),
+    composer: splitFirst(t.composer),
+    year: t.year,
+    track: t.track_number,
+    tracktotal: t.track_total,
+    disc: t.disc_number,
+    disctotal: t.disc_total,
+    ext,
+    filename: original,
+  });
+  if (segments.length === 0) return null;
+  return `${segments.join('/')}${ext ? `.${ext}` : ''}`;
+}
+
+async function planOrganize(mountPath: string, libraryId: number, tracks: OrganizeTrack[], template: string): Promise<Plan> {
+  const plan: Plan = { moves: [], conflicts: [], covers: [], unchanged: 0 };
+  const claimed = new Map<string, number>();
+
+  const candidates: Array<{ t: OrganizeTrack; to: string }> = [];
+  for (const t of tracks) {
+    const to = targetPath(t, template);
+    if (!to) {
+      plan.conflicts.push({ trackId: t.id, from: t.path, to: '', reason: 'Template produced an empty path' });
+      continue;
+    }
+    if (to === t.path) {
+      plan.unchanged++;
+      continue;
+    }
+    candidates.push({ t, to });
+  }
+
+  // Paths held by other rows (including removed tracks, which still own their path)
+  const taken = new Set<string>();
+  if (candidates.length > 0) {
+    const r = await db().query<{ path: string }>(
+      'select path from tracks where library_id = $1 and lower(path) = any($2)',
+      [libraryId, candidates.map((c) => c.to.toLowerCase())]
+    );
+    for (const row of r.rows) taken.add(row.path.toLowerCase());
+  }
+
+  for (const { t, to } of candidates) {
+    const key = to.toLowerCase();
+    const other = claimed.get(key);
+    if (other != null) {
+      plan.conflicts.push({ trackId: t.id, from: t.path, to, reason: `Same target as track ${other}` });
+      continue;
+    }
+    claimed.set(key, t.id);
+    // A case-only rename targets the file itself
+    if (key !== t.path.toLowerCase()) {
+      if (taken.has(key)) {
+        plan.conflicts.push({ trackId: t.id, from: t.path, to, reason: 'Another track already uses this path' });
+        continue;
+      }
+      if (await exists(safeJoinMount(mountPath, to))) {
+        plan.conflicts.push({ trackId: t.id, from: t.path, to, reason: 'A file already exists at the target' });
+        continue;
+      }
+    }
+
+    const fromStem = t.path.slice(0, t.path.length - path.extname(t.path).length);
+    const toStem = to.slice(0, to.length - path.extname(to).length);
+    const sidecars: Sidecar[] = [];
+    let lyricsPath = t.lyrics_path;
+    for (const ext of LYRICS_EXTS) {
+      const from = `${fromStem}${ext}`;
+      if (!(await exists(safeJoinMount(mountPath, from)))) continue;
+      const dest = `${toStem}${ext}`;
+      if (dest.toLowerCase() !== from.toLowerCase() && (await exists(safeJoinMount(mountPath, dest)))) continue;
+      sidecars.push({ from, to: dest });
+      if (lyricsPath === `music:${from}`) lyricsPath = `music:${dest}`;
+    }
+    plan.moves.push({ trackId: t.id, from: t.path, to, sidecars, lyricsPath });
+  }
+
+  // Cover images follow their folder's tracks; they're copied when the tracks end up in several folders
+  const byFolder = new Map<string, Set<string>>();
+  const leaving = plan.moves.filter((m) => path.posix.dirname(m.from) !== path.posix.dirname(m.to)).map((m) => m.from.toLowerCase());
+  for (const m of plan.moves) {
+    const fromDir = path.posix.dirname(m.from);
+    const toDir = path.posix.dirname(m.to);
+    if (fromDir === toDir) continue;
+    const dirs = byFolder.get(fromDir) ?? new Set<string>();
+    dirs.add(toDir);
+    byFolder.set(fromDir, dirs);
+  }
+  for (const [fromDir, toDirs] of byFolder) {
+    const prefix = fromDir === '.' ? '' : `${fromDir.replace(/[\\%_]/g, '\\$&')}/`;
+    const stay = await db().query(
+      'select 1 from active_tracks where library_id = $1 and path like $2 and path not like $3 and not (lower(path) = any($4)) limit 1',
+      [libraryId, `${prefix}%`, `${prefix}%/%`, leaving]
+    );
+    const keepSource = (stay.rowCount ?? 0) > 0 || plan.conflicts.some((c) => path.posix.dirname(c.from) === fromDir);
+    for (const entry of await listDir(safeJoinMount(mountPath, fromDir))) {
+      if (!entry.isFile() || !IMAGE_EXTS.has(path.extname(entry.name).toLowerCase())) continue;
+      const from = path.posix.join(fromDir, entry.name);
+      const to: string[] = [];
+      for (const dir of toDirs) {
+        const dest = path.posix.join(dir, entry.name);
+        if (!(await exists(safeJoinMount(mountPath, dest)))) to.push(dest);
+      }
+      if (to.length > 0) plan.covers.push({ from, to, keepSource });
+    }
+  }
+
+  return plan;
+}
+
+// Removes folders emptied by the moves, walking up but never past the mount root
+async function pruneEmptyDirs(mountPath: string, dirs: Iterable<string>) {
+  const sorted = [...new Set(dirs)].sort((a, b) => b.split('/').length - a.split('/').length);
+  for (const start of sorted) {
+    let dir = start;
+    while (dir && dir !== '.' && dir !== '/') {
+      try {
+        await rmdir(safeJoinMount(mountPath, dir));
+      } catch {
+        break;
+      }
+      dir = path.posix.dirname(dir);
+    }
+  }
+}
+
+export const organizerPlugin: FastifyPluginAsync = fp(async (app) => {
+  // Rename/move files of a writable library to a path template; dryRun (default) only reports
+  app.post('/api/admin/library/organize', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+
+    const body = (req.body ?? {}) as { libraryId?: number; template?: string; trackIds?: number[]; albumId?: number; dryRun?: boolean };
+    const libraryId = Number(body.libraryId);
+    if (!Number.isFinite(libraryId)) return reply.code(400).send({ ok: false, error: 'libraryId is required' });
+    const template = String(body.template ?? DEFAULT_TEMPLATE).trim().slice(0, 300);
+    if (!template || template.startsWith('/') || template.split('/').some((seg) => seg.trim() === '..')) {
+      return reply.code(400).send({ ok: false, error: 'Invalid template' });
+    }
+    const unknown = [...template.matchAll(/\{(\w+)(?::0?\d+)?\}/g)].map((m) => m[1].toLowerCase()).filter((k) => !TEMPLATE_TOKENS.has(k));
+    if (unknown.length > 0) return reply.code(400).send({ ok: false, error: `Unknown template token: {${unknown[0]}}` });
+    const dryRun = body.dryRun !== false;
+
+    const lib = await db().query<{ mount_path: string }>('select mount_path from libraries where id = $1', [libraryId]);
+    const mountPath = lib.rows[0]?.mount_path;
+    if (!mountPath) return reply.code(404).send({ ok: false, error: 'Library not found' });
+    if (!dryRun) {
+      try {
+        await access(mountPath, constants.W_OK);
+      } catch {
+        return reply.code(400).send({ ok: false, error: `Library mount is not writable: ${mountPath}` });
+      }
+    }
+
+    const params: unknown[] = [libraryId];
+    let scope = '';
+    if (body.albumId != null) {
+      const albumId = Number(body.albumId);
+      if (!Number.isFinite(albumId)) return reply.code(400).send({ ok: false, error: 'Invalid albumId' });
+      params.push(albumId);
+      scope = `and t.album_id = $${params.length}`;
+    } else if (Array.isArray(body.trackIds)) {
+      params.push(body.trackIds.map(Number).filter(Number.isFinite));
+      scope = `and t.id = any($${params.length})`;
+    }
+    const r = await db().query<OrganizeTrack>(
+      `select t.id, t.path, t.ext, t.title, t.artist, t.album_artist, t.album, t.genre, t.composer, t.year,
+              t.track_number, t.track_total, t.disc_number, t.disc_total, t.lyrics_path
+         from active_tracks t
+        where t.library_id = $1 ${scope}
+        order by t.path
+        limit ${MAX_ORGANIZE_TRACKS + 1}`,
+      params
+    );
+    if (r.rows.length > MAX_ORGANIZE_TRACKS) {
+      return reply.code(400).send({ ok: false, error: `At most ${MAX_ORGANIZE_TRACKS} tracks can be organized at once` });
+    }
+
+    const plan = await planOrganize(mountPath, libraryId, r.rows, template);
+    const report = {
+      template,
+      total: r.rows.length,
+      unchanged: plan.unchanged,
+      moves: plan.moves.map((m) => ({ trackId: m.trackId, from: m.from, to: m.to, sidecars: m.sidecars })),
+      covers: plan.covers,
+      conflicts: plan.conflicts,
+    };
+    if (dryRun) return { ok: true, dryRun: true, ...report };
+
+    const failed: Conflict[] = [];
+    const touchedDirs = new Set<string>();
+    const movedIds: number[] = [];
+    for (const m of plan.moves) {
+      const fromAbs = safeJoinMount(mountPath, m.from);
+      const toAbs = safeJoinMount(mountPath, m.to);
+      try {
+        // Re-check right before the rename: never overwrite something that appeared since planning
+        if (m.to.toLowerCase() !== m.from.toLowerCase() && (await exists(toAbs))) throw new Error('A file already exists at the target');
+        await mkdir(path.dirname(toAbs), { recursive: true });
+        await rename(fromAbs, toAbs);
+        try {
+          await db().query('update tracks set path = $2, lyrics_path = $3, updated_at = now() where id = $1', [m.trackId, m.to, m.lyricsPath]);
+        } catch (e) {
+          await rename(toAbs, fromAbs);
+          throw e;
+        }
+      } catch (e: any) {
+        failed.push({ trackId: m.trackId, from: m.from, to: m.to, reason: e?.message ?? String(e) });
+        continue;
+      }
+      movedIds.push(m.trackId);
+      touchedDirs.add(path.posix.dirname(m.from));
+      for (const s of m.sidecars) {
+        try {
+          await rename(safeJoinMount(mountPath, s.from), safeJoinMount(mountPath, s.to));
+        } catch (e: any) {
+          failed.push({ trackId: m.trackId, from: s.from, to: s.to, reason: e?.message ?? String(e) });
+        }
+      }
+    }
+
+    for (const c of plan.covers) {
+      try {
+        const fromAbs = safeJoinMount(mountPath, c.from);
+        for (const [i, dest] of c.to.entries()) {
+          const destAbs = safeJoinMount(mountPath, dest);
+          if (await exists(destAbs)) continue;
+          await mkdir(path.dirname(destAbs), { recursive: true });
+          if (!c.keepSource && i === c.to.length - 1) await rename(fromAbs, destAbs);
+          else await copyFile(fromAbs, destAbs, constants.COPYFILE_EXCL);
+        }
+      } catch (e: any) {
+        failed.push({ trackId: 0, from: c.from, to: c.to.join(', '), reason: e?.message ?? String(e) });
+      }
+    }
+
+    await pruneEmptyDirs(mountPath, touchedDirs);
+
+    await audit('library_organized', {
+      by: req.user.userId,
+      libraryId,
+      template,
+      moved: movedIds.length,
+      conflicts: plan.conflicts.length,
+      failed: failed.length,
+    });
+
+    // Moved files keep their mtime and size, so the scan alone would leave untagged albums keyed to the
+    // old folder; the worker regroups the moved tracks first, then rescans. Track ids stay the same.
+    if (movedIds.length > 0) {
+      await redis().publish('library:commands', JSON.stringify({ command: 'reassign_albums', trackIds: movedIds, by: req.user.userId }));
+    }
+
+    return { ok: true, dryRun: false, ...report, moved: movedIds.length, failed };
+  });
+});
@@ -0,0 +1,40 @@
+// Windows refuses these as file or folder names whatever the extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Characters that are invalid on common filesystems, control characters and trailing dots/spaces
+export function sanitizeSegment(s: string) {
+  const clean = s
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '_')
+    .replace(/[. ]+$/, '')
+    .slice(0, 120);
+  if (RESERVED_NAMES.test(clean)) return `_${clean}`;
+  return clean || '_';
+}
+
+/**
+ * Renders a "/"-separated template such as `{albumartist}/{year} - {album}/{track:02} {title}`.
+ * `{name:0N}` zero-pads numbers. Separators left dangling by an empty value ("{year} - ") are dropped,
+ * as are segments that end up empty. Unknown tokens stay as written.
+ */
+export function renderPathTemplate(template: string, values: Record<string, string | number | null | undefined>) {
+  return template
+    .split('/')
+    .map((seg) =>
+      seg
+        .replace(/\{(\w+)(?::(0?)(\d+))?\}/g, (m, key: string, zero: string, width: string) => {
+          const lower = key.toLowerCase();
+          if (!(lower in values)) return m;
+          const v = values[lower];
+          if (v == null || v === '') return '';
+          return width ? String(v).padStart(Number(width), zero ? '0' : ' ') : String(v);
+        })
+        .replace(/^[\s\-_.,]+|[\s\-_,]+$/g, '')
+        .replace(/\(\s*\)|\[\s*\]/g, '')
+        .trim()
+    )
+    .filter((seg) => seg.length > 0)
+    .map(sanitizeSegment);
+}
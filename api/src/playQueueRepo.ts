@@ -0,0 +1,57 @@
+import { db } from './db.js';
+
+export type PlayQueue = {
+  trackIds: number[];
+  currentIndex: number;
+  positionMs: number;
+  changedBy: string | null;
+  updatedAt: string | null;
+};
+
+export async function getPlayQueue(userId: string): Promise<PlayQueue | null> {
+  const r = await db().query<{ track_ids: string[]; current_index: number; position_ms: string; changed_by: string | null; updated_at: Date }>(
+    'select track_ids, current_index, position_ms, changed_by, updated_at from play_queues where user_id=$1',
+    [userId]
+  );
+  const row = r.rows[0];
+  if (!row) return null;
+  return {
+    trackIds: (row.track_ids ?? []).map(Number),
+    currentIndex: Number(row.current_index),
+    positionMs: Number(row.position_ms),
+    changedBy: row.changed_by,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+export async function savePlayQueue(userId: string, trackIds: number[], currentIndex: number, positionMs: number, changedBy: string | null) {
+  const r = await db().query<{ updated_at: Date }>(
+    `insert into play_queues(user_id, track_ids, current_index, position_ms, changed_by, updated_at)
+     values ($1, $2::bigint[], $3, $4, $5, now())
+     on conflict (user_id) do update set
+       track_ids = excluded.track_ids,
+       current_index = excluded.current_index,
+       position_ms = excluded.position_ms,
+       changed_by = excluded.changed_by,
+       updated_at = now()
+     returning updated_at`,
+    [userId, trackIds, currentIndex, Math.max(0, Math.round(positionMs)), changedBy]
+  );
+  return new Date(r.rows[0].updated_at).toISOString();
+}
+
+// Load queue tracks in queue order, dropping anything the user can no longer access
+export async function loadQueueTracks(trackIds: number[], allowedLibraries: number[] | null) {
+  if (trackIds.length === 0) return [];
+  const where = allowedLibraries === null ? '' : 'and t.library_id = any($2)';
+  const params = allowedLibraries === null ? [trackIds] : [trackIds, allowedLibraries];
+  const r = await db().query<{ id: number; title: string | null; artist: string | null; album: string | null; duration_ms: number | null }>(
+    `select t.id, t.title, t.artist, t.album, t.duration_ms
+       from active_tracks t
+      where t.id = any($1::bigint[])
+      ${where}`,
+    params as any
+  );
+  const byId = new Map(r.rows.map((row) => [Number(row.id), { ...row, id: Number(row.id) }]));
+  return trackIds.map((id) => byId.get(id)).filter((t): t is NonNullable<typeof t> => !!t);
+}
@@ -6,24 +6,112 @@ import { FastifyPluginAsync } from 'fastify';
 import fp from 'fastify-plugin';
 import { db } from './db.js';
 import { findSimilarLocalTracks, findSimilarLocalArtists, isLastfmEnabled } from './lastfm.js';
+import { isTranscodeFormat } from './transcode.js';
+import { broadcastToUser } from './websocket.js';
+
+type ReplayGainMode = 'off' | 'track' | 'album';
+
+const REPLAYGAIN_MODES: ReplayGainMode[] = ['off', 'track', 'album'];
+
+type EqBandType = 'lowshelf' | 'peaking' | 'highshelf';
+
+interface EqBand {
+  type: EqBandType;
+  freq: number;
+  gain: number;
+  q: number;
+}
+
+// Web player equalizer preset: preamp plus exactly EQ_BAND_COUNT bands
+interface EqPreset {
+  id: string;
+  name: string;
+  preamp: number;
+  bands: EqBand[];
+}
+
+const EQ_BAND_COUNT = 10;
+const EQ_MAX_PRESETS = 50;
+const EQ_MAX_OUTPUTS = 50;
+const EQ_BAND_TYPES: EqBandType[] = ['lowshelf', 'peaking', 'highshelf'];
+
+function clampNumber(v: unknown, min: number, max: number): number | null {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : null;
+}
+
+// Returns null when the payload is not a usable preset list, so the stored one is kept
+function sanitizeEqPresets(v: unknown): EqPreset[] | null {
+  if (!Array.isArray(v) || v.length > EQ_MAX_PRESETS) return null;
+  const out: EqPreset[] = [];
+  for (const p of v) {
+    if (!p || typeof p !== 'object') return null;
+    const { id, name, preamp, bands } = p as Record<string, unknown>;
+    if (typeof id !== 'string' || !id || id.length > 64) return null;
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) return null;
+    if (!Array.isArray(bands) || bands.length !== EQ_BAND_COUNT) return null;
+    const cleanBands: EqBand[] = [];
+    for (const b of bands) {
+      const type = EQ_BAND_TYPES.includes(b?.type) ? (b.type as EqBandType) : 'peaking';
+      const freq = clampNumber(b?.freq, 20, 20000);
+      const gain = clampNumber(b?.gain, -24, 24);
+      const q = clampNumber(b?.q, 0.1, 18);
+      if (freq == null || gain == null || q == null) return null;
+      cleanBands.push({ type, freq, gain, q });
+    }
+    out.push({ id, name: name.trim(), preamp: clampNumber(preamp, -24, 24) ?? 0, bands: cleanBands });
+  }
+  return out;
+}
+
+// Output device key (label reported by the browser, or 'default') -> preset id, null for flat
+function sanitizeEqOutputs(v: unknown): Record<string, string | null> | null {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return null;
+  const entries = Object.entries(v as Record<string, unknown>);
+  if (entries.length > EQ_MAX_OUTPUTS) return null;
+  const out: Record<string, string | null> = {};
+  for (const [key, presetId] of entries) {
+    if (!key || key.length > 200) return null;
+    if (presetId !== null && (typeof presetId !== 'string' || presetId.length > 64)) return null;
+    out[key] = presetId;
+  }
+  return out;
+}
 
 interface UserPreferences {
   auto_continue: boolean;
   prefer_hls: boolean;
+  transcode_format: string;
+  transcode_max_bitrate: number;
+  replaygain_mode: ReplayGainMode;
+  crossfade_seconds: number;
+  eq_presets: EqPreset[];
+  eq_outputs: Record<string, string | null>;
 }
 
 const DEFAULT_PREFS: UserPreferences = {
   auto_continue: false,
   prefer_hls: false,
+  transcode_format: 'raw',
+  transcode_max_bitrate: 0,
+  replaygain_mode: 'off',
+  crossfade_seconds: 0,
+  eq_presets: [],
+  eq_outputs: {},
 };
 
+const TRANSCODE_BITRATES = [0, 64, 96, 128, 160, 192, 256, 320];
+const MAX_CROSSFADE_SECONDS = 12;
+
+const PREF_COLUMNS = 'auto_continue, prefer_hls, transcode_format, transcode_max_bitrate, replaygain_mode, crossfade_seconds, eq_presets, eq_outputs';
+
 export const preferencesPlugin: FastifyPluginAsync = fp(async (app) => {
   // Get user preferences
   app.get('/api/preferences', async (req, reply) => {
     if (!req.user) return reply.code(401).send({ ok: false });
 
     const r = await db().query<UserPreferences>(
-      'SELECT auto_continue, prefer_hls FROM user_preferences WHERE user_id = $1',
+      `SELECT ${PREF_COLUMNS} FROM user_preferences WHERE user_id = $1`,
       [req.user.userId]
     );
 
@@ -42,7 +130,7 @@ export const preferencesPlugin: FastifyPluginAsync = fp(async (app) => {
     
     // Get current preferences first
     const current = await db().query<UserPreferences>(
-      'SELECT auto_continue, prefer_hls FROM user_preferences WHERE user_id = $1',
+      `SELECT ${PREF_COLUMNS} FROM user_preferences WHERE user_id = $1`,
       [req.user.userId]
     );
     
@@ -50,16 +138,30 @@ export const preferencesPlugin: FastifyPluginAsync = fp(async (app) => {
     const newPrefs = {
       auto_continue: typeof body.auto_continue === 'boolean' ? body.auto_continue : existing.auto_continue,
       prefer_hls: typeof body.prefer_hls === 'boolean' ? body.prefer_hls : existing.prefer_hls,
+      transcode_format: body.transcode_format === 'raw' || isTranscodeFormat(body.transcode_format) ? body.transcode_format : existing.transcode_format,
+      transcode_max_bitrate: TRANSCODE_BITRATES.includes(Number(body.transcode_max_bitrate)) ? Number(body.transcode_max_bitrate) : existing.transcode_max_bitrate,
+      replaygain_mode: REPLAYGAIN_MODES.includes(body.replaygain_mode as ReplayGainMode) ? body.replaygain_mode as ReplayGainMode : existing.replaygain_mode,
+      crossfade_seconds: Number.isInteger(body.crossfade_seconds) && Number(body.crossfade_seconds) >= 0 && Number(body.crossfade_seconds) <= MAX_CROSSFADE_SECONDS
+        ? Number(body.crossfade_seconds) : existing.crossfade_seconds,
+      eq_presets: sanitizeEqPresets(body.eq_presets) ?? existing.eq_presets,
+      eq_outputs: sanitizeEqOutputs(body.eq_outputs) ?? existing.eq_outputs,
     };
 
     await db().query(
-      `INSERT INTO user_preferences (user_id, auto_continue, prefer_hls, updated_at)
-       VALUES ($1, $2, $3, now())
+      `INSERT INTO user_preferences (user_id, auto_continue, prefer_hls, transcode_format, transcode_max_bitrate, replaygain_mode, crossfade_seconds, eq_presets, eq_outputs, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9::jsonb, now())
        ON CONFLICT (user_id) DO UPDATE SET 
-         auto_continue = $2, prefer_hls = $3, updated_at = now()`,
-      [req.user.userId, newPrefs.auto_continue, newPrefs.prefer_hls]
+         auto_continue = $2, prefer_hls = $3, transcode_format = $4, transcode_max_bitrate = $5, replaygain_mode = $6, crossfade_seconds = $7,
+         eq_presets = $8::jsonb, eq_outputs = $9::jsonb, updated_at = now()`,
+      [
+        req.user.userId, newPrefs.auto_continue, newPrefs.prefer_hls, newPrefs.transcode_format, newPrefs.transcode_max_bitrate,
+        newPrefs.replaygain_mode, newPrefs.crossfade_seconds, JSON.stringify(newPrefs.eq_presets), JSON.stringify(newPrefs.eq_outputs),
+      ]
     );
 
+    // Other open browsers of this user pick up the change (EQ presets, playback settings)
+    broadcastToUser(req.user.userId, 'preferences:changed', { preferences: newPrefs });
+
     return { ok: true, preferences: newPrefs };
   });
 
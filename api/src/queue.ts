@@ -0,0 +1,55 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import * as pq from './playQueueRepo.js';
+import { allowedLibrariesForUser } from './access.js';
+import { broadcastToUser } from './websocket.js';
+
+const MAX_QUEUE_LENGTH = 5000;
+
+export const queuePlugin: FastifyPluginAsync = fp(async (app) => {
+  app.get('/api/queue', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const queue = await pq.getPlayQueue(req.user.userId);
+    if (!queue) return { ok: true, tracks: [], index: 0, positionMs: 0, changedBy: null, updatedAt: null };
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const tracks = await pq.loadQueueTracks(queue.trackIds, allowed);
+
+    // Keep the current entry pointing at the same track if some were dropped
+    const currentId = queue.trackIds[queue.currentIndex];
+    const idx = tracks.findIndex((t) => t.id === currentId);
+    return {
+      ok: true,
+      tracks,
+      index: idx >= 0 ? idx : 0,
+      positionMs: idx >= 0 ? queue.positionMs : 0,
+      changedBy: queue.changedBy,
+      updatedAt: queue.updatedAt,
+    };
+  });
+
+  app.put('/api/queue', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const body = (req.body ?? {}) as { trackIds?: unknown; index?: unknown; positionMs?: unknown; client?: unknown; clientId?: unknown };
+    if (!Array.isArray(body.trackIds)) return reply.code(400).send({ ok: false, error: 'trackIds_required' });
+
+    const requested = body.trackIds.map(Number).filter((n) => Number.isFinite(n)).slice(0, MAX_QUEUE_LENGTH);
+    const index = Math.max(0, Math.floor(Number(body.index) || 0));
+    const positionMs = Math.max(0, Number(body.positionMs) || 0);
+    const client = typeof body.client === 'string' && body.client.trim() ? body.client.trim().slice(0, 100) : 'web';
+    const clientId = typeof body.clientId === 'string' ? body.clientId.slice(0, 100) : null;
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const accessible = new Set((await pq.loadQueueTracks(requested, allowed)).map((t) => t.id));
+    const trackIds = requested.filter((id) => accessible.has(id));
+    const currentId = requested[index];
+    const currentIndex = Math.max(0, trackIds.indexOf(currentId));
+
+    const updatedAt = await pq.savePlayQueue(req.user.userId, trackIds, currentIndex, positionMs, client);
+
+    // Let the user's other sessions know the queue moved on
+    broadcastToUser(req.user.userId, 'queue:changed', { changedBy: client, clientId, updatedAt });
+
+    return { ok: true, updatedAt };
+  });
+});
@@ -0,0 +1,210 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { Readable, Transform, type TransformCallback } from 'node:stream';
+import { audit } from './db.js';
+import logger from './logger.js';
+import * as radio from './radioRepo.js';
+import { broadcastToUser } from './websocket.js';
+import type { Role } from './store.js';
+
+const RELAY_CONNECT_TIMEOUT_MS = 10_000;
+
+// Strips ICY metadata blocks out of a Shoutcast/Icecast stream and reports StreamTitle changes.
+// Every `metaInt` audio bytes the server inserts one length byte (x16) followed by the metadata text.
+class IcyMetadataStripper extends Transform {
+  private audioRemaining: number;
+  private metaRemaining = 0;
+  private metaParts: Buffer[] = [];
+  private lastTitle: string | null = null;
+
+  constructor(private readonly metaInt: number, private readonly onTitle: (title: string) => void) {
+    super();
+    this.audioRemaining = metaInt;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    const audio: Buffer[] = [];
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.audioRemaining > 0) {
+        const n = Math.min(this.audioRemaining, chunk.length - offset);
+        audio.push(chunk.subarray(offset, offset + n));
+        offset += n;
+        this.audioRemaining -= n;
+      } else if (this.metaRemaining === 0) {
+        const length = chunk[offset] * 16;
+        offset += 1;
+        if (length === 0) this.audioRemaining = this.metaInt;
+        else this.metaRemaining = length;
+      } else {
+        const n = Math.min(this.metaRemaining, chunk.length - offset);
+        this.metaParts.push(chunk.subarray(offset, offset + n));
+        offset += n;
+        this.metaRemaining -= n;
+        if (this.metaRemaining === 0) {
+          this.handleMetadata(Buffer.concat(this.metaParts).toString('utf8'));
+          this.metaParts = [];
+          this.audioRemaining = this.metaInt;
+        }
+      }
+    }
+    if (audio.length > 0) this.push(Buffer.concat(audio));
+    callback();
+  }
+
+  private handleMetadata(text: string) {
+    const match = /StreamTitle='(.*?)';/s.exec(text.replace(/\0+$/, ''));
+    const title = match?.[1]?.trim();
+    if (!title || title === this.lastTitle) return;
+    this.lastTitle = title;
+    this.onTitle(title);
+  }
+}
+
+function serializeStation(s: radio.RadioStationRow, userId: string, role: Role) {
+  return {
+    id: s.id,
+    name: s.name,
+    streamUrl: s.stream_url,
+    homepageUrl: s.homepage_url,
+    artworkUrl: s.artwork_url,
+    relay: s.relay,
+    shared: s.user_id === null,
+    editable: radio.canEditStation(s, userId, role),
+    // Relayed stations are played through the API so http:// streams work on an https:// UI
+    playUrl: s.relay ? `/api/radio/${s.id}/relay` : s.stream_url,
+  };
+}
+
+function optionalText(v: unknown, max: number) {
+  return typeof v === 'string' ? v.trim().slice(0, max) || null : null;
+}
+
+export const radioPlugin: FastifyPluginAsync = fp(async (app) => {
+  app.get('/api/radio', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { userId, role } = req.user;
+    const stations = await radio.listStations(userId);
+    return { ok: true, stations: stations.map((s) => serializeStation(s, userId, role)) };
+  });
+
+  app.post('/api/radio', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { userId, role } = req.user;
+    const body = (req.body ?? {}) as {
+      name?: string;
+      streamUrl?: string;
+      homepageUrl?: string;
+      artworkUrl?: string;
+      relay?: boolean;
+      shared?: boolean;
+    };
+
+    const name = optionalText(body.name, 200);
+    const streamUrl = radio.normalizeStationUrl(body.streamUrl);
+    if (!name || !streamUrl) return reply.code(400).send({ ok: false, error: 'name_and_stream_url_required' });
+
+    // Only admins can add shared stations or enable the relay (it makes the server fetch the URL)
+    const isAdmin = role === 'admin';
+    const station = await radio.createStation({
+      userId: isAdmin && body.shared !== false ? null : userId,
+      name,
+      streamUrl,
+      homepageUrl: radio.normalizeStationUrl(body.homepageUrl),
+      artworkUrl: radio.normalizeStationUrl(body.artworkUrl),
+      relay: isAdmin && body.relay === true,
+    });
+    await audit('radio_station_created', { by: userId, stationId: station.id, shared: station.user_id === null });
+    return { ok: true, station: serializeStation(station, userId, role) };
+  });
+
+  app.patch('/api/radio/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { userId, role } = req.user;
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const station = await radio.getStation(id, userId);
+    if (!station) return reply.code(404).send({ ok: false });
+    if (!radio.canEditStation(station, userId, role)) return reply.code(403).send({ ok: false });
+
+    const body = (req.body ?? {}) as { name?: string; streamUrl?: string; homepageUrl?: string | null; artworkUrl?: string | null; relay?: boolean };
+    const name = body.name === undefined ? undefined : optionalText(body.name, 200);
+    const streamUrl = body.streamUrl === undefined ? undefined : radio.normalizeStationUrl(body.streamUrl);
+    if (name === null || streamUrl === null) return reply.code(400).send({ ok: false, error: 'name_and_stream_url_required' });
+
+    await radio.updateStation(id, {
+      name,
+      streamUrl,
+      homepageUrl: body.homepageUrl === undefined ? undefined : radio.normalizeStationUrl(body.homepageUrl),
+      artworkUrl: body.artworkUrl === undefined ? undefined : radio.normalizeStationUrl(body.artworkUrl),
+      relay: role === 'admin' && typeof body.relay === 'boolean' ? body.relay : undefined,
+    });
+    await audit('radio_station_updated', { by: userId, stationId: id });
+
+    const updated = await radio.getStation(id, userId);
+    return { ok: true, station: updated ? serializeStation(updated, userId, role) : null };
+  });
+
+  app.delete('/api/radio/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { userId, role } = req.user;
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const station = await radio.getStation(id, userId);
+    if (!station) return reply.code(404).send({ ok: false });
+    if (!radio.canEditStation(station, userId, role)) return reply.code(403).send({ ok: false });
+
+    await radio.deleteStation(id);
+    await audit('radio_station_deleted', { by: userId, stationId: id, name: station.name });
+    return { ok: true };
+  });
+
+  // Server-side relay: re-serves the stream from our origin and pushes ICY titles over the websocket
+  app.get('/api/radio/:id/relay', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const { userId } = req.user;
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const station = await radio.getStation(id, userId);
+    if (!station || !station.relay) return reply.code(404).send({ ok: false });
+
+    const controller = new AbortController();
+    req.raw.on('close', () => controller.abort());
+    const connectTimer = setTimeout(() => controller.abort(), RELAY_CONNECT_TIMEOUT_MS);
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(station.stream_url, {
+        headers: { 'Icy-MetaData': '1', 'User-Agent': 'mvbar/1.0' },
+        signal: controller.signal,
+      });
+    } catch {
+      logger.warn('radio', `Relay connect failed for station ${id}`);
+      return reply.code(502).send({ ok: false });
+    } finally {
+      clearTimeout(connectTimer);
+    }
+    if (!upstream.ok || !upstream.body) {
+      controller.abort();
+      return reply.code(502).send({ ok: false });
+    }
+
+    const source = Readable.fromWeb(upstream.body as import('node:stream/web').ReadableStream);
+    source.on('error', () => controller.abort());
+
+    let body: Readable = source;
+    const metaInt = Number(upstream.headers.get('icy-metaint') ?? 0);
+    if (Number.isInteger(metaInt) && metaInt > 0) {
+      const stripper = new IcyMetadataStripper(metaInt, (title) => {
+        broadcastToUser(userId, 'radio:now_playing', { stationId: id, title });
+      });
+      stripper.on('error', () => controller.abort());
+      body = source.pipe(stripper);
+    }
+
+    reply
+      .header('Content-Type', upstream.headers.get('content-type') ?? 'audio/mpeg')
+      .header('Cache-Control', 'no-store');
+    return reply.send(body);
+  });
+});
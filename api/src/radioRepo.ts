@@ -0,0 +1,95 @@
+import { db } from './db.js';
+import type { Role } from './store.js';
+
+export type RadioStationRow = {
+  id: number;
+  user_id: string | null;
+  name: string;
+  stream_url: string;
+  homepage_url: string | null;
+  artwork_url: string | null;
+  relay: boolean;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function mapRow(row: RadioStationRow): RadioStationRow {
+  return { ...row, id: Number(row.id) };
+}
+
+// Only plain http(s) streams are accepted; anything else can't be played or relayed
+export function normalizeStationUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Shared stations plus the user's own
+export async function listStations(userId: string) {
+  const r = await db().query<RadioStationRow>(
+    `select * from radio_stations where user_id is null or user_id = $1 order by lower(name), id`,
+    [userId]
+  );
+  return r.rows.map(mapRow);
+}
+
+export async function getStation(id: number, userId: string) {
+  const r = await db().query<RadioStationRow>(
+    'select * from radio_stations where id = $1 and (user_id is null or user_id = $2)',
+    [id, userId]
+  );
+  return r.rows[0] ? mapRow(r.rows[0]) : null;
+}
+
+// Shared stations are admin-managed; personal stations belong to their owner
+export function canEditStation(station: Pick<RadioStationRow, 'user_id'>, userId: string, role: Role) {
+  return station.user_id === null ? role === 'admin' : station.user_id === userId;
+}
+
+export async function createStation(input: {
+  userId: string | null;
+  name: string;
+  streamUrl: string;
+  homepageUrl: string | null;
+  artworkUrl: string | null;
+  relay: boolean;
+}) {
+  const r = await db().query<RadioStationRow>(
+    `insert into radio_stations(user_id, name, stream_url, homepage_url, artwork_url, relay)
+     values ($1, $2, $3, $4, $5, $6) returning *`,
+    [input.userId, input.name, input.streamUrl, input.homepageUrl, input.artworkUrl, input.relay]
+  );
+  return mapRow(r.rows[0]);
+}
+
+export async function updateStation(
+  id: number,
+  patch: { name?: string; streamUrl?: string; homepageUrl?: string | null; artworkUrl?: string | null; relay?: boolean }
+) {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  const columns: [keyof typeof patch, string][] = [
+    ['name', 'name'],
+    ['streamUrl', 'stream_url'],
+    ['homepageUrl', 'homepage_url'],
+    ['artworkUrl', 'artwork_url'],
+    ['relay', 'relay'],
+  ];
+  for (const [key, column] of columns) {
+    if (patch[key] === undefined) continue;
+    params.push(patch[key]);
+    sets.push(`${column} = $${params.length}`);
+  }
+  if (sets.length === 0) return;
+  params.push(id);
+  await db().query(`update radio_stations set ${sets.join(', ')}, updated_at = now() where id = $${params.length}`, params);
+}
+
+export async function deleteStation(id: number) {
+  await db().query('delete from radio_stations where id = $1', [id]);
+}
@@ -0,0 +1,61 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { audit, db } from './db.js';
+import * as ratings from './ratingsRepo.js';
+import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+import { broadcastToUser } from './websocket.js';
+
+export const ratingsPlugin: FastifyPluginAsync = fp(async (app) => {
+  // Set a 1-5 star rating; 0 clears it (same convention as Subsonic setRating)
+  app.put('/api/ratings/:trackId', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const trackId = Number((req.params as { trackId: string }).trackId);
+    if (!Number.isFinite(trackId)) return reply.code(400).send({ ok: false });
+
+    const body = (req.body ?? {}) as { rating?: number };
+    const rating = Number(body.rating);
+    if (!Number.isInteger(rating) || rating < 0 || rating > 5) return reply.code(400).send({ ok: false, error: 'invalid_rating' });
+
+    const r = await db().query<{ library_id: number }>('select library_id from active_tracks where id=$1', [trackId]);
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+
+    if (rating === 0) {
+      await ratings.clearRating(req.user.userId, trackId);
+    } else {
+      await ratings.setRating(req.user.userId, trackId, rating);
+    }
+    await audit('track_rated', { by: req.user.userId, trackId, rating });
+
+    // Broadcast rating change to all connected clients of this user
+    broadcastToUser(req.user.userId, 'rating:changed', { trackId, rating });
+
+    return { ok: true, trackId, rating };
+  });
+
+  app.delete('/api/ratings/:trackId', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const trackId = Number((req.params as { trackId: string }).trackId);
+    if (!Number.isFinite(trackId)) return reply.code(400).send({ ok: false });
+
+    const r = await db().query<{ library_id: number }>('select library_id from active_tracks where id=$1', [trackId]);
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+
+    await ratings.clearRating(req.user.userId, trackId);
+    await audit('track_rated', { by: req.user.userId, trackId, rating: 0 });
+    broadcastToUser(req.user.userId, 'rating:changed', { trackId, rating: 0 });
+    return { ok: true };
+  });
+
+  app.get('/api/ratings', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    const items = await ratings.listRatings(req.user.userId, allowed);
+    return { ok: true, ratings: items };
+  });
+});
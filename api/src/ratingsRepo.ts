@@ -0,0 +1,28 @@
+import { db } from './db.js';
+
+export async function setRating(userId: string, trackId: number, rating: number) {
+  await db().query(
+    `insert into track_ratings(user_id, track_id, rating) values ($1, $2, $3)
+     on conflict (user_id, track_id) do update set rating = excluded.rating, rated_at = now()`,
+    [userId, trackId, rating]
+  );
+}
+
+export async function clearRating(userId: string, trackId: number) {
+  await db().query('delete from track_ratings where user_id=$1 and track_id=$2', [userId, trackId]);
+}
+
+export async function listRatings(userId: string, allowedLibraries: number[] | null) {
+  const where = allowedLibraries === null ? '' : 'and t.library_id = any($2)';
+  const params = allowedLibraries === null ? [userId] : [userId, allowedLibraries];
+
+  const r = await db().query<{ track_id: number; rating: number }>(
+    `select tr.track_id, tr.rating
+     from track_ratings tr
+     join active_tracks t on t.id = tr.track_id
+     where tr.user_id=$1
+     ${where}`,
+    params as any
+  );
+  return r.rows.map((row) => ({ trackId: Number(row.track_id), rating: Number(row.rating) }));
+}
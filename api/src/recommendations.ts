@@ -3,7 +3,7 @@ import type { FastifyPluginAsync } from 'fastify';
 import crypto from 'crypto';
 import { db, redis } from './db.js';
 import { allowedLibrariesForUser } from './access.js';
-import { findSimilarLocalArtists, isLastfmEnabled } from './lastfm.js';
+import { findSimilarLocalArtists, findSimilarLocalTracks, isLastfmEnabled } from './lastfm.js';
 import { fetchRecommendations as fetchLBRecommendations, lookupRecording, getUserLBConfig } from './listenbrainz.js';
 
 // ============================================================================
@@ -616,6 +616,161 @@ function diversify(
   return result;
 }
 
+// ============================================================================
+// SIMILAR MIX (Subsonic getSimilarSongs / getPandoraSongs)
+// ============================================================================
+
+export type SimilarMixSeed = { trackId: number } | { artistId: number };
+
+const MIX_TRACK_COLUMNS = `
+  t.id, t.title, t.artist, t.album, t.art_path, t.art_hash, t.genre, t.country, t.language,
+  t.year, t.bpm, t.duration_ms, t.updated_at,
+  coalesce(s.play_count, 0)::int as play_count, coalesce(s.skip_count, 0)::int as skip_count, s.last_played_at,
+  case when f.track_id is not null then true else false end as is_favorite`;
+
+// Instant mix around a track or artist: Last.fm neighbours found in the local library,
+// padded with same-genre tracks near the seed's era and tempo, ranked by the user's taste.
+export async function buildSimilarMix(
+  userId: string,
+  allowed: number[] | null,
+  seed: SimilarMixSeed,
+  count: number
+): Promise<number[]> {
+  const libParam = (idx: number) => (allowed ? `and t.library_id = any($${idx}::bigint[])` : '');
+  const withLib = (params: unknown[]) => (allowed ? [...params, allowed] : params);
+
+  let seedTrackId: number | null = null;
+  let seedArtist: string | null = null;
+  let seedTitle: string | null = null;
+  let seedGenre: string | null = null;
+  let seedYear: number | null = null;
+  let seedBpm: number | null = null;
+
+  if ('trackId' in seed) {
+    const r = await db().query<{ title: string; artist: string; genre: string | null; year: number | null; bpm: number | null }>(
+      `select t.title, t.artist, t.genre, t.year, t.bpm from active_tracks t where t.id = $1 ${libParam(2)}`,
+      withLib([seed.trackId])
+    );
+    const row = r.rows[0];
+    if (!row) return [];
+    seedTrackId = seed.trackId;
+    seedArtist = row.artist;
+    seedTitle = row.title;
+    seedGenre = row.genre;
+    seedYear = row.year;
+    seedBpm = row.bpm;
+  } else {
+    const a = await db().query<{ name: string }>('select name from artists where id = $1', [seed.artistId]);
+    if (!a.rows[0]) return [];
+    seedArtist = a.rows[0].name;
+    // Describe the artist by their most common genre and median year
+    const g = await db().query<{ genre: string | null; year: number | null }>(
+      `select mode() within group (order by t.genre) as genre,
+              percentile_disc(0.5) within group (order by t.year) as year
+         from active_tracks t
+         join track_artists ta on ta.track_id = t.id
+        where ta.artist_id = $1 ${libParam(2)}`,
+      withLib([seed.artistId])
+    );
+    seedGenre = g.rows[0]?.genre ?? null;
+    seedYear = g.rows[0]?.year ?? null;
+  }
+
+  // Candidate id -> source score (best source wins)
+  const sources = new Map<number, number>();
+  const addSource = (id: number, score: number) => {
+    const n = Number(id);
+    if (n === seedTrackId) return;
+    sources.set(n, Math.max(sources.get(n) ?? 0, score));
+  };
+
+  if (isLastfmEnabled() && seedArtist) {
+    if (seedTitle) {
+      const similar = await findSimilarLocalTracks(seedArtist, seedTitle, seedTrackId ? [seedTrackId] : [], count * 2);
+      for (const t of similar) addSource(t.id, 40 + t.match * 40);
+    }
+
+    const similarArtists = await findSimilarLocalArtists(seedArtist, 12);
+    if (similarArtists.length > 0) {
+      const matchByName = new Map(similarArtists.map((a) => [a.name.toLowerCase(), a.match]));
+      const r = await db().query<{ id: number; artist: string }>(
+        `select t.id, t.artist from active_tracks t
+          where lower(t.artist) = any($1::text[]) ${libParam(2)}
+          order by random()
+          limit 400`,
+        withLib([[...matchByName.keys()]])
+      );
+      for (const row of r.rows) addSource(row.id, 25 + (matchByName.get(row.artist.toLowerCase()) ?? 0) * 30);
+    }
+  }
+
+  // The seed artist's own catalogue anchors the mix (more so for artist radio)
+  const own = 'artistId' in seed
+    ? await db().query<{ id: number }>(
+        `select t.id from active_tracks t join track_artists ta on ta.track_id = t.id
+          where ta.artist_id = $1 ${libParam(2)} order by random() limit 100`,
+        withLib([seed.artistId])
+      )
+    : await db().query<{ id: number }>(
+        `select t.id from active_tracks t where lower(t.artist) = lower($1) ${libParam(2)} order by random() limit 50`,
+        withLib([seedArtist])
+      );
+  for (const row of own.rows) addSource(row.id, 'artistId' in seed ? 30 : 15);
+
+  // Local neighbours keep the mix useful without Last.fm or for obscure seeds
+  const primaryGenre = splitFeatureList(seedGenre)[0];
+  if (primaryGenre) {
+    const r = await db().query<{ id: number; year: number | null; bpm: number | null }>(
+      `select t.id, t.year, t.bpm from active_tracks t
+        where lower(t.genre) like '%' || $1 || '%' ${libParam(2)}
+        order by random()
+        limit 300`,
+      withLib([primaryGenre])
+    );
+    for (const row of r.rows) {
+      let score = 10;
+      if (seedYear && row.year && Math.abs(row.year - seedYear) <= 5) score += 5;
+      if (seedBpm && row.bpm && Math.abs(row.bpm - seedBpm) / seedBpm <= 0.08) score += 5;
+      addSource(row.id, score);
+    }
+  }
+
+  if (sources.size === 0) return [];
+
+  const r = await db().query<TrackData>(
+    `select ${MIX_TRACK_COLUMNS}
+       from active_tracks t
+       left join user_track_stats s on s.track_id = t.id and s.user_id = $1
+       left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+      where t.id = any($2::bigint[]) ${libParam(3)}`,
+    withLib([userId, [...sources.keys()]])
+  );
+
+  const profile = await buildTasteProfile(userId, allowed, Date.now());
+  const scored = r.rows.map((t) => ({
+    ...t,
+    id: Number(t.id),
+    score: (sources.get(Number(t.id)) ?? 0) + tasteScoreTrack(t, profile, 'mixed') * 0.5 + Math.random() * 8,
+  }));
+
+  const picked = diversify(scored, {
+    maxPerArtist: 'artistId' in seed ? Math.max(3, Math.ceil(count / 5)) : Math.max(2, Math.ceil(count / 10)),
+    maxPerAlbum: 4,
+    limit: count,
+  });
+
+  // Small libraries can't satisfy the diversity caps; top up by score
+  if (picked.length < count) {
+    const have = new Set(picked.map((t) => t.id));
+    const rest = filterHighSkipRatio(scored)
+      .filter((t) => !have.has(t.id))
+      .sort((a, b) => (b.score || 0) - (a.score || 0));
+    picked.push(...rest.slice(0, count - picked.length));
+  }
+
+  return picked.map((t) => t.id);
+}
+
 // ============================================================================
 // MAIN PLUGIN
 // ============================================================================
@@ -0,0 +1,271 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import crypto from 'node:crypto';
+import { audit, db } from './db.js';
+import * as shares from './sharesRepo.js';
+import * as playlists from './playlistsRepo.js';
+import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+import { config } from './config.js';
+import { hashPassword, verifyPassword } from './security.js';
+import { store } from './store.js';
+import { getTrackStreamRow, requestOrigin, sendTrackArt, sendTrackStream } from './stream.js';
+
+// Signed media URLs handed out by the public share page stay valid for this long at most
+const SHARE_URL_TTL_SECONDS = 12 * 60 * 60;
+const MAX_SHARE_TRACKS = 1000;
+
+function shareSignature(token: string, trackId: number, expiresAt: number) {
+  return crypto
+    .createHmac('sha256', config.jwtSecret)
+    .update(`share.${token}.${trackId}.${expiresAt}`)
+    .digest('base64url');
+}
+
+function isValidShareSignature(req: FastifyRequest, token: string, trackId: number) {
+  const query = req.query as { exp?: string; sig?: string };
+  const expiresAt = Number(query.exp);
+  const sig = query.sig ?? '';
+  if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) return false;
+
+  const expected = shareSignature(token, trackId, expiresAt);
+  const sigBuf = Buffer.from(sig);
+  const expectedBuf = Buffer.from(expected);
+  return sigBuf.length === expectedBuf.length && crypto.timingSafeEqual(sigBuf, expectedBuf);
+}
+
+export function shareUrl(req: FastifyRequest, token: string) {
+  return `${requestOrigin(req)}/share/${token}`;
+}
+
+function parseExpiry(v: unknown): Date | null | undefined {
+  if (v === undefined) return undefined;
+  if (v === null || v === '' || v === 0) return null;
+  const d = new Date(typeof v === 'number' ? v : String(v));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function serializeShare(req: FastifyRequest, s: shares.ShareRow) {
+  return {
+    id: s.id,
+    url: shareUrl(req, s.token),
+    kind: s.kind,
+    title: s.title,
+    description: s.description,
+    owner: s.owner_email,
+    hasPassword: !!s.password_hash,
+    expiresAt: s.expires_at,
+    expired: shares.isShareExpired(s),
+    viewCount: s.view_count,
+    lastViewedAt: s.last_viewed_at,
+    createdAt: s.created_at,
+    trackCount: s.track_count,
+  };
+}
+
+// Lightweight per-IP lockout so share passwords can't be brute-forced
+function passwordAttemptsExceeded(ip: string, token: string) {
+  const state = store.failedLoginsByKey.get(`share:${ip}:${token}`);
+  return !!state?.lockedUntil && Date.now() < state.lockedUntil;
+}
+
+function recordFailedPassword(ip: string, token: string) {
+  const key = `share:${ip}:${token}`;
+  const now = Date.now();
+  const state = store.failedLoginsByKey.get(key);
+  if (!state || now - state.lastFailedAt > 60_000) {
+    store.failedLoginsByKey.set(key, { count: 1, lastFailedAt: now });
+    return;
+  }
+  state.count += 1;
+  state.lastFailedAt = now;
+  if (state.count >= 10) state.lockedUntil = now + 5 * 60_000;
+}
+
+export const sharesPlugin: FastifyPluginAsync = fp(async (app) => {
+  // ---------------------------------------------------------------------------
+  // Owner / admin management
+  // ---------------------------------------------------------------------------
+
+  app.get('/api/shares', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const q = req.query as { all?: string };
+    const all = q.all === '1' && req.user.role === 'admin';
+    const items = await shares.listShares(all ? null : req.user.userId);
+    return { ok: true, shares: items.map((s) => serializeShare(req, s)) };
+  });
+
+  app.post('/api/shares', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const body = (req.body ?? {}) as {
+      kind?: string;
+      title?: string;
+      trackIds?: unknown[];
+      playlistId?: number;
+      description?: string;
+      password?: string;
+      expiresAt?: string | number | null;
+    };
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    let kind = body.kind === 'album' || body.kind === 'track' ? body.kind : 'tracks';
+    let title = typeof body.title === 'string' ? body.title.trim().slice(0, 200) || null : null;
+    let requested: number[] = [];
+
+    if (body.playlistId !== undefined) {
+      const playlistId = Number(body.playlistId);
+      if (!Number.isFinite(playlistId)) return reply.code(400).send({ ok: false });
+      const items = await playlists.listItems(req.user.userId, playlistId);
+      if (!items) return reply.code(404).send({ ok: false });
+      const pr = await db().query<{ name: string }>('select name from playlists where id=$1', [playlistId]);
+      kind = 'playlist';
+      title = title ?? pr.rows[0]?.name ?? null;
+      requested = items.map((t) => Number(t.id));
+    } else if (Array.isArray(body.trackIds)) {
+      requested = body.trackIds.map(Number).filter((n) => Number.isFinite(n));
+    }
+    requested = requested.slice(0, MAX_SHARE_TRACKS);
+    if (requested.length === 0) return reply.code(400).send({ ok: false, error: 'nothing_to_share' });
+
+    // Only share tracks the owner can actually see
+    const r = await db().query<{ id: number; library_id: number }>('select id, library_id from active_tracks where id = any($1::bigint[])', [requested]);
+    const accessible = new Set(r.rows.filter((row) => isLibraryAllowed(Number(row.library_id), allowed)).map((row) => Number(row.id)));
+    const trackIds = requested.filter((id) => accessible.has(id));
+    if (trackIds.length === 0) return reply.code(404).send({ ok: false });
+
+    const expiresAt = parseExpiry(body.expiresAt);
+    if (expiresAt === undefined && body.expiresAt !== undefined) return reply.code(400).send({ ok: false, error: 'invalid_expiry' });
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    const id = await shares.createShare({
+      userId: req.user.userId,
+      kind,
+      title,
+      description: typeof body.description === 'string' ? body.description.trim().slice(0, 500) || null : null,
+      passwordHash: password ? hashPassword(password) : null,
+      expiresAt: expiresAt ?? null,
+      trackIds,
+    });
+    await audit('share_created', { by: req.user.userId, shareId: id, kind, tracks: trackIds.length });
+
+    const created = await shares.getShareById(id);
+    return { ok: true, share: created ? serializeShare(req, created) : null };
+  });
+
+  app.patch('/api/shares/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const share = await shares.getShareById(id);
+    if (!share || (share.user_id !== req.user.userId && req.user.role !== 'admin')) return reply.code(404).send({ ok: false });
+
+    const body = (req.body ?? {}) as { description?: string | null; password?: string | null; expiresAt?: string | number | null };
+    const expiresAt = parseExpiry(body.expiresAt);
+    if (expiresAt === undefined && body.expiresAt !== undefined) return reply.code(400).send({ ok: false, error: 'invalid_expiry' });
+
+    await shares.updateShare(id, {
+      description: body.description === undefined ? undefined : (body.description ?? '').trim().slice(0, 500) || null,
+      expiresAt,
+      passwordHash: body.password === undefined ? undefined : body.password ? hashPassword(body.password) : null,
+    });
+    await audit('share_updated', { by: req.user.userId, shareId: id });
+
+    const updated = await shares.getShareById(id);
+    return { ok: true, share: updated ? serializeShare(req, updated) : null };
+  });
+
+  app.delete('/api/shares/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    const share = await shares.getShareById(id);
+    if (!share || (share.user_id !== req.user.userId && req.user.role !== 'admin')) return reply.code(404).send({ ok: false });
+
+    await shares.deleteShare(id);
+    await audit('share_revoked', { by: req.user.userId, shareId: id, owner: share.user_id });
+    return { ok: true };
+  });
+
+  // ---------------------------------------------------------------------------
+  // Public (no account) access
+  // ---------------------------------------------------------------------------
+
+  // POST so an optional password travels in the body rather than the URL
+  app.post('/api/public/shares/:token', async (req, reply) => {
+    const { token } = req.params as { token: string };
+    const share = await shares.getShareByToken(token);
+    if (!share || shares.isShareExpired(share)) return reply.code(404).send({ ok: false, error: 'not_found' });
+
+    if (share.password_hash) {
+      if (passwordAttemptsExceeded(req.ip, token)) return reply.code(429).send({ ok: false, error: 'rate_limited' });
+      const body = (req.body ?? {}) as { password?: string };
+      if (!body.password) return reply.code(401).send({ ok: false, error: 'password_required', title: share.title });
+      if (!verifyPassword(body.password, share.password_hash)) {
+        recordFailedPassword(req.ip, token);
+        return reply.code(403).send({ ok: false, error: 'invalid_password' });
+      }
+    }
+
+    const allowed = await allowedLibrariesForUser(share.user_id, share.owner_role);
+    const rows = await shares.listShareTracks(share.id, allowed);
+    await shares.recordShareView(share.id);
+
+    const shareExpiry = share.expires_at ? Math.floor(new Date(share.expires_at).getTime() / 1000) : Infinity;
+    const expiresAt = Math.min(Math.floor(Date.now() / 1000) + SHARE_URL_TTL_SECONDS, shareExpiry);
+    const base = `${requestOrigin(req)}/api/public/shares/${encodeURIComponent(token)}/tracks`;
+
+    const tracks = rows.map((t: any) => {
+      const id = Number(t.id);
+      const qs = new URLSearchParams({ exp: String(expiresAt), sig: shareSignature(token, id, expiresAt) }).toString();
+      return {
+        id,
+        title: t.title,
+        artist: t.artist,
+        album: t.album,
+        duration_ms: t.duration_ms,
+        streamUrl: `${base}/${id}/stream?${qs}`,
+        artUrl: t.art_path ? `${base}/${id}/art?${qs}` : null,
+      };
+    });
+
+    return {
+      ok: true,
+      share: {
+        title: share.title,
+        description: share.description,
+        kind: share.kind,
+        owner: share.owner_email.split('@')[0],
+        expiresAt: share.expires_at,
+      },
+      tracks,
+    };
+  });
+
+  async function loadSharedTrack(req: FastifyRequest) {
+    const { token, trackId } = req.params as { token: string; trackId: string };
+    const id = Number(trackId);
+    if (!Number.isFinite(id) || !isValidShareSignature(req, token, id)) return null;
+
+    const share = await shares.getShareByToken(token);
+    if (!share || shares.isShareExpired(share)) return null;
+    const item = await db().query('select 1 from share_items where share_id=$1 and track_id=$2', [share.id, id]);
+    if (item.rowCount === 0) return null;
+
+    const row = await getTrackStreamRow(id);
+    if (!row) return null;
+    const allowed = await allowedLibrariesForUser(share.user_id, share.owner_role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return null;
+    return row;
+  }
+
+  app.get('/api/public/shares/:token/tracks/:trackId/stream', async (req, reply) => {
+    const row = await loadSharedTrack(req);
+    if (!row) return reply.code(404).send({ ok: false });
+    return sendTrackStream(row, req, reply);
+  });
+
+  app.get('/api/public/shares/:token/tracks/:trackId/art', async (req, reply) => {
+    const row = await loadSharedTrack(req);
+    if (!row) return reply.code(404).send({ ok: false });
+    return sendTrackArt(row, reply);
+  });
+});
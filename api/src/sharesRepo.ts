@@ -0,0 +1,135 @@
+import crypto from 'node:crypto';
+import { db } from './db.js';
+import type { Role } from './store.js';
+
+export type ShareRow = {
+  id: number;
+  token: string;
+  user_id: string;
+  owner_email: string;
+  owner_role: Role;
+  kind: string;
+  title: string | null;
+  description: string | null;
+  password_hash: string | null;
+  expires_at: Date | null;
+  view_count: number;
+  last_viewed_at: Date | null;
+  created_at: Date;
+  track_count: number;
+};
+
+const SHARE_COLUMNS = `
+  s.id, s.token, s.user_id, u.email as owner_email, u.role as owner_role, s.kind, s.title, s.description, s.password_hash,
+  s.expires_at, s.view_count, s.last_viewed_at, s.created_at,
+  (select count(*)::int from share_items si where si.share_id = s.id) as track_count`;
+
+function mapRow(row: ShareRow): ShareRow {
+  return { ...row, id: Number(row.id), view_count: Number(row.view_count), track_count: Number(row.track_count) };
+}
+
+export function newShareToken() {
+  return crypto.randomBytes(9).toString('base64url');
+}
+
+export async function createShare(input: {
+  userId: string;
+  kind: string;
+  title: string | null;
+  description: string | null;
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  trackIds: number[];
+}) {
+  const client = await db().connect();
+  try {
+    await client.query('BEGIN');
+    const r = await client.query<{ id: number }>(
+      `insert into shares(token, user_id, kind, title, description, password_hash, expires_at)
+       values ($1, $2, $3, $4, $5, $6, $7) returning id`,
+      [newShareToken(), input.userId, input.kind, input.title, input.description, input.passwordHash, input.expiresAt]
+    );
+    const id = Number(r.rows[0].id);
+    await client.query(
+      `insert into share_items(share_id, track_id, position)
+       select $1, x.track_id, x.ord - 1 from unnest($2::bigint[]) with ordinality as x(track_id, ord)
+       on conflict do nothing`,
+      [id, input.trackIds]
+    );
+    await client.query('COMMIT');
+    return id;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Pass null to list every user's shares (admin view)
+export async function listShares(userId: string | null) {
+  const where = userId === null ? '' : 'where s.user_id = $1';
+  const r = await db().query<ShareRow>(
+    `select ${SHARE_COLUMNS} from shares s join users u on u.id = s.user_id ${where} order by s.created_at desc`,
+    userId === null ? [] : [userId]
+  );
+  return r.rows.map(mapRow);
+}
+
+export async function getShareById(id: number) {
+  const r = await db().query<ShareRow>(`select ${SHARE_COLUMNS} from shares s join users u on u.id = s.user_id where s.id = $1`, [id]);
+  return r.rows[0] ? mapRow(r.rows[0]) : null;
+}
+
+export async function getShareByToken(token: string) {
+  const r = await db().query<ShareRow>(`select ${SHARE_COLUMNS} from shares s join users u on u.id = s.user_id where s.token = $1`, [token]);
+  return r.rows[0] ? mapRow(r.rows[0]) : null;
+}
+
+export async function updateShare(id: number, patch: { description?: string | null; expiresAt?: Date | null; passwordHash?: string | null }) {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  if (patch.description !== undefined) {
+    params.push(patch.description);
+    sets.push(`description = $${params.length}`);
+  }
+  if (patch.expiresAt !== undefined) {
+    params.push(patch.expiresAt);
+    sets.push(`expires_at = $${params.length}`);
+  }
+  if (patch.passwordHash !== undefined) {
+    params.push(patch.passwordHash);
+    sets.push(`password_hash = $${params.length}`);
+  }
+  if (sets.length === 0) return;
+  params.push(id);
+  await db().query(`update shares set ${sets.join(', ')} where id = $${params.length}`, params);
+}
+
+export async function deleteShare(id: number) {
+  await db().query('delete from shares where id = $1', [id]);
+}
+
+export async function recordShareView(id: number) {
+  await db().query('update shares set view_count = view_count + 1, last_viewed_at = now() where id = $1', [id]);
+}
+
+// Shared tracks in share order, limited to libraries the owner can still access
+export async function listShareTracks(shareId: number, allowedLibraries: number[] | null) {
+  const where = allowedLibraries === null ? '' : 'and t.library_id = any($2)';
+  const params = allowedLibraries === null ? [shareId] : [shareId, allowedLibraries];
+  const r = await db().query(
+    `select t.*
+       from share_items si
+       join active_tracks t on t.id = si.track_id
+      where si.share_id = $1
+      ${where}
+      order by si.position`,
+    params as any
+  );
+  return r.rows;
+}
+
+export function isShareExpired(share: Pick<ShareRow, 'expires_at'>) {
+  return share.expires_at !== null && new Date(share.expires_at).getTime() <= Date.now();
+}
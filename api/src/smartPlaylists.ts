@@ -104,6 +104,10 @@ export interface SmartFilters {
     min: number | null;
     max: number | null;
   };
+  rating: {
+    min: number | null;
+    max: number | null;
+  };
   dateAdded: {
     from: string | null;
     to: string | null;
@@ -118,6 +122,7 @@ export function normalizeFilters(raw: any): SmartFilters {
   const exc = raw.exclude && typeof raw.exclude === 'object' ? raw.exclude : {};
   const dur = raw.duration && typeof raw.duration === 'object' ? raw.duration : {};
   const bpm = raw.bpm && typeof raw.bpm === 'object' ? raw.bpm : {};
+  const rating = raw.rating && typeof raw.rating === 'object' ? raw.rating : {};
   const dateAddedRaw = raw.dateAdded || raw.date_added;
   const dateAdded = dateAddedRaw && typeof dateAddedRaw === 'object' ? dateAddedRaw : {};
 
@@ -153,6 +158,10 @@ export function normalizeFilters(raw: any): SmartFilters {
       min: null,
       max: null,
     },
+    rating: {
+      min: null,
+      max: null,
+    },
     dateAdded: {
       from: null,
       to: null,
@@ -165,6 +174,8 @@ export function normalizeFilters(raw: any): SmartFilters {
   filters.duration.max = coerceNullableInt(dur.max, 0, 86400);
   filters.bpm.min = coerceNullableInt(bpm.min, 0, 400);
   filters.bpm.max = coerceNullableInt(bpm.max, 0, 400);
+  filters.rating.min = coerceNullableInt(rating.min, 1, 5);
+  filters.rating.max = coerceNullableInt(rating.max, 1, 5);
   filters.dateAdded.from = coerceDateOnly(dateAdded.from ?? dateAdded.min ?? dateAdded.start);
   filters.dateAdded.to = coerceDateOnly(dateAdded.to ?? dateAdded.max ?? dateAdded.end);
 
@@ -304,6 +315,16 @@ export async function buildSmartPlaylistQuery(
     conditions.push(`t.bpm is not null and t.bpm <= $${paramIdx++}`);
   }
 
+  // Rating filters (the user's own 1-5 stars; unrated tracks never match)
+  if (filters.rating.min != null) {
+    params.push(userId, filters.rating.min);
+    conditions.push(`t.id in (select tr.track_id from track_ratings tr where tr.user_id = $${paramIdx++} and tr.rating >= $${paramIdx++})`);
+  }
+  if (filters.rating.max != null) {
+    params.push(userId, filters.rating.max);
+    conditions.push(`t.id in (select tr.track_id from track_ratings tr where tr.user_id = $${paramIdx++} and tr.rating <= $${paramIdx++})`);
+  }
+
   // Date added filters. The UI sends date-only strings; make the end date inclusive.
   if (filters.dateAdded.from) {
     params.push(filters.dateAdded.from);
@@ -473,7 +473,7 @@ export const smartSearchPlugin: FastifyPluginAsync = fp(async (app) => {
         {
           const params: any[] = [];
           let i = 1;
-          const where: string[] = ["t.album is not null and t.album <> ''"];
+          const where: string[] = ['t.album_id is not null'];
 
           if (entityTextQuery.length > 0) {
             const cleanQuery = entityTextQuery.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
@@ -512,22 +512,24 @@ export const smartSearchPlugin: FastifyPluginAsync = fp(async (app) => {
           const r = await db().query(
             `
             with unique_albums as (
-              select distinct on (t.album)
+              select distinct on (t.album_id)
+                t.album_id,
                 t.album,
                 t.id as first_track_id,
                 t.art_path,
                 t.art_hash
               from active_tracks t
               where ${where.join(' and ')}
-              order by t.album, (t.art_path is null) asc, t.path
+              order by t.album_id, (t.art_path is null) asc, t.path
             ),
             album_counts as (
-              select t.album, count(*)::int as track_count
+              select t.album_id, count(*)::int as track_count
               from active_tracks t
               where ${where.join(' and ')}
-              group by t.album
+              group by t.album_id
             )
             select
+              ua.album_id::int as id,
               ua.album,
               coalesce(
                 (select a.name from track_artists ta join artists a on a.id = ta.artist_id
@@ -545,7 +547,7 @@ export const smartSearchPlugin: FastifyPluginAsync = fp(async (app) => {
               ua.art_hash,
               ac.track_count
             from unique_albums ua
-            join album_counts ac on ac.album = ua.album
+            join album_counts ac on ac.album_id = ua.album_id
             order by ac.track_count desc, ua.album asc
             limit 12
           `,
@@ -8,6 +8,7 @@ import { db } from './db.js';
 import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
 import { config } from './config.js';
 import type { Role } from './store.js';
+import { openStreamSession, type StreamSessionHandle } from './streamSessions.js';
 
 const ART_DIR = process.env.ART_DIR ?? '/data/cache/art';
 
@@ -68,7 +69,7 @@ function castSignature(trackId: number, userId: string, role: Role, expiresAt: n
     .digest('base64url');
 }
 
-function requestOrigin(req: FastifyRequest) {
+export function requestOrigin(req: FastifyRequest) {
   const forwardedProto = Array.isArray(req.headers['x-forwarded-proto'])
     ? req.headers['x-forwarded-proto'][0]
     : req.headers['x-forwarded-proto'];
@@ -80,7 +81,7 @@ function requestOrigin(req: FastifyRequest) {
   return `${proto}://${host}`;
 }
 
-async function getTrackStreamRow(id: number) {
+export async function getTrackStreamRow(id: number) {
   const r = await db().query<TrackStreamRow>(
     'select t.path, t.ext, t.library_id, t.art_path, t.art_mime, t.art_hash, l.mount_path from active_tracks t join libraries l on l.id=t.library_id where t.id=$1',
     [id]
@@ -88,7 +89,11 @@ async function getTrackStreamRow(id: number) {
   return r.rows[0] ?? null;
 }
 
-async function sendTrackStream(row: TrackStreamRow, req: FastifyRequest, reply: FastifyReply) {
+export function originalProfile(ext: string) {
+  return ext.replace(/^\./, '').toLowerCase() || 'original';
+}
+
+export async function sendTrackStream(row: TrackStreamRow, req: FastifyRequest, reply: FastifyReply, session?: StreamSessionHandle | null) {
   const abs = safeJoinMount(row.mount_path, row.path);
   const st = await stat(abs);
   const range = req.headers.range;
@@ -111,16 +116,16 @@ async function sendTrackStream(row: TrackStreamRow, req: FastifyRequest, reply:
 
     const stream = createReadStream(abs, { start, end });
     stream.on('error', () => { if (!reply.sent) reply.code(500).send(); });
-    return reply.send(stream);
+    return reply.send(session ? session.track(stream) : stream);
   }
 
   reply.header('Content-Length', String(st.size)).header('Accept-Ranges', 'bytes').header('Content-Type', contentType);
   const stream = createReadStream(abs);
   stream.on('error', () => { if (!reply.sent) reply.code(500).send(); });
-  return reply.send(stream);
+  return reply.send(session ? session.track(stream) : stream);
 }
 
-async function sendTrackArt(row: TrackStreamRow, reply: FastifyReply) {
+export async function sendTrackArt(row: TrackStreamRow, reply: FastifyReply) {
   if (!row.art_path) return reply.code(404).send({ ok: false });
 
   const abs = safeJoinArt(row.art_path);
@@ -172,7 +177,10 @@ export const streamPlugin: FastifyPluginAsync = fp(async (app) => {
     const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
     if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
 
-    return sendTrackStream(row, req, reply);
+    const session = openStreamSession(req, { userId: req.user.userId, client: 'web', trackId: id, profile: originalProfile(row.ext) });
+    if (!session) return reply.code(403).send({ ok: false, error: 'stream_stopped' });
+
+    return sendTrackStream(row, req, reply, session);
   });
 
   app.get('/api/library/tracks/:id/cast-url', async (req, reply) => {
@@ -215,7 +223,10 @@ export const streamPlugin: FastifyPluginAsync = fp(async (app) => {
     const allowed = await allowedLibrariesForUser(castQuery.userId, castQuery.role);
     if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
 
-    return sendTrackStream(row, req, reply);
+    const session = openStreamSession(req, { userId: castQuery.userId, client: 'cast', trackId: id, profile: originalProfile(row.ext) });
+    if (!session) return reply.code(403).send({ ok: false, error: 'stream_stopped' });
+
+    return sendTrackStream(row, req, reply, session);
   });
 
   app.get('/api/library/tracks/:id/cast-art', async (req, reply) => {
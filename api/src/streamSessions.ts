@@ -0,0 +1,276 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import crypto from 'node:crypto';
+import { Transform, pipeline, type Readable } from 'node:stream';
+import { audit, db } from './db.js';
+import { broadcastToAdmins, broadcastToUser } from './websocket.js';
+import logger from './logger.js';
+
+export type StreamClient = 'web' | 'hls' | 'cast' | 'subsonic';
+
+export type StreamSession = {
+  id: string;
+  userId: string;
+  email: string | null;
+  client: StreamClient;
+  clientName: string | null;
+  ip: string;
+  trackId: number;
+  title: string | null;
+  artist: string | null;
+  durationMs: number | null;
+  profile: string;
+  bytesSent: number;
+  startedAt: number;
+  lastActiveAt: number;
+};
+
+type SessionState = StreamSession & {
+  device: string;
+  transfers: Set<Readable>;
+  stops: Set<() => void>;
+};
+
+export type StreamSessionHandle = {
+  // Counts bytes flowing through `stream`; `stop` is called when an admin kills the session
+  track: (stream: Readable, stop?: () => void) => Readable;
+};
+
+// A finished transfer keeps its session for this long, or until the track would have ended
+const IDLE_MS = 60_000;
+const END_GRACE_MS = 15_000;
+const TICK_MS = 5_000;
+const FLUSH_EVERY_TICKS = 6;
+// Clients usually retry a dropped stream; a killed device/track pair is refused for a while
+const KILL_BLOCK_MS = 2 * 60_000;
+
+const sessions = new Map<string, SessionState>();
+const killed = new Map<string, number>();
+const pendingBandwidth = new Map<string, { userId: string; client: StreamClient; bytes: number; streams: number }>();
+let dirty = false;
+
+function header(req: FastifyRequest, name: string) {
+  const v = req.headers[name];
+  return (Array.isArray(v) ? v[0] : v) ?? null;
+}
+
+function addBandwidth(userId: string, client: StreamClient, bytes: number, streams: number) {
+  const key = `${userId}|${client}`;
+  const entry = pendingBandwidth.get(key) ?? { userId, client, bytes: 0, streams: 0 };
+  entry.bytes += bytes;
+  entry.streams += streams;
+  pendingBandwidth.set(key, entry);
+}
+
+async function flushBandwidth() {
+  if (pendingBandwidth.size === 0) return;
+  const entries = [...pendingBandwidth.values()];
+  pendingBandwidth.clear();
+  for (const e of entries) {
+    try {
+      await db().query(
+        `insert into stream_bandwidth (day, user_id, client, bytes, streams) values (current_date, $1, $2, $3, $4)
+         on conflict (day, user_id, client) do update
+           set bytes = stream_bandwidth.bytes + excluded.bytes, streams = stream_bandwidth.streams + excluded.streams`,
+        [e.userId, e.client, e.bytes, e.streams]
+      );
+    } catch (err) {
+      logger.error('streams', `Failed to record bandwidth: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+function publicSession(s: SessionState): StreamSession {
+  return {
+    id: s.id,
+    userId: s.userId,
+    email: s.email,
+    client: s.client,
+    clientName: s.clientName,
+    ip: s.ip,
+    trackId: s.trackId,
+    title: s.title,
+    artist: s.artist,
+    durationMs: s.durationMs,
+    profile: s.profile,
+    bytesSent: s.bytesSent,
+    startedAt: s.startedAt,
+    lastActiveAt: s.lastActiveAt,
+  };
+}
+
+export function listStreamSessions(): StreamSession[] {
+  return [...sessions.values()].map(publicSession).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+function endSession(s: SessionState) {
+  sessions.delete(`${s.device}|${s.trackId}`);
+  dirty = true;
+}
+
+async function loadDetails(s: SessionState) {
+  try {
+    const r = await db().query<{ title: string | null; artist: string | null; duration_ms: number | null; email: string | null }>(
+      `select t.title, t.artist, t.duration_ms, (select email from users where id = $2) as email
+         from tracks t where t.id = $1`,
+      [s.trackId, s.userId]
+    );
+    const row = r.rows[0];
+    if (!row) return;
+    s.title = row.title;
+    s.artist = row.artist;
+    s.durationMs = row.duration_ms != null ? Number(row.duration_ms) : null;
+    s.email = row.email;
+    dirty = true;
+  } catch {
+    // shown without details
+  }
+}
+
+/**
+ * Joins or starts the session for this user, device and track. Range requests and HLS segments
+ * for the same track land in one session. Returns null while the device is blocked by a kill.
+ */
+export function openStreamSession(
+  req: FastifyRequest,
+  opts: { userId: string; client: StreamClient; trackId: number; profile: string; clientName?: string | null }
+): StreamSessionHandle | null {
+  const ip = req.ip;
+  const clientName = (opts.clientName ?? header(req, 'user-agent'))?.slice(0, 200) ?? null;
+  const device = `${opts.userId}|${opts.client}|${clientName ?? ''}|${ip}`;
+  const key = `${device}|${opts.trackId}`;
+
+  const blockedUntil = killed.get(key);
+  if (blockedUntil && blockedUntil > Date.now()) return null;
+
+  let s = sessions.get(key);
+  if (!s) {
+    // Moving on to another track ends the previous one, unless it is still transferring (preload)
+    for (const other of sessions.values()) {
+      if (other.device === device && other.transfers.size === 0) endSession(other);
+    }
+    const now = Date.now();
+    s = {
+      id: crypto.randomUUID(),
+      userId: opts.userId,
+      email: null,
+      client: opts.client,
+      clientName,
+      ip,
+      trackId: opts.trackId,
+      title: null,
+      artist: null,
+      durationMs: null,
+      profile: opts.profile,
+      bytesSent: 0,
+      startedAt: now,
+      lastActiveAt: now,
+      device,
+      transfers: new Set(),
+      stops: new Set(),
+    };
+    sessions.set(key, s);
+    addBandwidth(s.userId, s.client, 0, 1);
+    dirty = true;
+    void loadDetails(s);
+  }
+  const session = s;
+  session.profile = opts.profile;
+
+  return {
+    track(stream, stop) {
+      const counter = new Transform({
+        transform(chunk: Buffer, _enc, cb) {
+          session.bytesSent += chunk.length;
+          session.lastActiveAt = Date.now();
+          addBandwidth(session.userId, session.client, chunk.length, 0);
+          cb(null, chunk);
+        },
+      });
+      session.transfers.add(counter);
+      if (stop) session.stops.add(stop);
+      pipeline(stream, counter, () => {
+        session.transfers.delete(counter);
+        if (stop) session.stops.delete(stop);
+        session.lastActiveAt = Date.now();
+      });
+      return counter;
+    },
+  };
+}
+
+export function killStreamSession(id: string) {
+  const s = [...sessions.values()].find((x) => x.id === id);
+  if (!s) return null;
+  killed.set(`${s.device}|${s.trackId}`, Date.now() + KILL_BLOCK_MS);
+  for (const t of s.transfers) t.destroy();
+  for (const stop of s.stops) stop();
+  endSession(s);
+  broadcastToUser(s.userId, 'stream:killed', { trackId: s.trackId, client: s.client });
+  return publicSession(s);
+}
+
+function tick() {
+  const now = Date.now();
+  for (const s of sessions.values()) {
+    if (s.transfers.size > 0) continue;
+    const expectedEnd = s.durationMs ? s.startedAt + s.durationMs + END_GRACE_MS : 0;
+    if (now > Math.max(s.lastActiveAt + IDLE_MS, expectedEnd)) endSession(s);
+  }
+  for (const [key, until] of killed) {
+    if (until <= now) killed.delete(key);
+  }
+  // Byte counters move continuously while anything is streaming
+  if (dirty || sessions.size > 0) {
+    broadcastToAdmins('streams:update', { sessions: listStreamSessions() });
+    dirty = false;
+  }
+}
+
+export const streamSessionsPlugin: FastifyPluginAsync = fp(async (app) => {
+  let ticks = 0;
+  const timer = setInterval(() => {
+    tick();
+    if (++ticks % FLUSH_EVERY_TICKS === 0) void flushBandwidth();
+  }, TICK_MS);
+
+  app.addHook('onClose', async () => {
+    clearInterval(timer);
+    await flushBandwidth();
+  });
+
+  app.get('/api/admin/streams', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    return { ok: true, sessions: listStreamSessions() };
+  });
+
+  app.delete('/api/admin/streams/:id', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const { id } = req.params as { id: string };
+    const s = killStreamSession(id);
+    if (!s) return reply.code(404).send({ ok: false });
+    await audit('admin_stream_killed', { by: req.user.userId, userId: s.userId, trackId: s.trackId, client: s.client });
+    broadcastToAdmins('streams:update', { sessions: listStreamSessions() });
+    return { ok: true };
+  });
+
+  // Daily totals per user; today's row lags the live counters by up to half a minute
+  app.get('/api/admin/streams/bandwidth', async (req, reply) => {
+    if (req.user?.role !== 'admin') return reply.code(403).send({ ok: false });
+    const q = req.query as { days?: string };
+    const days = Math.max(1, Math.min(90, Number(q.days) || 14));
+    const r = await db().query<{ day: string; user_id: string; email: string | null; client: string; bytes: string; streams: number }>(
+      `select to_char(b.day, 'YYYY-MM-DD') as day, b.user_id, u.email, b.client, b.bytes, b.streams
+         from stream_bandwidth b
+         left join users u on u.id = b.user_id
+        where b.day > current_date - $1::int
+        order by b.day desc, b.bytes desc`,
+      [days]
+    );
+    return {
+      ok: true,
+      days,
+      rows: r.rows.map((x) => ({ day: x.day, userId: x.user_id, email: x.email, client: x.client, bytes: Number(x.bytes), streams: x.streams })),
+    };
+  });
+});
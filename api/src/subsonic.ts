@@ -15,8 +15,39 @@ import path from 'node:path';
 import { audit, db, redis } from './db.js';
 import logger from './logger.js';
 import { allowedLibrariesForUser } from './access.js';
-import { normalizeEmail, verifyPassword } from './security.js';
+import { hashPassword, normalizeEmail, randomId, verifyPassword } from './security.js';
+import * as users from './userRepo.js';
 import { buildSmartPlaylistQuery, normalizeFilters } from './smartPlaylists.js';
+import {
+  createShare as createShareRow,
+  deleteShare as deleteShareRow,
+  getShareById,
+  listShares,
+  listShareTracks,
+  updateShare as updateShareRow,
+  type ShareRow,
+} from './sharesRepo.js';
+import { shareUrl } from './shares.js';
+import { resolveTranscode, startTranscode, transcodeContentType } from './transcode.js';
+import { originalProfile } from './stream.js';
+import { openStreamSession } from './streamSessions.js';
+import { getPlayQueue as getStoredPlayQueue, savePlayQueue as saveStoredPlayQueue } from './playQueueRepo.js';
+import { buildSimilarMix, type SimilarMixSeed } from './recommendations.js';
+import { getAlbumDetails, getArtistDetails } from './metadataInfo.js';
+import { ART_SIZES, signedArtUrl } from './art.js';
+import {
+  canEditStation,
+  createStation as createRadioStation,
+  deleteStation as deleteRadioStation,
+  getStation as getRadioStation,
+  listStations as listRadioStations,
+  normalizeStationUrl,
+  updateStation as updateRadioStation,
+} from './radioRepo.js';
+import { createApiKey, deleteApiKey, findApiKeyUser, listApiKeys, type ApiKeyRow } from './apiKeyRepo.js';
+import { listChatMessages } from './chatRepo.js';
+import { postChatMessage } from './chat.js';
+import { broadcastToUser } from './websocket.js';
 import type { Role } from './store.js';
 
 const ART_DIR = process.env.ART_DIR ?? '/data/cache/art';
@@ -31,6 +62,7 @@ const OPENSUBSONIC_EXTENSIONS = [
   { name: 'transcodeOffset', versions: [1] },
   { name: 'formPost', versions: [1] },
   { name: 'songLyrics', versions: [1] },
+  { name: 'apiKeyAuthentication', versions: [1] },
 ];
 
 const SMART_PLAYLIST_ID_PREFIX = 'smart-';
@@ -40,6 +72,8 @@ const ERROR = {
   GENERIC: { code: 0, message: 'A generic error.' },
   MISSING_PARAM: { code: 10, message: 'Required parameter is missing.' },
   AUTH_FAILED: { code: 40, message: 'Wrong username or password.' },
+  CONFLICTING_AUTH: { code: 43, message: 'Multiple conflicting authentication mechanisms provided.' },
+  INVALID_API_KEY: { code: 44, message: 'Invalid API key.' },
   NOT_AUTHORIZED: { code: 50, message: 'User is not authorized for the given operation.' },
   NOT_FOUND: { code: 70, message: 'The requested data was not found.' },
 };
@@ -49,6 +83,7 @@ type SubsonicParams = {
   p?: string;
   t?: string;
   s?: string;
+  apiKey?: string;
   v?: string;
   c?: string;
   f?: string;
@@ -124,6 +159,17 @@ function getParams(req: FastifyRequest): SubsonicParams {
   return out;
 }
 
+// Repeated parameters (e.g. savePlayQueue's id=1&id=2) collapse in getParams; collect all of them here
+function getParamList(req: FastifyRequest, key: string): string[] {
+  const out: string[] = [];
+  for (const src of [req.body, req.query] as Array<Record<string, unknown> | null | undefined>) {
+    const v = src?.[key];
+    if (v === null || v === undefined) continue;
+    for (const item of Array.isArray(v) ? v : [v]) out.push(String(item));
+  }
+  return out;
+}
+
 function escapeXml(str: string) {
   return str
     .replace(/&/g, '&amp;')
@@ -219,12 +265,31 @@ function isoDate(v: unknown) {
   return Number.isNaN(d.getTime()) ? String(v) : d.toISOString();
 }
 
-function albumId(name: string) {
-  return `al-${encodeURIComponent(name)}`;
+function albumId(id: string | number) {
+  return `alb-${id}`;
 }
 
-function decodeAlbumId(id: string) {
-  return decodeURIComponent(id.startsWith('al-') ? id.slice(3) : id);
+// Older versions used "al-" ids carrying the encoded album name, which can itself be all digits ("1989"),
+// so albums.id gets a prefix of its own
+function isAlbumId(id: string) {
+  return id.startsWith('alb-') || id.startsWith('al-');
+}
+
+async function resolveAlbumId(id: string) {
+  if (id.startsWith('alb-')) {
+    const n = Number(id.slice(4));
+    return Number.isInteger(n) ? n : null;
+  }
+  const raw = id.startsWith('al-') ? id.slice(3) : id;
+  if (raw === id && /^\d+$/.test(raw)) return Number(raw);
+  let name: string;
+  try {
+    name = decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+  const r = await db().query<{ id: number }>('select id from albums where name = $1 order by id asc limit 1', [name]);
+  return r.rows[0] ? Number(r.rows[0].id) : null;
 }
 
 function artistId(id: string | number) {
@@ -343,6 +408,16 @@ async function authenticate(req: FastifyRequest): Promise<Omit<SubsonicUser, 'al
   return null;
 }
 
+function serializeApiKey(k: ApiKeyRow) {
+  return { id: k.id, name: k.name, prefix: k.key_prefix, createdAt: k.created_at, lastUsedAt: k.last_used_at };
+}
+
+async function authenticateApiKey(key: string): Promise<Omit<SubsonicUser, 'allowedLibraries'> | null> {
+  if (!key) return null;
+  const user = await findApiKeyUser(key);
+  return user ? { userId: user.id, username: user.email, role: user.role } : null;
+}
+
 function currentUser(req: FastifyRequest): SubsonicUser {
   const user = (req as FastifyRequest & { subsonicUser?: SubsonicUser }).subsonicUser;
   if (!user) throw new Error('Subsonic user not authenticated');
@@ -371,6 +446,48 @@ function smartPlaylistAllowedLibraries(user: SubsonicUser, musicFolderId?: strin
   return user.allowedLibraries;
 }
 
+// Subsonic user entry; role flags mirror what mvbar lets every user do, folders are the granted libraries
+function formatUser(u: { email: string; role: Role; download_allowed?: boolean }, libraryIds: number[]) {
+  return {
+    username: u.email,
+    email: u.email,
+    scrobblingEnabled: true,
+    adminRole: u.role === 'admin',
+    settingsRole: true,
+    downloadRole: u.role === 'admin' || u.download_allowed !== false,
+    uploadRole: false,
+    playlistRole: true,
+    coverArtRole: true,
+    commentRole: true,
+    podcastRole: false,
+    streamRole: true,
+    jukeboxRole: false,
+    shareRole: true,
+    videoConversionRole: false,
+    folder: libraryIds.map(directoryIdForLibrary),
+  };
+}
+
+async function userLibraryIds(u: { id: string; role: Role }, allLibraryIds: number[]) {
+  return u.role === 'admin' ? allLibraryIds : users.listUserLibraryIds(u.id);
+}
+
+async function listAllLibraryIds() {
+  const r = await db().query<{ id: number }>('select id from libraries order by id asc');
+  return r.rows.map((x) => Number(x.id));
+}
+
+// musicFolderId list from createUser/updateUser; null when none was sent, 'invalid' when any id names no library
+async function parseMusicFolderIds(req: FastifyRequest): Promise<number[] | null | 'invalid'> {
+  const raw = getParamList(req, 'musicFolderId');
+  if (raw.length === 0) return null;
+  const ids = raw.map(decodeLibraryDirectoryId);
+  if (ids.some((x) => x === null || !Number.isInteger(x))) return 'invalid';
+  const unique = [...new Set(ids as number[])];
+  const r = await db().query<{ n: number }>('select count(*)::int as n from libraries where id = any($1::bigint[])', [unique]);
+  return r.rows[0]?.n === unique.length ? unique : 'invalid';
+}
+
 async function listAllowedLibraries(user: SubsonicUser) {
   if (user.allowedLibraries === null) {
     const r = await db().query<{ id: number; mount_path: string }>('select id, mount_path from libraries order by mount_path asc');
@@ -415,12 +532,50 @@ async function materializeSmartPlaylistTracks(
   return r.rows;
 }
 
+// Similar-song mix for a song, album (al-) or artist (ar-) id; null when the seed isn't visible
+async function similarSongsFor(user: SubsonicUser, id: string, count: number) {
+  let seed: SimilarMixSeed;
+  if (id.startsWith('ar-')) {
+    const arId = decodeArtistId(id);
+    if (arId === null) return null;
+    seed = { artistId: arId };
+  } else if (isAlbumId(id)) {
+    const args: unknown[] = [await resolveAlbumId(id)];
+    const access = trackAccessCondition(user, args, 't');
+    const r = await db().query<{ id: number }>(
+      `select t.id from active_tracks t where t.album_id = $1 and ${access} order by random() limit 1`,
+      args
+    );
+    if (!r.rows[0]) return null;
+    seed = { trackId: Number(r.rows[0].id) };
+  } else {
+    const trackId = Number(id);
+    if (!Number.isFinite(trackId)) return null;
+    seed = { trackId };
+  }
+
+  const ids = await buildSimilarMix(user.userId, user.allowedLibraries, seed, count);
+  if (ids.length === 0) return [];
+
+  const args: unknown[] = [user.userId, ids];
+  const access = trackAccessCondition(user, args, 't');
+  const r = await db().query(`
+    select t.*, f.added_at as starred_at, tr.rating as user_rating
+      from active_tracks t
+      left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+      left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
+     where t.id = any($2::bigint[]) and ${access}
+  `, args);
+  const byId = new Map(r.rows.map((row: any) => [Number(row.id), row]));
+  return ids.map((trackId) => byId.get(trackId)).filter(Boolean);
+}
+
 function formatSong(track: any): Record<string, unknown> {
   const ext = String(track.ext ?? '');
   const album = track.album || '';
   return {
     id: String(track.id),
-    parent: album ? albumId(album) : 'root',
+    parent: track.album_id != null ? albumId(track.album_id) : 'root',
     isDir: false,
     title: track.title || path.basename(String(track.path || ''), ext) || 'Unknown',
     album,
@@ -437,18 +592,30 @@ function formatSong(track: any): Record<string, unknown> {
     path: track.path || '',
     discNumber: track.disc_number || 1,
     created: track.birthtime_ms ? new Date(Number(track.birthtime_ms)).toISOString() : isoDate(track.created_at ?? track.updated_at),
-    albumId: album ? albumId(album) : undefined,
+    albumId: track.album_id != null ? albumId(track.album_id) : undefined,
     type: 'music',
     isVideo: false,
     playCount: Number(track.play_count || 0),
     starred: isoDate(track.starred_at),
+    userRating: track.user_rating ? Number(track.user_rating) : undefined,
+    replayGain: formatReplayGain(track),
   };
 }
 
+// OpenSubsonic replayGain object; omitted when the track has neither tags nor a measurement
+function formatReplayGain(track: any): Record<string, number> | undefined {
+  const out: Record<string, number> = {};
+  if (track.replaygain_track_gain != null) out.trackGain = Number(track.replaygain_track_gain);
+  if (track.replaygain_album_gain != null) out.albumGain = Number(track.replaygain_album_gain);
+  if (track.replaygain_track_peak != null) out.trackPeak = Number(track.replaygain_track_peak);
+  if (track.replaygain_album_peak != null) out.albumPeak = Number(track.replaygain_album_peak);
+  return Object.keys(out).length ? out : undefined;
+}
+
 function formatAlbum(album: any): Record<string, unknown> {
   const name = album.name || album.album || 'Unknown Album';
   return {
-    id: album.id || albumId(name),
+    id: albumId(album.album_id),
     name,
     title: name,
     album: name,
@@ -461,6 +628,7 @@ function formatAlbum(album: any): Record<string, unknown> {
     genre: album.genre || '',
     playCount: Number(album.play_count || 0),
     starred: isoDate(album.starred_at),
+    userRating: album.avg_rating ? Math.round(Number(album.avg_rating)) : undefined,
   };
 }
 
@@ -618,8 +786,9 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
 
   app.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_req, body, done) => {
     try {
-      const out: Record<string, string> = {};
-      for (const [k, v] of new URLSearchParams(body as string)) out[k] = v;
+      // Repeated keys (id=1&id=2) become arrays, the same as in query strings
+      const out: Record<string, string | string[]> = {};
+      for (const [k, v] of new URLSearchParams(body as string)) out[k] = k in out ? [...[out[k]].flat(), v] : v;
       done(null, out);
     } catch (e) {
       done(e as Error, undefined);
@@ -633,10 +802,18 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const endpoint = req.url.split('?')[0].replace('/rest/', '').replace('.view', '');
     logger.info('subsonic', `${req.method} ${endpoint} format=${params.f || 'xml'}`);
 
-    const auth = await authenticate(req);
+    // OpenSubsonic apiKeyAuthentication: the key replaces u/p/t/s entirely
+    const usingApiKey = params.apiKey !== undefined;
+    if (usingApiKey && (params.u || params.p || params.t)) {
+      sendResponse(reply, createError(ERROR.CONFLICTING_AUTH.code, ERROR.CONFLICTING_AUTH.message), params.f, params.callback);
+      return reply;
+    }
+
+    const auth = usingApiKey ? await authenticateApiKey(params.apiKey ?? '') : await authenticate(req);
     if (!auth) {
       logger.warn('subsonic', 'Auth failed');
-      sendResponse(reply, createError(ERROR.AUTH_FAILED.code, ERROR.AUTH_FAILED.message), params.f, params.callback);
+      const error = usingApiKey ? ERROR.INVALID_API_KEY : ERROR.AUTH_FAILED;
+      sendResponse(reply, createError(error.code, error.message), params.f, params.callback);
       return reply;
     }
 
@@ -677,6 +854,32 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     return { ok: true };
   });
 
+  app.get('/api/subsonic/api-keys', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const keys = await listApiKeys(req.user.userId);
+    return { ok: true, keys: keys.map(serializeApiKey) };
+  });
+
+  app.post('/api/subsonic/api-keys', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const body = (req.body ?? {}) as { name?: string };
+    const name = String(body.name ?? '').trim().slice(0, 100);
+    if (!name) return reply.code(400).send({ ok: false, error: 'name_required' });
+    const { key, row } = await createApiKey(req.user.userId, name);
+    await audit('subsonic_api_key_created', { by: req.user.userId, keyId: row.id, name });
+    // The plain key is only returned here
+    return { ok: true, key, apiKey: serializeApiKey(row) };
+  });
+
+  app.delete('/api/subsonic/api-keys/:id', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+    if (!(await deleteApiKey(id, req.user.userId))) return reply.code(404).send({ ok: false });
+    await audit('subsonic_api_key_revoked', { by: req.user.userId, keyId: id });
+    return { ok: true };
+  });
+
   function rest(name: string, handler: (req: FastifyRequest, reply: FastifyReply) => Promise<void> | void) {
     app.all(`/rest/${name}`, handler);
     app.all(`/rest/${name}.view`, handler);
@@ -699,6 +902,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     sendResponse(reply, createResponse({ openSubsonicExtensions: OPENSUBSONIC_EXTENSIONS }), params.f, params.callback);
   });
 
+  rest('tokenInfo', async (req, reply) => {
+    const params = getParams(req);
+    sendResponse(reply, createResponse({ tokenInfo: { username: currentUser(req).username } }), params.f, params.callback);
+  });
+
   rest('getScanStatus', async (req, reply) => {
     const params = getParams(req);
     sendResponse(reply, createResponse({ scanStatus: { scanning: false, count: 0 } }), params.f, params.callback);
@@ -734,7 +942,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const r = await db().query(`
       select trim(g) as genre,
              count(distinct t.id)::int as song_count,
-             count(distinct nullif(t.album, ''))::int as album_count
+             count(distinct t.album_id)::int as album_count
         from active_tracks t, unnest(string_to_array(t.genre, ';')) as g
        where ${access} and t.genre is not null and trim(g) <> ''
        group by trim(g)
@@ -753,7 +961,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const r = await db().query(`
       select a.id, a.name,
              count(distinct t.id)::int as track_count,
-             count(distinct nullif(t.album, ''))::int as album_count,
+             count(distinct t.album_id)::int as album_count,
              min(t.id) filter (where t.art_path is not null) as art_track_id
         from artists a
         join track_artists ta on ta.artist_id = a.id
@@ -774,18 +982,19 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [artist];
     const access = trackAccessCondition(user, args, 't', musicFolderId);
     return db().query(`
-      select t.album as name,
-             coalesce(nullif(t.album_artist, ''), nullif(t.artist, ''), 'Unknown Artist') as artist,
-             min(t.year) as year,
+      select al.id as album_id, al.name,
+             coalesce(nullif(al.album_artist, ''), max(nullif(t.artist, '')), 'Unknown Artist') as artist,
+             coalesce(al.year, min(t.year)) as year,
              count(*)::int as track_count,
              sum(t.duration_ms) as total_duration_ms,
              min(t.id) filter (where t.art_path is not null) as art_track_id,
              max(t.birthtime_ms) as max_birthtime_ms
         from active_tracks t
+        join albums al on al.id = t.album_id
         join track_artists ta on ta.track_id = t.id
-       where ta.artist_id = $1 and ${access} and t.album is not null and t.album <> ''
-       group by t.album, coalesce(nullif(t.album_artist, ''), nullif(t.artist, ''), 'Unknown Artist')
-       order by year desc nulls last, t.album
+       where ta.artist_id = $1 and ${access}
+       group by al.id
+       order by year desc nulls last, al.name
     `, args);
   }
 
@@ -798,7 +1007,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [id];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const ar = await db().query(`
-      select a.id, a.name, count(distinct t.album)::int as album_count,
+      select a.id, a.name, count(distinct t.album_id)::int as album_count,
              min(t.id) filter (where t.art_path is not null) as art_track_id
         from artists a
         join track_artists ta on ta.artist_id = a.id
@@ -821,7 +1030,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const r = await db().query(`
       select a.id, a.name,
-             count(distinct nullif(t.album, ''))::int as album_count,
+             count(distinct t.album_id)::int as album_count,
              min(t.id) filter (where t.art_path is not null) as art_track_id
         from artists a
         join track_artists ta on ta.artist_id = a.id
@@ -853,7 +1062,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const access = trackAccessCondition(user, args, 't', folder);
       const r = await db().query(`
         select a.id, a.name,
-               count(distinct nullif(t.album, ''))::int as album_count,
+               count(distinct t.album_id)::int as album_count,
                min(t.id) filter (where t.art_path is not null) as art_track_id
           from artists a
           join track_artists ta on ta.artist_id = a.id
@@ -881,7 +1090,6 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
           name: albums.rows[0]?.artist || 'Artist',
           child: albums.rows.map((a) => ({
             ...formatAlbum(a),
-            id: albumId(a.name),
             parent: id,
             isDir: true,
             title: a.name,
@@ -891,19 +1099,20 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       return;
     }
 
-    if (id.startsWith('al-')) {
-      const albumName = decodeAlbumId(id);
-      const args: unknown[] = [albumName, user.userId];
+    if (isAlbumId(id)) {
+      const args: unknown[] = [await resolveAlbumId(id), user.userId];
       const access = trackAccessCondition(user, args, 't', params.musicFolderId);
       const songs = await db().query(`
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $2
-         where t.album = $1 and ${access}
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $2
+         where t.album_id = $1 and ${access}
          order by t.disc_number nulls last, t.track_number nulls last, t.title
       `, args);
+      if (songs.rows.length === 0) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Directory not found'), params.f, params.callback);
       sendResponse(reply, createResponse({
-        directory: { id, name: albumName, child: songs.rows.map(formatSong) },
+        directory: { id: albumId(songs.rows[0].album_id), name: songs.rows[0].album, child: songs.rows.map(formatSong) },
       }), params.f, params.callback);
       return;
     }
@@ -929,10 +1138,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       if (arId === null) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Invalid artistId parameter'), params.f, params.callback);
       args.push(arId, count);
       r = await db().query(`
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           join track_artists ta on ta.track_id = t.id
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where ${access} and ta.artist_id = $${args.length - 1}
          order by t.id desc
          limit $${args.length}
@@ -940,9 +1150,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     } else {
       args.push(artistName, count);
       r = await db().query(`
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where ${access} and lower(t.artist) = lower($${args.length - 1})
          order by t.id desc
          limit $${args.length}
@@ -956,22 +1167,22 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const params = getParams(req);
     if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
     const user = currentUser(req);
-    const albumName = decodeAlbumId(params.id);
-    const args: unknown[] = [albumName, user.userId];
+    const args: unknown[] = [await resolveAlbumId(params.id), user.userId];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const tracks = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $2
-       where t.album = $1 and ${access}
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $2
+       where t.album_id = $1 and ${access}
        order by t.disc_number nulls last, t.track_number nulls last, t.title
     `, args);
     if (tracks.rows.length === 0) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Album not found'), params.f, params.callback);
 
     const first = tracks.rows[0];
     const album = formatAlbum({
-      id: albumId(albumName),
-      name: albumName,
+      album_id: first.album_id,
+      name: first.album,
       artist: first.album_artist || first.artist,
       art_track_id: tracks.rows.find((t) => t.art_path)?.id,
       track_count: tracks.rows.length,
@@ -990,9 +1201,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [Number(params.id), user.userId];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $2
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $2
        where t.id = $1 and ${access}
     `, args);
     if (r.rows.length === 0) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Song not found'), params.f, params.callback);
@@ -1008,7 +1220,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
 
     const args: unknown[] = [user.userId];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
-    const conditions = [`${access}`, "t.album is not null", "t.album <> ''"];
+    const conditions = [`${access}`, 't.album_id is not null'];
 
     if (type === 'byGenre' && params.genre?.trim()) {
       args.push(params.genre.trim());
@@ -1033,8 +1245,8 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
         case 'random': return 'random()';
         case 'newest': return 'ac.max_birthtime_ms desc nulls last';
         case 'recent': return 'ac.last_played_at desc nulls last, ua.album';
-        case 'frequent':
-        case 'highest': return 'ac.play_count desc nulls last, ua.album';
+        case 'frequent': return 'ac.play_count desc nulls last, ua.album';
+        case 'highest': return 'ac.avg_rating desc nulls last, ac.play_count desc nulls last, ua.album';
         case 'starred': return 'ac.starred_at desc nulls last, ua.album';
         case 'byYear': return 'ua.year desc nulls last, ua.album';
         case 'alphabeticalByArtist': return 'display_artist, ua.album';
@@ -1047,30 +1259,32 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
         select * from active_tracks t where ${conditions.join(' and ')}
       ),
       unique_albums as (
-        select distinct on (t.album)
-               t.album, t.id as first_track_id, t.year, t.updated_at
+        select distinct on (t.album_id)
+               t.album_id, t.album, t.id as first_track_id, t.year, t.updated_at
           from filtered t
-         order by t.album, t.path
+         order by t.album_id, t.path
       ),
       album_counts as (
-        select t.album,
+        select t.album_id,
                count(*)::int as track_count,
                sum(t.duration_ms) as total_duration_ms,
                max(t.birthtime_ms) as max_birthtime_ms,
                coalesce(sum(uts.play_count), 0)::int as play_count,
                max(uts.last_played_at) as last_played_at,
                max(f.added_at) as starred_at,
+               avg(tr.rating) as avg_rating,
                min(t.id) filter (where t.art_path is not null) as art_track_id,
                max(coalesce(nullif(t.album_artist, ''), nullif(t.artist, ''), 'Unknown Artist')) as display_artist
           from filtered t
           left join user_track_stats uts on uts.track_id = t.id and uts.user_id = $1
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
-         group by t.album
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
+         group by t.album_id
       )
-      select ua.album as name, ac.display_artist, ac.track_count, ac.total_duration_ms,
-             ac.art_track_id, ua.year, ac.max_birthtime_ms, ac.play_count, ac.starred_at
+      select ua.album_id, ua.album as name, ac.display_artist, ac.track_count, ac.total_duration_ms,
+             ac.art_track_id, ua.year, ac.max_birthtime_ms, ac.play_count, ac.starred_at, ac.avg_rating
         from unique_albums ua
-        join album_counts ac on ac.album = ua.album
+        join album_counts ac on ac.album_id = ua.album_id
        order by ${orderBy}
        limit $${limitParam} offset $${offsetParam}
     `, args);
@@ -1090,9 +1304,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     args.push(size);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where ${access}
        order by random()
        limit $${args.length}
@@ -1113,10 +1328,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const limitParam = args.push(size);
       const offsetParam = args.push(offset);
       sql = `
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from user_track_stats s
           join active_tracks t on t.id = s.track_id
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where s.user_id = $1 and s.last_played_at is not null and ${access}
          order by s.last_played_at desc
          limit $${limitParam} offset $${offsetParam}`;
@@ -1124,10 +1340,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const limitParam = args.push(size);
       const offsetParam = args.push(offset);
       sql = `
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from user_track_stats s
           join active_tracks t on t.id = s.track_id
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where s.user_id = $1 and s.play_count > 0 and ${access}
          order by s.play_count desc, s.last_played_at desc nulls last
          limit $${limitParam} offset $${offsetParam}`;
@@ -1135,9 +1352,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const limitParam = args.push(size);
       const offsetParam = args.push(offset);
       sql = `
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
           left join (
             select track_id, sum(play_count)::int as play_count, max(last_played_at) as last_played_at
               from user_track_stats
@@ -1150,9 +1368,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const limitParam = args.push(size);
       const offsetParam = args.push(offset);
       sql = `
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where ${access}
          order by t.birthtime_ms desc nulls last, t.created_at desc
          limit $${limitParam} offset $${offsetParam}`;
@@ -1177,9 +1396,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     args.push(count, offset);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $2
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $2
        where ${access}
          and exists (select 1 from unnest(string_to_array(t.genre, ';')) as g where trim(g) ilike $1)
        order by t.artist nulls last, t.album nulls last, t.track_number nulls last, t.title
@@ -1214,7 +1434,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const filter = matchAll ? '' : 'and a.name ilike $1';
       artists = await db().query(`
         select a.id, a.name,
-               count(distinct t.album)::int as album_count,
+               count(distinct t.album_id)::int as album_count,
                min(t.id) filter (where t.art_path is not null) as art_track_id
           from artists a
           join track_artists ta on ta.artist_id = a.id
@@ -1232,16 +1452,16 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const access = trackAccessCondition(user, args, 't', params.musicFolderId);
       const filter = matchAll ? '' : 'and t.album ilike $1';
       albums = await db().query(`
-        select t.album as name,
+        select t.album_id, min(t.album) as name,
                max(coalesce(nullif(t.album_artist, ''), nullif(t.artist, ''), 'Unknown Artist')) as artist,
                min(t.year) as year,
                count(*)::int as track_count,
                sum(t.duration_ms) as total_duration_ms,
                min(t.id) filter (where t.art_path is not null) as art_track_id
           from active_tracks t
-         where ${access} and t.album is not null and t.album <> '' ${filter}
-         group by t.album
-         order by t.album
+         where ${access} and t.album_id is not null ${filter}
+         group by t.album_id
+         order by name
          limit ${albumCount} offset ${albumOffset}
       `, args);
     }
@@ -1252,9 +1472,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
       const access = trackAccessCondition(user, args, 't', params.musicFolderId);
       const filter = matchAll ? '' : 'and (t.title ilike $2 or t.artist ilike $2 or t.album ilike $2)';
       songs = await db().query(`
-        select t.*, f.added_at as starred_at
+        select t.*, f.added_at as starred_at, tr.rating as user_rating
           from active_tracks t
           left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+          left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
          where ${access} ${filter}
          order by t.title
          limit ${songCount} offset ${songOffset}
@@ -1286,9 +1507,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const limitParam = args.push(count);
     const offsetParam = args.push(offset);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where ${access}
          and (t.title ilike $2 or t.artist ilike $2 or t.album ilike $2)
        order by t.title
@@ -1297,7 +1519,7 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     sendResponse(reply, createResponse({ searchResult: { match: r.rows.map(formatSong) } }), params.f, params.callback);
   });
 
-  async function streamTrack(req: FastifyRequest, reply: FastifyReply) {
+  async function streamTrack(req: FastifyRequest, reply: FastifyReply, allowTranscode: boolean) {
     const params = getParams(req);
     if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
     const user = currentUser(req);
@@ -1324,8 +1546,8 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
 
     const args: unknown[] = [Number(params.id)];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
-    const r = await db().query<{ path: string; ext: string; library_id: number; mount_path: string }>(
-      `select t.path, t.ext, t.library_id, l.mount_path
+    const r = await db().query<{ path: string; ext: string; library_id: number; mount_path: string; size_bytes: string; duration_ms: number | null }>(
+      `select t.path, t.ext, t.library_id, l.mount_path, t.size_bytes, t.duration_ms
          from active_tracks t
          join libraries l on l.id = t.library_id
         where t.id = $1 and ${access}`,
@@ -1335,6 +1557,43 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     if (!row) return reply.code(404).send();
 
     const abs = safeJoin(row.mount_path, row.path);
+    const sessionOpts = { userId: user.userId, client: 'subsonic' as const, trackId: Number(params.id), clientName: params.c || null };
+
+    if (allowTranscode) {
+      const prefs = await db().query<{ transcode_format: string; transcode_max_bitrate: number }>(
+        'select transcode_format, transcode_max_bitrate from user_preferences where user_id=$1',
+        [user.userId]
+      );
+      const timeOffsetSec = Math.max(0, Number(params.timeOffset) || 0);
+      const settings = resolveTranscode({
+        ext: row.ext,
+        sizeBytes: Number(row.size_bytes || 0),
+        durationMs: Number(row.duration_ms || 0),
+        requestedFormat: params.format,
+        requestedMaxKbps: Number(params.maxBitRate) || 0,
+        timeOffsetSec,
+        userFormat: prefs.rows[0]?.transcode_format ?? 'raw',
+        userMaxKbps: Number(prefs.rows[0]?.transcode_max_bitrate ?? 0),
+      });
+      if (settings) {
+        const durationMs = Number(row.duration_ms || 0);
+        if (durationMs > 0 && timeOffsetSec * 1000 >= durationMs) return reply.code(416).send();
+        const session = openStreamSession(req, { ...sessionOpts, profile: `${settings.format} ${settings.bitRateKbps}k` });
+        if (!session) return reply.code(403).send();
+        const { stream, stop } = startTranscode(abs, settings, timeOffsetSec);
+        req.raw.on('close', stop);
+        reply.header('Content-Type', transcodeContentType(settings.format)).header('Accept-Ranges', 'none');
+        if (params.estimateContentLength === 'true' && durationMs > 0) {
+          const remainingSec = Math.max(0, durationMs / 1000 - timeOffsetSec);
+          reply.header('Content-Length', String(Math.round((remainingSec * settings.bitRateKbps * 1000) / 8)));
+        }
+        return reply.send(session.track(stream, stop));
+      }
+    }
+
+    const session = openStreamSession(req, { ...sessionOpts, profile: originalProfile(row.ext) });
+    if (!session) return reply.code(403).send();
+
     const st = await stat(abs);
     const range = req.headers.range;
     const contentType = mimeFromExt(row.ext);
@@ -1351,15 +1610,24 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
         .header('Accept-Ranges', 'bytes')
         .header('Content-Length', String(end - start + 1))
         .header('Content-Type', contentType);
-      return reply.send(createReadStream(abs, { start, end }));
+      return reply.send(session.track(createReadStream(abs, { start, end })));
     }
 
     reply.header('Content-Length', String(st.size)).header('Accept-Ranges', 'bytes').header('Content-Type', contentType);
-    return reply.send(createReadStream(abs));
+    return reply.send(session.track(createReadStream(abs)));
   }
 
-  rest('stream', streamTrack);
-  rest('download', streamTrack);
+  rest('stream', (req, reply) => streamTrack(req, reply, true));
+  // Downloads always serve the original file, whatever the transcoding settings
+  rest('download', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    if (!(await users.canDownload(user.userId, user.role))) {
+      return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Downloads are not allowed for this user'), params.f, params.callback);
+    }
+    if (params.id) await audit('subsonic_download', { userId: user.userId, id: params.id });
+    return streamTrack(req, reply, false);
+  });
 
   rest('getCoverArt', async (req, reply) => {
     const params = getParams(req);
@@ -1406,12 +1674,15 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
 
     let trackId = params.id;
 
-    if (params.id.startsWith('al-')) {
-      const albumName = decodeAlbumId(params.id);
-      const args: unknown[] = [albumName];
+    if (isAlbumId(params.id)) {
+      const args: unknown[] = [await resolveAlbumId(params.id)];
       const access = trackAccessCondition(user, args, 't', params.musicFolderId);
       const r = await db().query<{ id: number }>(
-        `select t.id from active_tracks t where t.album = $1 and ${access} and t.art_path is not null limit 1`,
+        `select t.id from active_tracks t
+           left join albums a on a.id = t.album_id
+          where t.album_id = $1 and ${access} and t.art_path is not null
+          order by (t.art_path = a.art_path) desc nulls last, t.id
+          limit 1`,
         args
       );
       if (r.rows[0]) trackId = String(r.rows[0].id);
@@ -1552,26 +1823,96 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     sendResponse(reply, createResponse({ nowPlaying: { entry: entries } }), params.f, params.callback);
   });
 
-  rest('getAlbumInfo', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ albumInfo: { notes: '', musicBrainzId: '', smallImageUrl: '', mediumImageUrl: '', largeImageUrl: '' } }), params.f, params.callback);
-  });
-  rest('getAlbumInfo2', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ albumInfo: { notes: '', musicBrainzId: '', smallImageUrl: '', mediumImageUrl: '', largeImageUrl: '' } }), params.f, params.callback);
-  });
-  rest('getArtistInfo', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ artistInfo: { biography: '', musicBrainzId: '', smallImageUrl: '', mediumImageUrl: '', largeImageUrl: '' } }), params.f, params.callback);
-  });
-  rest('getArtistInfo2', async (req, reply) => {
+  // getArtistInfo accepts artist, album or song ids; resolve them to a local artist id
+  async function resolveInfoArtistId(user: SubsonicUser, id: string) {
+    if (id.startsWith('ar-')) return decodeArtistId(id);
+    const args: unknown[] = [];
+    let where: string;
+    if (isAlbumId(id)) {
+      args.push(await resolveAlbumId(id));
+      where = `t.album_id = $${args.length}`;
+    } else {
+      const trackId = Number(id);
+      if (!Number.isFinite(trackId)) return null;
+      args.push(trackId);
+      where = `t.id = $${args.length}`;
+    }
+    const access = trackAccessCondition(user, args, 't');
+    const r = await db().query<{ artist_id: number }>(`
+      select ta.artist_id
+        from active_tracks t
+        join track_artists ta on ta.track_id = t.id
+       where ${where} and ${access}
+       order by (ta.role = 'albumartist') desc, ta.position
+       limit 1
+    `, args);
+    return r.rows[0] ? Number(r.rows[0].artist_id) : null;
+  }
+
+  async function sendArtistInfo(req: FastifyRequest, reply: FastifyReply, key: 'artistInfo' | 'artistInfo2') {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ artistInfo2: { biography: '', musicBrainzId: '', smallImageUrl: '', mediumImageUrl: '', largeImageUrl: '' } }), params.f, params.callback);
-  });
-  rest('getArtistInfoID3', async (req, reply) => {
+    if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const user = currentUser(req);
+    const artistIdValue = await resolveInfoArtistId(user, params.id);
+    const details = artistIdValue === null ? null : await getArtistDetails(artistIdValue, user.allowedLibraries, parseCount(params.count, 20));
+    if (!details) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Artist not found'), params.f, params.callback);
+
+    const images = details.hasArt
+      ? {
+        smallImageUrl: signedArtUrl(req, 'artist', details.id, ART_SIZES.small),
+        mediumImageUrl: signedArtUrl(req, 'artist', details.id, ART_SIZES.medium),
+        largeImageUrl: signedArtUrl(req, 'artist', details.id, ART_SIZES.large),
+      }
+      : {};
+    sendResponse(reply, createResponse({
+      [key]: {
+        biography: details.biography,
+        musicBrainzId: details.musicBrainzId ?? undefined,
+        lastFmUrl: details.lastfmUrl ?? undefined,
+        ...images,
+        similarArtist: details.similar.map(formatArtist),
+      },
+    }), params.f, params.callback);
+  }
+
+  async function sendAlbumInfo(req: FastifyRequest, reply: FastifyReply) {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ artistInfo2: { biography: '', musicBrainzId: '', smallImageUrl: '', mediumImageUrl: '', largeImageUrl: '' } }), params.f, params.callback);
-  });
+    if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const user = currentUser(req);
+    let albumRef: number | null = null;
+    if (isAlbumId(params.id)) {
+      albumRef = await resolveAlbumId(params.id);
+    } else {
+      const args: unknown[] = [Number(params.id)];
+      const access = trackAccessCondition(user, args, 't');
+      const r = await db().query<{ album_id: number | null }>(`select t.album_id from active_tracks t where t.id = $1 and ${access}`, args);
+      albumRef = r.rows[0]?.album_id ?? null;
+    }
+    const details = albumRef != null ? await getAlbumDetails(albumRef, user.allowedLibraries) : null;
+    if (!details || albumRef == null) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Album not found'), params.f, params.callback);
+
+    const images = details.artTrackId
+      ? {
+        smallImageUrl: signedArtUrl(req, 'album', albumRef, ART_SIZES.small),
+        mediumImageUrl: signedArtUrl(req, 'album', albumRef, ART_SIZES.medium),
+        largeImageUrl: signedArtUrl(req, 'album', albumRef, ART_SIZES.large),
+      }
+      : {};
+    sendResponse(reply, createResponse({
+      albumInfo: {
+        notes: details.notes,
+        musicBrainzId: details.musicBrainzId ?? undefined,
+        lastFmUrl: details.lastfmUrl ?? undefined,
+        ...images,
+      },
+    }), params.f, params.callback);
+  }
+
+  rest('getAlbumInfo', sendAlbumInfo);
+  rest('getAlbumInfo2', sendAlbumInfo);
+  rest('getArtistInfo', (req, reply) => sendArtistInfo(req, reply, 'artistInfo'));
+  rest('getArtistInfo2', (req, reply) => sendArtistInfo(req, reply, 'artistInfo2'));
+  rest('getArtistInfoID3', (req, reply) => sendArtistInfo(req, reply, 'artistInfo2'));
 
   rest('getPodcasts', async (req, reply) => {
     const params = getParams(req);
@@ -1688,10 +2029,9 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
 
     const albumIdRaw = params.albumId;
     if (albumIdRaw) {
-      const albumName = decodeAlbumId(albumIdRaw);
-      const args: unknown[] = [albumName];
+      const args: unknown[] = [await resolveAlbumId(albumIdRaw)];
       const access = trackAccessCondition(user, args, 't', params.musicFolderId);
-      const r = await db().query<{ id: number }>(`select t.id from active_tracks t where t.album=$1 and ${access}`, args);
+      const r = await db().query<{ id: number }>(`select t.id from active_tracks t where t.album_id=$1 and ${access}`, args);
       for (const row of r.rows) ids.add(Number(row.id));
     }
 
@@ -1722,6 +2062,29 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
   rest('setRating', async (req, reply) => {
     const params = getParams(req);
     if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const rating = Number(params.rating);
+    if (!Number.isInteger(rating) || rating < 0 || rating > 5) {
+      return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Invalid rating parameter'), params.f, params.callback);
+    }
+    // Ratings are per track; rating an album or artist must not overwrite its tracks' ratings
+    if (isAlbumId(params.id) || params.id.startsWith('ar-')) {
+      return sendResponse(reply, createError(ERROR.GENERIC.code, 'Only songs can be rated'), params.f, params.callback);
+    }
+    const user = currentUser(req);
+    const ids = await resolveTrackIds({ id: params.id, musicFolderId: params.musicFolderId }, user);
+    if (!ids.length) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Song not found'), params.f, params.callback);
+
+    if (rating === 0) {
+      await db().query('delete from track_ratings where user_id=$1 and track_id=any($2::bigint[])', [user.userId, ids]);
+    } else {
+      await db().query(
+        `insert into track_ratings (user_id, track_id, rating)
+         select $1, unnest($2::bigint[]), $3
+         on conflict (user_id, track_id) do update set rating = excluded.rating, rated_at = now()`,
+        [user.userId, ids, rating]
+      );
+    }
+    for (const trackId of ids) broadcastToUser(user.userId, 'rating:changed', { trackId, rating });
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
 
@@ -1733,10 +2096,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const access = trackAccessCondition(user, trackArgs, 't', params.musicFolderId);
     const trackBookmarks = await db().query(`
       select b.position_ms, b.comment, b.created_at as bookmark_created_at, b.changed_at,
-             t.*, f.added_at as starred_at
+             t.*, f.added_at as starred_at, tr.rating as user_rating
         from subsonic_bookmarks b
         join active_tracks t on t.id = b.item_id::bigint
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where b.user_id = $1 and b.item_type = 'track' and b.item_id ~ '^[0-9]+$' and ${access}
        order by b.changed_at desc
     `, trackArgs);
@@ -1861,9 +2225,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [user.userId];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from favorite_tracks f
         join active_tracks t on t.id = f.track_id
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where f.user_id = $1 and ${access}
        order by f.added_at desc
     `, args);
@@ -1901,34 +2266,65 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
   rest('getUser', async (req, reply) => {
     const params = getParams(req);
     const user = currentUser(req);
-    const username = params.username || user.username;
-    sendResponse(reply, createResponse({
-      user: {
-        username,
-        email: username,
-        scrobblingEnabled: true,
-        adminRole: user.role === 'admin',
-        settingsRole: true,
-        downloadRole: true,
-        uploadRole: false,
-        playlistRole: true,
-        coverArtRole: true,
-        commentRole: true,
-        podcastRole: false,
-        streamRole: true,
-        jukeboxRole: false,
-        shareRole: false,
-        videoConversionRole: false,
-      },
-    }), params.f, params.callback);
+    const username = normalizeEmail(params.username || user.username);
+    if (username !== user.username && user.role !== 'admin') return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Not authorized to view this user'), params.f, params.callback);
+    const target = await users.getUserByEmail(username);
+    if (!target) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'User not found'), params.f, params.callback);
+    const libraryIds = await userLibraryIds(target, target.role === 'admin' ? await listAllLibraryIds() : []);
+    sendResponse(reply, createResponse({ user: formatUser(target, libraryIds) }), params.f, params.callback);
   });
 
   rest('getPlayQueue', async (req, reply) => {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ playQueue: { entry: [], current: 0, position: 0 } }), params.f, params.callback);
+    const user = currentUser(req);
+    const queue = await getStoredPlayQueue(user.userId);
+    if (!queue || queue.trackIds.length === 0) {
+      return sendResponse(reply, createResponse({ playQueue: { entry: [], username: user.username } }), params.f, params.callback);
+    }
+
+    const args: unknown[] = [queue.trackIds, user.userId];
+    const access = trackAccessCondition(user, args, 't');
+    const r = await db().query(`
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
+        from active_tracks t
+        left join favorite_tracks f on f.track_id = t.id and f.user_id = $2
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $2
+       where t.id = any($1::bigint[]) and ${access}
+    `, args);
+    const byId = new Map(r.rows.map((row) => [Number(row.id), row]));
+    const entry = queue.trackIds.map((id) => byId.get(id)).filter(Boolean).map(formatSong);
+    const currentId = queue.trackIds[queue.currentIndex];
+
+    sendResponse(reply, createResponse({
+      playQueue: {
+        current: currentId !== undefined && byId.has(currentId) ? String(currentId) : undefined,
+        position: byId.has(currentId) ? queue.positionMs : undefined,
+        username: user.username,
+        changed: queue.updatedAt ?? undefined,
+        changedBy: queue.changedBy ?? undefined,
+        entry,
+      },
+    }), params.f, params.callback);
   });
   rest('savePlayQueue', async (req, reply) => {
     const params = getParams(req);
+    const user = currentUser(req);
+    const requested = getParamList(req, 'id').map(Number).filter((n) => Number.isFinite(n)).slice(0, 5000);
+
+    let trackIds: number[] = [];
+    if (requested.length > 0) {
+      const args: unknown[] = [requested];
+      const access = trackAccessCondition(user, args, 't');
+      const r = await db().query<{ id: number }>(`select t.id from active_tracks t where t.id = any($1::bigint[]) and ${access}`, args);
+      const accessible = new Set(r.rows.map((row) => Number(row.id)));
+      trackIds = requested.filter((id) => accessible.has(id));
+    }
+
+    const currentIndex = Math.max(0, params.current ? trackIds.indexOf(Number(params.current)) : 0);
+    const positionMs = Math.max(0, Number(params.position) || 0);
+    const changedBy = params.c || 'subsonic';
+    const updatedAt = await saveStoredPlayQueue(user.userId, trackIds, currentIndex, positionMs, changedBy);
+    broadcastToUser(user.userId, 'queue:changed', { changedBy, clientId: null, updatedAt });
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
 
@@ -2031,10 +2427,11 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [user.userId, params.id];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const songs = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from playlist_items pi
         join active_tracks t on t.id = pi.track_id
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where pi.playlist_id = $2 and ${access}
        order by pi.position
     `, args);
@@ -2054,22 +2451,18 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     }), params.f, params.callback);
   });
 
-  rest('getSimilarSongs', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ similarSongs: { song: [] } }), params.f, params.callback);
-  });
-  rest('getSimilarSongs2', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ similarSongs2: { song: [] } }), params.f, params.callback);
-  });
-  rest('getSimilarSongsID3', async (req, reply) => {
+  async function sendSimilarSongs(req: FastifyRequest, reply: FastifyReply, key: 'similarSongs' | 'similarSongs2') {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ similarSongs2: { song: [] } }), params.f, params.callback);
-  });
-  rest('getPandoraSongs', async (req, reply) => {
-    const params = getParams(req);
-    sendResponse(reply, createResponse({ similarSongs: { song: [] } }), params.f, params.callback);
-  });
+    if (!params.id) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const songs = await similarSongsFor(currentUser(req), params.id, parseCount(params.count, 50));
+    if (songs === null) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Item not found'), params.f, params.callback);
+    sendResponse(reply, createResponse({ [key]: { song: songs.map(formatSong) } }), params.f, params.callback);
+  }
+
+  rest('getSimilarSongs', (req, reply) => sendSimilarSongs(req, reply, 'similarSongs'));
+  rest('getSimilarSongs2', (req, reply) => sendSimilarSongs(req, reply, 'similarSongs2'));
+  rest('getSimilarSongsID3', (req, reply) => sendSimilarSongs(req, reply, 'similarSongs2'));
+  rest('getPandoraSongs', (req, reply) => sendSimilarSongs(req, reply, 'similarSongs'));
   rest('getTopTrackSongs', async (req, reply) => {
     const params = getParams(req);
     const user = currentUser(req);
@@ -2080,9 +2473,10 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const args: unknown[] = [user.userId, params.artist, count];
     const access = trackAccessCondition(user, args, 't', params.musicFolderId);
     const r = await db().query(`
-      select t.*, f.added_at as starred_at
+      select t.*, f.added_at as starred_at, tr.rating as user_rating
         from active_tracks t
         left join favorite_tracks f on f.track_id = t.id and f.user_id = $1
+        left join track_ratings tr on tr.track_id = t.id and tr.user_id = $1
        where ${access} and lower(t.artist) = lower($2)
        order by t.id desc
        limit $3
@@ -2095,7 +2489,71 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
   });
   rest('getInternetRadioStations', async (req, reply) => {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ internetRadioStations: { internetRadioStation: [] } }), params.f, params.callback);
+    const stations = await listRadioStations(currentUser(req).userId);
+    sendResponse(reply, createResponse({
+      internetRadioStations: {
+        internetRadioStation: stations.map((s) => ({
+          id: String(s.id),
+          name: s.name,
+          streamUrl: s.stream_url,
+          homePageUrl: s.homepage_url ?? undefined,
+        })),
+      },
+    }), params.f, params.callback);
+  });
+
+  // Admins create shared stations, other users personal ones (same rules as /api/radio)
+  rest('createInternetRadioStation', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    const streamUrl = normalizeStationUrl(params.streamUrl);
+    const name = params.name?.trim().slice(0, 200);
+    if (!streamUrl || !name) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing streamUrl or name parameter'), params.f, params.callback);
+
+    const station = await createRadioStation({
+      userId: user.role === 'admin' ? null : user.userId,
+      name,
+      streamUrl,
+      homepageUrl: normalizeStationUrl(params.homepageUrl),
+      artworkUrl: null,
+      relay: false,
+    });
+    await audit('radio_station_created', { by: user.userId, stationId: station.id, shared: station.user_id === null, via: 'subsonic' });
+    sendResponse(reply, createResponse(), params.f, params.callback);
+  });
+
+  rest('updateInternetRadioStation', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    const id = Number(params.id);
+    const streamUrl = normalizeStationUrl(params.streamUrl);
+    const name = params.name?.trim().slice(0, 200);
+    if (!Number.isFinite(id) || !streamUrl || !name) {
+      return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id, streamUrl or name parameter'), params.f, params.callback);
+    }
+    const station = await getRadioStation(id, user.userId);
+    if (!station) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Station not found'), params.f, params.callback);
+    if (!canEditStation(station, user.userId, user.role)) return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, ERROR.NOT_AUTHORIZED.message), params.f, params.callback);
+
+    // An omitted homepageUrl leaves the stored one alone; an empty one clears it
+    const homepageUrl = params.homepageUrl === undefined ? undefined : normalizeStationUrl(params.homepageUrl);
+    await updateRadioStation(id, { name, streamUrl, homepageUrl });
+    await audit('radio_station_updated', { by: user.userId, stationId: id, via: 'subsonic' });
+    sendResponse(reply, createResponse(), params.f, params.callback);
+  });
+
+  rest('deleteInternetRadioStation', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    const id = Number(params.id);
+    if (!Number.isFinite(id)) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const station = await getRadioStation(id, user.userId);
+    if (!station) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Station not found'), params.f, params.callback);
+    if (!canEditStation(station, user.userId, user.role)) return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, ERROR.NOT_AUTHORIZED.message), params.f, params.callback);
+
+    await deleteRadioStation(id);
+    await audit('radio_station_deleted', { by: user.userId, stationId: id, name: station.name, via: 'subsonic' });
+    sendResponse(reply, createResponse(), params.f, params.callback);
   });
 
   rest('createPlaylist', async (req, reply) => {
@@ -2180,34 +2638,121 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     const params = getParams(req);
     sendResponse(reply, createResponse({ jukeboxStatus: { currentIndex: -1, playing: false, gain: 1, position: 0 } }), params.f, params.callback);
   });
+  async function formatShare(req: FastifyRequest, share: ShareRow, user: SubsonicUser) {
+    const rows = await listShareTracks(share.id, user.allowedLibraries);
+    return {
+      id: String(share.id),
+      url: shareUrl(req, share.token),
+      description: share.description ?? undefined,
+      username: share.owner_email,
+      created: isoDate(share.created_at),
+      expires: isoDate(share.expires_at),
+      lastVisited: isoDate(share.last_viewed_at),
+      visitCount: share.view_count,
+      entry: rows.map(formatSong),
+    };
+  }
+
   rest('getShares', async (req, reply) => {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ shares: { share: [] } }), params.f, params.callback);
+    const user = currentUser(req);
+    const items = await listShares(user.userId);
+    const share = await Promise.all(items.map((s) => formatShare(req, s, user)));
+    sendResponse(reply, createResponse({ shares: { share } }), params.f, params.callback);
   });
   rest('createShare', async (req, reply) => {
     const params = getParams(req);
-    sendResponse(reply, createResponse(), params.f, params.callback);
+    const user = currentUser(req);
+    const ids = getParamList(req, 'id');
+    if (ids.length === 0) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+
+    // Songs, albums (alb-) and artists (ar-) can be mixed; each resolves to accessible tracks
+    const trackIds: number[] = [];
+    let title: string | null = null;
+    for (const id of ids) {
+      const resolved = isAlbumId(id)
+        ? await resolveTrackIds({ albumId: id }, user)
+        : id.startsWith('ar-')
+          ? await resolveTrackIds({ artistId: id }, user)
+          : await resolveTrackIds({ id }, user);
+      if (isAlbumId(id) && ids.length === 1) {
+        const al = await db().query<{ name: string }>('select name from albums where id = $1', [await resolveAlbumId(id)]);
+        title = al.rows[0]?.name ?? null;
+      }
+      for (const t of resolved) if (!trackIds.includes(t)) trackIds.push(t);
+    }
+    if (trackIds.length === 0) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Nothing to share'), params.f, params.callback);
+
+    const expiresMs = Number(params.expires);
+    const shareId = await createShareRow({
+      userId: user.userId,
+      kind: title ? 'album' : trackIds.length === 1 ? 'track' : 'tracks',
+      title,
+      description: params.description?.trim() || null,
+      passwordHash: null,
+      expiresAt: Number.isFinite(expiresMs) && expiresMs > 0 ? new Date(expiresMs) : null,
+      trackIds: trackIds.slice(0, 1000),
+    });
+    await audit('share_created', { by: user.userId, shareId, kind: 'subsonic', tracks: trackIds.length });
+    const created = await getShareById(shareId);
+    const share = created ? [await formatShare(req, created, user)] : [];
+    sendResponse(reply, createResponse({ shares: { share } }), params.f, params.callback);
   });
   rest('updateShare', async (req, reply) => {
     const params = getParams(req);
+    const user = currentUser(req);
+    const shareId = Number(params.id);
+    if (!params.id || !Number.isInteger(shareId)) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const share = await getShareById(shareId);
+    if (!share || share.user_id !== user.userId) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Share not found'), params.f, params.callback);
+    const expiresMs = params.expires === undefined ? undefined : Number(params.expires);
+    await updateShareRow(share.id, {
+      description: params.description === undefined ? undefined : params.description.trim() || null,
+      expiresAt: expiresMs === undefined ? undefined : Number.isFinite(expiresMs) && expiresMs > 0 ? new Date(expiresMs) : null,
+    });
+    await audit('share_updated', { by: user.userId, shareId: share.id });
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
   rest('deleteShare', async (req, reply) => {
     const params = getParams(req);
+    const user = currentUser(req);
+    const shareId = Number(params.id);
+    if (!params.id || !Number.isInteger(shareId)) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing id parameter'), params.f, params.callback);
+    const share = await getShareById(shareId);
+    if (!share || (share.user_id !== user.userId && user.role !== 'admin')) {
+      return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Share not found'), params.f, params.callback);
+    }
+    await deleteShareRow(share.id);
+    await audit('share_revoked', { by: user.userId, shareId: share.id, owner: share.user_id });
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
   rest('getChatMessages', async (req, reply) => {
     const params = getParams(req);
-    sendResponse(reply, createResponse({ chatMessages: { chatMessage: [] } }), params.f, params.callback);
+    const since = params.since ? Number(params.since) : NaN;
+    const messages = await listChatMessages(Number.isFinite(since) ? new Date(since) : null);
+    sendResponse(reply, createResponse({
+      chatMessages: {
+        chatMessage: messages.map((m) => ({ username: m.username, time: m.created_at.getTime(), message: m.message })),
+      },
+    }), params.f, params.callback);
   });
   rest('addChatMessage', async (req, reply) => {
     const params = getParams(req);
+    const user = currentUser(req);
+    if (!params.message?.trim()) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing message parameter'), params.f, params.callback);
+    await postChatMessage(user.userId, params.message);
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
   rest('getUsers', async (req, reply) => {
     const params = getParams(req);
     const user = currentUser(req);
-    sendResponse(reply, createResponse({ users: { user: [{ username: user.username, adminRole: user.role === 'admin', streamRole: true, scrobblingEnabled: true }] } }), params.f, params.callback);
+    if (user.role !== 'admin') return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Admin role required'), params.f, params.callback);
+    const allLibraryIds = await listAllLibraryIds();
+    const entries = [];
+    for (const u of await users.listUsers()) {
+      entries.push(formatUser(u, await userLibraryIds(u, allLibraryIds)));
+    }
+    sendResponse(reply, createResponse({ users: { user: entries } }), params.f, params.callback);
   });
   rest('changePassword', async (req, reply) => {
     const params = getParams(req);
@@ -2229,12 +2774,80 @@ export const subsonicPlugin: FastifyPluginAsync = fp(async (app) => {
     sendResponse(reply, createResponse(), params.f, params.callback);
   });
 
-  for (const endpoint of ['createUser', 'updateUser', 'deleteUser'] as const) {
-    rest(endpoint, async (req, reply) => {
-      const params = getParams(req);
-      sendResponse(reply, createResponse(), params.f, params.callback);
-    });
-  }
+  // User management goes through the same users/user_libraries rows and audit events as /api/admin/users
+  rest('createUser', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    if (user.role !== 'admin') return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Admin role required'), params.f, params.callback);
+    const email = normalizeEmail(params.username ?? '');
+    const password = params.password ? decodeLegacyPassword(params.password) : '';
+    if (!email || !password) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing username or password parameter'), params.f, params.callback);
+    if (password.length < 8) return sendResponse(reply, createError(ERROR.GENERIC.code, 'Password must be at least 8 characters'), params.f, params.callback);
+    if (await users.getUserByEmail(email)) return sendResponse(reply, createError(ERROR.GENERIC.code, 'User already exists'), params.f, params.callback);
+
+    const libraryIds = await parseMusicFolderIds(req);
+    if (libraryIds === 'invalid') return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Music folder not found'), params.f, params.callback);
+
+    const role: Role = params.adminRole === 'true' ? 'admin' : 'user';
+    const id = randomId('u');
+    await users.createUser({ id, email, passwordHash: hashPassword(password), role });
+    await users.setSubsonicPassword(id, password);
+    if (libraryIds) await users.setUserLibraries(id, libraryIds);
+    else await users.grantAllLibraries(id);
+
+    await audit('admin_create_user', { email, role, by: user.userId, via: 'subsonic' });
+    sendResponse(reply, createResponse(), params.f, params.callback);
+  });
+
+  rest('updateUser', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    if (user.role !== 'admin') return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Admin role required'), params.f, params.callback);
+    const email = normalizeEmail(params.username ?? '');
+    if (!email) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing username parameter'), params.f, params.callback);
+    const target = await users.getUserByEmail(email);
+    if (!target) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'User not found'), params.f, params.callback);
+
+    const password = params.password ? decodeLegacyPassword(params.password) : '';
+    if (params.password && password.length < 8) return sendResponse(reply, createError(ERROR.GENERIC.code, 'Password must be at least 8 characters'), params.f, params.callback);
+    const role: Role | null = params.adminRole === 'true' ? 'admin' : params.adminRole === 'false' ? 'user' : null;
+    if (role && role !== target.role && target.id === user.userId) return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Cannot change your own admin role'), params.f, params.callback);
+    const libraryIds = await parseMusicFolderIds(req);
+    if (libraryIds === 'invalid') return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'Music folder not found'), params.f, params.callback);
+
+    if (password) {
+      await users.setPassword(target.id, hashPassword(password));
+      await users.setSubsonicPassword(target.id, password);
+      await users.bumpSessionVersion(target.id);
+      await audit('admin_reset_password', { userId: target.id, by: user.userId, via: 'subsonic' });
+    }
+    if (role && role !== target.role) {
+      await users.setRole(target.id, role);
+      await users.bumpSessionVersion(target.id);
+      await audit('admin_set_role', { by: user.userId, userId: target.id, role, via: 'subsonic' });
+    }
+    if (libraryIds) {
+      await users.setUserLibraries(target.id, libraryIds);
+      const sv = await users.bumpSessionVersion(target.id);
+      await audit('admin_set_user_libraries', { by: user.userId, userId: target.id, libraryIds, sessionVersion: sv, via: 'subsonic' });
+    }
+    sendResponse(reply, createResponse(), params.f, params.callback);
+  });
+
+  rest('deleteUser', async (req, reply) => {
+    const params = getParams(req);
+    const user = currentUser(req);
+    if (user.role !== 'admin') return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Admin role required'), params.f, params.callback);
+    const email = normalizeEmail(params.username ?? '');
+    if (!email) return sendResponse(reply, createError(ERROR.MISSING_PARAM.code, 'Missing username parameter'), params.f, params.callback);
+    const target = await users.getUserByEmail(email);
+    if (!target) return sendResponse(reply, createError(ERROR.NOT_FOUND.code, 'User not found'), params.f, params.callback);
+    if (target.id === user.userId) return sendResponse(reply, createError(ERROR.NOT_AUTHORIZED.code, 'Cannot delete yourself'), params.f, params.callback);
+
+    await users.deleteUser(target.id);
+    await audit('admin_delete_user', { by: user.userId, userId: target.id, email, via: 'subsonic' });
+    sendResponse(reply, createResponse(), params.f, params.callback);
+  });
 
   logger.success('subsonic', 'Subsonic/OpenSubsonic API enabled at /rest/*');
 });
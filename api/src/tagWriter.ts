@@ -0,0 +1,931 @@
+import { open, readFile, rename, rm, stat } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+
+// Fields the admin metadata editor can write. Multi-value fields carry one entry per value.
+export const TAG_FIELDS = [
+  'title', 'album', 'artists', 'albumArtist', 'genre', 'year', 'trackNumber', 'discNumber', 'country', 'language',
+  'composer', 'bpm', 'initialKey', 'isrc',
+  'musicbrainzTrackId', 'musicbrainzReleaseId', 'musicbrainzArtistId', 'musicbrainzAlbumArtistId',
+] as const;
+
+export type TagField = (typeof TAG_FIELDS)[number];
+
+// undefined leaves a field untouched; null or an empty list removes it
+export type TagValues = Partial<Record<TagField, string[] | null>>;
+
+export type TagFormat = 'id3' | 'vorbis' | 'mp4';
+
+// Native tag items replaced by a write. Restoring removes `keys` again and puts `items` back.
+export type TagBackup = { format: TagFormat; keys: string[]; items: string[] };
+
+export function tagFormatFor(ext: string): TagFormat | null {
+  switch (ext.toLowerCase()) {
+    case '.mp3': return 'id3';
+    case '.flac':
+    case '.ogg':
+    case '.oga':
+    case '.opus': return 'vorbis';
+    case '.m4a':
+    case '.m4b':
+    case '.mp4': return 'mp4';
+    default: return null;
+  }
+}
+
+function cleanValues(values: string[] | null | undefined) {
+  return (values ?? []).map((x) => String(x ?? '').trim()).filter(Boolean);
+}
+
+type Id3Frame = { id: string; data: Buffer; flags: Buffer; txxxDescription?: string };
+
+function decodeSyncSafeInt(buf: Buffer) {
+  // 4 bytes, 7 bits each
+  return ((buf[0] & 0x7f) << 21) | ((buf[1] & 0x7f) << 14) | ((buf[2] & 0x7f) << 7) | (buf[3] & 0x7f);
+}
+
+function encodeSyncSafeInt(n: number) {
+  return Buffer.from([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
+}
+
+function encodeUtf16WithBom(s: string) {
+  return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(s, 'utf16le')]);
+}
+
+function decodeText(buf: Buffer, encodingByte: number) {
+  if (!buf.length) return '';
+  if (encodingByte === 0x01 || encodingByte === 0x02) {
+    // UTF-16 with/without BOM (best-effort)
+    if (buf.length >= 2) {
+      const b0 = buf[0];
+      const b1 = buf[1];
+      if (b0 === 0xff && b1 === 0xfe) return buf.subarray(2).toString('utf16le');
+      if (b0 === 0xfe && b1 === 0xff) {
+        const swapped = Buffer.alloc(buf.length - 2);
+        for (let i = 2; i + 1 < buf.length; i += 2) {
+          swapped[i - 2] = buf[i + 1];
+          swapped[i - 1] = buf[i];
+        }
+        return swapped.toString('utf16le');
+      }
+    }
+    // Assume LE
+    return buf.toString('utf16le');
+  }
+  if (encodingByte === 0x03) return buf.toString('utf8');
+  return buf.toString('latin1');
+}
+
+function parseTxxxDescription(frameData: Buffer) {
+  if (!frameData.length) return undefined;
+  const enc = frameData[0] ?? 0x00;
+  const charSize = enc === 0x01 || enc === 0x02 ? 2 : 1;
+  let pos = 1;
+  for (; pos + charSize - 1 < frameData.length; pos += charSize) {
+    let isTerm = true;
+    for (let j = 0; j < charSize; j++) if (frameData[pos + j] !== 0x00) isTerm = false;
+    if (isTerm) break;
+  }
+  const descBuf = frameData.subarray(1, pos);
+  return decodeText(descBuf, enc).replace(/\0/g, '').trim() || undefined;
+}
+
+function buildFrame(id: string, data: Buffer, version: 3 | 4, flags?: Buffer) {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, 4, 'ascii');
+  if (version === 4) encodeSyncSafeInt(data.length).copy(header, 4);
+  else header.writeUInt32BE(data.length, 4);
+  (flags ?? Buffer.from([0x00, 0x00])).copy(header, 8);
+  return Buffer.concat([header, data]);
+}
+
+function buildTextFrame(id: string, values: string[], version: 3 | 4) {
+  if (!values.length) return null;
+  const joined = version === 4 ? values.join('\u0000') : values.join('/');
+  const text = encodeUtf16WithBom(joined);
+  const body = Buffer.concat([Buffer.from([0x01]), text]);
+  return buildFrame(id, body, version);
+}
+
+function buildTxxxFrame(description: string, values: string[], version: 3 | 4) {
+  if (!values.length) return null;
+  const joined = version === 4 ? values.join('\u0000') : values.join('/');
+  const desc = encodeUtf16WithBom(description);
+  const val = encodeUtf16WithBom(joined);
+  const body = Buffer.concat([Buffer.from([0x01]), desc, Buffer.from([0x00, 0x00]), val]);
+  return buildFrame('TXXX', body, version);
+}
+
+function applyUnsync(buf: Buffer) {
+  // Insert 0x00 after 0xFF if next byte is 0x00 or >= 0xE0 (prevents false MPEG syncs).
+  const out: number[] = [];
+  for (let i = 0; i < buf.length; i++) {
+    const b = buf[i]!;
+    out.push(b);
+    if (b === 0xff) {
+      const next = buf[i + 1];
+      if (next === 0x00 || (next !== undefined && (next & 0xe0) === 0xe0)) out.push(0x00);
+    }
+  }
+  return Buffer.from(out);
+}
+
+function parseId3Frames(file: Buffer): { frames: Id3Frame[]; audioOffset: number; version: 3 | 4; usesSyncsafeFrameSizes: boolean; headerFlags: number } {
+  if (file.length < 10 || file.toString('ascii', 0, 3) !== 'ID3') return { frames: [], audioOffset: 0, version: 3, usesSyncsafeFrameSizes: false, headerFlags: 0 };
+
+  const version = (file[3] === 4 ? 4 : 3) as 3 | 4;
+  const flags = file[5] ?? 0;
+  const tagSize = decodeSyncSafeInt(file.subarray(6, 10));
+  const tagEnd = Math.min(file.length, 10 + tagSize);
+  let body = file.subarray(10, tagEnd);
+
+  // Skip extended header if present.
+  const hasExtended = (flags & 0x40) !== 0;
+  if (hasExtended && body.length >= 4) {
+    // v2.3 extended headers are messy in the wild; if present we just skip a conservative amount.
+    const extSize = version === 4 ? decodeSyncSafeInt(body.subarray(0, 4)) : body.readUInt32BE(0);
+    const extTotal = version === 4 ? extSize : extSize + 4;
+    if (extTotal > 0 && extTotal <= body.length) body = body.subarray(extTotal);
+  }
+
+  const frames: Id3Frame[] = [];
+  let pos = 0;
+  let usesSyncsafeFrameSizes = version === 4;
+
+  while (pos + 10 <= body.length) {
+    const id = body.toString('ascii', pos, pos + 4);
+    if (!id || /^\0{4}$/.test(id) || id.trim() === '') break;
+
+    const sizeBytes = body.subarray(pos + 4, pos + 8);
+    let size = version === 4 ? decodeSyncSafeInt(sizeBytes) : sizeBytes.readUInt32BE(0);
+    let end = pos + 10 + size;
+
+    // Some files lie (v2.3 header but v2.4-style syncsafe frame sizes). If the v2.3 size is impossible,
+    // fall back to syncsafe to avoid producing mixed/invalid tags on rewrite.
+    if (version === 3 && (size < 0 || end > body.length)) {
+      const alt = decodeSyncSafeInt(sizeBytes);
+      const altEnd = pos + 10 + alt;
+      if (alt >= 0 && altEnd <= body.length) {
+        usesSyncsafeFrameSizes = true;
+        size = alt;
+        end = altEnd;
+      } else {
+        break;
+      }
+    }
+
+    if (size < 0 || end > body.length) break;
+
+    const flagsBuf = Buffer.from(body.subarray(pos + 8, pos + 10));
+    const data = Buffer.from(body.subarray(pos + 10, end));
+    const f: Id3Frame = { id, data, flags: flagsBuf };
+    if (id === 'TXXX') f.txxxDescription = parseTxxxDescription(data);
+    frames.push(f);
+    pos = end;
+  }
+
+  return { frames, audioOffset: tagEnd, version, usesSyncsafeFrameSizes, headerFlags: flags };
+}
+
+const ID3_FIELDS: Record<TagField, { frame?: string; txxx?: string; alsoRemove?: string[] }> = {
+  title: { frame: 'TIT2' },
+  album: { frame: 'TALB' },
+  artists: { frame: 'TPE1', alsoRemove: ['TXXX:artists'] },
+  albumArtist: { frame: 'TPE2' },
+  genre: { frame: 'TCON' },
+  year: { frame: 'TDRC', alsoRemove: ['TYER'] },
+  trackNumber: { frame: 'TRCK' },
+  discNumber: { frame: 'TPOS' },
+  country: { txxx: 'Country' },
+  language: { frame: 'TLAN', alsoRemove: ['TXXX:language'] },
+  composer: { frame: 'TCOM' },
+  bpm: { frame: 'TBPM' },
+  initialKey: { frame: 'TKEY' },
+  isrc: { frame: 'TSRC' },
+  musicbrainzTrackId: { txxx: 'MusicBrainz Release Track Id' },
+  musicbrainzReleaseId: { txxx: 'MusicBrainz Album Id' },
+  musicbrainzArtistId: { txxx: 'MusicBrainz Artist Id' },
+  musicbrainzAlbumArtistId: { txxx: 'MusicBrainz Album Artist Id' },
+};
+
+function id3Key(f: Id3Frame) {
+  return f.id === 'TXXX' && f.txxxDescription ? `TXXX:${f.txxxDescription.trim().toLowerCase()}` : f.id;
+}
+
+// Rewrites the ID3v2 tag without `removeKeys` (frame ids or TXXX:<description>) plus `added` frames
+function editId3(file: Buffer, removeKeys: Set<string>, added: Buffer[], restoring = false) {
+  const parsed = parseId3Frames(file);
+  // Always write ID3v2.4 so multi-value text frames use NUL separators (MP3Tag-compatible, avoids v2.3 '/').
+  const targetVersion: 4 = 4;
+  const needsUnsync = (parsed.headerFlags & 0x80) !== 0;
+
+  const removed = parsed.frames.filter((f) => removeKeys.has(id3Key(f)));
+  const kept = parsed.frames.filter((f) => !removeKeys.has(id3Key(f)));
+
+  // Restored frames were read back from a tag that already carried the unsync scheme
+  const newFrames = needsUnsync && !restoring ? added.map(applyUnsync) : added;
+
+  // If we upgrade v2.3 -> v2.4 (syncsafe mismatch), drop per-frame flags to avoid writing invalid flags for the new version.
+  const keptBuf = kept.map((f) => buildFrame(f.id, f.data, targetVersion, targetVersion === parsed.version ? f.flags : undefined));
+  const framesBuf = Buffer.concat([...keptBuf, ...newFrames]);
+  if (framesBuf.length === 0) {
+    // Remove ID3 tag entirely.
+    return { out: file.subarray(parsed.audioOffset), removed };
+  }
+
+  const header = Buffer.alloc(10);
+  header.write('ID3', 0, 3, 'ascii');
+  header[3] = targetVersion;
+  header[4] = 0x00;
+  // Preserve original header flags when possible; we don't emit extended headers or footers.
+  header[5] = parsed.headerFlags & ~0x50;
+  encodeSyncSafeInt(framesBuf.length).copy(header, 6);
+
+  return { out: Buffer.concat([header, framesBuf, file.subarray(parsed.audioOffset)]), removed };
+}
+
+function writeId3(file: Buffer, values: TagValues) {
+  const removeKeys = new Set<string>();
+  const added: Buffer[] = [];
+  for (const field of TAG_FIELDS) {
+    if (values[field] === undefined) continue;
+    const target = ID3_FIELDS[field];
+    const parts = cleanValues(values[field]);
+    for (const k of target.alsoRemove ?? []) removeKeys.add(k);
+    if (target.txxx) {
+      removeKeys.add(`TXXX:${target.txxx.toLowerCase()}`);
+      const f = buildTxxxFrame(target.txxx, parts, 4);
+      if (f) added.push(f);
+    } else if (target.frame) {
+      removeKeys.add(target.frame);
+      const f = buildTextFrame(target.frame, parts, 4);
+      if (f) added.push(f);
+    }
+  }
+  const { out, removed } = editId3(file, removeKeys, added);
+  return { out, backup: { format: 'id3' as const, keys: [...removeKeys], items: removed.map((f) => `${f.id}:${f.data.toString('base64')}`) } };
+}
+
+function restoreId3(file: Buffer, backup: TagBackup) {
+  const frames = backup.items.map((item) => {
+    const sep = item.indexOf(':');
+    return buildFrame(item.slice(0, sep), Buffer.from(item.slice(sep + 1), 'base64'), 4);
+  });
+  return editId3(file, new Set(backup.keys), frames, true).out;
+}
+
+// ---------------------------------------------------------------------------
+// Vorbis comments (FLAC, Ogg Vorbis, Opus)
+// ---------------------------------------------------------------------------
+
+// The first name is written, the others are dropped so stale duplicates don't shadow the edit
+const VORBIS_FIELDS: Record<TagField, string[]> = {
+  title: ['TITLE'],
+  album: ['ALBUM'],
+  artists: ['ARTIST', 'ARTISTS'],
+  albumArtist: ['ALBUMARTIST', 'ALBUM ARTIST'],
+  genre: ['GENRE'],
+  year: ['DATE', 'YEAR'],
+  trackNumber: ['TRACKNUMBER'],
+  discNumber: ['DISCNUMBER'],
+  country: ['COUNTRY'],
+  language: ['LANGUAGE'],
+  composer: ['COMPOSER'],
+  bpm: ['BPM'],
+  initialKey: ['INITIALKEY', 'KEY'],
+  isrc: ['ISRC'],
+  musicbrainzTrackId: ['MUSICBRAINZ_RELEASETRACKID'],
+  musicbrainzReleaseId: ['MUSICBRAINZ_ALBUMID'],
+  musicbrainzArtistId: ['MUSICBRAINZ_ARTISTID'],
+  musicbrainzAlbumArtistId: ['MUSICBRAINZ_ALBUMARTISTID'],
+};
+
+type VorbisComment = { vendor: Buffer; comments: string[] };
+
+function parseVorbisComment(buf: Buffer): { comment: VorbisComment; end: number } {
+  let pos = 0;
+  const vendorLen = buf.readUInt32LE(pos);
+  pos += 4;
+  const vendor = Buffer.from(buf.subarray(pos, pos + vendorLen));
+  pos += vendorLen;
+  const count = buf.readUInt32LE(pos);
+  pos += 4;
+  const comments: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const len = buf.readUInt32LE(pos);
+    pos += 4;
+    if (pos + len > buf.length) throw new Error('Corrupt Vorbis comment block');
+    comments.push(buf.toString('utf8', pos, pos + len));
+    pos += len;
+  }
+  return { comment: { vendor, comments }, end: pos };
+}
+
+function buildVorbisComment(c: VorbisComment) {
+  const parts: Buffer[] = [];
+  const u32 = (n: number) => {
+    const b = Buffer.alloc(4);
+    b.writeUInt32LE(n, 0);
+    return b;
+  };
+  parts.push(u32(c.vendor.length), c.vendor, u32(c.comments.length));
+  for (const entry of c.comments) {
+    const b = Buffer.from(entry, 'utf8');
+    parts.push(u32(b.length), b);
+  }
+  return Buffer.concat(parts);
+}
+
+function vorbisKey(entry: string) {
+  const eq = entry.indexOf('=');
+  return (eq < 0 ? entry : entry.slice(0, eq)).toUpperCase();
+}
+
+function editVorbisComments(c: VorbisComment, removeKeys: Set<string>, added: string[]) {
+  const removed = c.comments.filter((e) => removeKeys.has(vorbisKey(e)));
+  const kept = c.comments.filter((e) => !removeKeys.has(vorbisKey(e)));
+  return { comment: { vendor: c.vendor, comments: [...kept, ...added] }, removed };
+}
+
+function vorbisChanges(values: TagValues) {
+  const removeKeys = new Set<string>();
+  const added: string[] = [];
+  for (const field of TAG_FIELDS) {
+    if (values[field] === undefined) continue;
+    const names = VORBIS_FIELDS[field];
+    for (const n of names) removeKeys.add(n);
+    for (const v of cleanValues(values[field])) added.push(`${names[0]}=${v}`);
+  }
+  return { removeKeys, added };
+}
+
+// FLAC: metadata blocks after the "fLaC" marker, optionally preceded by an ID3v2 tag
+function readFlacBlocks(file: Buffer) {
+  let start = 0;
+  if (file.toString('latin1', 0, 3) === 'ID3' && file.length >= 10) {
+    start = 10 + decodeSyncSafeInt(file.subarray(6, 10)) + ((file[5] ?? 0) & 0x10 ? 10 : 0);
+  }
+  if (file.toString('latin1', start, start + 4) !== 'fLaC') throw new Error('Not a FLAC file');
+
+  const blocks: Array<{ type: number; data: Buffer }> = [];
+  let pos = start + 4;
+  for (;;) {
+    if (pos + 4 > file.length) throw new Error('Truncated FLAC metadata');
+    const head = file[pos]!;
+    const len = file.readUIntBE(pos + 1, 3);
+    if (pos + 4 + len > file.length) throw new Error('Truncated FLAC metadata');
+    blocks.push({ type: head & 0x7f, data: file.subarray(pos + 4, pos + 4 + len) });
+    pos += 4 + len;
+    if (head & 0x80) break;
+  }
+  return { start, blocks, end: pos };
+}
+
+function editFlac(file: Buffer, removeKeys: Set<string>, added: string[]) {
+  const { start, blocks, end: pos } = readFlacBlocks(file);
+  const oldMetaSize = pos - start - 4;
+  if (blocks[0]?.type !== 0) throw new Error('FLAC file does not start with STREAMINFO');
+
+  const existing = blocks.find((b) => b.type === 4);
+  const comment = existing ? parseVorbisComment(existing.data).comment : { vendor: Buffer.from('mvbar', 'utf8'), comments: [] };
+  const edited = editVorbisComments(comment, removeKeys, added);
+  const commentData = buildVorbisComment(edited.comment);
+
+  // STREAMINFO stays first; old padding is reused so the audio usually keeps its offset
+  const others = blocks.filter((b) => b.type !== 4 && b.type !== 1);
+  const ordered = [others[0]!, { type: 4, data: commentData }, ...others.slice(1)];
+  const usedSize = ordered.reduce((n, b) => n + 4 + b.data.length, 0);
+  const padSize = oldMetaSize - usedSize - 4 >= 0 ? oldMetaSize - usedSize - 4 : 1024;
+  ordered.push({ type: 1, data: Buffer.alloc(padSize) });
+
+  const parts: Buffer[] = [file.subarray(0, start), Buffer.from('fLaC', 'latin1')];
+  ordered.forEach((b, i) => {
+    if (b.data.length > 0xffffff) throw new Error('FLAC metadata block too large');
+    const head = Buffer.alloc(4);
+    head[0] = (i === ordered.length - 1 ? 0x80 : 0) | b.type;
+    head.writeUIntBE(b.data.length, 1, 3);
+    parts.push(head, b.data);
+  });
+  parts.push(file.subarray(pos));
+  return { out: Buffer.concat(parts), removed: edited.removed };
+}
+
+// Ogg pages use a CRC-32 with polynomial 0x04c11db7, no reflection, zero init
+const OGG_CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    t[i] = r >>> 0;
+  }
+  return t;
+})();
+
+function oggCrc(buf: Buffer) {
+  let crc = 0;
+  for (let i = 0; i < buf.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ buf[i]!) & 0xff]!) >>> 0;
+  return crc;
+}
+
+type OggPage = { headerType: number; granule: Buffer; serial: number; seq: number; segments: number[]; body: Buffer; end: number };
+
+function readOggPage(file: Buffer, pos: number): OggPage {
+  if (file.toString('latin1', pos, pos + 4) !== 'OggS') throw new Error('Corrupt Ogg stream');
+  const nsegs = file[pos + 26]!;
+  const segments = [...file.subarray(pos + 27, pos + 27 + nsegs)];
+  const bodyStart = pos + 27 + nsegs;
+  const bodyLen = segments.reduce((a, b) => a + b, 0);
+  return {
+    headerType: file[pos + 5]!,
+    granule: file.subarray(pos + 6, pos + 14),
+    serial: file.readUInt32LE(pos + 14),
+    seq: file.readUInt32LE(pos + 18),
+    segments,
+    body: file.subarray(bodyStart, bodyStart + bodyLen),
+    end: bodyStart + bodyLen,
+  };
+}
+
+function buildOggPage(p: Omit<OggPage, 'end'>) {
+  const head = Buffer.alloc(27 + p.segments.length);
+  head.write('OggS', 0, 'latin1');
+  head[5] = p.headerType;
+  p.granule.copy(head, 6);
+  head.writeUInt32LE(p.serial, 14);
+  head.writeUInt32LE(p.seq, 18);
+  head[26] = p.segments.length;
+  Buffer.from(p.segments).copy(head, 27);
+  const page = Buffer.concat([head, p.body]);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+// Lays packets out on fresh pages; used for the comment (and Vorbis setup) headers
+function paginate(packets: Buffer[], serial: number, firstSeq: number) {
+  const pages: Buffer[] = [];
+  let segments: number[] = [];
+  let bodies: Buffer[] = [];
+  let continued = false;
+  let nextContinued = false;
+  const flush = () => {
+    pages.push(buildOggPage({ headerType: continued ? 0x01 : 0, granule: Buffer.alloc(8), serial, seq: firstSeq + pages.length, segments, body: Buffer.concat(bodies) }));
+    segments = [];
+    bodies = [];
+    continued = nextContinued;
+  };
+  for (const packet of packets) {
+    let offset = 0;
+    for (;;) {
+      const len = Math.min(255, packet.length - offset);
+      segments.push(len);
+      bodies.push(packet.subarray(offset, offset + len));
+      offset += len;
+      const done = len < 255;
+      if (segments.length === 255) {
+        nextContinued = !done;
+        flush();
+      }
+      if (done) break;
+    }
+    nextContinued = false;
+  }
+  if (segments.length > 0) flush();
+  return pages;
+}
+
+// Header packets of the first logical stream: Vorbis has identification, comment and setup; Opus has head and tags
+function readOggHeaders(file: Buffer) {
+  const first = readOggPage(file, 0);
+  const serial = first.serial;
+
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let pos = 0;
+  let headerCount = 0;
+  let codec: 'vorbis' | 'opus' | null = null;
+  let pageCount = 0;
+  while (headerCount === 0 || packets.length < headerCount) {
+    if (pos >= file.length) throw new Error('Truncated Ogg headers');
+    const page = readOggPage(file, pos);
+    if (page.serial !== serial) throw new Error('Multiplexed Ogg streams are not supported');
+    let off = 0;
+    page.segments.forEach((len, i) => {
+      current.push(page.body.subarray(off, off + len));
+      off += len;
+      if (len < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+        if (packets.length === 1) {
+          if (packets[0]!.toString('latin1', 0, 7) === '\x01vorbis') { codec = 'vorbis'; headerCount = 3; }
+          else if (packets[0]!.toString('latin1', 0, 8) === 'OpusHead') { codec = 'opus'; headerCount = 2; }
+          else throw new Error('Unsupported Ogg codec');
+        }
+        if (headerCount && packets.length === headerCount && i !== page.segments.length - 1) {
+          throw new Error('Unsupported Ogg page layout');
+        }
+      }
+    });
+    pos = page.end;
+    pageCount++;
+  }
+  if (pageCount < 2 || packets.length !== headerCount) throw new Error('Unsupported Ogg page layout');
+
+  const prefixLen = codec === 'vorbis' ? 7 : 8;
+  const commentPacket = packets[1]!;
+  const prefix = commentPacket.toString('latin1', 0, prefixLen);
+  if (prefix !== (codec === 'vorbis' ? '\x03vorbis' : 'OpusTags')) throw new Error('Missing Ogg comment header');
+  return { first, serial, packets, pos, pageCount, prefixLen, commentPacket, parsed: parseVorbisComment(commentPacket.subarray(prefixLen)) };
+}
+
+function editOgg(file: Buffer, removeKeys: Set<string>, added: string[]) {
+  const { first, serial, packets, pos, pageCount, prefixLen, commentPacket, parsed } = readOggHeaders(file);
+  // Vorbis ends with a framing bit; Opus may carry binary data after the comments
+  const tail = commentPacket.subarray(prefixLen + parsed.end);
+  const edited = editVorbisComments(parsed.comment, removeKeys, added);
+  const newComment = Buffer.concat([commentPacket.subarray(0, prefixLen), buildVorbisComment(edited.comment), tail]);
+
+  const firstPageEnd = first.end;
+  const headerPages = paginate([newComment, ...packets.slice(2)], serial, 1);
+  const delta = 1 + headerPages.length - pageCount;
+
+  // Audio pages keep their content; only sequence numbers (and so CRCs) move
+  const rest: Buffer[] = [];
+  let p = pos;
+  while (p < file.length) {
+    const page = readOggPage(file, p);
+    const raw = file.subarray(p, page.end);
+    if (delta !== 0 && page.serial === serial) rest.push(buildOggPage({ ...page, seq: page.seq + delta }));
+    else rest.push(raw);
+    p = page.end;
+  }
+
+  return { out: Buffer.concat([file.subarray(0, firstPageEnd), ...headerPages, ...rest]), removed: edited.removed };
+}
+
+function writeVorbis(file: Buffer, values: TagValues) {
+  const { removeKeys, added } = vorbisChanges(values);
+  const { out, removed } = isFlac(file) ? editFlac(file, removeKeys, added) : editOgg(file, removeKeys, added);
+  return { out, backup: { format: 'vorbis' as const, keys: [...removeKeys], items: removed } };
+}
+
+function restoreVorbis(file: Buffer, backup: TagBackup) {
+  const removeKeys = new Set(backup.keys);
+  return (isFlac(file) ? editFlac(file, removeKeys, backup.items) : editOgg(file, removeKeys, backup.items)).out;
+}
+
+function isFlac(file: Buffer) {
+  return file.toString('latin1', 0, 4) !== 'OggS';
+}
+
+// ---------------------------------------------------------------------------
+// MP4 / M4A (iTunes-style ilst atoms)
+// ---------------------------------------------------------------------------
+
+const ITUNES = 'com.apple.iTunes';
+
+const MP4_FIELDS: Record<TagField, { atom: string; kind?: 'text' | 'pair' | 'int'; alsoRemove?: string[] }> = {
+  title: { atom: '©nam' },
+  album: { atom: '©alb' },
+  artists: { atom: '©ART', alsoRemove: [`----:${ITUNES}:ARTISTS`] },
+  albumArtist: { atom: 'aART' },
+  genre: { atom: '©gen', alsoRemove: ['gnre'] },
+  year: { atom: '©day' },
+  trackNumber: { atom: 'trkn', kind: 'pair' },
+  discNumber: { atom: 'disk', kind: 'pair' },
+  country: { atom: `----:${ITUNES}:COUNTRY` },
+  language: { atom: `----:${ITUNES}:LANGUAGE` },
+  composer: { atom: '©wrt' },
+  bpm: { atom: 'tmpo', kind: 'int' },
+  initialKey: { atom: `----:${ITUNES}:initialkey` },
+  isrc: { atom: `----:${ITUNES}:ISRC` },
+  musicbrainzTrackId: { atom: `----:${ITUNES}:MusicBrainz Release Track Id` },
+  musicbrainzReleaseId: { atom: `----:${ITUNES}:MusicBrainz Album Id` },
+  musicbrainzArtistId: { atom: `----:${ITUNES}:MusicBrainz Artist Id` },
+  musicbrainzAlbumArtistId: { atom: `----:${ITUNES}:MusicBrainz Album Artist Id` },
+};
+
+type Mp4Box = { type: string; start: number; dataStart: number; end: number };
+
+function readBoxes(buf: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = buf.readUInt32BE(pos);
+    const type = buf.toString('latin1', pos + 4, pos + 8);
+    let header = 8;
+    if (size === 1) {
+      size = Number(buf.readBigUInt64BE(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header || pos + size > end) throw new Error('Corrupt MP4 box');
+    boxes.push({ type, start: pos, dataStart: pos + header, end: pos + size });
+    pos += size;
+  }
+  return boxes;
+}
+
+function box(type: string, ...payload: Buffer[]) {
+  const body = Buffer.concat(payload);
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(8 + body.length, 0);
+  head.write(type, 4, 'latin1');
+  return Buffer.concat([head, body]);
+}
+
+function mp4ItemKey(buf: Buffer, item: Mp4Box) {
+  if (item.type !== '----') return item.type;
+  let mean = '';
+  let name = '';
+  for (const child of readBoxes(buf, item.dataStart, item.end)) {
+    if (child.type === 'mean') mean = buf.toString('utf8', child.dataStart + 4, child.end);
+    if (child.type === 'name') name = buf.toString('utf8', child.dataStart + 4, child.end);
+  }
+  return `----:${mean}:${name}`;
+}
+
+function normalizeMp4Key(key: string) {
+  return key.startsWith('----:') ? key.toLowerCase() : key;
+}
+
+function dataBox(type: number, payload: Buffer) {
+  return box('data', Buffer.from([0, 0, 0, type, 0, 0, 0, 0]), payload);
+}
+
+function mp4Item(key: string, data: Buffer[]) {
+  if (!key.startsWith('----:')) return box(key, ...data);
+  const [, mean, ...name] = key.split(':');
+  return box('----', box('mean', Buffer.alloc(4), Buffer.from(mean!, 'utf8')), box('name', Buffer.alloc(4), Buffer.from(name.join(':'), 'utf8')), ...data);
+}
+
+type Mp4Layout = { moov: Mp4Box; path: Mp4Box[]; ilst: Mp4Box | null; items: Mp4Box[] };
+
+function mp4Layout(file: Buffer): Mp4Layout {
+  const top = readBoxes(file, 0, file.length);
+  const moov = top.find((b) => b.type === 'moov');
+  if (!moov) throw new Error('Not an MP4 file');
+  const udta = readBoxes(file, moov.dataStart, moov.end).find((b) => b.type === 'udta');
+  // meta is a full box: 4 bytes of version/flags before its children
+  const meta = udta ? readBoxes(file, udta.dataStart, udta.end).find((b) => b.type === 'meta') : undefined;
+  const ilst = meta ? readBoxes(file, meta.dataStart + 4, meta.end).find((b) => b.type === 'ilst') ?? null : null;
+  const path = [udta, meta].filter((b): b is Mp4Box => Boolean(b));
+  return { moov, path, ilst, items: ilst ? readBoxes(file, ilst.dataStart, ilst.end) : [] };
+}
+
+// Chunk offsets in stco/co64 point into mdat; they move when a moov in front of it changes size
+function shiftChunkOffsets(moov: Buffer, delta: number) {
+  const walk = (start: number, end: number) => {
+    for (const b of readBoxes(moov, start, end)) {
+      if (b.type === 'trak' || b.type === 'mdia' || b.type === 'minf' || b.type === 'stbl') {
+        walk(b.dataStart, b.end);
+      } else if (b.type === 'stco') {
+        const count = moov.readUInt32BE(b.dataStart + 4);
+        for (let i = 0; i < count; i++) {
+          const at = b.dataStart + 8 + i * 4;
+          const v = moov.readUInt32BE(at) + delta;
+          if (v > 0xffffffff) throw new Error('MP4 chunk offsets overflow');
+          moov.writeUInt32BE(v, at);
+        }
+      } else if (b.type === 'co64') {
+        const count = moov.readUInt32BE(b.dataStart + 4);
+        for (let i = 0; i < count; i++) {
+          const at = b.dataStart + 8 + i * 8;
+          moov.writeBigUInt64BE(moov.readBigUInt64BE(at) + BigInt(delta), at);
+        }
+      }
+    }
+  };
+  walk(8, moov.length);
+}
+
+function editMp4(file: Buffer, removeKeys: Set<string>, added: Buffer[]) {
+  const layout = mp4Layout(file);
+  const wanted = new Set([...removeKeys].map(normalizeMp4Key));
+  const removed: Buffer[] = [];
+  const kept: Buffer[] = [];
+  for (const item of layout.items) {
+    const raw = file.subarray(item.start, item.end);
+    if (wanted.has(normalizeMp4Key(mp4ItemKey(file, item)))) removed.push(raw);
+    else kept.push(raw);
+  }
+  const ilst = box('ilst', ...kept, ...added);
+
+  // Rebuild meta -> udta -> moov around the new ilst, creating missing levels
+  const [udta, meta] = layout.path;
+  const children = (b: Mp4Box | undefined, skip = 0) => (b ? readBoxes(file, b.dataStart + skip, b.end) : []);
+  const metaChildren = children(meta, 4).filter((b) => b.type !== 'ilst').map((b) => file.subarray(b.start, b.end));
+  if (!meta) {
+    metaChildren.push(box('hdlr', Buffer.alloc(8), Buffer.from('mdirappl', 'latin1'), Buffer.alloc(9)));
+  }
+  const newMeta = box('meta', meta ? file.subarray(meta.dataStart, meta.dataStart + 4) : Buffer.alloc(4), ...metaChildren, ilst);
+  const udtaChildren = children(udta).filter((b) => b.type !== 'meta').map((b) => file.subarray(b.start, b.end));
+  const newUdta = box('udta', ...udtaChildren, newMeta);
+  const moovChildren = children(layout.moov).filter((b) => b.type !== 'udta').map((b) => file.subarray(b.start, b.end));
+  const newMoov = box('moov', ...moovChildren, newUdta);
+
+  const delta = newMoov.length - (layout.moov.end - layout.moov.start);
+  const top = readBoxes(file, 0, file.length);
+  const mdatAfter = top.some((b) => b.type === 'mdat' && b.start > layout.moov.start);
+  if (delta !== 0 && mdatAfter) {
+    if (top.some((b) => b.type === 'moof')) throw new Error('Fragmented MP4 files are not supported');
+    shiftChunkOffsets(newMoov, delta);
+  }
+
+  return { out: Buffer.concat([file.subarray(0, layout.moov.start), newMoov, file.subarray(layout.moov.end)]), removed };
+}
+
+// trkn/disk hold "number of total"; keep the stored total unless the value says otherwise
+function pairTotal(file: Buffer, items: Mp4Box[], atom: string) {
+  const item = items.find((b) => b.type === atom);
+  const data = item ? readBoxes(file, item.dataStart, item.end).find((b) => b.type === 'data') : undefined;
+  return data && data.end - data.dataStart >= 14 ? file.readUInt16BE(data.dataStart + 12) : 0;
+}
+
+function writeMp4(file: Buffer, values: TagValues) {
+  const { items } = mp4Layout(file);
+  const removeKeys = new Set<string>();
+  const added: Buffer[] = [];
+  for (const field of TAG_FIELDS) {
+    if (values[field] === undefined) continue;
+    const target = MP4_FIELDS[field];
+    removeKeys.add(target.atom);
+    for (const k of target.alsoRemove ?? []) removeKeys.add(k);
+    const parts = cleanValues(values[field]);
+    if (parts.length === 0) continue;
+
+    if (target.kind === 'pair') {
+      const [n, total] = parts[0]!.split('/').map((x) => parseInt(x, 10));
+      if (!Number.isFinite(n)) continue;
+      const payload = Buffer.alloc(target.atom === 'trkn' ? 8 : 6);
+      payload.writeUInt16BE(Math.min(n!, 0xffff), 2);
+      payload.writeUInt16BE(Math.min(Number.isFinite(total) ? total! : pairTotal(file, items, target.atom), 0xffff), 4);
+      added.push(mp4Item(target.atom, [dataBox(0, payload)]));
+    } else if (target.kind === 'int') {
+      const n = Math.round(Number(parts[0]));
+      if (!Number.isFinite(n)) continue;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(Math.max(0, Math.min(n, 0xffff)), 0);
+      added.push(mp4Item(target.atom, [dataBox(21, payload)]));
+    } else {
+      added.push(mp4Item(target.atom, parts.map((v) => dataBox(1, Buffer.from(v, 'utf8')))));
+    }
+  }
+  const { out, removed } = editMp4(file, removeKeys, added);
+  return { out, backup: { format: 'mp4' as const, keys: [...removeKeys], items: removed.map((b) => b.toString('base64')) } };
+}
+
+function restoreMp4(file: Buffer, backup: TagBackup) {
+  return editMp4(file, new Set(backup.keys), backup.items.map((x) => Buffer.from(x, 'base64'))).out;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function removeUnsync(buf: Buffer) {
+  const out: number[] = [];
+  for (let i = 0; i < buf.length; i++) {
+    out.push(buf[i]!);
+    if (buf[i] === 0xff && buf[i + 1] === 0x00) i++;
+  }
+  return Buffer.from(out);
+}
+
+// v2.4 separates values with NUL; v2.3 "/" is left alone since it also appears inside names (AC/DC)
+function id3Values(f: Id3Frame, unsync: boolean) {
+  const data = unsync ? removeUnsync(f.data) : f.data;
+  if (!data.length) return [];
+  const enc = data[0]!;
+  let body = data.subarray(1);
+  if (f.id === 'TXXX') {
+    const charSize = enc === 0x01 || enc === 0x02 ? 2 : 1;
+    let pos = 0;
+    while (pos + charSize <= body.length && !body.subarray(pos, pos + charSize).every((b) => b === 0)) pos += charSize;
+    body = body.subarray(pos + charSize);
+  }
+  return decodeText(body, enc).split('\0').map((v) => v.replace(/^\ufeff/, '').trim()).filter(Boolean);
+}
+
+function readId3(parsed: ReturnType<typeof parseId3Frames>, field: TagField) {
+  const unsync = (parsed.headerFlags & 0x80) !== 0;
+  const target = ID3_FIELDS[field];
+  const keys = [target.txxx ? `TXXX:${target.txxx.toLowerCase()}` : target.frame!, ...(target.alsoRemove ?? []).filter((k) => k.startsWith('TXXX:'))];
+  for (const key of keys) {
+    const values = parsed.frames.filter((f) => id3Key(f) === key).flatMap((f) => id3Values(f, unsync));
+    if (values.length) return values;
+  }
+  return [];
+}
+
+function vorbisComments(file: Buffer) {
+  if (!isFlac(file)) return readOggHeaders(file).parsed.comment.comments;
+  const block = readFlacBlocks(file).blocks.find((b) => b.type === 4);
+  return block ? parseVorbisComment(block.data).comment.comments : [];
+}
+
+function readVorbis(comments: string[], field: TagField) {
+  for (const name of VORBIS_FIELDS[field]) {
+    const values = comments
+      .filter((e) => vorbisKey(e) === name)
+      .map((e) => e.slice(e.indexOf('=') + 1).trim())
+      .filter(Boolean);
+    if (values.length) return values;
+  }
+  return [];
+}
+
+function readMp4(file: Buffer, items: Mp4Box[], field: TagField) {
+  const target = MP4_FIELDS[field];
+  const key = normalizeMp4Key(target.atom);
+  const values: string[] = [];
+  for (const item of items) {
+    if (normalizeMp4Key(mp4ItemKey(file, item)) !== key) continue;
+    for (const data of readBoxes(file, item.dataStart, item.end)) {
+      if (data.type !== 'data' || data.end - data.dataStart < 8) continue;
+      const payload = file.subarray(data.dataStart + 8, data.end);
+      if (target.kind === 'pair') {
+        if (payload.length >= 4 && payload.readUInt16BE(2) > 0) values.push(String(payload.readUInt16BE(2)));
+      } else if (target.kind === 'int') {
+        if (payload.length >= 2) values.push(String(payload.readUIntBE(0, Math.min(payload.length, 4))));
+      } else {
+        const v = payload.toString('utf8').trim();
+        if (v) values.push(v);
+      }
+    }
+  }
+  return values;
+}
+
+/** Reads fields straight from the file's native tags, without the scanner's splitting and reclassifying. */
+export async function readTagValues(absPath: string, fields: readonly TagField[]): Promise<Partial<Record<TagField, string[]>>> {
+  const format = tagFormatFor(path.extname(absPath));
+  if (!format) throw new Error(`Tag reading is not supported for ${path.extname(absPath) || 'this'} files`);
+  const file = await readFile(absPath);
+  const out: Partial<Record<TagField, string[]>> = {};
+  if (format === 'id3') {
+    const parsed = parseId3Frames(file);
+    for (const field of fields) out[field] = readId3(parsed, field);
+  } else if (format === 'vorbis') {
+    const comments = vorbisComments(file);
+    for (const field of fields) out[field] = readVorbis(comments, field);
+  } else {
+    const { items } = mp4Layout(file);
+    for (const field of fields) out[field] = readMp4(file, items, field);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+
+// Swaps in the new bytes through a synced temp file in the same folder, so a crash or a full disk
+// leaves either the old file or the new one. Mode and owner (where allowed) carry over; mtime is now.
+async function replaceFile(absPath: string, data: Buffer) {
+  const st = await stat(absPath);
+  const tmp = path.join(path.dirname(absPath), `.${path.basename(absPath)}.${randomBytes(4).toString('hex')}.tmp`);
+  const fh = await open(tmp, 'wx', st.mode & 0o7777);
+  let closed = false;
+  let done = false;
+  try {
+    await fh.writeFile(data);
+    await fh.chmod(st.mode & 0o7777);
+    try {
+      await fh.chown(st.uid, st.gid);
+    } catch {
+      // not permitted for this process; the file keeps our ownership
+    }
+    await fh.sync();
+    await fh.close();
+    closed = true;
+    await rename(tmp, absPath);
+    done = true;
+  } finally {
+    if (!done) {
+      if (!closed) await fh.close().catch(() => {});
+      await rm(tmp, { force: true });
+    }
+  }
+  try {
+    const dir = await open(path.dirname(absPath), 'r');
+    try { await dir.sync(); } finally { await dir.close(); }
+  } catch {
+    // directory fsync is unsupported on some filesystems
+  }
+}
+
+/** Writes `values` into the file's native tags and returns what they replaced. */
+export async function writeTags(absPath: string, values: TagValues): Promise<TagBackup> {
+  const format = tagFormatFor(path.extname(absPath));
+  if (!format) throw new Error(`Tag writing is not supported for ${path.extname(absPath) || 'this'} files`);
+  const file = await readFile(absPath);
+  const { out, backup } = format === 'id3' ? writeId3(file, values) : format === 'vorbis' ? writeVorbis(file, values) : writeMp4(file, values);
+  await replaceFile(absPath, out);
+  return backup;
+}
+
+/** Puts back the tag items a previous writeTags replaced. */
+export async function restoreTags(absPath: string, backup: TagBackup) {
+  const file = await readFile(absPath);
+  const out = backup.format === 'id3' ? restoreId3(file, backup) : backup.format === 'vorbis' ? restoreVorbis(file, backup) : restoreMp4(file, backup);
+  await replaceFile(absPath, out);
+}
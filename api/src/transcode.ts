@@ -0,0 +1,98 @@
+import { spawn } from 'node:child_process';
+import type { Readable } from 'node:stream';
+import logger from './logger.js';
+
+export type TranscodeFormat = 'mp3' | 'opus' | 'aac';
+
+export const TRANSCODE_FORMATS: TranscodeFormat[] = ['mp3', 'opus', 'aac'];
+
+export type TranscodeSettings = {
+  format: TranscodeFormat;
+  bitRateKbps: number;
+};
+
+const FORMAT_INFO: Record<TranscodeFormat, { contentType: string; defaultKbps: number; args: string[] }> = {
+  mp3: { contentType: 'audio/mpeg', defaultKbps: 192, args: ['-c:a', 'libmp3lame', '-f', 'mp3'] },
+  opus: { contentType: 'audio/ogg', defaultKbps: 128, args: ['-c:a', 'libopus', '-f', 'ogg'] },
+  aac: { contentType: 'audio/aac', defaultKbps: 192, args: ['-c:a', 'aac', '-f', 'adts'] },
+};
+
+const LOSSLESS_EXTS = new Set(['.flac', '.wav', '.aiff', '.aif', '.ape', '.wv', '.alac']);
+
+export function isTranscodeFormat(v: unknown): v is TranscodeFormat {
+  return typeof v === 'string' && (TRANSCODE_FORMATS as string[]).includes(v);
+}
+
+export function transcodeContentType(format: TranscodeFormat) {
+  return FORMAT_INFO[format].contentType;
+}
+
+function clampKbps(kbps: number) {
+  return Math.max(32, Math.min(320, Math.round(kbps)));
+}
+
+/**
+ * Decide whether a stream needs transcoding.
+ *
+ * `format=raw` always sends the original. An explicit format always transcodes. Otherwise the
+ * user's default format applies, and a bitrate cap (from the client or the user's defaults)
+ * forces a transcode when the source is lossless or above the cap. Returns null for the original.
+ */
+export function resolveTranscode(opts: {
+  ext: string;
+  sizeBytes: number;
+  durationMs: number;
+  requestedFormat?: string;
+  requestedMaxKbps?: number;
+  timeOffsetSec?: number;
+  userFormat: string;
+  userMaxKbps: number;
+}): TranscodeSettings | null {
+  const requested = (opts.requestedFormat ?? '').toLowerCase();
+  if (requested === 'raw') return null;
+
+  const caps = [opts.requestedMaxKbps ?? 0, opts.userMaxKbps].filter((n) => Number.isFinite(n) && n > 0);
+  const maxKbps = caps.length > 0 ? Math.min(...caps) : 0;
+
+  let format: TranscodeFormat | null = isTranscodeFormat(requested) ? requested : isTranscodeFormat(opts.userFormat) ? opts.userFormat : null;
+
+  if (!format) {
+    const sourceKbps = opts.durationMs > 0 ? (opts.sizeBytes * 8) / opts.durationMs : 0;
+    const overCap = maxKbps > 0 && (LOSSLESS_EXTS.has(opts.ext.toLowerCase()) || sourceKbps > maxKbps * 1.05);
+    // Seeking into the original bytes isn't possible, so an offset also needs the transcoder
+    if (!overCap && !(opts.timeOffsetSec && opts.timeOffsetSec > 0)) return null;
+    format = 'mp3';
+  }
+
+  const offset = opts.timeOffsetSec && opts.timeOffsetSec > 0;
+  if (maxKbps === 0 && !offset && opts.ext.toLowerCase() === `.${format}`) return null;
+
+  return { format, bitRateKbps: clampKbps(maxKbps > 0 ? Math.min(maxKbps, 320) : FORMAT_INFO[format].defaultKbps) };
+}
+
+/**
+ * Pipe a file through ffmpeg. The caller must call `stop()` when the client goes away so the
+ * ffmpeg process doesn't keep running.
+ */
+export function startTranscode(input: string, settings: TranscodeSettings, timeOffsetSec = 0): { stream: Readable; stop: () => void } {
+  const args = ['-hide_banner', '-loglevel', 'error'];
+  if (timeOffsetSec > 0) args.push('-ss', String(timeOffsetSec));
+  args.push('-i', input, '-map', '0:a:0', '-vn', '-b:a', `${settings.bitRateKbps}k`, ...FORMAT_INFO[settings.format].args, 'pipe:1');
+
+  const child = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  let err = '';
+  child.stderr.on('data', (d) => {
+    if (err.length < 4000) err += d.toString('utf8');
+  });
+  child.on('error', (e) => logger.error('transcode', `ffmpeg failed to start: ${e.message}`));
+  child.on('close', (code, signal) => {
+    if (code !== 0 && signal !== 'SIGKILL') logger.warn('transcode', `ffmpeg exited ${code}: ${err.slice(0, 500)}`);
+  });
+
+  return {
+    stream: child.stdout,
+    stop: () => {
+      if (child.exitCode === null) child.kill('SIGKILL');
+    },
+  };
+}
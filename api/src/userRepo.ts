@@ -8,6 +8,7 @@ export type DbUser = {
   role: Role;
   session_version: number;
   avatar_path?: string | null;
+  download_allowed?: boolean;
 };
 
 export async function countUsers() {
@@ -17,7 +18,7 @@ export async function countUsers() {
 
 export async function getUserByEmail(email: string) {
   const r = await db().query<DbUser>(
-    'select id, email, password_hash, role, session_version from users where email=$1',
+    'select id, email, password_hash, role, session_version, download_allowed from users where email=$1',
     [email]
   );
   return r.rows[0] ?? null;
@@ -25,7 +26,7 @@ export async function getUserByEmail(email: string) {
 
 export async function getUserById(id: string) {
   const r = await db().query<DbUser>(
-    'select id, email, password_hash, role, session_version, avatar_path from users where id=$1',
+    'select id, email, password_hash, role, session_version, avatar_path, download_allowed from users where id=$1',
     [id]
   );
   return r.rows[0] ?? null;
@@ -56,10 +57,23 @@ export async function listAudit(limit = 200) {
 }
 
 export async function listUsers() {
-  const r = await db().query<{ id: string; email: string; role: Role }>('select id, email, role from users order by created_at asc');
+  const r = await db().query<{ id: string; email: string; role: Role; download_allowed: boolean }>(
+    'select id, email, role, download_allowed from users order by created_at asc'
+  );
   return r.rows;
 }
 
+export async function setDownloadAllowed(userId: string, allowed: boolean) {
+  await db().query('update users set download_allowed=$2 where id=$1', [userId, allowed]);
+}
+
+// Admins can always download; everyone else needs the per-user permission
+export async function canDownload(userId: string, role: Role) {
+  if (role === 'admin') return true;
+  const r = await db().query<{ download_allowed: boolean }>('select download_allowed from users where id=$1', [userId]);
+  return r.rows[0]?.download_allowed === true;
+}
+
 export async function setRole(userId: string, role: Role) {
   await db().query('update users set role=$2 where id=$1', [userId, role]);
 }
@@ -68,3 +82,41 @@ export async function deleteUser(userId: string) {
   await db().query('delete from users where id=$1', [userId]);
 }
 
+// Plain-text copy used for Subsonic token (t+s) auth
+export async function setSubsonicPassword(userId: string, password: string) {
+  await db().query('UPDATE users SET subsonic_password = $1 WHERE id = $2', [password, userId]);
+}
+
+export async function listUserLibraryIds(userId: string) {
+  const r = await db().query<{ library_id: number }>('select library_id from user_libraries where user_id=$1 order by library_id asc', [userId]);
+  return r.rows.map((x) => Number(x.library_id));
+}
+
+// Default access for new users: all current libraries (admin can later restrict).
+export async function grantAllLibraries(userId: string) {
+  try {
+    const r = await db().query<{ id: number }>('select id from libraries');
+    for (const lib of r.rows) {
+      await db().query('insert into user_libraries(user_id, library_id) values ($1,$2) on conflict do nothing', [userId, lib.id]);
+    }
+  } catch {
+    // ignore
+  }
+}
+
+export async function setUserLibraries(userId: string, libraryIds: number[]) {
+  const client = await db().connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('delete from user_libraries where user_id=$1', [userId]);
+    for (const lid of libraryIds) {
+      await client.query('insert into user_libraries(user_id, library_id) values ($1,$2) on conflict do nothing', [userId, lid]);
+    }
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,70 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { db, redis } from './db.js';
+import { allowedLibrariesForUser, isLibraryAllowed } from './access.js';
+
+// Written by the worker: one unsigned byte per bucket, 255 = full scale
+const WAVEFORM_DIR = process.env.WAVEFORM_DIR ?? '/data/cache/waveforms';
+
+function waveformFile(trackId: number, mtimeMs: number) {
+  return path.join(WAVEFORM_DIR, `${trackId}-${mtimeMs}.bin`);
+}
+
+async function publishWaveformWake() {
+  try {
+    await redis().publish('library:commands', JSON.stringify({ command: 'waveform' }));
+  } catch {
+    // the worker also polls the queue
+  }
+}
+
+export const waveformPlugin: FastifyPluginAsync = fp(async (app) => {
+  // Peaks for the seek bar; a missing or outdated waveform is queued and reported as pending
+  app.get('/api/library/tracks/:id/waveform', async (req, reply) => {
+    if (!req.user) return reply.code(401).send({ ok: false });
+
+    const id = Number((req.params as { id: string }).id);
+    if (!Number.isFinite(id)) return reply.code(400).send({ ok: false });
+
+    const r = await db().query<{ library_id: number; mtime_ms: string }>(
+      'select library_id, mtime_ms from active_tracks where id = $1',
+      [id]
+    );
+    const row = r.rows[0];
+    if (!row) return reply.code(404).send({ ok: false });
+
+    const allowed = await allowedLibrariesForUser(req.user.userId, req.user.role);
+    if (!isLibraryAllowed(Number(row.library_id), allowed)) return reply.code(404).send({ ok: false });
+
+    const mtimeMs = Number(row.mtime_ms);
+    try {
+      const buf = await readFile(waveformFile(id, mtimeMs));
+      const etag = `"${id}-${mtimeMs}"`;
+      if (req.headers['if-none-match'] === etag) return reply.code(304).send();
+      reply.header('Cache-Control', 'private, max-age=86400').header('ETag', etag);
+      return { ok: true, state: 'done', peaks: Array.from(buf) };
+    } catch {
+      // not generated yet, or generated from an older version of the file
+    }
+
+    // Re-queued when the file changed or a finished cache file was removed; a failed job for
+    // the same file version is not retried on every play
+    const job = await db().query<{ state: string }>(
+      `insert into waveform_jobs (track_id, mtime_ms) values ($1, $2)
+       on conflict (track_id) do update
+         set mtime_ms = excluded.mtime_ms, state = 'queued', requested_at = now(), started_at = null, finished_at = null, error = null
+         where waveform_jobs.mtime_ms <> excluded.mtime_ms or waveform_jobs.state = 'done'
+       returning state`,
+      [id, mtimeMs]
+    );
+    if (job.rows[0]) {
+      await publishWaveformWake();
+      return { ok: true, state: 'queued', peaks: null };
+    }
+
+    const existing = await db().query<{ state: string }>('select state from waveform_jobs where track_id = $1', [id]);
+    return { ok: true, state: existing.rows[0]?.state ?? 'queued', peaks: null };
+  });
+});
@@ -0,0 +1,144 @@
+import { Readable } from 'node:stream';
+import { crc32 } from 'node:zlib';
+
+export type ZipSource = { stream: Readable; stop?: () => void };
+
+export type ZipEntry = {
+  name: string;
+  mtime: Date;
+  // Resolves null to skip the entry (file vanished, transcoder unavailable)
+  open: () => Promise<ZipSource | null>;
+};
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// bit 3: sizes and CRC follow the data, bit 11: UTF-8 names
+const FLAGS = 0x0808;
+
+function dosDateTime(d: Date) {
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+type CentralRecord = { name: Buffer; crc: number; size: number; offset: number; time: number; date: number };
+
+function localHeader(name: Buffer, time: number, date: number) {
+  const h = Buffer.alloc(30);
+  h.writeUInt32LE(0x04034b50, 0);
+  h.writeUInt16LE(20, 4);
+  h.writeUInt16LE(FLAGS, 6);
+  h.writeUInt16LE(0, 8); // stored: audio is already compressed
+  h.writeUInt16LE(time, 10);
+  h.writeUInt16LE(date, 12);
+  h.writeUInt16LE(name.length, 26);
+  return h;
+}
+
+function dataDescriptor(crc: number, size: number) {
+  const d = Buffer.alloc(16);
+  d.writeUInt32LE(0x08074b50, 0);
+  d.writeUInt32LE(crc, 4);
+  d.writeUInt32LE(size, 8);
+  d.writeUInt32LE(size, 12);
+  return d;
+}
+
+// Offsets past 4 GiB go into a ZIP64 extra field; single entries are limited to 4 GiB
+function centralHeader(r: CentralRecord) {
+  const zip64 = r.offset >= MAX_32;
+  const extra = zip64 ? Buffer.alloc(12) : Buffer.alloc(0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    extra.writeBigUInt64LE(BigInt(r.offset), 4);
+  }
+  const h = Buffer.alloc(46);
+  h.writeUInt32LE(0x02014b50, 0);
+  h.writeUInt16LE(zip64 ? 45 : 20, 4);
+  h.writeUInt16LE(zip64 ? 45 : 20, 6);
+  h.writeUInt16LE(FLAGS, 8);
+  h.writeUInt16LE(0, 10);
+  h.writeUInt16LE(r.time, 12);
+  h.writeUInt16LE(r.date, 14);
+  h.writeUInt32LE(r.crc, 16);
+  h.writeUInt32LE(r.size, 20);
+  h.writeUInt32LE(r.size, 24);
+  h.writeUInt16LE(r.name.length, 28);
+  h.writeUInt16LE(extra.length, 30);
+  h.writeUInt32LE(zip64 ? MAX_32 : r.offset, 42);
+  return Buffer.concat([h, r.name, extra]);
+}
+
+function endOfCentralDirectory(count: number, cdOffset: number, cdSize: number) {
+  const parts: Buffer[] = [];
+  const zip64 = count >= MAX_16 || cdOffset >= MAX_32 || cdSize >= MAX_32;
+  if (zip64) {
+    const rec = Buffer.alloc(56);
+    rec.writeUInt32LE(0x06064b50, 0);
+    rec.writeBigUInt64LE(44n, 4);
+    rec.writeUInt16LE(45, 12);
+    rec.writeUInt16LE(45, 14);
+    rec.writeBigUInt64LE(BigInt(count), 24);
+    rec.writeBigUInt64LE(BigInt(count), 32);
+    rec.writeBigUInt64LE(BigInt(cdSize), 40);
+    rec.writeBigUInt64LE(BigInt(cdOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(cdOffset + cdSize), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(rec, locator);
+  }
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Math.min(count, MAX_16), 8);
+  eocd.writeUInt16LE(Math.min(count, MAX_16), 10);
+  eocd.writeUInt32LE(Math.min(cdSize, MAX_32), 12);
+  eocd.writeUInt32LE(Math.min(cdOffset, MAX_32), 16);
+  parts.push(eocd);
+  return Buffer.concat(parts);
+}
+
+async function* zipChunks(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>) {
+  const central: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const source = await entry.open();
+    if (!source) continue;
+    try {
+      const name = Buffer.from(entry.name, 'utf8');
+      const { time, date } = dosDateTime(entry.mtime);
+      const header = localHeader(name, time, date);
+      yield header;
+      yield name;
+
+      let crc = 0;
+      let size = 0;
+      for await (const chunk of source.stream) {
+        const buf = chunk as Buffer;
+        crc = crc32(buf, crc);
+        size += buf.length;
+        yield buf;
+      }
+      if (size >= MAX_32) throw new Error(`${entry.name} is too large for a ZIP entry`);
+      yield dataDescriptor(crc, size);
+
+      central.push({ name, crc, size, offset, time, date });
+      offset += header.length + name.length + size + 16;
+    } finally {
+      source.stop?.();
+    }
+  }
+
+  const cd = Buffer.concat(central.map(centralHeader));
+  yield cd;
+  yield endOfCentralDirectory(central.length, offset, cd.length);
+}
+
+// Streams a ZIP archive without buffering it; entries are opened one at a time as the client reads
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): Readable {
+  return Readable.from(zipChunks(entries), { objectMode: false });
+}
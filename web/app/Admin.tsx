@@ -7,7 +7,11 @@ import {
   adminDeleteLibrary,
   adminForceLogout,
   adminResetPassword,
+  adminSetUserDownload,
   adminSetUserRole,
+  adminKillStream,
+  adminListStreams,
+  adminStreamBandwidth,
   apiFetch,
   getLibraryActivity,
   getLibraryStats,
@@ -16,13 +20,16 @@ import {
   listLibraries,
   setUserLibraries,
   getScanProgress,
+  type ActiveStream,
   type ScanProgress,
+  type StreamBandwidthRow,
 } from './apiClient';
 import { useAuth } from './store';
 import { showConfirm } from './ConfirmModal';
-import { useScanProgress, useLibraryUpdates, useAdminPending } from './useWebSocket';
+import { OrganizeDialog } from './OrganizeDialog';
+import { useScanProgress, useLibraryUpdates, useAdminPending, useActiveStreams } from './useWebSocket';
 
-type Tab = 'library' | 'users' | 'settings' | 'device-logs' | 'notifications';
+type Tab = 'library' | 'users' | 'settings' | 'transcoding' | 'streams' | 'device-logs' | 'notifications';
 
 export function Admin() {
   const token = useAuth((s) => s.token);
@@ -62,6 +69,16 @@ export function Admin() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
           )},
+          { id: 'transcoding' as Tab, label: 'Transcoding', icon: (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+            </svg>
+          )},
+          { id: 'streams' as Tab, label: 'Streams', icon: (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.636 18.364a9 9 0 010-12.728m12.728 0a9 9 0 010 12.728m-9.9-2.829a5 5 0 010-7.07m7.072 0a5 5 0 010 7.07M13 12a1 1 0 11-2 0 1 1 0 012 0z" />
+            </svg>
+          )},
           { id: 'device-logs' as Tab, label: 'Device Logs', icon: (
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
@@ -92,6 +109,8 @@ export function Admin() {
       {activeTab === 'library' && <LibraryTab token={token} clear={clear} />}
       {activeTab === 'users' && <UsersTab token={token} clear={clear} currentUserId={user?.id} />}
       {activeTab === 'settings' && <SettingsTab token={token} />}
+      {activeTab === 'transcoding' && <TranscodingTab token={token} />}
+      {activeTab === 'streams' && <StreamsTab token={token} />}
       {activeTab === 'device-logs' && <DeviceLogsTab token={token} />}
       {activeTab === 'notifications' && <NotificationsTab token={token} />}
     </div>
@@ -111,6 +130,7 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
   const [showForceConfirm, setShowForceConfirm] = useState(false);
   const [showDeleteLibraryConfirm, setShowDeleteLibraryConfirm] = useState(false);
   const [libraryToDelete, setLibraryToDelete] = useState<any | null>(null);
+  const [libraryToOrganize, setLibraryToOrganize] = useState<{ id: number; mount_path: string } | null>(null);
 
   // Live updates from WebSocket
   const wsScanProgress = useScanProgress();
@@ -228,6 +248,8 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
         return <span className="text-blue-400">↻</span>;
       case 'track_removed':
         return <span className="text-red-400">−</span>;
+      case 'track_moved':
+        return <span className="text-cyan-400">→</span>;
       default:
         return <span className="text-slate-400">•</span>;
     }
@@ -238,6 +260,7 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
       case 'track_added': return 'Added';
       case 'track_updated': return 'Updated';
       case 'track_removed': return 'Removed';
+      case 'track_moved': return 'Moved';
       case 'scan_enqueued': return 'Scan started';
       case 'scan_finished': return 'Scan completed';
       default: return action;
@@ -561,6 +584,15 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
                 ) : (
                   <span className="text-xs px-2 py-1 rounded-md bg-slate-700/30 text-slate-300 border border-slate-700/40">read-only</span>
                 )}
+                {lib.writable && lib.mounted !== false && (
+                  <button
+                    onClick={() => setLibraryToOrganize(lib)}
+                    className="text-xs px-2 py-1 rounded-md bg-slate-700/30 text-slate-300 border border-slate-700/40 hover:bg-slate-700/60"
+                    title="Rename and move files to a folder template"
+                  >
+                    organize
+                  </button>
+                )}
                 {lib.mounted === false && (
                   <button
                     onClick={() => {
@@ -581,6 +613,7 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
             <div className="text-slate-400 text-sm py-4">No libraries configured</div>
           )}
         </div>
+        {libraryToOrganize && <OrganizeDialog token={token} library={libraryToOrganize} onClose={() => setLibraryToOrganize(null)} />}
       </div>
 
       {/* Recent Activity */}
@@ -625,7 +658,7 @@ function LibraryTab({ token, clear }: { token: string; clear: () => void }) {
 
 // ============ Users Tab ============
 function UsersTab({ token, clear, currentUserId }: { token: string; clear: () => void; currentUserId?: string }) {
-  const [users, setUsers] = useState<Array<{ id: string; email: string; role: string; avatar_path?: string }>>([]);
+  const [users, setUsers] = useState<Array<{ id: string; email: string; role: string; avatar_path?: string; download_allowed?: boolean }>>([]);
   const [pendingUsers, setPendingUsers] = useState<Array<{ id: string; email: string; created_at: string; avatar_path?: string }>>([]);
   const [libraries, setLibraries] = useState<Array<{ id: number; mount_path: string }>>([]);
   const [selectedUserId, setSelectedUserId] = useState<string>('');
@@ -743,6 +776,23 @@ function UsersTab({ token, clear, currentUserId }: { token: string; clear: () =>
     }
   }
 
+  async function setDownload(allowed: boolean) {
+    if (!selectedUser) return;
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await adminSetUserDownload(token, selectedUser.id, allowed);
+      setNotice(`${allowed ? 'Allowed' : 'Blocked'} downloads: ${selectedUser.email}`);
+      await refresh();
+    } catch (e: any) {
+      if (e?.status === 401) clear();
+      setError(e?.data?.error ?? e?.message ?? 'error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function doResetPassword() {
     if (!selectedUser) return;
     setLoading(true);
@@ -1067,6 +1117,38 @@ function UsersTab({ token, clear, currentUserId }: { token: string; clear: () =>
                 </div>
               </div>
 
+              {/* Download Permission */}
+              {selectedUser.role !== 'admin' && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-slate-400">Downloads</div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setDownload(true)}
+                      disabled={loading || selectedUser.download_allowed !== false}
+                      className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                        selectedUser.download_allowed !== false
+                          ? 'bg-cyan-500/20 text-cyan-400 cursor-not-allowed'
+                          : 'bg-slate-700/50 hover:bg-cyan-500/20 text-slate-300 hover:text-cyan-400'
+                      }`}
+                    >
+                      Allow
+                    </button>
+                    <button
+                      onClick={() => setDownload(false)}
+                      disabled={loading || selectedUser.download_allowed === false}
+                      className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                        selectedUser.download_allowed === false
+                          ? 'bg-red-500/20 text-red-400 cursor-not-allowed'
+                          : 'bg-slate-700/50 hover:bg-red-500/20 text-slate-300 hover:text-red-400'
+                      }`}
+                    >
+                      Block
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500">ZIP downloads in the web app and Subsonic downloads.</p>
+                </div>
+              )}
+
               {/* Reset Password */}
               <div className="space-y-2">
                 <div className="text-sm font-medium text-slate-400">Reset Password</div>
@@ -1327,6 +1409,343 @@ function SettingsTab({ token }: { token: string }) {
   );
 }
 
+// ============ Transcoding Tab ============
+
+interface TranscodeJobRow {
+  id: number;
+  track_id: number;
+  title: string | null;
+  artist: string | null;
+  state?: string;
+  error?: string | null;
+  requested_at?: string;
+  finished_at?: string | null;
+}
+
+interface HlsCacheStats {
+  sizeBytes: number;
+  budgetBytes: number;
+  cachedTracks: number;
+  profiles: string;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  queued: number;
+  running: number;
+  failed: number;
+  queue: TranscodeJobRow[];
+  failures: TranscodeJobRow[];
+}
+
+function formatCacheBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function TranscodingTab({ token }: { token: string }) {
+  const [stats, setStats] = useState<HlsCacheStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [trackId, setTrackId] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const data = await apiFetch('/admin/hls/cache', { method: 'GET' }, token);
+      if (data.ok) setStats(data);
+    } catch { /* */ }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    const t = setInterval(load, 10_000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const purge = async (id: number | null) => {
+    const ok = await showConfirm({
+      title: 'Purge HLS Cache',
+      message: id === null ? 'Delete every cached HLS transcode? Tracks will be transcoded again on their next play.' : `Delete the cached HLS transcode for track #${id}?`,
+      confirmLabel: 'Purge',
+      danger: true,
+    });
+    if (!ok) return;
+    try {
+      const data = await apiFetch(id === null ? '/admin/hls/cache' : `/admin/hls/cache/${id}`, { method: 'DELETE' }, token);
+      setNotice(`Removed ${data.caches} cache${data.caches === 1 ? '' : 's'} (${formatCacheBytes(data.bytes ?? 0)})`);
+      setTrackId('');
+      load();
+    } catch {
+      setNotice('Purge failed');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-3 border-cyan-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+  if (!stats) return <p className="text-sm text-slate-500">Transcode stats are unavailable</p>;
+
+  const usedPct = stats.budgetBytes > 0 ? Math.min(100, (stats.sizeBytes / stats.budgetBytes) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: 'Cache size', value: formatCacheBytes(stats.sizeBytes), sub: stats.budgetBytes > 0 ? `of ${formatCacheBytes(stats.budgetBytes)}` : 'no budget' },
+          { label: 'Cached tracks', value: stats.cachedTracks.toLocaleString(), sub: stats.profiles },
+          { label: 'Hit rate', value: stats.hitRate === null ? '—' : `${Math.round(stats.hitRate * 100)}%`, sub: `${stats.hits} hits · ${stats.misses} misses` },
+          { label: 'Queue', value: `${stats.running} running`, sub: `${stats.queued} queued · ${stats.failed} failed` },
+        ].map((card) => (
+          <div key={card.label} className="p-4 bg-slate-800/30 border border-slate-700/30 rounded-xl">
+            <div className="text-xs text-slate-400">{card.label}</div>
+            <div className="text-xl font-semibold text-white mt-1">{card.value}</div>
+            <div className="text-xs text-slate-500 mt-1 truncate">{card.sub}</div>
+          </div>
+        ))}
+      </div>
+
+      {stats.budgetBytes > 0 && (
+        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+          <div className={`h-full ${usedPct > 90 ? 'bg-amber-500' : 'bg-cyan-500'}`} style={{ width: `${usedPct}%` }} />
+        </div>
+      )}
+
+      <div className="p-6 bg-slate-800/30 border border-slate-700/30 rounded-xl space-y-3">
+        <h3 className="text-lg font-semibold text-white">Purge Cache</h3>
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="number"
+            value={trackId}
+            onChange={(e) => setTrackId(e.target.value)}
+            placeholder="Track ID"
+            className="w-40 px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm focus:border-cyan-500 focus:outline-none"
+          />
+          <button
+            onClick={() => purge(Number(trackId))}
+            disabled={!trackId || !Number.isFinite(Number(trackId))}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Purge Track
+          </button>
+          <button
+            onClick={() => purge(null)}
+            className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg text-sm font-medium transition-colors"
+          >
+            Purge Everything
+          </button>
+        </div>
+        {notice && <p className="text-sm text-slate-400">{notice}</p>}
+      </div>
+
+      <div className="p-6 bg-slate-800/30 border border-slate-700/30 rounded-xl">
+        <h3 className="text-lg font-semibold text-white mb-3">Job Queue</h3>
+        {stats.queue.length === 0 ? (
+          <p className="text-sm text-slate-500">Nothing queued</p>
+        ) : (
+          <div className="space-y-1">
+            {stats.queue.map((j) => (
+              <div key={j.id} className="flex items-center justify-between gap-3 p-2 bg-slate-900/30 rounded-lg text-sm">
+                <span className="text-white truncate">{j.title ?? `Track #${j.track_id}`}{j.artist && <span className="text-slate-400"> · {j.artist}</span>}</span>
+                <span className={`shrink-0 ${j.state === 'running' ? 'text-cyan-400' : 'text-slate-400'}`}>{j.state}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 bg-slate-800/30 border border-slate-700/30 rounded-xl">
+        <h3 className="text-lg font-semibold text-white mb-3">Recent Failures</h3>
+        {stats.failures.length === 0 ? (
+          <p className="text-sm text-slate-500">No failed transcodes</p>
+        ) : (
+          <div className="space-y-1">
+            {stats.failures.map((j) => (
+              <div key={j.id} className="p-2 bg-slate-900/30 rounded-lg text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-white truncate">{j.title ?? `Track #${j.track_id}`}{j.artist && <span className="text-slate-400"> · {j.artist}</span>}</span>
+                  <button
+                    onClick={() => purge(j.track_id)}
+                    className="shrink-0 px-2 py-0.5 text-xs text-slate-400 hover:text-white hover:bg-slate-700/60 rounded transition-colors"
+                    title="Clear so the next play retries"
+                  >
+                    Clear
+                  </button>
+                </div>
+                {j.error && <div className="text-xs text-red-400/80 font-mono truncate mt-1" title={j.error}>{j.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============ Streams Tab ============
+
+const STREAM_CLIENT_LABELS: Record<ActiveStream['client'], string> = { web: 'Web', hls: 'Web (HLS)', cast: 'Cast', subsonic: 'Subsonic' };
+
+function formatStreamAge(startedAt: number, now: number) {
+  const sec = Math.max(0, Math.round((now - startedAt) / 1000));
+  if (sec < 60) return `${sec}s`;
+  if (sec < 3600) return `${Math.floor(sec / 60)}m`;
+  return `${Math.floor(sec / 3600)}h ${Math.floor((sec % 3600) / 60)}m`;
+}
+
+function StreamsTab({ token }: { token: string }) {
+  const [sessions, setSessions] = useState<ActiveStream[] | null>(null);
+  const [bandwidth, setBandwidth] = useState<StreamBandwidthRow[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const live = useActiveStreams((s) => s.sessions);
+  const liveUpdate = useActiveStreams((s) => s.lastUpdate);
+
+  const loadBandwidth = async () => {
+    try {
+      const data = await adminStreamBandwidth(token, 14);
+      if (data.ok) setBandwidth(data.rows);
+    } catch { /* */ }
+  };
+
+  useEffect(() => {
+    adminListStreams(token).then((d) => setSessions(d.sessions)).catch(() => setSessions([]));
+    loadBandwidth();
+    const t = setInterval(loadBandwidth, 60_000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // The server pushes the full list every few seconds while anything is streaming
+  useEffect(() => {
+    if (live) setSessions(live);
+    setNow(Date.now());
+  }, [live, liveUpdate]);
+
+  const kill = async (s: ActiveStream) => {
+    const ok = await showConfirm({
+      title: 'Stop Stream',
+      message: `Stop "${s.title ?? `Track #${s.trackId}`}" for ${s.email ?? s.userId}? The device is refused this track for two minutes.`,
+      confirmLabel: 'Stop',
+      danger: true,
+    });
+    if (!ok) return;
+    try {
+      await adminKillStream(token, s.id);
+      setSessions((prev) => prev?.filter((x) => x.id !== s.id) ?? null);
+      setNotice('Stream stopped');
+    } catch {
+      setNotice('Stream already ended');
+    }
+  };
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, { total: number; users: Map<string, { email: string; bytes: number; streams: number; clients: string[] }> }>();
+    for (const r of bandwidth) {
+      const day = byDay.get(r.day) ?? { total: 0, users: new Map() };
+      const u = day.users.get(r.userId) ?? { email: r.email ?? r.userId, bytes: 0, streams: 0, clients: [] };
+      u.bytes += r.bytes;
+      u.streams += r.streams;
+      u.clients.push(r.client);
+      day.users.set(r.userId, u);
+      day.total += r.bytes;
+      byDay.set(r.day, day);
+    }
+    return [...byDay.entries()];
+  }, [bandwidth]);
+
+  const maxDay = Math.max(1, ...days.map(([, d]) => d.total));
+
+  if (sessions === null) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-3 border-cyan-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-slate-800/30 border border-slate-700/30 rounded-xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-white">Active Streams</h3>
+          <span className="text-sm text-slate-400">{sessions.length} active</span>
+        </div>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-slate-500">Nobody is streaming right now</p>
+        ) : (
+          <div className="space-y-1">
+            {sessions.map((s) => (
+              <div key={s.id} className="flex items-center gap-3 p-2 bg-slate-900/30 rounded-lg text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="text-white truncate">
+                    {s.title ?? `Track #${s.trackId}`}
+                    {s.artist && <span className="text-slate-400"> · {s.artist}</span>}
+                  </div>
+                  <div className="text-xs text-slate-500 truncate" title={s.clientName ?? undefined}>
+                    {s.email ?? s.userId} · {STREAM_CLIENT_LABELS[s.client]}
+                    {s.clientName && ` (${s.clientName})`} · {s.ip}
+                  </div>
+                </div>
+                <div className="shrink-0 text-right text-xs">
+                  <div className="text-cyan-400 font-mono">{s.profile}</div>
+                  <div className="text-slate-400">
+                    {formatCacheBytes(s.bytesSent)} · {formatStreamAge(s.startedAt, now)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => kill(s)}
+                  className="shrink-0 px-2 py-1 text-xs text-red-400 hover:text-white hover:bg-red-600/30 rounded transition-colors"
+                >
+                  Stop
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {notice && <p className="text-sm text-slate-400 mt-3">{notice}</p>}
+      </div>
+
+      <div className="p-6 bg-slate-800/30 border border-slate-700/30 rounded-xl">
+        <h3 className="text-lg font-semibold text-white mb-3">Bandwidth (last 14 days)</h3>
+        {days.length === 0 ? (
+          <p className="text-sm text-slate-500">No streams recorded yet</p>
+        ) : (
+          <div className="space-y-4">
+            {days.map(([day, d]) => (
+              <div key={day} className="space-y-1">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-white">{day}</span>
+                  <span className="text-slate-400">{formatCacheBytes(d.total)}</span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-cyan-500" style={{ width: `${(d.total / maxDay) * 100}%` }} />
+                </div>
+                {[...d.users.entries()].map(([userId, u]) => (
+                  <div key={userId} className="flex items-center justify-between gap-3 pl-3 text-xs">
+                    <span className="text-slate-300 truncate">
+                      {u.email}
+                      <span className="text-slate-500"> · {u.clients.map((c) => STREAM_CLIENT_LABELS[c as ActiveStream['client']] ?? c).join(', ')}</span>
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      {u.streams} stream{u.streams === 1 ? '' : 's'} · {formatCacheBytes(u.bytes)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============ Device Logs Tab ============
 
 interface DeviceLog {
@@ -19,17 +19,23 @@ import { History } from './History';
 import { Recommendations } from './Recommendations';
 import { Podcasts, PodcastPlayer } from './Podcasts';
 import { Audiobooks, AudiobookPlayer } from './Audiobooks';
+import { Radio, RadioPlayer } from './Radio';
+import { Chat } from './Chat';
 import { Settings } from './Settings';
 import { RecentlyAdded } from './RecentlyAdded';
 import { useAuth } from './store';
 import { useFavorites } from './favoritesStore';
+import { useRatings } from './ratingsStore';
 import { usePlayer, type QueueTrack } from './playerStore';
+import { applyEqPreset, createEqChain, useActiveEqPreset, type EqChain } from './equalizer';
+import { WaveformProgress, useWaveform } from './WaveformProgress';
 import { useUi } from './uiStore';
 import { useRouter, useRoute, initRouter, getTabFromRoute, type Route } from './router';
 import { NavigationHeader } from './NavigationHeader';
 import { usePreferences } from './preferencesStore';
-import { getHlsStatus, logout, recordPlay, recordSkip, requestHlsTranscode, scrobbleToListenBrainz, nowPlayingListenBrainz, prefetchLyrics, listPlaylists, addTrackToPlaylist, apiFetch } from './apiClient';
-import { useWebSocket, useAdminPending } from './useWebSocket';
+import { cancelHlsTranscode, getHlsStatus, getTrackGapless, getTrackReplayGain, logout, prefetchHlsTranscodes, recordPlay, recordSkip, requestHlsTranscode, scrobbleToListenBrainz, nowPlayingListenBrainz, prefetchLyrics, listPlaylists, addTrackToPlaylist, apiFetch, type TrackGapless, type TrackReplayGain } from './apiClient';
+import { useWebSocket, useAdminPending, useStreamKills } from './useWebSocket';
+import { usePlayQueueSync } from './usePlayQueueSync';
 
 // Icons as simple SVG components
 const Icons = {
@@ -73,6 +79,16 @@ const Icons = {
       <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" />
     </svg>
   ),
+  Radio: () => (
+    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9.348 14.651a3.75 3.75 0 010-5.303m5.304 0a3.75 3.75 0 010 5.303m-7.425 2.122a6.75 6.75 0 010-9.546m9.546 0a6.75 6.75 0 010 9.546M5.106 18.894c-3.808-3.808-3.808-9.98 0-13.789m13.788 0c3.808 3.808 3.808 9.981 0 13.79M12 12h.008v.007H12V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+    </svg>
+  ),
+  Chat: () => (
+    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375M21 12c0 4.556-4.03 8.25-9 8.25a9.764 9.764 0 01-2.555-.337A5.972 5.972 0 015.41 20.97a5.969 5.969 0 01-.474-.065 4.48 4.48 0 00.978-2.025c.09-.457-.133-.901-.467-1.226C3.93 16.178 3 14.189 3 12c0-4.556 4.03-8.25 9-8.25s9 3.694 9 8.25z" />
+    </svg>
+  ),
   Playlist: () => (
     <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M9 9l10.5-3m0 6.553v3.75a2.25 2.25 0 01-1.632 2.163l-1.32.377a1.803 1.803 0 11-.99-3.467l2.31-.66a2.25 2.25 0 001.632-2.163zm0 0V2.25L9 5.25v10.303m0 0v3.75a2.25 2.25 0 01-1.632 2.163l-1.32.377a1.803 1.803 0 01-.99-3.467l2.31-.66A2.25 2.25 0 009 15.553z" />
@@ -174,6 +190,70 @@ const Icons = {
 
 type PlayMode = 'normal' | 'repeat' | 'repeat-one' | 'shuffle';
 
+// Upcoming queue entries sent to /api/hls/prefetch (the API caps this too)
+const HLS_PREFETCH_COUNT = 3;
+
+// Linear gain for the player; falls back to the other gain when the preferred one is missing
+// and never boosts past the point where the track's peak would clip
+function replayGainFactor(rg: TrackReplayGain | null, mode: 'off' | 'track' | 'album') {
+  if (!rg || mode === 'off') return 1;
+  const gainDb = mode === 'album' ? rg.albumGain ?? rg.trackGain : rg.trackGain ?? rg.albumGain;
+  if (gainDb == null) return 1;
+  const peak = mode === 'album' ? rg.albumPeak ?? rg.trackPeak : rg.trackPeak ?? rg.albumPeak;
+  const factor = Math.pow(10, gainDb / 20);
+  return peak && peak > 0 ? Math.min(factor, 1 / peak) : factor;
+}
+
+// Seconds before the audible end at which the idle element starts buffering the next entry
+const GAPLESS_PRELOAD_SECONDS = 30;
+// timeupdate only fires every ~250ms, so the start is left to a timer armed this close to it.
+// Timer and play() latency still leave a few milliseconds either side: near-gapless, not sample-accurate.
+const HANDOVER_ARM_SECONDS = 1;
+
+type PreloadedTrack = { trackId: number; slot: number; gapless: TrackGapless | null };
+
+// Chromium and Firefox already drop LAME/iTunSMPB priming and padding from MP3 and AAC, so the
+// element's duration decides: only a duration matching the full encoded length still contains them
+function untrimmedGapless(el: HTMLAudioElement, info: TrackGapless | null) {
+  const d = el.duration;
+  if (!Number.isFinite(d) || d <= 0 || !info?.sampleRate || !info.sampleCount) return null;
+  const delay = info.encoderDelay ?? 0;
+  const padding = info.encoderPadding ?? 0;
+  if (delay + padding <= 0) return null;
+  const full = info.sampleCount / info.sampleRate;
+  const trimmed = (info.sampleCount - delay - padding) / info.sampleRate;
+  if (trimmed <= 0 || Math.abs(d - full) >= Math.abs(d - trimmed)) return null;
+  return { start: delay / info.sampleRate, end: (info.sampleCount - padding) / info.sampleRate };
+}
+
+// Audible end of the element; trailing encoder padding is cut when the browser left it in
+function playableEnd(a: HTMLAudioElement, info: TrackGapless | null) {
+  const d = a.duration;
+  if (!Number.isFinite(d) || d <= 0) return null;
+  const untrimmed = untrimmedGapless(a, info);
+  return untrimmed ? Math.min(d, untrimmed.end) : d;
+}
+
+// Priming samples the encoder put before the first real one, when the browser left them in
+function playableStart(el: HTMLAudioElement, info: TrackGapless | null) {
+  return untrimmedGapless(el, info)?.start ?? 0;
+}
+
+function sameAlbum(a: TrackGapless | null, b: TrackGapless | null) {
+  if (!a?.album || !b?.album) return false;
+  return a.album.toLowerCase() === b.album.toLowerCase()
+    && (a.albumArtist ?? '').toLowerCase() === (b.albumArtist ?? '').toLowerCase();
+}
+
+function retireElement(el: HTMLAudioElement, hls?: Hls | null) {
+  if (hls) {
+    try { hls.destroy(); } catch {}
+  }
+  el.pause();
+  el.removeAttribute('src');
+  el.load();
+}
+
 // Parse LRC format lyrics into lines with timestamps
 interface LyricLine {
   time: number; // seconds
@@ -363,6 +443,16 @@ function GlobalAudiobookPlayer() {
   );
 }
 
+// Global Radio Player wrapper that uses the store
+function GlobalRadioPlayer() {
+  const radioStation = useUi((s) => s.radioStation);
+  const closeRadioPlayer = useUi((s) => s.closeRadioPlayer);
+
+  if (!radioStation) return null;
+
+  return <RadioPlayer station={radioStation} onClose={closeRadioPlayer} />;
+}
+
 function PlayerBar(props: {
   nowPlaying: QueueTrack;
   hasPrev: boolean;
@@ -388,7 +478,13 @@ function PlayerBar(props: {
   onRemoveFromQueue?: (index: number) => void;
   onReorderQueue?: (fromIdx: number, toIdx: number) => void;
   onClearQueue?: () => void;
+  // Entry that onEnded will move to; preloaded so it starts without a gap
+  upcoming?: QueueTrack | null;
+  // The next few entries in play order (shuffle-aware), transcoded ahead when HLS is preferred
+  upcomingIds?: number[];
 }) {
+  // Two elements take turns: the idle one preloads the next entry, audioRef points at the playing one
+  const slotRefs = useRef<Array<HTMLAudioElement | null>>([null, null]);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [artOk, setArtOk] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -405,12 +501,157 @@ function PlayerBar(props: {
   const playedSentRef = useRef(false);
   const hlsRef = useRef<Hls | null>(null);
   const [preferHls, setPreferHls] = useState(true);
+  const replayGainMode = usePreferences((s) => s.preferences.replaygain_mode);
+  const [replayGain, setReplayGain] = useState<{ trackId: number; rg: TrackReplayGain } | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const gainNodesRef = useRef<Array<GainNode | null>>([null, null]);
+  const eqChainRef = useRef<EqChain | null>(null);
+  const eqPreset = useActiveEqPreset();
+  const waveformPeaks = useWaveform(props.token, props.nowPlaying.id);
+  const gaplessRef = useRef<TrackGapless | null>(null);
+  const preloadRef = useRef<PreloadedTrack | null>(null);
+  // Track id started by a handover; the load effect must not reload it
+  const handoverRef = useRef<number | null>(null);
+  const handoverTimerRef = useRef<number | null>(null);
+  const fadeRef = useRef<{ timer: number; finish: () => void } | null>(null);
+  const volumeLevelRef = useRef(1);
+  // Timers outlive renders, so they read the latest queue callbacks from here
+  const latestRef = useRef({ onEnded: props.onEnded, upcoming: props.upcoming ?? null });
+
+  useEffect(() => {
+    latestRef.current = { onEnded: props.onEnded, upcoming: props.upcoming ?? null };
+  });
+
+  const cancelHandover = () => {
+    if (handoverTimerRef.current != null) {
+      clearTimeout(handoverTimerRef.current);
+      handoverTimerRef.current = null;
+    }
+  };
+
+  const finishFade = () => fadeRef.current?.finish();
+
+  const releasePreload = () => {
+    const p = preloadRef.current;
+    preloadRef.current = null;
+    const el = p ? slotRefs.current[p.slot] : null;
+    if (el && el !== audioRef.current) retireElement(el);
+  };
+
+  const activate = (el: HTMLAudioElement, gapless: TrackGapless | null) => {
+    audioRef.current = el;
+    gaplessRef.current = gapless;
+    preloadRef.current = null;
+    el.volume = volumeLevelRef.current;
+    // Gapless info describes the original file; an HLS transcode has its own priming
+    const start = el.src.includes('/api/hls/') ? 0 : playableStart(el, gapless);
+    if (start > 0 && el.currentTime < start) el.currentTime = start;
+    setDuration(Number.isFinite(el.duration) ? el.duration : 0);
+    setCurrentTime(el.currentTime);
+  };
+
+  // Crossfades are skipped inside an album so live recordings and mixes join seamlessly
+  const crossfadeFor = (next: TrackGapless | null) => {
+    const seconds = usePreferences.getState().preferences.crossfade_seconds;
+    return seconds > 0 && !sameAlbum(gaplessRef.current, next) ? seconds : 0;
+  };
+
+  const preloadNext = (t: QueueTrack) => {
+    if (preloadRef.current?.trackId === t.id || fadeRef.current) return;
+    releasePreload();
+    const slot = slotRefs.current[0] === audioRef.current ? 1 : 0;
+    const el = slotRefs.current[slot];
+    if (!el) return;
+    const entry: PreloadedTrack = { trackId: t.id, slot, gapless: null };
+    preloadRef.current = entry;
+    // Always the original file: an HLS switch after the start would break the seamless join
+    el.preload = 'auto';
+    el.volume = volumeLevelRef.current;
+    el.src = `/api/stream/${t.id}`;
+    el.load();
+    if (!props.token) return;
+    getTrackGapless(props.token, t.id).then((g) => { entry.gapless = g; }).catch(() => {});
+    const mode = usePreferences.getState().preferences.replaygain_mode;
+    if (mode !== 'off') {
+      getTrackReplayGain(props.token, t.id)
+        .then((rg) => {
+          const gain = gainNodesRef.current[slot];
+          if (gain && preloadRef.current === entry) gain.gain.value = replayGainFactor(rg, mode);
+        })
+        .catch(() => {});
+    }
+  };
+
+  const crossfade = (from: HTMLAudioElement, to: HTMLAudioElement, hls: Hls | null, seconds: number) => {
+    const started = performance.now();
+    const finish = () => {
+      if (fadeRef.current) clearTimeout(fadeRef.current.timer);
+      fadeRef.current = null;
+      retireElement(from, hls);
+      to.volume = volumeLevelRef.current;
+    };
+    const step = () => {
+      const t = Math.min(1, (performance.now() - started) / (seconds * 1000));
+      const v = volumeLevelRef.current;
+      // Equal-power curve keeps the combined loudness steady through the overlap
+      from.volume = v * Math.cos((t * Math.PI) / 2);
+      to.volume = v * Math.sin((t * Math.PI) / 2);
+      if (t >= 1) finish();
+      else fadeRef.current = { timer: window.setTimeout(step, 50), finish };
+    };
+    step();
+  };
+
+  const startHandover = (fade: number) => {
+    handoverTimerRef.current = null;
+    const prev = audioRef.current;
+    const p = preloadRef.current;
+    if (!prev || prev.paused || !p || p.trackId !== latestRef.current.upcoming?.id) return;
+    const next = slotRefs.current[p.slot];
+    if (!next) return;
+    const prevHls = hlsRef.current;
+    hlsRef.current = null;
+    handoverRef.current = p.trackId;
+    activate(next, p.gapless);
+    next.volume = fade > 0 ? 0 : volumeLevelRef.current;
+    next.play().catch(() => {});
+    if (fade > 0) crossfade(prev, next, prevHls, fade);
+    else retireElement(prev, prevHls);
+    latestRef.current.onEnded();
+  };
+
+  // Runs on every timeupdate of the playing element
+  const scheduleNext = (a: HTMLAudioElement) => {
+    const upcoming = props.upcoming;
+    if (!upcoming || a.paused || handoverTimerRef.current != null) return;
+    // Gapless info describes the original file, not an HLS transcode
+    const transcoded = !!hlsRef.current || a.src.includes('/api/hls/');
+    const end = playableEnd(a, transcoded ? null : gaplessRef.current);
+    if (end == null) return;
+    const remaining = end - a.currentTime;
+    if (remaining <= 0 || remaining > GAPLESS_PRELOAD_SECONDS) return;
+    preloadNext(upcoming);
+    const p = preloadRef.current;
+    if (!p || p.trackId !== upcoming.id) return;
+    const fade = Math.min(crossfadeFor(p.gapless), end / 2);
+    const lead = remaining - fade;
+    if (lead > HANDOVER_ARM_SECONDS) return;
+    handoverTimerRef.current = window.setTimeout(() => startHandover(fade), Math.max(0, (lead * 1000) / (a.playbackRate || 1)));
+  };
 
   useEffect(() => {
     setArtOk(true);
     playedSentRef.current = false;
   }, [props.nowPlaying.id]);
 
+  // An admin ended this browser's stream; buffered audio would otherwise keep playing
+  const lastKill = useStreamKills((s) => s.lastKill);
+  useEffect(() => {
+    if (!lastKill || (lastKill.client !== 'web' && lastKill.client !== 'hls')) return;
+    if (lastKill.trackId === props.nowPlaying.id) audioRef.current?.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastKill]);
+
   // Close queue panel on click outside
   useEffect(() => {
     if (!showQueue) return;
@@ -467,9 +708,32 @@ function PlayerBar(props: {
   }, []);
 
   useEffect(() => {
+    // Started by a handover: the element is already playing this track
+    let reuse = handoverRef.current === props.nowPlaying.id;
+    handoverRef.current = null;
+    if (!reuse) {
+      cancelHandover();
+      finishFade();
+      const p = preloadRef.current;
+      const preloaded = p && p.trackId === props.nowPlaying.id ? slotRefs.current[p.slot] : null;
+      if (p && preloaded && audioRef.current && preloaded !== audioRef.current) {
+        // Skipped to the entry that was already buffering: promote it instead of reloading
+        retireElement(audioRef.current);
+        activate(preloaded, p.gapless);
+        reuse = true;
+      } else {
+        releasePreload();
+        gaplessRef.current = null;
+      }
+    }
     const a = audioRef.current;
     if (!a) return;
     let cancelled = false;
+    // Set while our transcode request for this track is still pending
+    let hlsPending = false;
+    // A queue restored from the server starts paused at its saved position
+    const resumeMs = usePlayer.getState().takeResumePosition();
+    const autoplay = resumeMs === 0;
 
     const cleanupHls = () => {
       if (hlsRef.current) {
@@ -481,11 +745,15 @@ function PlayerBar(props: {
     const setStream = async () => {
       cleanupHls();
       a.src = `/api/stream/${props.nowPlaying.id}`;
-      try { await a.play(); } catch {}
+      if (resumeMs > 0) {
+        a.addEventListener('loadedmetadata', () => { try { a.currentTime = resumeMs / 1000; } catch {} }, { once: true });
+      }
+      if (autoplay) { try { await a.play(); } catch {} }
     };
 
     const setHls = async (seekTo?: number) => {
       const id = props.nowPlaying.id;
+      const shouldPlay = autoplay || !a.paused;
       const canNative = a.canPlayType('application/vnd.apple.mpegurl');
       if (canNative) {
         cleanupHls();
@@ -493,7 +761,7 @@ function PlayerBar(props: {
         if (typeof seekTo === 'number' && seekTo > 0) {
           a.addEventListener('loadedmetadata', () => { try { a.currentTime = seekTo; } catch {} }, { once: true });
         }
-        try { await a.play(); } catch {}
+        if (shouldPlay) { try { await a.play(); } catch {} }
         return true;
       }
       if (!Hls.isSupported()) { await setStream(); return false; }
@@ -506,13 +774,20 @@ function PlayerBar(props: {
       if (typeof seekTo === 'number' && seekTo > 0) {
         a.addEventListener('loadedmetadata', () => { try { a.currentTime = seekTo; } catch {} }, { once: true });
       }
-      try { await a.play(); } catch {}
+      if (shouldPlay) { try { await a.play(); } catch {} }
       return true;
     };
 
+    if (props.token) {
+      getTrackGapless(props.token, props.nowPlaying.id)
+        .then((g) => { if (!cancelled && audioRef.current === a) gaplessRef.current = g; })
+        .catch(() => {});
+    }
+
     (async () => {
       if (cancelled) return;
-      await setStream();
+      if (!reuse) await setStream();
+      else if (autoplay && a.paused) { try { await a.play(); } catch {} }
       // Submit "now playing" to ListenBrainz and prefetch lyrics
       if (props.token) {
         nowPlayingListenBrainz(props.token, props.nowPlaying.id).catch(() => {});
@@ -537,25 +812,98 @@ function PlayerBar(props: {
         });
       }
       
-      if (!props.token || !preferHls) return;
+      // Preloaded entries keep the original stream; a mid-track switch would cut into the join
+      if (!props.token || !preferHls || reuse) return;
       try {
-        await requestHlsTranscode(props.token, props.nowPlaying.id);
+        const req = await requestHlsTranscode(props.token, props.nowPlaying.id);
+        hlsPending = !req.ready;
         for (let i = 0; i < 8 && !cancelled; i++) {
           const s = await getHlsStatus(props.token, props.nowPlaying.id);
-          if (s?.ready) { const resume = a.currentTime || 0; await setHls(resume); break; }
+          if (s?.ready) { hlsPending = false; const resume = a.currentTime || 0; await setHls(resume); break; }
           await new Promise((r) => setTimeout(r, 500));
         }
       } catch {}
     })();
 
-    return () => { cancelled = true; cleanupHls(); };
+    const trackId = props.nowPlaying.id;
+    const token = props.token;
+    return () => {
+      cancelled = true;
+      cleanupHls();
+      // Skipped before the transcode finished: free the worker for the next track
+      if (hlsPending && token) cancelHlsTranscode(token, trackId).catch(() => {});
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [props.nowPlaying.id, props.token, preferHls]);
 
+  // Pre-transcode the next few queue entries so they can start on HLS without the mid-track switch
+  const upcomingIds = (props.upcomingIds ?? []).join(',');
+  useEffect(() => {
+    if (!props.token || !preferHls) return;
+    const ids = upcomingIds ? upcomingIds.split(',').map(Number) : [];
+    prefetchHlsTranscodes(props.token, ids).catch(() => {});
+  }, [upcomingIds, props.token, preferHls]);
+
   useEffect(() => {
-    if (audioRef.current) audioRef.current.volume = volume;
+    volumeLevelRef.current = volume;
+    if (audioRef.current && !fadeRef.current) audioRef.current.volume = volume;
   }, [volume]);
 
+  useEffect(() => {
+    setReplayGain(null);
+    if (!props.token || replayGainMode === 'off') return;
+    let cancelled = false;
+    const trackId = props.nowPlaying.id;
+    getTrackReplayGain(props.token, trackId)
+      .then((rg) => { if (!cancelled) setReplayGain({ trackId, rg }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [props.nowPlaying.id, props.token, replayGainMode]);
+
+  // Both elements are routed through their own GainNode into the shared equalizer the first time
+  // normalization or an EQ preset is needed; a media element can only be attached once, so
+  // turning both off later just resets the gains and flattens the filters
+  const ensureAudioGraph = () => {
+    if (gainNodesRef.current[0]) return true;
+    const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctx) return false;
+    try {
+      const ctx = new Ctx();
+      const eq = createEqChain(ctx);
+      slotRefs.current.forEach((el, slot) => {
+        if (!el) return;
+        const gain = ctx.createGain();
+        ctx.createMediaElementSource(el).connect(gain).connect(eq.input);
+        gainNodesRef.current[slot] = gain;
+      });
+      eqChainRef.current = eq;
+      audioCtxRef.current = ctx;
+      if (audioRef.current && !audioRef.current.paused) ctx.resume().catch(() => {});
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    const a = audioRef.current;
+    if (!a) return;
+    if (!gainNodesRef.current[0] && (replayGainMode === 'off' || !ensureAudioGraph())) return;
+    if (replayGainMode === 'off') {
+      for (const gain of gainNodesRef.current) if (gain) gain.gain.value = 1;
+      return;
+    }
+    // Until this track's values arrive the element keeps the gain set while it was preloaded
+    const gain = gainNodesRef.current[slotRefs.current.indexOf(a)];
+    if (gain && replayGain?.trackId === props.nowPlaying.id) gain.gain.value = replayGainFactor(replayGain.rg, replayGainMode);
+  }, [replayGain, replayGainMode, props.nowPlaying.id]);
+
+  // Preset for the current output device; switches live when the device or the preset changes
+  useEffect(() => {
+    if (!eqChainRef.current && (!eqPreset || !ensureAudioGraph())) return;
+    if (eqChainRef.current) applyEqPreset(eqChainRef.current, eqPreset);
+  }, [eqPreset]);
+
   // Media Session action handlers for OS media controls
   useEffect(() => {
     if (!('mediaSession' in navigator)) return;
@@ -600,6 +948,12 @@ function PlayerBar(props: {
     else a.pause();
   };
 
+  const seekToFraction = (fraction: number) => {
+    const a = audioRef.current;
+    if (!a || !duration) return;
+    a.currentTime = fraction * duration;
+  };
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     const a = audioRef.current;
     if (!a) return;
@@ -706,21 +1060,13 @@ function PlayerBar(props: {
 
             {/* Progress bar */}
             <div className="px-8 mb-4">
-              <div 
-                className="h-1.5 bg-white/20 rounded-full cursor-pointer"
-                onClick={(e) => {
-                  const a = audioRef.current;
-                  if (!a || !duration) return;
-                  const rect = e.currentTarget.getBoundingClientRect();
-                  const pct = (e.clientX - rect.left) / rect.width;
-                  a.currentTime = pct * duration;
-                }}
-              >
-                <div 
-                  className="h-full bg-cyan-500 rounded-full transition-all duration-150"
-                  style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }}
-                />
-              </div>
+              <WaveformProgress
+                peaks={waveformPeaks}
+                progress={duration ? currentTime / duration : 0}
+                onSeek={seekToFraction}
+                className={waveformPeaks ? 'h-12' : 'h-1.5 bg-white/20 rounded-full'}
+                barClassName="rounded-full"
+              />
               <div className="flex justify-between text-xs text-white/50 mt-1">
                 <span>{formatTime(currentTime)}</span>
                 <span>{formatTime(duration)}</span>
@@ -826,20 +1172,16 @@ function PlayerBar(props: {
 
       {/* Mini Player Bar */}
       <div className="fixed bottom-0 left-0 right-0 lg:left-64 z-50 glass border-t border-white/10 animate-slide-up h-[72px]">
-        {/* Progress bar - full width on top */}
-        <div className="absolute top-0 left-0 right-0 h-1 bg-white/10 cursor-pointer"
-          onClick={(e) => {
-            const a = audioRef.current;
-            if (!a || !duration) return;
-            const rect = e.currentTarget.getBoundingClientRect();
-            const pct = (e.clientX - rect.left) / rect.width;
-            a.currentTime = pct * duration;
-          }}>
-          <div 
-            className="h-full bg-cyan-500 transition-all duration-150"
-            style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }}
-          />
-        </div>
+        {/* Progress bar - full width on top; the waveform grows upwards on hover */}
+        <WaveformProgress
+          peaks={waveformPeaks}
+          progress={duration ? currentTime / duration : 0}
+          onSeek={seekToFraction}
+          className={waveformPeaks
+            ? 'absolute left-0 right-0 bottom-[calc(100%-4px)] h-1 hover:h-8 transition-[height] duration-150'
+            : 'absolute top-0 left-0 right-0 h-1 bg-white/10'}
+          barClassName=""
+        />
 
         <div className="max-w-screen-2xl mx-auto px-3 sm:px-4 py-2 sm:py-3">
           <div className="flex items-center gap-3 sm:gap-4">
@@ -1093,44 +1435,69 @@ function PlayerBar(props: {
         </div>
       </div>
 
-      <audio
-        ref={audioRef}
-        onPlay={() => {
-          setIsPlaying(true);
-          if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'playing';
-        }}
-        onPause={() => {
-          setIsPlaying(false);
-          if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'paused';
-        }}
-        onTimeUpdate={(e) => {
-          const a = e.currentTarget;
-          setCurrentTime(a.currentTime);
-          props.onTimeUpdate?.(a.currentTime);
-          updateMediaSessionPosition(a.currentTime, a.duration);
-          if (!playedSentRef.current && a.duration > 0 && a.currentTime / a.duration >= 0.8) {
-            playedSentRef.current = true;
-            props.onPlayed({ currentTime: a.currentTime, duration: a.duration });
-          }
-        }}
-        onLoadedMetadata={(e) => {
-          const dur = e.currentTarget.duration;
-          setDuration(dur);
-          updateMediaSessionPosition(0, dur);
-        }}
-        onEnded={() => {
-          // Handle repeat-one by replaying the same track
-          if (props.playMode === 'repeat-one') {
-            const a = audioRef.current;
-            if (a) {
-              a.currentTime = 0;
-              a.play().catch(() => {});
+      {[0, 1].map((slot) => (
+        <audio
+          key={slot}
+          ref={(el) => {
+            slotRefs.current[slot] = el;
+            if (slot === 0 && el && !audioRef.current) audioRef.current = el;
+          }}
+          onPlay={(e) => {
+            if (e.currentTarget !== audioRef.current) return;
+            setIsPlaying(true);
+            // Browsers start an AudioContext suspended until a user gesture
+            if (audioCtxRef.current?.state === 'suspended') audioCtxRef.current.resume().catch(() => {});
+            if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'playing';
+          }}
+          onPause={(e) => {
+            if (e.currentTarget !== audioRef.current) return;
+            cancelHandover();
+            finishFade();
+            setIsPlaying(false);
+            if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'paused';
+          }}
+          onSeeking={(e) => {
+            // Re-armed from the next timeupdate at the new position
+            if (e.currentTarget === audioRef.current) cancelHandover();
+          }}
+          onError={(e) => {
+            // A preload that failed is dropped so the track loads the normal way when its turn comes
+            const p = preloadRef.current;
+            if (p && slotRefs.current[p.slot] === e.currentTarget && e.currentTarget !== audioRef.current) preloadRef.current = null;
+          }}
+          onTimeUpdate={(e) => {
+            const a = e.currentTarget;
+            if (a !== audioRef.current) return;
+            setCurrentTime(a.currentTime);
+            props.onTimeUpdate?.(a.currentTime);
+            updateMediaSessionPosition(a.currentTime, a.duration);
+            if (!playedSentRef.current && a.duration > 0 && a.currentTime / a.duration >= 0.8) {
+              playedSentRef.current = true;
+              props.onPlayed({ currentTime: a.currentTime, duration: a.duration });
             }
-          } else {
-            props.onEnded();
-          }
-        }}
-      />
+            if (props.playMode !== 'repeat-one') scheduleNext(a);
+          }}
+          onLoadedMetadata={(e) => {
+            if (e.currentTarget !== audioRef.current) return;
+            const dur = e.currentTarget.duration;
+            setDuration(dur);
+            updateMediaSessionPosition(0, dur);
+          }}
+          onEnded={(e) => {
+            if (e.currentTarget !== audioRef.current) return;
+            // Handle repeat-one by replaying the same track
+            if (props.playMode === 'repeat-one') {
+              const a = audioRef.current;
+              if (a) {
+                a.currentTime = 0;
+                a.play().catch(() => {});
+              }
+            } else {
+              props.onEnded();
+            }
+          }}
+        />
+      ))}
     </>
   );
 }
@@ -1182,6 +1549,7 @@ function MobileSidebar(props: {
   hasMusicPlayer: boolean;
   hasPodcastPlayer: boolean;
   hasAudiobookPlayer: boolean;
+  hasRadioPlayer: boolean;
 }) {
   const sidebarRef = useRef<HTMLDivElement>(null);
   const touchStartedInsideRef = useRef(false);
@@ -1254,7 +1622,7 @@ function MobileSidebar(props: {
   // Music player bar: ~72px on mobile, ~80px on desktop
   // Use 72px as it needs to just clear the player bar
   const getBottomClass = () => {
-    const playerCount = [props.hasMusicPlayer, props.hasPodcastPlayer, props.hasAudiobookPlayer].filter(Boolean).length;
+    const playerCount = [props.hasMusicPlayer, props.hasPodcastPlayer, props.hasAudiobookPlayer, props.hasRadioPlayer].filter(Boolean).length;
     if (playerCount >= 2) {
       return 'bottom-36';
     } else if (playerCount === 1) {
@@ -1300,6 +1668,8 @@ function MobileSidebar(props: {
             <NavItem icon={<Icons.Clock />} label="History" active={props.tab === 'history'} onClick={() => handleNavClick('history')} />
             <NavItem icon={<Icons.Podcast />} label="Podcasts" active={props.tab === 'podcasts'} onClick={() => handleNavClick('podcasts')} />
             <NavItem icon={<Icons.Audiobook />} label="Audiobooks" active={props.tab === 'audiobooks'} onClick={() => handleNavClick('audiobooks')} />
+            <NavItem icon={<Icons.Radio />} label="Radio" active={props.tab === 'radio'} onClick={() => handleNavClick('radio')} />
+            <NavItem icon={<Icons.Chat />} label="Chat" active={props.tab === 'chat'} onClick={() => handleNavClick('chat')} />
             <NavItem icon={<Icons.Settings />} label="Settings" active={props.tab === 'settings'} onClick={() => handleNavClick('settings')} />
           </nav>
 
@@ -1362,6 +1732,8 @@ function Sidebar(props: { tab: string; setTab: (t: string) => void; isAdmin: boo
         <NavItem icon={<Icons.Clock />} label="History" active={props.tab === 'history'} onClick={() => props.setTab('history')} />
         <NavItem icon={<Icons.Podcast />} label="Podcasts" active={props.tab === 'podcasts'} onClick={() => props.setTab('podcasts')} />
         <NavItem icon={<Icons.Audiobook />} label="Audiobooks" active={props.tab === 'audiobooks'} onClick={() => props.setTab('audiobooks')} />
+        <NavItem icon={<Icons.Radio />} label="Radio" active={props.tab === 'radio'} onClick={() => props.setTab('radio')} />
+        <NavItem icon={<Icons.Chat />} label="Chat" active={props.tab === 'chat'} onClick={() => props.setTab('chat')} />
       </nav>
 
       <div className="mt-auto">
@@ -1419,6 +1791,9 @@ export function AppShellNew() {
   // Audiobook player state
   const audiobookChapter = useUi((s) => s.audiobookChapter);
 
+  // Radio player state
+  const radioStation = useUi((s) => s.radioStation);
+
   // User preferences
   const preferences = usePreferences((s) => s.preferences);
   const loadPreferences = usePreferences((s) => s.load);
@@ -1467,6 +1842,8 @@ export function AppShellNew() {
       case 'history': navigate({ type: 'history' }); break;
       case 'podcasts': navigate({ type: 'podcasts' }); break;
       case 'audiobooks': navigate({ type: 'audiobooks' }); break;
+      case 'radio': navigate({ type: 'radio' }); break;
+      case 'chat': navigate({ type: 'chat' }); break;
       case 'settings': navigate({ type: 'settings' }); break;
       case 'admin': navigate({ type: 'admin' }); break;
       default: navigate({ type: 'for-you' });
@@ -1513,6 +1890,7 @@ export function AppShellNew() {
   const favLastChange = useFavorites((s) => s.lastChange); // Force re-render on favorite changes
   const toggleFav = useFavorites((s) => s.toggle);
   const refreshFavs = useFavorites((s) => s.refresh);
+  const refreshRatings = useRatings((s) => s.refresh);
   // Ensure number comparison for favorites (API may return string IDs)
   const isFavorite = nowPlaying ? favIds.has(Number(nowPlaying.id)) : false;
   
@@ -1526,12 +1904,16 @@ export function AppShellNew() {
   const [showLyrics, setShowLyrics] = useState(false);
   const [playerCurrentTime, setPlayerCurrentTime] = useState(0);
 
-  // Load favorites on auth
+  // Share the queue with other sessions and Subsonic clients
+  usePlayQueueSync(token, playerCurrentTime);
+
+  // Load favorites and ratings on auth
   useEffect(() => {
     if (token) {
       refreshFavs(token).catch(() => {});
+      refreshRatings(token).catch(() => {});
     }
-  }, [token, refreshFavs]);
+  }, [token, refreshFavs, refreshRatings]);
 
   // Generate shuffled indices when shuffle is activated
   useEffect(() => {
@@ -1668,6 +2050,29 @@ export function AppShellNew() {
     }
   };
 
+  // The entry handlePlayModeEnded will move to, so the player can preload it
+  const upcoming: QueueTrack | null = (() => {
+    if (playMode === 'repeat-one') return null;
+    if (playMode === 'shuffle') {
+      const i = shuffledIndices[shuffleIndex + 1];
+      return i == null ? null : queue[i] ?? null;
+    }
+    if (index + 1 < queue.length) return queue[index + 1];
+    return playMode === 'repeat' ? queue[0] ?? null : null;
+  })();
+  const upcomingIds: number[] = (() => {
+    if (playMode === 'repeat-one') return [];
+    if (playMode === 'shuffle') {
+      return shuffledIndices
+        .slice(shuffleIndex + 1, shuffleIndex + 1 + HLS_PREFETCH_COUNT)
+        .map((i) => queue[i]?.id)
+        .filter((id): id is number => id != null);
+    }
+    const next = queue.slice(index + 1, index + 1 + HLS_PREFETCH_COUNT);
+    if (playMode === 'repeat') next.push(...queue.slice(0, Math.max(0, Math.min(index, HLS_PREFETCH_COUNT - next.length))));
+    return next.map((t) => t.id);
+  })();
+
   // Show login if not authenticated
   if (!token) {
     return (
@@ -1705,6 +2110,7 @@ export function AppShellNew() {
         hasMusicPlayer={!!(isOpen && nowPlaying)}
         hasPodcastPlayer={!!podcastEpisode}
         hasAudiobookPlayer={!!audiobookChapter}
+        hasRadioPlayer={!!radioStation}
       />
 
       {/* Sticky Mobile Header */}
@@ -1729,6 +2135,8 @@ export function AppShellNew() {
             {tab === 'history' && 'Recently Played'}
             {tab === 'podcasts' && 'Podcasts'}
             {tab === 'audiobooks' && 'Audiobooks'}
+            {tab === 'radio' && 'Radio'}
+            {tab === 'chat' && 'Chat'}
             {tab === 'settings' && 'Settings'}
             {tab === 'admin' && 'Admin'}
           </h2>
@@ -1777,6 +2185,8 @@ export function AppShellNew() {
                 {tab === 'history' && 'Recently Played'}
                 {tab === 'podcasts' && 'Podcasts'}
                 {tab === 'audiobooks' && 'Audiobooks'}
+                {tab === 'radio' && 'Radio'}
+                {tab === 'chat' && 'Chat'}
                 {tab === 'settings' && 'Settings'}
                 {tab === 'admin' && 'Admin'}
               </h2>
@@ -1854,6 +2264,10 @@ export function AppShellNew() {
 
             {tab === 'audiobooks' && <Audiobooks />}
 
+            {tab === 'radio' && <Radio />}
+
+            {tab === 'chat' && <Chat />}
+
             {tab === 'for-you' && <Recommendations />}
 
             {tab === 'settings' && <Settings />}
@@ -1899,6 +2313,8 @@ export function AppShellNew() {
           onClose={close}
           onEnded={handlePlayModeEnded}
           onPlayModeEnded={handlePlayModeEnded}
+          upcoming={upcoming}
+          upcomingIds={upcomingIds}
         />
       )}
 
@@ -1957,6 +2373,9 @@ export function AppShellNew() {
 
       {/* Global Audiobook Player - persists across tab changes */}
       <GlobalAudiobookPlayer />
+
+      {/* Global Radio Player - persists across tab changes */}
+      <GlobalRadioPlayer />
     </div>
   );
 }
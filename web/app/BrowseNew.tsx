@@ -2,11 +2,16 @@
 
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import {
+  adminGetTrackMetadata,
   adminLibraryWritable,
+  adminPretranscodeHls,
+  adminUndoTrackMetadata,
   adminUpdateTrackMetadata,
   browseAlbum,
+  browseAlbumById,
   browseAlbums,
   browseArtistById,
+  browseArtistInfo,
   browseArtistTracks,
   browseArtists,
   browseCountries,
@@ -15,17 +20,24 @@ import {
   browseGenreTracks,
   browseLanguages,
   browseLanguageTracks,
+  type DownloadTarget,
+  type TrackExtendedMetadata,
 } from './apiClient';
 import { useFavorites } from './favoritesStore';
+import { StarRating } from './StarRating';
+import { ShareDialog } from './ShareDialog';
+import { DownloadDialog, useCanDownload } from './DownloadDialog';
 import { useAuth } from './store';
 import { useLibraryUpdates } from './useWebSocket';
 import { useRouter, useRoute } from './router';
 import { AddMenu, type AddMenuTrack } from './AddMenu';
+import { BulkTagEditor } from './BulkTagEditor';
+import { useToastStore } from './Toast';
 
 type Tab = 'artists' | 'albums' | 'genres' | 'countries' | 'languages';
 
 type Artist = { id: number; name: string; track_count: number; album_count: number; art_path?: string | null; art_hash?: string | null };
-type Album = { display_artist: string; album: string; track_count: number; art_path: string | null; art_hash: string | null };
+type Album = { id: number; display_artist: string; album: string; track_count: number; art_path: string | null; art_hash: string | null };
 type Genre = { genre: string; track_count: number; artist_count: number };
 type Country = { country: string; track_count: number; artist_count: number };
 type Language = { language: string; track_count: number; artist_count: number };
@@ -49,6 +61,33 @@ type Track = {
 };
 
 // Genre color palette
+// Formats the metadata editor can write tags for
+const TAG_EDITABLE_EXTS = ['.mp3', '.flac', '.ogg', '.oga', '.opus', '.m4a', '.m4b', '.mp4'];
+
+type ExtraField = keyof TrackExtendedMetadata;
+
+const EXTRA_FIELDS: Array<{ key: ExtraField; label: string; placeholder: string }> = [
+  { key: 'composer', label: 'Composers (one per line)', placeholder: 'Composer' },
+  { key: 'bpm', label: 'BPM', placeholder: '120' },
+  { key: 'initialKey', label: 'Key', placeholder: 'Am' },
+  { key: 'isrc', label: 'ISRC', placeholder: 'USABC0000001' },
+  { key: 'musicbrainzTrackId', label: 'MusicBrainz Track Id', placeholder: '' },
+  { key: 'musicbrainzReleaseId', label: 'MusicBrainz Release Id', placeholder: '' },
+  { key: 'musicbrainzArtistId', label: 'MusicBrainz Artist Id', placeholder: '' },
+  { key: 'musicbrainzAlbumArtistId', label: 'MusicBrainz Album Artist Id', placeholder: '' },
+];
+
+const EMPTY_EXTRA: Record<ExtraField, string> = {
+  composer: '',
+  bpm: '',
+  initialKey: '',
+  isrc: '',
+  musicbrainzTrackId: '',
+  musicbrainzReleaseId: '',
+  musicbrainzArtistId: '',
+  musicbrainzAlbumArtistId: '',
+};
+
 const GENRE_COLORS = [
   'from-rose-500 to-pink-600',
   'from-violet-500 to-purple-600',
@@ -242,8 +281,12 @@ export function BrowseNew(props: {
   const token = useAuth((s) => s.token);
   const user = useAuth((s) => s.user);
   const clear = useAuth((s) => s.clear);
+  const showToast = useToastStore((s) => s.show);
   const favIds = useFavorites((s) => s.ids);
   const toggleFav = useFavorites((s) => s.toggle);
+  const [shareTarget, setShareTarget] = useState<{ kind: 'track' | 'album'; title: string; trackIds: number[] } | null>(null);
+  const [downloadTarget, setDownloadTarget] = useState<{ target: DownloadTarget; title: string } | null>(null);
+  const canDownload = useCanDownload();
   const lastUpdate = useLibraryUpdates((s) => s.lastUpdate);
   const lastEvent = useLibraryUpdates((s) => s.lastEvent);
   
@@ -257,11 +300,11 @@ export function BrowseNew(props: {
   
   // Create a stable key for album selection to use in effects
   const selectedAlbumKey = route.type === 'browse-album' 
-    ? `${route.artist}|${route.album}|${route.artistId}` 
+    ? `${route.albumId}|${route.artist}|${route.album}|${route.artistId}` 
     : null;
   
   const selectedAlbum = useMemo(() => 
-    route.type === 'browse-album' ? { artist: route.artist, album: route.album, artistId: route.artistId } : null,
+    route.type === 'browse-album' ? { albumId: route.albumId, artist: route.artist, album: route.album, artistId: route.artistId } : null,
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [selectedAlbumKey]
   );
@@ -315,11 +358,13 @@ export function BrowseNew(props: {
   const [languagesTotal, setLanguagesTotal] = useState(0);
 
   // Detail view data (derived from nav store selection)
-  const [artistAlbums, setArtistAlbums] = useState<Array<{ album: string; display_artist: string; track_count: number; art_path: string | null }>>([]);
-  const [artistAppearsOn, setArtistAppearsOn] = useState<Array<{ album: string; album_artist: string; track_count: number; art_path: string | null }>>([]);
+  const [artistAlbums, setArtistAlbums] = useState<Array<{ id: number; album: string; display_artist: string; track_count: number; art_path: string | null }>>([]);
+  const [artistAppearsOn, setArtistAppearsOn] = useState<Array<{ id: number; album: string; album_artist: string; track_count: number; art_path: string | null }>>([]);
   const [artistArt, setArtistArt] = useState<{ art_path: string | null; art_hash: string | null } | null>(null);
+  const [artistInfo, setArtistInfo] = useState<{ biography: string; lastfmUrl: string | null; similar: Array<{ id: number; name: string; art_path: string | null }> } | null>(null);
+  const [bioExpanded, setBioExpanded] = useState(false);
 
-  const [albumDetail, setAlbumDetail] = useState<{ name: string; artist: string; art_path: string | null; tracks: Track[]; totalDiscs: number } | null>(null);
+  const [albumDetail, setAlbumDetail] = useState<{ id: number | null; name: string; artist: string; art_path: string | null; tracks: Track[]; totalDiscs: number } | null>(null);
 
   const [anyWritable, setAnyWritable] = useState(false);
   const [canEditMeta, setCanEditMeta] = useState(false);
@@ -337,6 +382,10 @@ export function BrowseNew(props: {
   const [editGenre, setEditGenre] = useState('');
   const [editCountry, setEditCountry] = useState('');
   const [editLanguage, setEditLanguage] = useState('');
+  const [editExtra, setEditExtra] = useState<Record<ExtraField, string>>(EMPTY_EXTRA);
+  const [editExtraInitial, setEditExtraInitial] = useState<Record<ExtraField, string> | null>(null);
+  const [editCanUndo, setEditCanUndo] = useState(false);
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
 
   const [editInitial, setEditInitial] = useState<{
     title: string;
@@ -544,8 +593,16 @@ export function BrowseNew(props: {
   const refreshAlbumDetail = useCallback(async () => {
     if (!token || !selectedAlbum) return;
     try {
-      const r = await browseAlbum(token, selectedAlbum.artist, selectedAlbum.album, selectedAlbum.artistId);
+      const r = selectedAlbum.albumId
+        ? await browseAlbumById(token, selectedAlbum.albumId)
+        : await browseAlbum(token, selectedAlbum.artist, selectedAlbum.album, selectedAlbum.artistId);
+      // Old name-based links are swapped for the album's id route
+      if (!selectedAlbum.albumId && r.album.id) {
+        navigate({ type: 'browse-album', albumId: r.album.id, album: r.album.name }, true);
+        return;
+      }
       setAlbumDetail({
+        id: r.album.id,
         name: r.album.name,
         artist: r.album.artist,
         art_path: r.album.art_path,
@@ -555,7 +612,7 @@ export function BrowseNew(props: {
     } catch (e: any) {
       if (e?.status === 401) clear();
     }
-  }, [token, selectedAlbum, clear]);
+  }, [token, selectedAlbum, navigate, clear]);
 
   // Helper to refresh artist detail
   const refreshArtistDetail = useCallback(async () => {
@@ -649,6 +706,22 @@ export function BrowseNew(props: {
     refreshArtistDetail();
   }, [selectedArtist, refreshArtistDetail]);
 
+  // Load artist bio separately; Last.fm lookups can be slow on a cold cache
+  useEffect(() => {
+    setArtistInfo(null);
+    setBioExpanded(false);
+    if (!token || !selectedArtist) return;
+    let cancelled = false;
+    browseArtistInfo(token, selectedArtist.id)
+      .then((r) => {
+        if (!cancelled) setArtistInfo({ biography: r.biography, lastfmUrl: r.lastfmUrl, similar: r.similar });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [token, selectedArtist]);
+
   // Load album detail
   useEffect(() => {
     if (!selectedAlbum) {
@@ -739,8 +812,8 @@ export function BrowseNew(props: {
   }, [navigate]);
 
   // Wrapper for selecting album
-  const selectAlbum = useCallback((album: { artist: string; album: string; artistId?: number }) => {
-    navigate({ type: 'browse-album', artist: album.artist, album: album.album, artistId: album.artistId });
+  const selectAlbum = useCallback((album: { id: number; album: string }) => {
+    navigate({ type: 'browse-album', albumId: album.id, album: album.album });
   }, [navigate]);
 
   // Wrapper for selecting genre
@@ -810,7 +883,44 @@ export function BrowseNew(props: {
         language: l,
       });
       setEditError(null);
+      setEditExtra(EMPTY_EXTRA);
+      setEditExtraInitial(null);
+      setEditCanUndo(false);
       setEditOpen(true);
+
+      // Extended fields aren't part of the album payload; load them separately
+      adminGetTrackMetadata(token, t.id)
+        .then((r) => {
+          const extra: Record<ExtraField, string> = {
+            composer: (r.composer ?? '').split(';').map((x) => x.trim()).filter(Boolean).join('\n'),
+            bpm: r.bpm ? String(r.bpm) : '',
+            initialKey: r.initialKey ?? '',
+            isrc: r.isrc ?? '',
+            musicbrainzTrackId: r.musicbrainzTrackId ?? '',
+            musicbrainzReleaseId: r.musicbrainzReleaseId ?? '',
+            musicbrainzArtistId: r.musicbrainzArtistId ?? '',
+            musicbrainzAlbumArtistId: r.musicbrainzAlbumArtistId ?? '',
+          };
+          setEditExtra(extra);
+          setEditExtraInitial(extra);
+          setEditCanUndo(r.canUndo);
+        })
+        .catch((e: any) => {
+          if (e?.status === 401) clear();
+        });
+    };
+
+    const refreshAlbumDetail = async () => {
+      if (!albumDetail.id) return;
+      const r = await browseAlbumById(token, albumDetail.id);
+      setAlbumDetail({
+        id: r.album.id,
+        name: r.album.name,
+        artist: r.album.artist,
+        art_path: r.album.art_path,
+        tracks: r.tracks,
+        totalDiscs: r.album.total_discs ?? 1,
+      });
     };
 
     return (
@@ -858,6 +968,54 @@ export function BrowseNew(props: {
                 title={`Add ${albumDetail.name}...`}
                 getTracks={() => albumDetail.tracks.map((t) => ({ id: t.id, title: t.title, artist: t.display_artist || t.artist, album: albumDetail.name }))}
               />
+              <button
+                onClick={() => setShareTarget({ kind: 'album', title: albumDetail.name, trackIds: albumDetail.tracks.map((t) => t.id) })}
+                className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700"
+                title="Share album"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                </svg>
+              </button>
+              {canEditMeta && albumDetail.id && (
+                <button
+                  onClick={() => setBulkEditOpen(true)}
+                  className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700"
+                  title="Edit album tags"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.5 2.5a2.121 2.121 0 013 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                </button>
+              )}
+              {user?.role === 'admin' && albumDetail.id && (
+                <button
+                  onClick={() => {
+                    if (!token || !albumDetail.id) return;
+                    adminPretranscodeHls(token, { albumId: albumDetail.id })
+                      .then((r) => showToast(r.queued ? `Queued ${r.queued} transcodes` : 'Album is already transcoded', 'success'))
+                      .catch(() => showToast('Could not queue transcodes', 'error'));
+                  }}
+                  className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700"
+                  title="Pre-transcode album for streaming"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                </button>
+              )}
+              {canDownload && albumDetail.id && (
+                <button
+                  onClick={() => albumDetail.id && setDownloadTarget({ target: { kind: 'album', albumId: albumDetail.id }, title: albumDetail.name })}
+                  className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700"
+                  title="Download album"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -915,6 +1073,9 @@ export function BrowseNew(props: {
                   </div>
                   <div className="text-xs sm:text-sm text-slate-500 flex-shrink-0">{formatDuration(track.duration_ms)}</div>
                   {/* Actions - always visible on mobile, hover on desktop */}
+                  <div className="hidden md:block flex-shrink-0">
+                    <StarRating trackId={track.id} />
+                  </div>
                   <div className="flex items-center gap-0 sm:gap-1 sm:opacity-0 sm:group-hover:opacity-100">
                     <button
                       onClick={(e) => {
@@ -928,14 +1089,27 @@ export function BrowseNew(props: {
                       </svg>
                     </button>
 
-                    {canEditMeta && (track.path ?? '').toLowerCase().endsWith('.mp3') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShareTarget({ kind: 'track', title: track.title || 'Untitled', trackIds: [track.id] });
+                      }}
+                      className="hidden sm:block p-1.5 sm:p-2 rounded-full hover:bg-slate-700 text-slate-400"
+                      title="Share track"
+                    >
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                      </svg>
+                    </button>
+
+                    {canEditMeta && TAG_EDITABLE_EXTS.some((ext) => (track.path ?? '').toLowerCase().endsWith(ext)) && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
                           openEditTrack(track);
                         }}
                         className="p-1.5 sm:p-2 rounded-full hover:bg-slate-700 text-slate-400"
-                        title="Edit metadata (MP3)"
+                        title="Edit metadata"
                       >
                         <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
@@ -1110,12 +1284,66 @@ export function BrowseNew(props: {
                   </label>
                 </div>
 
+                <details className="rounded-lg border border-slate-700 px-3 py-2">
+                  <summary className="text-sm text-slate-300 cursor-pointer select-none">More fields</summary>
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {EXTRA_FIELDS.map((f) => (
+                      <label key={f.key} className={`text-sm text-slate-300 ${f.key === 'composer' ? 'sm:col-span-2' : ''}`}>
+                        {f.label}
+                        {f.key === 'composer' ? (
+                          <textarea
+                            value={editExtra.composer}
+                            onChange={(e) => setEditExtra((x) => ({ ...x, composer: e.target.value }))}
+                            rows={2}
+                            className="mt-1 w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white"
+                            placeholder={f.placeholder}
+                          />
+                        ) : (
+                          <input
+                            inputMode={f.key === 'bpm' ? 'numeric' : undefined}
+                            value={editExtra[f.key]}
+                            onChange={(e) => setEditExtra((x) => ({ ...x, [f.key]: e.target.value }))}
+                            className="mt-1 w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white font-mono text-xs"
+                            placeholder={f.placeholder}
+                          />
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </details>
+
                 <div className="text-xs text-slate-500 flex items-end">
-                  MP3 only (writes ID3 tags) · forces a rescan
+                  Writes ID3, Vorbis or MP4 tags · original tags are kept for undo · forces a rescan
                 </div>
               </div>
 
               <div className="mt-5 flex gap-3 justify-end">
+                {editCanUndo && (
+                  <button
+                    disabled={editSaving}
+                    onClick={async () => {
+                      if (!token || !editTrack) return;
+                      setEditSaving(true);
+                      setEditError(null);
+                      try {
+                        await adminUndoTrackMetadata(token, editTrack.id);
+                        await new Promise((r) => setTimeout(r, 1500));
+                        await refreshAlbumDetail();
+                        setEditOpen(false);
+                        setEditInitial(null);
+                      } catch (e: any) {
+                        if (e?.status === 401) clear();
+                        setEditError(e?.data?.error || e?.data?.message || e?.message || 'Failed to undo');
+                      } finally {
+                        setEditSaving(false);
+                      }
+                    }}
+                    className="mr-auto px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-60"
+                    title="Restore the tags replaced by the last edit"
+                  >
+                    Undo last edit
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     if (editSaving) return;
@@ -1196,6 +1424,23 @@ export function BrowseNew(props: {
                       if (cur.country !== init.country) payload.country = countries.length ? joinMulti(countries) : null;
                       if (cur.language !== init.language) payload.language = languages.length ? joinMulti(languages) : null;
 
+                      // Extended fields are only sent once loaded, so a slow fetch can't wipe them
+                      if (editExtraInitial) {
+                        for (const f of EXTRA_FIELDS) {
+                          const value = f.key === 'composer' ? canonLines(editExtra.composer) : editExtra[f.key].trim();
+                          const initial = f.key === 'composer' ? canonLines(editExtraInitial.composer) : editExtraInitial[f.key].trim();
+                          if (value === initial) continue;
+                          if (f.key === 'composer') {
+                            const composers = normLines(editExtra.composer);
+                            payload.composer = composers.length ? joinMulti(composers) : null;
+                          } else if (f.key === 'bpm') {
+                            payload.bpm = toNumOrNull(editExtra.bpm);
+                          } else {
+                            payload[f.key] = toNull(editExtra[f.key]);
+                          }
+                        }
+                      }
+
                       if (Object.keys(payload).length === 0) {
                         setEditOpen(false);
                         setEditInitial(null);
@@ -1204,23 +1449,14 @@ export function BrowseNew(props: {
 
                       await adminUpdateTrackMetadata(token, editTrack.id, payload);
 
-                      // If album name changed, navigate to the new album route.
-                      const newAlbum = editAlbum.trim();
-                      if (newAlbum && newAlbum !== albumDetail.name) {
-                        navigate({ type: 'browse-album', artist: '', album: newAlbum, artistId: undefined });
-                      }
-
                       // Best-effort refresh (rescan can take a moment)
                       await new Promise((r) => setTimeout(r, 1500));
-                      if (selectedAlbum) {
-                        const r = await browseAlbum(token, selectedAlbum.artist, selectedAlbum.album, selectedAlbum.artistId);
-                        setAlbumDetail({
-                          name: r.album.name,
-                          artist: r.album.artist,
-                          art_path: r.album.art_path,
-                          tracks: r.tracks,
-                          totalDiscs: r.album.total_discs ?? 1,
-                        });
+                      const newAlbum = editAlbum.trim();
+                      if (newAlbum && newAlbum !== albumDetail.name) {
+                        // The track now belongs to another album; find it by name once the rescan has run
+                        navigate({ type: 'browse-album', albumId: 0, album: newAlbum });
+                      } else {
+                        await refreshAlbumDetail();
                       }
 
                       setEditOpen(false);
@@ -1240,6 +1476,20 @@ export function BrowseNew(props: {
             </div>
           </div>
         )}
+
+        {shareTarget && <ShareDialog target={shareTarget} onClose={() => setShareTarget(null)} />}
+        {downloadTarget && <DownloadDialog target={downloadTarget.target} title={downloadTarget.title} onClose={() => setDownloadTarget(null)} />}
+        {bulkEditOpen && albumDetail.id && (
+          <BulkTagEditor
+            albumId={albumDetail.id}
+            title={albumDetail.name}
+            onClose={() => setBulkEditOpen(false)}
+            onSaved={() => {
+              // Best-effort refresh once the rescan has picked up the new tags
+              setTimeout(() => refreshAlbumDetail().catch(() => {}), 1500);
+            }}
+          />
+        )}
       </div>
     );
   }
@@ -1266,7 +1516,7 @@ export function BrowseNew(props: {
           <div>
             <h1 className="text-3xl font-bold text-white">{selectedArtist.name}</h1>
             <p className="text-slate-400 mt-1">{artistAlbums.length} albums</p>
-            <div className="mt-3">
+            <div className="mt-3 flex items-center gap-2">
               <AddMenu
                 label="artist"
                 title={`Add ${selectedArtist.name}...`}
@@ -1276,18 +1526,65 @@ export function BrowseNew(props: {
                   return r.tracks.map((t) => ({ id: t.id, title: t.title, artist: t.artist, album: t.album })) as AddMenuTrack[];
                 }}
               />
+              {canDownload && (
+                <button
+                  onClick={() => setDownloadTarget({ target: { kind: 'artist', artistId: selectedArtist.id }, title: selectedArtist.name })}
+                  className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700"
+                  title="Download artist"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
         </div>
 
+        {artistInfo?.biography && (
+          <div className="max-w-3xl">
+            <p className={`text-sm text-slate-300 leading-relaxed whitespace-pre-line ${bioExpanded ? '' : 'line-clamp-4'}`}>{artistInfo.biography}</p>
+            <div className="flex items-center gap-4 mt-2 text-xs">
+              <button onClick={() => setBioExpanded((v) => !v)} className="text-cyan-400 hover:text-cyan-300">
+                {bioExpanded ? 'Show less' : 'Read more'}
+              </button>
+              {artistInfo.lastfmUrl && (
+                <a href={artistInfo.lastfmUrl} target="_blank" rel="noopener noreferrer" className="text-slate-500 hover:text-slate-300">
+                  Last.fm
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+
+        {artistInfo && artistInfo.similar.length > 0 && (
+          <div>
+            <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">Similar Artists</h2>
+            <div className="flex flex-wrap gap-2">
+              {artistInfo.similar.map((a) => (
+                <button
+                  key={a.id}
+                  onClick={() => selectArtist({ id: a.id, name: a.name })}
+                  className="flex items-center gap-2 pl-1 pr-3 py-1 rounded-full bg-slate-800/60 hover:bg-slate-700/60 text-sm text-slate-200 transition-colors"
+                >
+                  <span className="w-6 h-6 rounded-full overflow-hidden bg-gradient-to-br from-cyan-500 to-blue-600 flex items-center justify-center text-[10px] font-bold text-white">
+                    {a.art_path ? <img src={`/api/art/${a.art_path}`} alt="" className="w-full h-full object-cover" /> : getInitials(a.name)}
+                  </span>
+                  {a.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {artistAlbums.length > 0 && (
           <div>
             <h2 className="text-xl font-semibold text-white mb-4">Albums</h2>
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
               {artistAlbums.map((a) => (
-                <div key={a.album} className="relative group">
+                <div key={a.id} className="relative group">
                   <button
-                    onClick={() => selectAlbum({ artist: a.display_artist, album: a.album, artistId: selectedArtist?.id })}
+                    onClick={() => selectAlbum(a)}
                     className="w-full text-left"
                   >
                     <div className="aspect-square rounded-lg overflow-hidden bg-slate-800 mb-2 shadow-lg group-hover:shadow-xl transition-shadow">
@@ -1311,7 +1608,7 @@ export function BrowseNew(props: {
                       title={`Add ${a.album}...`}
                       getTracks={async () => {
                         if (!token) return [];
-                        const r = await browseAlbum(token, a.display_artist, a.album, selectedArtist?.id);
+                        const r = await browseAlbumById(token, a.id);
                         return r.tracks.map((t) => ({ id: t.id, title: t.title, artist: t.artist, album: t.album })) as AddMenuTrack[];
                       }}
                     />
@@ -1327,9 +1624,9 @@ export function BrowseNew(props: {
             <h2 className="text-xl font-semibold text-white mb-4">Appears On</h2>
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
               {artistAppearsOn.map((a) => (
-                <div key={`${a.album_artist}-${a.album}`} className="relative group">
+                <div key={a.id} className="relative group">
                   <button
-                    onClick={() => selectAlbum({ artist: a.album_artist, album: a.album })}
+                    onClick={() => selectAlbum(a)}
                     className="w-full text-left"
                   >
                     <div className="aspect-square rounded-lg overflow-hidden bg-slate-800 mb-2 shadow-lg group-hover:shadow-xl transition-shadow">
@@ -1353,7 +1650,7 @@ export function BrowseNew(props: {
                       title={`Add ${a.album}...`}
                       getTracks={async () => {
                         if (!token) return [];
-                        const r = await browseAlbum(token, a.album_artist, a.album);
+                        const r = await browseAlbumById(token, a.id);
                         return r.tracks.map((t) => ({ id: t.id, title: t.title, artist: t.artist, album: t.album })) as AddMenuTrack[];
                       }}
                     />
@@ -1363,6 +1660,8 @@ export function BrowseNew(props: {
             </div>
           </div>
         )}
+
+        {downloadTarget && <DownloadDialog target={downloadTarget.target} title={downloadTarget.title} onClose={() => setDownloadTarget(null)} />}
       </div>
     );
   }
@@ -1721,10 +2020,10 @@ export function BrowseNew(props: {
         {tab === 'albums' && (
           <div ref={gridRef} className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
             {albums.map((a) => (
-              <div key={`${a.display_artist}||${a.album}`} className="relative group">
+              <div key={a.id} className="relative group">
                 <button
-                  data-flip-id={`album:${a.display_artist}||${a.album}`}
-                  onClick={() => selectAlbum({ artist: a.display_artist, album: a.album })}
+                  data-flip-id={`album:${a.id}`}
+                  onClick={() => selectAlbum(a)}
                   className="w-full text-left"
                 >
                   <div className="aspect-square rounded-lg overflow-hidden bg-slate-800 mb-2 shadow-lg group-hover:shadow-xl transition-shadow">
@@ -1748,7 +2047,7 @@ export function BrowseNew(props: {
                     title={`Add ${a.album}...`}
                     getTracks={async () => {
                       if (!token) return [];
-                      const r = await browseAlbum(token, a.display_artist, a.album);
+                      const r = await browseAlbumById(token, a.id);
                       return r.tracks.map((t) => ({ id: t.id, title: t.title, artist: t.artist, album: t.album })) as AddMenuTrack[];
                     }}
                   />
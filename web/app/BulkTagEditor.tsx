@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import { adminBulkUpdateTrackMetadata, type BulkTagChange, type BulkTagField, type TrackMetadataPatch } from './apiClient';
+import { useAuth } from './store';
+import { useToastStore } from './Toast';
+
+const SET_FIELDS: Array<{ key: 'album' | 'albumArtist' | 'genre' | 'year' | 'discNumber'; label: string; multi?: boolean }> = [
+  { key: 'album', label: 'Album' },
+  { key: 'albumArtist', label: 'Album artists', multi: true },
+  { key: 'genre', label: 'Genres', multi: true },
+  { key: 'year', label: 'Year' },
+  { key: 'discNumber', label: 'Disc #' },
+];
+
+const REPLACE_FIELDS: Array<{ value: BulkTagField; label: string }> = [
+  { value: 'title', label: 'Title' },
+  { value: 'album', label: 'Album' },
+  { value: 'artists', label: 'Artists' },
+  { value: 'albumArtist', label: 'Album artists' },
+  { value: 'genre', label: 'Genres' },
+  { value: 'composer', label: 'Composers' },
+];
+
+const FIELD_LABELS: Partial<Record<BulkTagField, string>> = {
+  title: 'Title',
+  album: 'Album',
+  artists: 'Artists',
+  albumArtist: 'Album artists',
+  genre: 'Genres',
+  year: 'Year',
+  trackNumber: 'Track #',
+  discNumber: 'Disc #',
+  composer: 'Composers',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 text-sm focus:outline-none focus:border-cyan-500';
+
+// Edits tags of a whole album (or any track set) in one pass; changes are previewed before they're written
+export function BulkTagEditor(props: { albumId?: number; trackIds?: number[]; title: string; onClose: () => void; onSaved: () => void }) {
+  const token = useAuth((s) => s.token);
+  const showToast = useToastStore((s) => s.show);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [enabled, setEnabled] = useState<Record<string, boolean>>({});
+  const [replaceField, setReplaceField] = useState<BulkTagField>('title');
+  const [find, setFind] = useState('');
+  const [replaceWith, setReplaceWith] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [renumber, setRenumber] = useState(false);
+  const [preview, setPreview] = useState<BulkTagChange[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function buildPayload(dryRun: boolean) {
+    const set: TrackMetadataPatch = {};
+    for (const f of SET_FIELDS) {
+      if (!enabled[f.key]) continue;
+      const raw = (values[f.key] ?? '').trim();
+      if (f.key === 'year' || f.key === 'discNumber') {
+        const n = Number(raw);
+        set[f.key] = raw && Number.isFinite(n) ? n : null;
+      } else {
+        const lines = raw.split(/\r?\n/).map((x) => x.trim()).filter(Boolean);
+        set[f.key] = lines.length ? lines.join('\u0000') : null;
+      }
+    }
+    return {
+      albumId: props.albumId,
+      trackIds: props.albumId ? undefined : props.trackIds,
+      set,
+      replace: find ? [{ field: replaceField, find, replace: replaceWith, regex }] : [],
+      renumber,
+      dryRun,
+    };
+  }
+
+  async function run(dryRun: boolean) {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await adminBulkUpdateTrackMetadata(token, buildPayload(dryRun));
+      if (dryRun) {
+        setPreview(r.changes);
+        return;
+      }
+      const failed = r.failed?.length ?? 0;
+      showToast(failed ? `Updated ${r.updated ?? 0} tracks, ${failed} failed` : `Updated ${r.updated ?? 0} tracks`, failed ? 'error' : 'success');
+      props.onSaved();
+      props.onClose();
+    } catch (e: any) {
+      setError(e?.data?.error || e?.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Any edit invalidates the preview
+  const touch = <T,>(fn: (v: T) => void) => (v: T) => {
+    setPreview(null);
+    fn(v);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={() => !busy && props.onClose()}>
+      <div
+        className="bg-slate-800 border border-slate-700/60 rounded-2xl shadow-2xl shadow-black/40 p-6 max-w-2xl w-[90vw] mx-4 space-y-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-white truncate">Edit tags · {props.title}</h3>
+
+        {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>}
+
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-slate-500">Set on every track</p>
+          {SET_FIELDS.map((f) => (
+            <div key={f.key} className="flex items-start gap-3">
+              <label className="flex items-center gap-2 w-36 pt-2 text-sm text-slate-300 shrink-0">
+                <input type="checkbox" checked={Boolean(enabled[f.key])} onChange={(e) => touch(setEnabled)({ ...enabled, [f.key]: e.target.checked })} />
+                {f.label}
+              </label>
+              {f.multi ? (
+                <textarea
+                  rows={2}
+                  disabled={!enabled[f.key]}
+                  value={values[f.key] ?? ''}
+                  onChange={(e) => touch(setValues)({ ...values, [f.key]: e.target.value })}
+                  className={`${inputClass} disabled:opacity-40`}
+                  placeholder="One per line"
+                />
+              ) : (
+                <input
+                  disabled={!enabled[f.key]}
+                  value={values[f.key] ?? ''}
+                  onChange={(e) => touch(setValues)({ ...values, [f.key]: e.target.value })}
+                  className={`${inputClass} disabled:opacity-40`}
+                  placeholder="Leave empty to clear"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-slate-500">Find and replace</p>
+          <div className="grid grid-cols-1 sm:grid-cols-[8rem_1fr_1fr] gap-2">
+            <select
+              value={replaceField}
+              onChange={(e) => touch(setReplaceField)(e.target.value as BulkTagField)}
+              className="px-3 py-2 text-sm bg-slate-900/60 border border-slate-700/50 rounded-lg text-white"
+            >
+              {REPLACE_FIELDS.map((f) => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+            <input value={find} onChange={(e) => touch(setFind)(e.target.value)} className={`${inputClass} font-mono`} placeholder="Find" />
+            <input value={replaceWith} onChange={(e) => touch(setReplaceWith)(e.target.value)} className={`${inputClass} font-mono`} placeholder="Replace with" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={regex} onChange={(e) => touch(setRegex)(e.target.checked)} />
+            Regular expression ($1 refers to groups)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={renumber} onChange={(e) => touch(setRenumber)(e.target.checked)} />
+            Number tracks by file name (per disc)
+          </label>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wide text-slate-500">
+              {preview.length === 0 ? 'Nothing would change' : `${preview.length} track${preview.length === 1 ? '' : 's'} would change`}
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+              {preview.map((c) => (
+                <div key={c.trackId} className="p-2 rounded-lg bg-slate-900/50 text-xs">
+                  <p className="text-slate-400 truncate font-mono">{c.path}</p>
+                  {Object.entries(c.fields).map(([field, d]) => (
+                    <p key={field} className="text-slate-300">
+                      <span className="text-slate-500">{FIELD_LABELS[field as BulkTagField] ?? field}: </span>
+                      <span className="line-through text-red-400/80">{d.from.join('; ') || '—'}</span>
+                      {' → '}
+                      <span className="text-emerald-400">{d.to.join('; ') || '—'}</span>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={props.onClose}
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => run(true)}
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-lg bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-60"
+          >
+            Preview
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={busy || !preview || preview.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-60"
+          >
+            {busy ? 'Working…' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from './store';
+import { listChatMessages, sendChatMessage, type ChatMessage } from './apiClient';
+import { useChatMessages } from './useWebSocket';
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+function formatTime(ms: number) {
+  const d = new Date(ms);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : d.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function displayName(username: string) {
+  return username.split('@')[0] || username;
+}
+
+// Shared message board; also visible to Subsonic clients with a chat pane
+export function Chat() {
+  const token = useAuth((s) => s.token);
+  const userId = useAuth((s) => s.user?.id);
+  const clear = useAuth((s) => s.clear);
+  const lastMessage = useChatMessages((s) => s.lastMessage);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  function append(incoming: ChatMessage[]) {
+    setMessages((prev) => {
+      const seen = new Set(prev.map((m) => m.id));
+      const next = [...prev, ...incoming.filter((m) => !seen.has(m.id))];
+      return next.sort((a, b) => a.time - b.time || a.id - b.id);
+    });
+  }
+
+  useEffect(() => {
+    if (!token) return;
+    listChatMessages(token)
+      .then((r) => setMessages(r.messages))
+      .catch((e: any) => {
+        if (e?.status === 401) clear();
+        setError(e?.data?.error ?? e?.message ?? 'Failed to load messages');
+      })
+      .finally(() => setLoading(false));
+  }, [token, clear]);
+
+  // Messages pushed over the websocket, including our own
+  useEffect(() => {
+    if (lastMessage) append([lastMessage]);
+  }, [lastMessage]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  async function send() {
+    const message = text.trim();
+    if (!token || !message) return;
+    setSending(true);
+    setError(null);
+    try {
+      const r = await sendChatMessage(token, message);
+      append([r.message]);
+      setText('');
+    } catch (e: any) {
+      if (e?.status === 401) clear();
+      setError(e?.data?.error ?? e?.message ?? 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen pb-32">
+      <div className="bg-gradient-to-b from-cyan-900/40 to-transparent p-6 sm:p-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-white">Chat</h1>
+        <p className="text-sm text-slate-400 mt-1">Messages are shared with everyone on this server, including Subsonic apps.</p>
+      </div>
+
+      <div className="px-4 sm:px-6 max-w-3xl space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-12 text-slate-400">
+            <p>No messages yet</p>
+            <p className="text-sm mt-1">Say hello to the household</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {messages.map((m) => {
+              const mine = m.userId === userId;
+              return (
+                <div key={m.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-xl px-3 py-2 ${mine ? 'bg-cyan-600/30' : 'bg-slate-800/60'}`}>
+                    <div className="text-xs text-slate-400">
+                      {mine ? 'You' : displayName(m.username)} · {formatTime(m.time)}
+                    </div>
+                    <div className="text-white whitespace-pre-wrap break-words">{m.message}</div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div ref={bottomRef} />
+
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder="Write a message"
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) send(); }}
+            className="flex-1 px-4 py-2 bg-slate-900 border border-slate-700 rounded-full text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={send}
+            disabled={sending || !text.trim()}
+            className="px-5 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-full transition-colors"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadZipUrl, type DownloadTarget } from './apiClient';
+import { useAuth } from './store';
+import { useToastStore } from './Toast';
+
+const NAME_PATTERNS = [
+  { value: '', label: 'Original file names' },
+  { value: '{track} - {title}', label: '01 - Title' },
+  { value: '{n} - {artist} - {title}', label: '01 - Artist - Title' },
+  { value: '{albumartist}/{album}/{disc}-{track} {title}', label: 'Artist / Album / 1-01 Title' },
+  { value: 'custom', label: 'Custom…' },
+];
+
+const FORMATS = [
+  { value: '', label: 'Original files' },
+  { value: 'mp3', label: 'MP3' },
+  { value: 'opus', label: 'Opus' },
+];
+
+const BITRATES = [96, 128, 192, 256, 320];
+
+const selectClass = 'px-3 py-1.5 text-sm bg-slate-800 border border-white/10 rounded-lg text-white focus:outline-none focus:border-cyan-500 cursor-pointer';
+
+export function useCanDownload() {
+  return useAuth((s) => s.user?.role === 'admin' || s.user?.download_allowed !== false);
+}
+
+// Picks file naming and an optional transcode, then hands the ZIP URL to the browser
+export function DownloadDialog(props: { target: DownloadTarget; title: string; onClose: () => void }) {
+  const showToast = useToastStore((s) => s.show);
+  const [pattern, setPattern] = useState('');
+  const [customPattern, setCustomPattern] = useState('{albumartist} - {album}/{track} {title}');
+  const [format, setFormat] = useState<'' | 'mp3' | 'opus'>('');
+  const [bitrate, setBitrate] = useState(192);
+
+  function start() {
+    const url = downloadZipUrl(props.target, {
+      pattern: pattern === 'custom' ? customPattern.trim() : pattern,
+      format: format || undefined,
+      bitrate: format ? bitrate : undefined,
+    });
+    const a = document.createElement('a');
+    a.href = url;
+    a.rel = 'noopener';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    showToast('Download started', 'success');
+    props.onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={props.onClose}>
+      <div
+        className="bg-slate-800 border border-slate-700/60 rounded-2xl shadow-2xl shadow-black/40 p-6 max-w-md w-[90vw] mx-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-white truncate">Download {props.title}</h3>
+
+        <div className="space-y-3">
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            File names
+            <select value={pattern} onChange={(e) => setPattern(e.target.value)} className={selectClass}>
+              {NAME_PATTERNS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+          {pattern === 'custom' && (
+            <div className="space-y-1">
+              <input
+                value={customPattern}
+                onChange={(e) => setCustomPattern(e.target.value)}
+                maxLength={300}
+                className="w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 text-sm font-mono focus:outline-none focus:border-cyan-500"
+              />
+              <p className="text-xs text-slate-500">
+                {'{artist} {albumartist} {album} {title} {track} {disc} {year} {n} {filename}'} — use / for folders
+              </p>
+            </div>
+          )}
+
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            Format
+            <select value={format} onChange={(e) => setFormat(e.target.value as '' | 'mp3' | 'opus')} className={selectClass}>
+              {FORMATS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+          {format && (
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              Bitrate
+              <select value={String(bitrate)} onChange={(e) => setBitrate(Number(e.target.value))} className={selectClass}>
+                {BITRATES.map((n) => (
+                  <option key={n} value={String(n)}>{n} kbps</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {format && <p className="text-xs text-slate-500">Converted files are made on the fly, so the download runs at transcoding speed.</p>}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={props.onClose} className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={start}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors"
+          >
+            Download ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { showConfirm } from './ConfirmModal';
+import {
+  DEFAULT_OUTPUT_KEY,
+  EQ_GAIN_RANGE,
+  allEqPresets,
+  flatBands,
+  isBuiltinPreset,
+  requestOutputNames,
+  resolveEqPreset,
+  useAudioOutput,
+  type EqBand,
+  type EqBandType,
+  type EqPreset,
+} from './equalizer';
+import { usePreferences } from './preferencesStore';
+import { useAuth } from './store';
+
+const MAX_PRESETS = 50;
+
+const selectClass = 'px-3 py-1.5 text-sm bg-slate-800 border border-white/10 rounded-lg text-white focus:outline-none focus:border-cyan-500 cursor-pointer';
+const inputClass = 'px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-cyan-500';
+
+function newPresetId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function formatFreq(freq: number) {
+  return freq >= 1000 ? `${Math.round(freq / 100) / 10}k` : String(Math.round(freq));
+}
+
+function outputLabel(key: string) {
+  return key === DEFAULT_OUTPUT_KEY ? 'All other outputs' : key;
+}
+
+// Settings section for the web player equalizer; presets and per-output choices sync through preferences
+export function EqualizerPanel() {
+  const token = useAuth((s) => s.token);
+  const preferences = usePreferences((s) => s.preferences);
+  const update = usePreferences((s) => s.update);
+  const output = useAudioOutput();
+  const outputKey = output.key;
+
+  const [draft, setDraft] = useState<EqPreset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [namesRefused, setNamesRefused] = useState(false);
+
+  if (!token) return null;
+
+  const presets = allEqPresets(preferences);
+  const userPresets = preferences.eq_presets ?? [];
+  const outputs = preferences.eq_outputs ?? {};
+  const active = resolveEqPreset(preferences, outputKey);
+  const outputKeys = [outputKey, ...Object.keys(outputs).filter((k) => k !== outputKey && k !== DEFAULT_OUTPUT_KEY)];
+  if (outputKey !== DEFAULT_OUTPUT_KEY) outputKeys.push(DEFAULT_OUTPUT_KEY);
+
+  function setOutputPreset(key: string, presetId: string) {
+    update(token!, { eq_outputs: { ...outputs, [key]: presetId || null } });
+  }
+
+  function forgetOutput(key: string) {
+    const next = { ...outputs };
+    delete next[key];
+    update(token!, { eq_outputs: next });
+  }
+
+  async function allowOutputNames() {
+    const ok = await requestOutputNames();
+    setNamesRefused(!ok);
+    if (ok) output.refresh();
+  }
+
+  function startNew() {
+    const base = active ?? { preamp: 0, bands: flatBands() };
+    setDraft({ id: newPresetId(), name: 'My preset', preamp: base.preamp, bands: base.bands.map((b) => ({ ...b })) });
+    setError(null);
+  }
+
+  function edit(id: string) {
+    const p = userPresets.find((x) => x.id === id);
+    setDraft(p ? { ...p, bands: p.bands.map((b) => ({ ...b })) } : null);
+    setError(null);
+  }
+
+  function setBand(i: number, patch: Partial<EqBand>) {
+    setDraft((d) => (d ? { ...d, bands: d.bands.map((b, j) => (j === i ? { ...b, ...patch } : b)) } : d));
+  }
+
+  async function save() {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return setError('Give the preset a name');
+    const exists = userPresets.some((p) => p.id === draft.id);
+    if (!exists && userPresets.length >= MAX_PRESETS) return setError(`At most ${MAX_PRESETS} presets can be saved`);
+    const saved = { ...draft, name };
+    await update(token!, { eq_presets: exists ? userPresets.map((p) => (p.id === draft.id ? saved : p)) : [...userPresets, saved] });
+    setDraft(null);
+  }
+
+  async function remove() {
+    if (!draft) return;
+    const ok = await showConfirm({ title: 'Delete Preset', message: `Delete "${draft.name}"? Outputs using it will play without EQ.`, confirmLabel: 'Delete', danger: true });
+    if (!ok) return;
+    const eq_outputs = Object.fromEntries(Object.entries(outputs).map(([k, v]) => [k, v === draft.id ? null : v]));
+    await update(token!, { eq_presets: userPresets.filter((p) => p.id !== draft.id), eq_outputs });
+    setDraft(null);
+  }
+
+  const presetOptions = (
+    <>
+      <option value="">Off</option>
+      {presets.map((p) => (
+        <option key={p.id} value={p.id}>{p.name}{isBuiltinPreset(p.id) ? '' : ' (custom)'}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-white">Equalizer</h2>
+      <p className="text-sm text-slate-400">
+        A 10-band equalizer for the web player. Pick a preset per output, for example one for headphones and one for speakers; it switches when the device changes. Presets are saved to your account and follow you to every browser.
+      </p>
+
+      {!output.named && (
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-200 space-y-2">
+          <p>
+            This browser isn&apos;t sharing output device names, so one preset applies to every output. Browsers only name devices after a microphone permission; granting it is used just to read the names, nothing is recorded. Some browsers (Safari) never list outputs.
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={allowOutputNames}
+              className="px-3 py-1.5 text-sm rounded-lg bg-amber-500/20 text-amber-100 hover:bg-amber-500/30 transition-colors"
+            >
+              Allow device names
+            </button>
+            {namesRefused && <span className="text-xs text-amber-300">Permission was not granted</span>}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {outputKeys.map((key) => (
+          <div key={key} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-white truncate">{outputLabel(key)}</div>
+              {key === outputKey && <div className="text-xs text-cyan-400">Current output</div>}
+            </div>
+            <select
+              value={key in outputs ? outputs[key] ?? '' : key === outputKey ? active?.id ?? '' : ''}
+              onChange={(e) => setOutputPreset(key, e.target.value)}
+              className={selectClass}
+            >
+              {presetOptions}
+            </select>
+            {key !== DEFAULT_OUTPUT_KEY && key in outputs && (
+              <button
+                onClick={() => forgetOutput(key)}
+                title="Use the preset for all other outputs"
+                className="px-2 py-1 text-sm rounded-lg text-slate-400 hover:text-white hover:bg-slate-700/60 transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        ))}
+        {outputKey === DEFAULT_OUTPUT_KEY && (
+          <p className="text-xs text-slate-500">This browser does not share output device names, so one preset applies to every output.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-white/5">
+        <select value={draft && userPresets.some((p) => p.id === draft.id) ? draft.id : ''} onChange={(e) => edit(e.target.value)} className={selectClass}>
+          <option value="">Edit a custom preset…</option>
+          {userPresets.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={startNew}
+          className="px-4 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors"
+        >
+          New preset
+        </button>
+      </div>
+
+      {draft && (
+        <div className="space-y-3 p-4 rounded-lg bg-slate-900/40">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              maxLength={100}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} flex-1 min-w-[10rem]`}
+            />
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Preamp
+              <input
+                type="range"
+                min={-EQ_GAIN_RANGE}
+                max={EQ_GAIN_RANGE}
+                step={0.5}
+                value={draft.preamp}
+                onChange={(e) => setDraft({ ...draft, preamp: Number(e.target.value) })}
+                className="w-32 accent-cyan-500"
+              />
+              <span className="w-14 text-right tabular-nums">{draft.preamp > 0 ? '+' : ''}{draft.preamp} dB</span>
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            {draft.bands.map((b, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="w-10 text-slate-400 tabular-nums">{formatFreq(b.freq)}</span>
+                <input
+                  type="range"
+                  min={-EQ_GAIN_RANGE}
+                  max={EQ_GAIN_RANGE}
+                  step={0.5}
+                  value={b.gain}
+                  onChange={(e) => setBand(i, { gain: Number(e.target.value) })}
+                  className="flex-1 min-w-[8rem] accent-cyan-500"
+                />
+                <span className="w-14 text-right text-slate-300 tabular-nums">{b.gain > 0 ? '+' : ''}{b.gain} dB</span>
+                <select value={b.type} onChange={(e) => setBand(i, { type: e.target.value as EqBandType })} className={selectClass}>
+                  <option value="lowshelf">Low shelf</option>
+                  <option value="peaking">Peak</option>
+                  <option value="highshelf">High shelf</option>
+                </select>
+                <input
+                  type="number"
+                  min={20}
+                  max={20000}
+                  value={b.freq}
+                  title="Frequency (Hz)"
+                  onChange={(e) => setBand(i, { freq: Math.min(20000, Math.max(20, Number(e.target.value) || 20)) })}
+                  className={`${inputClass} w-20`}
+                />
+                <input
+                  type="number"
+                  min={0.1}
+                  max={18}
+                  step={0.1}
+                  value={b.q}
+                  title="Q"
+                  disabled={b.type !== 'peaking'}
+                  onChange={(e) => setBand(i, { q: Math.min(18, Math.max(0.1, Number(e.target.value) || 1)) })}
+                  className={`${inputClass} w-16 disabled:opacity-40`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {error && <div className="text-red-400 text-sm">{error}</div>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              className="px-4 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setDraft({ ...draft, preamp: 0, bands: flatBands() })}
+              className="px-4 py-1.5 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors"
+            >
+              Flatten
+            </button>
+            <button
+              onClick={() => { setDraft(null); setError(null); }}
+              className="px-4 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white hover:bg-slate-700/60 transition-colors"
+            >
+              Cancel
+            </button>
+            {userPresets.some((p) => p.id === draft.id) && (
+              <button
+                onClick={remove}
+                className="ml-auto px-4 py-1.5 text-sm rounded-lg bg-red-600/20 hover:bg-red-600/30 text-red-400 hover:text-red-300 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { adminOrganizeLibrary, type OrganizeReport } from './apiClient';
+import { useToastStore } from './Toast';
+
+const TEMPLATES = [
+  '{albumartist}/{year} - {album}/{disc}-{track:02} {title}.{ext}',
+  '{albumartist}/{album}/{track:02} - {title}.{ext}',
+  '{albumartist}/{album} ({year})/{track:02} {artist} - {title}.{ext}',
+  '{genre}/{albumartist}/{album}/{track:02} {title}.{ext}',
+];
+
+// Previews, then applies, moving a library's files into a folder/name template
+export function OrganizeDialog(props: { token: string; library: { id: number; mount_path: string }; onClose: () => void }) {
+  const showToast = useToastStore((s) => s.show);
+  const [template, setTemplate] = useState(TEMPLATES[0]);
+  const [report, setReport] = useState<OrganizeReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(dryRun: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await adminOrganizeLibrary(props.token, { libraryId: props.library.id, template, dryRun });
+      if (dryRun) {
+        setReport(r);
+        return;
+      }
+      const failed = r.failed?.length ?? 0;
+      showToast(failed ? `Moved ${r.moved ?? 0} files, ${failed} failed` : `Moved ${r.moved ?? 0} files`, failed ? 'error' : 'success');
+      if (failed) setReport(r);
+      else props.onClose();
+    } catch (e: any) {
+      setError(e?.data?.error || e?.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={() => !busy && props.onClose()}>
+      <div
+        className="bg-slate-800 border border-slate-700/60 rounded-2xl shadow-2xl shadow-black/40 p-6 max-w-3xl w-[90vw] mx-4 space-y-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h3 className="text-lg font-semibold text-white">Organize library</h3>
+          <code className="text-xs text-slate-400">{props.library.mount_path}</code>
+        </div>
+
+        {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>}
+
+        <div className="space-y-2">
+          <input
+            value={template}
+            onChange={(e) => {
+              setTemplate(e.target.value);
+              setReport(null);
+            }}
+            maxLength={300}
+            list="organize-templates"
+            className="w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-cyan-500"
+          />
+          <datalist id="organize-templates">
+            {TEMPLATES.map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+          <p className="text-xs text-slate-500">
+            {'{albumartist} {artist} {album} {title} {year} {track} {disc} {tracktotal} {disctotal} {genre} {composer} {filename} {ext}'} —
+            {' {track:02} pads with zeros, / makes folders. Lyrics (.lrc) and cover images move with the files.'}
+          </p>
+        </div>
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            <p className="text-slate-300">
+              {report.dryRun ? 'Would move' : 'Moved'} {report.dryRun ? report.moves.length : report.moved ?? 0} of {report.total} tracks
+              {' · '}{report.unchanged} already in place
+              {report.covers.length > 0 && ` · ${report.covers.length} cover images`}
+              {report.conflicts.length > 0 && <span className="text-amber-400"> · {report.conflicts.length} conflicts</span>}
+            </p>
+
+            {[...report.conflicts, ...(report.failed ?? [])].length > 0 && (
+              <div className="max-h-40 overflow-y-auto space-y-1 p-2 rounded-lg bg-amber-500/5 border border-amber-500/20">
+                {[...report.conflicts, ...(report.failed ?? [])].map((c, i) => (
+                  <p key={`${c.trackId}-${i}`} className="text-xs text-amber-300 font-mono truncate" title={`${c.from} → ${c.to}`}>
+                    {c.reason}: {c.from}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {report.dryRun && report.moves.length > 0 && (
+              <div className="max-h-72 overflow-y-auto space-y-1 p-2 rounded-lg bg-slate-900/50">
+                {report.moves.slice(0, 500).map((m) => (
+                  <div key={m.trackId} className="text-xs font-mono">
+                    <p className="text-slate-500 truncate">{m.from}</p>
+                    <p className="text-emerald-400 truncate">→ {m.to}{m.sidecars.length > 0 && <span className="text-slate-500"> (+{m.sidecars.length})</span>}</p>
+                  </div>
+                ))}
+                {report.moves.length > 500 && <p className="text-xs text-slate-500">…and {report.moves.length - 500} more</p>}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={props.onClose}
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => run(true)}
+            disabled={busy || !template.trim()}
+            className="px-4 py-2 text-sm rounded-lg bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-60"
+          >
+            {busy ? 'Working…' : 'Dry run'}
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={busy || !report?.dryRun || report.moves.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-60"
+          >
+            Move files
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import { ShareDialog } from './ShareDialog';
+import { DownloadDialog, useCanDownload } from './DownloadDialog';
 import { createPlaylist, getPlaylistItems, listPlaylists, addTrackToPlaylist, removeTrackFromPlaylist, setPlaylistItemPosition, deletePlaylist, renamePlaylist } from './apiClient';
 import { useAuth } from './store';
 import { SmartPlaylists } from './SmartPlaylists';
@@ -43,6 +45,9 @@ export function Playlists(props: {
   const [addTrackId, setAddTrackId] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [sharing, setSharing] = useState<Playlist | null>(null);
+  const [downloading, setDownloading] = useState<Playlist | null>(null);
+  const canDownload = useCanDownload();
   const [renameValue, setRenameValue] = useState('');
 
   // Live updates
@@ -461,6 +466,26 @@ export function Playlists(props: {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                     </svg>
                   </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setSharing(p); }}
+                    className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-cyan-500/10 rounded-lg transition-colors flex-shrink-0"
+                    title="Share playlist"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                    </svg>
+                  </button>
+                  {canDownload && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setDownloading(p); }}
+                      className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-cyan-500/10 rounded-lg transition-colors flex-shrink-0"
+                      title="Download playlist"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                    </button>
+                  )}
                   <button
                     onClick={() => handleDelete(p.id)}
                     className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors flex-shrink-0"
@@ -484,6 +509,13 @@ export function Playlists(props: {
           )}
         </div>
       )}
+
+      {sharing && (
+        <ShareDialog target={{ kind: 'playlist', title: sharing.name, playlistId: Number(sharing.id) }} onClose={() => setSharing(null)} />
+      )}
+      {downloading && (
+        <DownloadDialog target={{ kind: 'playlist', playlistId: Number(downloading.id) }} title={downloading.name} onClose={() => setDownloading(null)} />
+      )}
     </div>
   );
 }
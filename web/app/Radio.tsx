@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from './store';
+import { useUi } from './uiStore';
+import { createRadioStation, deleteRadioStation, listRadioStations, updateRadioStation, type RadioStation } from './apiClient';
+import { showConfirm } from './ConfirmModal';
+import { useRadioNowPlaying } from './useWebSocket';
+
+// Browsers block http:// media on an https:// page unless it goes through the relay
+function isBlockedByMixedContent(station: RadioStation) {
+  return !station.relay && typeof window !== 'undefined' && window.location.protocol === 'https:' && station.playUrl.startsWith('http:');
+}
+
+function streamHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+// ============================================================================
+// STATION DIALOG
+// ============================================================================
+
+function StationDialog(props: { station: RadioStation | null; onClose: () => void; onSaved: (station: RadioStation) => void }) {
+  const token = useAuth((s) => s.token);
+  const isAdmin = useAuth((s) => s.user?.role === 'admin');
+  const editing = props.station;
+  const [name, setName] = useState(editing?.name ?? '');
+  const [streamUrl, setStreamUrl] = useState(editing?.streamUrl ?? '');
+  const [homepageUrl, setHomepageUrl] = useState(editing?.homepageUrl ?? '');
+  const [artworkUrl, setArtworkUrl] = useState(editing?.artworkUrl ?? '');
+  const [relay, setRelay] = useState(editing?.relay ?? false);
+  const [shared, setShared] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save() {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const r = editing
+        ? await updateRadioStation(token, editing.id, { name, streamUrl, homepageUrl: homepageUrl || null, artworkUrl: artworkUrl || null, relay })
+        : await createRadioStation(token, { name, streamUrl, homepageUrl: homepageUrl || undefined, artworkUrl: artworkUrl || undefined, relay, shared });
+      if (r.station) props.onSaved(r.station);
+      props.onClose();
+    } catch (e: any) {
+      setError(e?.data?.error === 'name_and_stream_url_required' ? 'A name and a valid http(s) stream URL are required' : 'Failed to save station');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 text-sm focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={props.onClose}>
+      <div
+        className="bg-slate-800 border border-slate-700/60 rounded-2xl shadow-2xl shadow-black/40 p-6 max-w-md w-[90vw] mx-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-white">{editing ? 'Edit Station' : 'Add Station'}</h3>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" maxLength={200} className={inputClass} />
+        <input value={streamUrl} onChange={(e) => setStreamUrl(e.target.value)} placeholder="Stream URL (https://…)" className={inputClass} />
+        <input value={homepageUrl} onChange={(e) => setHomepageUrl(e.target.value)} placeholder="Homepage (optional)" className={inputClass} />
+        <input value={artworkUrl} onChange={(e) => setArtworkUrl(e.target.value)} placeholder="Artwork URL (optional)" className={inputClass} />
+        {isAdmin && (
+          <div className="space-y-2 pt-1">
+            {!editing && (
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={shared}
+                  onChange={(e) => setShared(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-cyan-500 focus:ring-cyan-500"
+                />
+                Shared with all users
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={relay}
+                onChange={(e) => setRelay(e.target.checked)}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-cyan-500 focus:ring-cyan-500"
+              />
+              Relay through the server (for http:// streams and now-playing info)
+            </label>
+          </div>
+        )}
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+        <div className="flex justify-end gap-3 pt-1">
+          <button onClick={props.onClose} className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || !name.trim() || !streamUrl.trim()}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white transition-colors"
+          >
+            {busy ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// STATION LIST
+// ============================================================================
+
+export function Radio() {
+  const token = useAuth((s) => s.token);
+  const clear = useAuth((s) => s.clear);
+  const radioStation = useUi((s) => s.radioStation);
+  const setRadioStation = useUi((s) => s.setRadioStation);
+  const [stations, setStations] = useState<RadioStation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialog, setDialog] = useState<{ station: RadioStation | null } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    listRadioStations(token)
+      .then((r) => setStations(r.stations))
+      .catch((e: any) => {
+        if (e?.status === 401) clear();
+      })
+      .finally(() => setLoading(false));
+  }, [token, clear]);
+
+  function onSaved(station: RadioStation) {
+    setStations((prev) => {
+      const next = prev.some((s) => s.id === station.id) ? prev.map((s) => (s.id === station.id ? station : s)) : [...prev, station];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+    if (radioStation?.id === station.id) setRadioStation(station);
+  }
+
+  async function remove(station: RadioStation) {
+    if (!token) return;
+    const ok = await showConfirm({ title: 'Delete Station', message: `Remove "${station.name}"?`, confirmLabel: 'Delete', danger: true });
+    if (!ok) return;
+    try {
+      await deleteRadioStation(token, station.id);
+      setStations((prev) => prev.filter((s) => s.id !== station.id));
+      if (radioStation?.id === station.id) setRadioStation(null);
+    } catch (e: any) {
+      if (e?.status === 401) clear();
+    }
+  }
+
+  return (
+    <div className="min-h-screen pb-32">
+      <div className="bg-gradient-to-b from-purple-900/50 to-transparent p-6 sm:p-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Radio</h1>
+          <button
+            onClick={() => setDialog({ station: null })}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-full flex items-center gap-2 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Add Station
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 sm:px-6">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500" />
+          </div>
+        ) : stations.length === 0 ? (
+          <div className="text-center py-12 text-slate-400">
+            <p>No radio stations yet</p>
+            <p className="text-sm mt-1">Add an internet radio stream to get started</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {stations.map((s) => {
+              const active = radioStation?.id === s.id;
+              const blocked = isBlockedByMixedContent(s);
+              return (
+                <div key={s.id} className={`flex items-center gap-3 p-3 rounded-xl bg-slate-800/50 ${active ? 'ring-1 ring-cyan-500' : ''}`}>
+                  <button
+                    onClick={() => setRadioStation(active ? null : s)}
+                    disabled={blocked}
+                    title={blocked ? 'This http:// stream needs the server relay to play here' : active ? 'Stop' : 'Play'}
+                    className="relative w-14 h-14 rounded-lg overflow-hidden bg-slate-700 flex-shrink-0 flex items-center justify-center group disabled:opacity-50"
+                  >
+                    {s.artworkUrl ? (
+                      <img src={s.artworkUrl} alt="" className="w-full h-full object-cover" loading="lazy" onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
+                    ) : (
+                      <span className="text-2xl">📻</span>
+                    )}
+                    <span className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                      <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
+                        {active ? <path d="M6 6h12v12H6z" /> : <path d="M8 5v14l11-7z" />}
+                      </svg>
+                    </span>
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-white truncate">{s.name}</div>
+                    <div className="text-xs text-slate-400 truncate">
+                      {streamHost(s.streamUrl)}
+                      {s.shared ? '' : ' · personal'}
+                      {s.relay ? ' · relayed' : ''}
+                    </div>
+                    <div className="flex items-center gap-3 mt-1 text-xs">
+                      {s.homepageUrl && (
+                        <a href={s.homepageUrl} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-white">
+                          Website
+                        </a>
+                      )}
+                      {s.editable && (
+                        <>
+                          <button onClick={() => setDialog({ station: s })} className="text-slate-400 hover:text-white">Edit</button>
+                          <button onClick={() => remove(s)} className="text-red-400 hover:text-red-300">Delete</button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {dialog && <StationDialog station={dialog.station} onClose={() => setDialog(null)} onSaved={onSaved} />}
+    </div>
+  );
+}
+
+// ============================================================================
+// RADIO PLAYER
+// ============================================================================
+
+export function RadioPlayer({ station, onClose }: { station: RadioStation; onClose: () => void }) {
+  const [audio, setAudio] = useState<HTMLAudioElement | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [buffering, setBuffering] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const nowPlaying = useRadioNowPlaying((s) => (s.stationId === station.id ? s.title : null));
+
+  useEffect(() => {
+    useRadioNowPlaying.setState({ stationId: null, title: null });
+    setFailed(false);
+    setBuffering(true);
+
+    const audioEl = new Audio(station.playUrl);
+    const onPlaying = () => { setPlaying(true); setBuffering(false); };
+    const onPause = () => setPlaying(false);
+    const onWaiting = () => setBuffering(true);
+    const onError = () => { setFailed(true); setBuffering(false); setPlaying(false); };
+
+    audioEl.addEventListener('playing', onPlaying);
+    audioEl.addEventListener('pause', onPause);
+    audioEl.addEventListener('waiting', onWaiting);
+    audioEl.addEventListener('error', onError);
+    setAudio(audioEl);
+    audioEl.play().catch(() => setBuffering(false));
+
+    return () => {
+      audioEl.removeEventListener('playing', onPlaying);
+      audioEl.removeEventListener('pause', onPause);
+      audioEl.removeEventListener('waiting', onWaiting);
+      audioEl.removeEventListener('error', onError);
+      audioEl.pause();
+      // Drop the connection so the relay/upstream stream stops
+      audioEl.src = '';
+    };
+  }, [station.id, station.playUrl]);
+
+  // Media Session API integration
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: nowPlaying || station.name,
+      artist: nowPlaying ? station.name : 'Internet Radio',
+      artwork: station.artworkUrl ? [{ src: station.artworkUrl, sizes: '512x512' }] : [],
+    });
+    navigator.mediaSession.setActionHandler('play', () => { audio?.play(); });
+    navigator.mediaSession.setActionHandler('pause', () => { audio?.pause(); });
+    navigator.mediaSession.setActionHandler('stop', () => { onClose(); });
+    return () => {
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.setActionHandler('play', null);
+      navigator.mediaSession.setActionHandler('pause', null);
+      navigator.mediaSession.setActionHandler('stop', null);
+    };
+  }, [station, nowPlaying, audio, onClose]);
+
+  const togglePlay = () => {
+    if (!audio) return;
+    if (playing) {
+      audio.pause();
+    } else {
+      // Reload so playback resumes live instead of from the paused buffer
+      audio.src = station.playUrl;
+      setFailed(false);
+      setBuffering(true);
+      audio.play().catch(() => setBuffering(false));
+    }
+  };
+
+  const status = failed ? 'Stream unavailable' : buffering ? 'Connecting…' : nowPlaying || 'Live';
+
+  return (
+    <div className="fixed left-0 right-0 lg:left-64 bottom-0 glass border-t border-white/10 z-40 h-[72px]">
+      <div className="px-4 py-3">
+        <div className="max-w-4xl mx-auto flex items-center gap-3">
+          {station.artworkUrl ? (
+            <img src={station.artworkUrl} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+          ) : (
+            <div className="w-12 h-12 rounded-lg bg-white/10 flex items-center justify-center flex-shrink-0">
+              <span className="text-xl">📻</span>
+            </div>
+          )}
+
+          <div className="flex-1 min-w-0">
+            <div className="font-semibold text-white truncate text-sm sm:text-base">{station.name}</div>
+            <div className={`text-xs sm:text-sm truncate ${failed ? 'text-red-400' : 'text-white/60'}`}>{status}</div>
+          </div>
+
+          <button
+            onClick={togglePlay}
+            className="p-3 rounded-full bg-white text-black hover:bg-white/90 hover:scale-105 transition-all shadow-lg"
+            aria-label={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M8 5v14l11-7z" />
+              </svg>
+            )}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-white/10 text-white/40 hover:text-white transition"
+            aria-label="Close radio"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
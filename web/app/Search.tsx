@@ -30,6 +30,7 @@ type ArtistHit = {
 };
 
 type AlbumHit = {
+  id: number;
   album: string;
   display_artist: string | null;
   artist_id: number | null;
@@ -116,7 +117,7 @@ export function Search(props: { onPlay?: (t: Hit) => void; onAddToQueue?: (t: Hi
         // Normalize IDs to numbers so favorites lookups work reliably.
         setHits((r.hits ?? []).map((h: any) => ({ ...h, id: Number(h.id) })));
         setArtistHits(r.artists ?? []);
-        setAlbumHits((r.albums ?? []).map((a: any) => ({ ...a, artist_id: a.artist_id == null ? null : Number(a.artist_id), art_track_id: a.art_track_id == null ? null : Number(a.art_track_id) })));
+        setAlbumHits((r.albums ?? []).map((a: any) => ({ ...a, id: Number(a.id), artist_id: a.artist_id == null ? null : Number(a.artist_id), art_track_id: a.art_track_id == null ? null : Number(a.art_track_id) })));
         setPlaylistHits((r.playlists ?? []).map((p: any) => ({ ...p, id: Number(p.id) })));
       } catch (e: any) {
         if (e?.status === 401) clear();
@@ -225,11 +226,11 @@ export function Search(props: { onPlay?: (t: Hit) => void; onAddToQueue?: (t: Hi
                       role="button"
                       tabIndex={0}
                       onClick={() =>
-                        navigate({ type: 'browse-album', artist: a.display_artist || '', album: a.album, artistId: a.artist_id || undefined })
+                        navigate({ type: 'browse-album', albumId: a.id, album: a.album })
                       }
                       onKeyDown={(e) => {
                         if (e.key === 'Enter' || e.key === ' ') {
-                          navigate({ type: 'browse-album', artist: a.display_artist || '', album: a.album, artistId: a.artist_id || undefined });
+                          navigate({ type: 'browse-album', albumId: a.id, album: a.album });
                         }
                       }}
                       className="group p-3 bg-slate-800/30 hover:bg-slate-800/50 border border-slate-700/30 hover:border-slate-600/50 rounded-xl transition-all duration-200 text-left flex items-center gap-3 cursor-pointer"
@@ -30,6 +30,7 @@ type ArtistHit = {
 };
 
 type AlbumHit = {
+  id: number;
   album: string;
   display_artist: string | null;
   artist_id: number | null;
@@ -151,6 +152,7 @@ export function SearchModal({ isOpen, onClose, onPlay, onAddToQueue }: SearchMod
         setArtistHits(r.artists ?? []);
         setAlbumHits((r.albums ?? []).map((a: any) => ({
           ...a,
+          id: Number(a.id),
           artist_id: a.artist_id == null ? null : Number(a.artist_id),
           art_track_id: a.art_track_id == null ? null : Number(a.art_track_id),
         })));
@@ -295,8 +297,8 @@ export function SearchModal({ isOpen, onClose, onPlay, onAddToQueue }: SearchMod
                       key={`${a.album}-${idx}`}
                       role="button"
                       tabIndex={0}
-                      onClick={() => handleNavigate({ type: 'browse-album', artist: a.display_artist || '', album: a.album, artistId: a.artist_id || undefined })}
-                      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleNavigate({ type: 'browse-album', artist: a.display_artist || '', album: a.album, artistId: a.artist_id || undefined }); }}
+                      onClick={() => handleNavigate({ type: 'browse-album', albumId: a.id, album: a.album })}
+                      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleNavigate({ type: 'browse-album', albumId: a.id, album: a.album }); }}
                       className="group w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/10 transition-colors text-left cursor-pointer"
                     >
                       <div className="w-9 h-9 rounded-lg bg-slate-700 flex-shrink-0 relative overflow-hidden">
@@ -13,10 +13,13 @@ import {
 } from './apiClient';
 import { useAuth } from './store';
 import { usePlayer } from './playerStore';
-import { usePreferences } from './preferencesStore';
+import { usePreferences, type UserPreferences } from './preferencesStore';
 import { showConfirm } from './ConfirmModal';
+import { SharesPanel } from './SharesPanel';
+import { SubsonicApiKeysPanel } from './SubsonicApiKeysPanel';
+import { EqualizerPanel } from './EqualizerPanel';
 
-type Tab = 'account' | 'playback' | 'integrations' | 'about';
+type Tab = 'account' | 'playback' | 'integrations' | 'sharing' | 'about';
 
 interface UserProfile {
   id: string;
@@ -302,6 +305,11 @@ export function Settings() {
       label: 'Integrations',
       icon: <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
     },
+    { 
+      id: 'sharing', 
+      label: 'Sharing',
+      icon: <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
+    },
     { 
       id: 'about', 
       label: 'About',
@@ -560,11 +568,59 @@ export function Settings() {
                 enabled={preferences.prefer_hls}
                 onChange={(v) => updatePreferences(token, { prefer_hls: v })}
               />
+
+              <SelectSetting
+                label="Subsonic App Format"
+                description="Format used when a Subsonic app streams without asking for one. Original sends files untouched unless a bitrate limit applies. Downloads always get the original file."
+                value={preferences.transcode_format}
+                options={[
+                  { value: 'raw', label: 'Original' },
+                  { value: 'mp3', label: 'MP3' },
+                  { value: 'opus', label: 'Opus' },
+                  { value: 'aac', label: 'AAC' },
+                ]}
+                onChange={(v) => updatePreferences(token, { transcode_format: v as UserPreferences['transcode_format'] })}
+              />
+
+              <SelectSetting
+                label="Subsonic App Bitrate Limit"
+                description="Maximum bitrate for Subsonic streams. Lossless files and anything above the limit are transcoded. A lower limit requested by the app wins."
+                value={String(preferences.transcode_max_bitrate)}
+                options={[0, 64, 96, 128, 160, 192, 256, 320].map((n) => ({ value: String(n), label: n === 0 ? 'No limit' : `${n} kbps` }))}
+                onChange={(v) => updatePreferences(token, { transcode_max_bitrate: Number(v) })}
+              />
+            </section>
+
+            <EqualizerPanel />
+
+            {/* ReplayGain */}
+            <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-white">Volume Normalization</h2>
+
+              <SelectSetting
+                label="ReplayGain"
+                description="Evens out loudness between tracks in the web player. Track mode levels every song; album mode keeps the loudness differences within an album. Uses ReplayGain tags, or the server's own measurement when a file has none."
+                value={preferences.replaygain_mode}
+                options={[
+                  { value: 'off', label: 'Off' },
+                  { value: 'track', label: 'Track' },
+                  { value: 'album', label: 'Album' },
+                ]}
+                onChange={(v) => updatePreferences(token, { replaygain_mode: v as UserPreferences['replaygain_mode'] })}
+              />
             </section>
 
             {/* Auto Continue */}
             <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
               <h2 className="text-lg font-semibold text-white">Queue Behavior</h2>
+
+              <SelectSetting
+                label="Crossfade"
+                description="Fade between songs in the queue. Tracks from the same album always play back to back without a gap, so live albums and mixes stay seamless."
+                value={String(preferences.crossfade_seconds)}
+                options={[0, 1, 2, 3, 5, 8, 10, 12].map((n) => ({ value: String(n), label: n === 0 ? 'Off' : `${n} seconds` }))}
+                onChange={(v) => updatePreferences(token, { crossfade_seconds: Number(v) })}
+              />
               
               <ToggleSetting
                 label="Continue Playback After Queue Ends"
@@ -635,6 +691,8 @@ export function Settings() {
               </div>
             </section>
 
+            <SubsonicApiKeysPanel />
+
             {/* ListenBrainz */}
             <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
               <h2 className="text-lg font-semibold text-white flex items-center gap-2">
@@ -729,6 +787,8 @@ export function Settings() {
           </>
         )}
 
+        {activeTab === 'sharing' && <SharesPanel />}
+
         {activeTab === 'about' && (
           <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
             <h2 className="text-lg font-semibold text-white">About mvbar</h2>
@@ -770,6 +830,39 @@ export function Settings() {
   );
 }
 
+// Reusable select setting component
+function SelectSetting({
+  label,
+  description,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  value: string;
+  options: Array<{ value: string; label: string }>;
+  onChange: (v: string) => void;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="flex-1">
+        <div className="font-medium text-white">{label}</div>
+        <p className="text-sm text-slate-400 mt-1">{description}</p>
+      </div>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-1.5 text-sm bg-slate-800 border border-white/10 rounded-lg text-white focus:outline-none focus:border-cyan-500 cursor-pointer flex-shrink-0"
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 // Reusable toggle setting component
 function ToggleSetting({ 
   label, 
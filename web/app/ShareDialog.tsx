@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { createShare, type Share } from './apiClient';
+import { useAuth } from './store';
+import { useToastStore } from './Toast';
+
+type ShareTarget =
+  | { kind: 'track' | 'album' | 'tracks'; title: string; trackIds: number[] }
+  | { kind: 'playlist'; title: string; playlistId: number };
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never' },
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+];
+
+// Creates a public link for a track, album or playlist
+export function ShareDialog(props: { target: ShareTarget; onClose: () => void }) {
+  const token = useAuth((s) => s.token);
+  const showToast = useToastStore((s) => s.show);
+  const [description, setDescription] = useState('');
+  const [password, setPassword] = useState('');
+  const [expiryDays, setExpiryDays] = useState('7');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [share, setShare] = useState<Share | null>(null);
+
+  async function create() {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const expiresAt = expiryDays ? new Date(Date.now() + Number(expiryDays) * 86400_000).toISOString() : null;
+      const target = props.target;
+      const r = await createShare(token, {
+        ...(target.kind === 'playlist'
+          ? { playlistId: target.playlistId }
+          : { kind: target.kind, title: target.title, trackIds: target.trackIds }),
+        description: description || undefined,
+        password: password || undefined,
+        expiresAt,
+      });
+      setShare(r.share);
+    } catch (e: any) {
+      setError(e?.data?.error ?? e?.message ?? 'Failed to create share');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy(url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      showToast('Share link copied', 'success');
+    } catch {
+      // Clipboard may be unavailable on insecure origins; the link stays selectable
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={props.onClose}>
+      <div
+        className="bg-slate-800 border border-slate-700/60 rounded-2xl shadow-2xl shadow-black/40 p-6 max-w-md w-[90vw] mx-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-white truncate">Share {props.target.title}</h3>
+
+        {share ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-300">Anyone with this link can listen without an account.</p>
+            <input
+              readOnly
+              value={share.url}
+              onFocus={(e) => e.currentTarget.select()}
+              className="w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white text-sm"
+            />
+            <div className="flex justify-end gap-3">
+              <button onClick={props.onClose} className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors">
+                Done
+              </button>
+              <button onClick={() => copy(share.url)} className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors">
+                Copy Link
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              maxLength={500}
+              className="w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 text-sm focus:outline-none focus:border-cyan-500"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (optional)"
+              autoComplete="new-password"
+              className="w-full px-3 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 text-sm focus:outline-none focus:border-cyan-500"
+            />
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              Expires after
+              <select
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                className="px-3 py-1.5 text-sm bg-slate-800 border border-white/10 rounded-lg text-white focus:outline-none focus:border-cyan-500 cursor-pointer"
+              >
+                {EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </label>
+            {error && <div className="text-red-400 text-sm">{error}</div>}
+            <div className="flex justify-end gap-3">
+              <button onClick={props.onClose} className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={create}
+                disabled={busy}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white transition-colors"
+              >
+                {busy ? 'Creating…' : 'Create Link'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
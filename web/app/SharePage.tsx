@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { openPublicShare, type PublicShare } from './apiClient';
+
+function formatDuration(ms: number | null): string {
+  if (!ms) return '--:--';
+  const s = Math.floor(ms / 1000);
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, '0')}`;
+}
+
+// Public, account-free player for a share link
+export function SharePage(props: { shareToken: string }) {
+  const [data, setData] = useState<PublicShare | null>(null);
+  const [status, setStatus] = useState<'loading' | 'password' | 'ready' | 'missing'>('loading');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  async function load(pw?: string) {
+    setError(null);
+    try {
+      const r = await openPublicShare(props.shareToken, pw);
+      setData(r);
+      setStatus('ready');
+    } catch (e: any) {
+      if (e?.status === 401) setStatus('password');
+      else if (e?.status === 403) setError('Wrong password');
+      else if (e?.status === 429) setError('Too many attempts, try again later');
+      else setStatus('missing');
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.shareToken]);
+
+  const track = data?.tracks[current] ?? null;
+
+  useEffect(() => {
+    const a = audioRef.current;
+    if (!a || !track) return;
+    a.src = track.streamUrl;
+    a.play().catch(() => {});
+  }, [track]);
+
+  if (status === 'loading') {
+    return <div className="min-h-screen flex items-center justify-center text-slate-400">Loading…</div>;
+  }
+
+  if (status === 'missing') {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center">
+          <h1 className="text-xl font-semibold text-white">Link unavailable</h1>
+          <p className="text-slate-400 mt-2">This share doesn&apos;t exist or has expired.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'password') {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            load(password);
+          }}
+          className="bg-slate-800/50 rounded-xl p-6 w-full max-w-sm space-y-4"
+        >
+          <h1 className="text-lg font-semibold text-white">This share is password protected</h1>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            className="w-full px-4 py-2 bg-slate-900/60 border border-slate-700/50 rounded-lg text-white focus:outline-none focus:border-cyan-500"
+          />
+          {error && <div className="text-red-400 text-sm">{error}</div>}
+          <button type="submit" className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-medium">
+            Open
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const share = data!.share;
+  const tracks = data!.tracks;
+
+  return (
+    <div className="min-h-screen max-w-3xl mx-auto px-4 py-8 pb-32 space-y-6">
+      <div className="flex items-center gap-4">
+        {track?.artUrl ? (
+          <img src={track.artUrl} alt="" className="w-24 h-24 sm:w-32 sm:h-32 rounded-xl object-cover shadow-lg" />
+        ) : (
+          <div className="w-24 h-24 sm:w-32 sm:h-32 rounded-xl bg-gradient-to-br from-cyan-500 to-blue-600" />
+        )}
+        <div className="min-w-0">
+          <div className="text-xs uppercase tracking-wide text-slate-500">Shared by {share.owner}</div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white truncate">{share.title || track?.title || 'Shared music'}</h1>
+          {share.description && <p className="text-slate-400 mt-1">{share.description}</p>}
+          <p className="text-sm text-slate-500 mt-1">{tracks.length} track{tracks.length === 1 ? '' : 's'}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {tracks.map((t, i) => (
+          <button
+            key={t.id}
+            onClick={() => setCurrent(i)}
+            className={`w-full flex items-center gap-4 p-3 rounded-lg text-left transition-colors ${i === current ? 'bg-cyan-500/10' : 'hover:bg-slate-800/50'}`}
+          >
+            <span className={`w-6 text-center text-sm ${i === current ? 'text-cyan-400' : 'text-slate-500'}`}>{i + 1}</span>
+            <div className="flex-1 min-w-0">
+              <div className={`truncate ${i === current ? 'text-cyan-400' : 'text-white'}`}>{t.title || 'Untitled'}</div>
+              <div className="text-sm text-slate-400 truncate">{t.artist}</div>
+            </div>
+            <span className="text-sm text-slate-500">{formatDuration(t.duration_ms)}</span>
+          </button>
+        ))}
+        {tracks.length === 0 && <div className="text-slate-400 text-center py-8">Nothing to play here anymore.</div>}
+      </div>
+
+      <div className="fixed bottom-0 inset-x-0 bg-slate-900/95 border-t border-white/10 p-4">
+        <div className="max-w-3xl mx-auto flex items-center gap-4">
+          <div className="min-w-0 flex-1">
+            <div className="text-white truncate">{track?.title || 'Untitled'}</div>
+            <div className="text-sm text-slate-400 truncate">{track?.artist}</div>
+          </div>
+          <audio
+            ref={audioRef}
+            controls
+            className="w-1/2"
+            onEnded={() => setCurrent((i) => (i + 1 < tracks.length ? i + 1 : i))}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
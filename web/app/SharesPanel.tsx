@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { deleteShare, listShares, type Share } from './apiClient';
+import { showConfirm } from './ConfirmModal';
+import { useAuth } from './store';
+
+function shareStatus(s: Share) {
+  if (s.expired) return 'Expired';
+  if (s.expiresAt) return `Expires ${new Date(s.expiresAt).toLocaleDateString()}`;
+  return 'Never expires';
+}
+
+// Settings section listing share links; admins can switch to every user's shares
+export function SharesPanel() {
+  const token = useAuth((s) => s.token);
+  const user = useAuth((s) => s.user);
+  const clear = useAuth((s) => s.clear);
+  const isAdmin = user?.role === 'admin';
+
+  const [shares, setShares] = useState<Share[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    if (!token) return;
+    setError(null);
+    try {
+      const r = await listShares(token, isAdmin && showAll);
+      setShares(r.shares);
+    } catch (e: any) {
+      if (e?.status === 401) clear();
+      setError(e?.data?.error ?? e?.message ?? 'Failed to load shares');
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, showAll]);
+
+  async function revoke(s: Share) {
+    if (!token) return;
+    const ok = await showConfirm({ title: 'Revoke Share', message: `Anyone using the link to "${s.title || 'this share'}" will lose access.`, confirmLabel: 'Revoke', danger: true });
+    if (!ok) return;
+    try {
+      await deleteShare(token, s.id);
+      setShares((prev) => prev.filter((x) => x.id !== s.id));
+    } catch (e: any) {
+      setError(e?.data?.error ?? e?.message ?? 'Failed to revoke share');
+    }
+  }
+
+  async function copy(url: string) {
+    try { await navigator.clipboard.writeText(url); } catch {}
+  }
+
+  return (
+    <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-white">Share Links</h2>
+        {isAdmin && (
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-cyan-500 focus:ring-cyan-500"
+            />
+            All users
+          </label>
+        )}
+      </div>
+
+      {error && <div className="text-red-400 text-sm">{error}</div>}
+
+      {shares.length === 0 ? (
+        <p className="text-sm text-slate-400">No share links yet. Use the share button on an album, track or playlist to create one.</p>
+      ) : (
+        <div className="space-y-2">
+          {shares.map((s) => (
+            <div key={s.id} className={`flex items-center gap-3 p-3 rounded-lg bg-slate-900/40 ${s.expired ? 'opacity-60' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <div className="text-white truncate">
+                  {s.title || `${s.trackCount} track${s.trackCount === 1 ? '' : 's'}`}
+                  {s.hasPassword && <span className="ml-2 text-xs text-amber-400">password</span>}
+                </div>
+                <div className="text-xs text-slate-400 truncate">
+                  {showAll && `${s.owner} · `}
+                  {s.viewCount} view{s.viewCount === 1 ? '' : 's'} · {shareStatus(s)}
+                  {s.description && ` · ${s.description}`}
+                </div>
+              </div>
+              <button
+                onClick={() => copy(s.url)}
+                className="px-3 py-1.5 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors"
+                title={s.url}
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => revoke(s)}
+                className="px-3 py-1.5 text-sm rounded-lg bg-red-600/20 hover:bg-red-600/30 text-red-400 hover:text-red-300 transition-colors"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
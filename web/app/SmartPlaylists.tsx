@@ -16,6 +16,7 @@ import { useAuth } from './store';
 import { usePlayer } from './playerStore';
 import { useLibraryUpdates } from './useWebSocket';
 import { showConfirm } from './ConfirmModal';
+import { DownloadDialog, useCanDownload } from './DownloadDialog';
 
 const SORT_OPTIONS = [
   { value: 'random', label: 'Random' },
@@ -51,6 +52,7 @@ const emptyFilters: SmartFilters = {
   },
   duration: { min: null, max: null },
   bpm: { min: null, max: null },
+  rating: { min: null, max: null },
   dateAdded: { from: null, to: null },
   favoriteOnly: false,
   maxResults: null,
@@ -174,6 +176,8 @@ export function SmartPlaylists(props: {
   const lastRefreshRef = useRef<number>(0);
 
   const [playlists, setPlaylists] = useState<SmartPlaylist[]>([]);
+  const [downloading, setDownloading] = useState<SmartPlaylist | null>(null);
+  const canDownload = useCanDownload();
   const [selectedId, setSelectedId] = useState<number | null>(null);
   const [tracks, setTracks] = useState<Track[]>([]);
   const [trackCount, setTrackCount] = useState(0);
@@ -192,6 +196,8 @@ export function SmartPlaylists(props: {
   const [editDurationMax, setEditDurationMax] = useState<string>('');
   const [editBpmMin, setEditBpmMin] = useState<string>('');
   const [editBpmMax, setEditBpmMax] = useState<string>('');
+  const [editRatingMin, setEditRatingMin] = useState<string>('');
+  const [editRatingMax, setEditRatingMax] = useState<string>('');
   const [editDateAddedFrom, setEditDateAddedFrom] = useState<string>('');
   const [editDateAddedTo, setEditDateAddedTo] = useState<string>('');
   
@@ -311,6 +317,10 @@ export function SmartPlaylists(props: {
         min: editBpmMin ? parseInt(editBpmMin, 10) : null,
         max: editBpmMax ? parseInt(editBpmMax, 10) : null,
       },
+      rating: {
+        min: editRatingMin ? parseInt(editRatingMin, 10) : null,
+        max: editRatingMax ? parseInt(editRatingMax, 10) : null,
+      },
       dateAdded: {
         from: editDateAddedFrom || null,
         to: editDateAddedTo || null,
@@ -385,6 +395,8 @@ export function SmartPlaylists(props: {
       setEditDurationMax(f.duration?.max ? String(f.duration.max) : '');
       setEditBpmMin(f.bpm?.min ? String(f.bpm.min) : '');
       setEditBpmMax(f.bpm?.max ? String(f.bpm.max) : '');
+      setEditRatingMin(f.rating?.min ? String(f.rating.min) : '');
+      setEditRatingMax(f.rating?.max ? String(f.rating.max) : '');
       setEditDateAddedFrom(f.dateAdded?.from ?? '');
       setEditDateAddedTo(f.dateAdded?.to ?? '');
       
@@ -421,6 +433,8 @@ export function SmartPlaylists(props: {
       setEditDurationMax('');
       setEditBpmMin('');
       setEditBpmMax('');
+      setEditRatingMin('');
+      setEditRatingMax('');
       setEditDateAddedFrom('');
       setEditDateAddedTo('');
       setIncludeArtists([]);
@@ -586,6 +600,33 @@ export function SmartPlaylists(props: {
             </div>
           </div>
 
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Min Rating</label>
+              <input
+                type="number"
+                value={editRatingMin}
+                onChange={(e) => setEditRatingMin(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 focus:outline-none text-sm"
+                placeholder="1"
+                min="1"
+                max="5"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Max Rating</label>
+              <input
+                type="number"
+                value={editRatingMax}
+                onChange={(e) => setEditRatingMax(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-400 focus:outline-none text-sm"
+                placeholder="5"
+                min="1"
+                max="5"
+              />
+            </div>
+          </div>
+
           <label className="flex items-center gap-3 cursor-pointer pt-2">
             <input
               type="checkbox"
@@ -853,6 +894,17 @@ export function SmartPlaylists(props: {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" />
                       </svg>
                     </button>
+                    {canDownload && (
+                      <button
+                        onClick={() => setDownloading(p)}
+                        className="p-2 text-slate-400 hover:text-cyan-300 hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Download as ZIP"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                        </svg>
+                      </button>
+                    )}
                     <button
                       onClick={() => handleDelete(p.id)}
                       className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
@@ -976,6 +1028,10 @@ export function SmartPlaylists(props: {
           )}
         </div>
       </div>
+
+      {downloading && (
+        <DownloadDialog target={{ kind: 'smart-playlist', smartPlaylistId: downloading.id }} title={downloading.name} onClose={() => setDownloading(null)} />
+      )}
     </div>
   );
 }
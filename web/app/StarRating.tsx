@@ -0,0 +1,35 @@
+'use client';
+
+import { useState } from 'react';
+import { useRatings } from './ratingsStore';
+import { useAuth } from './store';
+
+// 1-5 star control; clicking the current rating again clears it
+export function StarRating(props: { trackId: number }) {
+  const token = useAuth((s) => s.token);
+  const rating = useRatings((s) => s.ratings.get(props.trackId) ?? 0);
+  const setRating = useRatings((s) => s.setRating);
+  const [hover, setHover] = useState(0);
+  const shown = hover || rating;
+
+  return (
+    <div className="flex items-center" onMouseLeave={() => setHover(0)} title={rating ? `Rated ${rating} of 5` : 'Rate this track'}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (token) setRating(token, props.trackId, n === rating ? 0 : n).catch(() => {});
+          }}
+          onMouseEnter={() => setHover(n)}
+          className={`p-0.5 transition-colors ${n <= shown ? 'text-amber-400' : 'text-slate-600 hover:text-slate-400'}`}
+          aria-label={`Rate ${n} star${n > 1 ? 's' : ''}`}
+        >
+          <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill={n <= shown ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35l2.12-5.11z" />
+          </svg>
+        </button>
+      ))}
+    </div>
+  );
+}
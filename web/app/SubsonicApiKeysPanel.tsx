@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createSubsonicApiKey, listSubsonicApiKeys, revokeSubsonicApiKey, type SubsonicApiKey } from './apiClient';
+import { showConfirm } from './ConfirmModal';
+import { useAuth } from './store';
+
+// Settings section for OpenSubsonic API keys (apiKey= instead of a reusable password)
+export function SubsonicApiKeysPanel() {
+  const token = useAuth((s) => s.token);
+  const clear = useAuth((s) => s.clear);
+
+  const [keys, setKeys] = useState<SubsonicApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    listSubsonicApiKeys(token)
+      .then((r) => setKeys(r.keys))
+      .catch((e: any) => {
+        if (e?.status === 401) clear();
+        setError(e?.data?.error ?? e?.message ?? 'Failed to load API keys');
+      });
+  }, [token, clear]);
+
+  async function create() {
+    if (!token || !name.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await createSubsonicApiKey(token, name.trim());
+      setKeys((prev) => [r.apiKey, ...prev]);
+      setNewKey(r.key);
+      setName('');
+    } catch (e: any) {
+      setError(e?.data?.error ?? e?.message ?? 'Failed to create API key');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revoke(k: SubsonicApiKey) {
+    if (!token) return;
+    const ok = await showConfirm({ title: 'Revoke API Key', message: `Apps using "${k.name}" will be signed out.`, confirmLabel: 'Revoke', danger: true });
+    if (!ok) return;
+    try {
+      await revokeSubsonicApiKey(token, k.id);
+      setKeys((prev) => prev.filter((x) => x.id !== k.id));
+    } catch (e: any) {
+      setError(e?.data?.error ?? e?.message ?? 'Failed to revoke API key');
+    }
+  }
+
+  async function copy(text: string) {
+    try { await navigator.clipboard.writeText(text); } catch {}
+  }
+
+  return (
+    <section className="bg-slate-800/50 rounded-xl p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-white">Subsonic API Keys</h2>
+      <p className="text-sm text-slate-400">
+        OpenSubsonic clients that support API keys can sign in with a key instead of your password. Create one key per app so you can revoke it on its own.
+      </p>
+
+      <div className="flex gap-2 max-w-md">
+        <input
+          type="text"
+          placeholder="Key name, e.g. Phone"
+          value={name}
+          maxLength={100}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') create(); }}
+          className="flex-1 px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500"
+        />
+        <button
+          onClick={create}
+          disabled={busy || !name.trim()}
+          className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition-colors"
+        >
+          Create
+        </button>
+      </div>
+
+      {newKey && (
+        <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/30 space-y-2">
+          <div className="text-sm text-green-400">Copy this key now, it will not be shown again.</div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-sm text-white bg-slate-900/60 px-2 py-1 rounded">{newKey}</code>
+            <button
+              onClick={() => copy(newKey)}
+              className="px-3 py-1.5 text-sm rounded-lg text-slate-300 hover:text-white hover:bg-slate-700/60 transition-colors"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setNewKey(null)}
+              className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white hover:bg-slate-700/60 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-red-400 text-sm">{error}</div>}
+
+      {keys.length > 0 && (
+        <div className="space-y-2">
+          {keys.map((k) => (
+            <div key={k.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-900/40">
+              <div className="flex-1 min-w-0">
+                <div className="text-white truncate">{k.name}</div>
+                <div className="text-xs text-slate-400 truncate">
+                  {k.prefix}… · created {new Date(k.createdAt).toLocaleDateString()} · {k.lastUsedAt ? `last used ${new Date(k.lastUsedAt).toLocaleString()}` : 'never used'}
+                </div>
+              </div>
+              <button
+                onClick={() => revoke(k)}
+                className="px-3 py-1.5 text-sm rounded-lg bg-red-600/20 hover:bg-red-600/30 text-red-400 hover:text-red-300 transition-colors"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
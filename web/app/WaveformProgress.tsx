@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useId, useMemo, useState } from 'react';
+import { getTrackWaveform } from './apiClient';
+
+// Generation is queued on the first request; poll for a while, then give up until the next track
+const WAVEFORM_POLL_MS = 5000;
+const WAVEFORM_MAX_POLLS = 24;
+
+export function useWaveform(token: string | null, trackId: number) {
+  const [waveform, setWaveform] = useState<{ trackId: number; peaks: number[] } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    let timer: number | null = null;
+    let polls = 0;
+    const load = () => {
+      getTrackWaveform(token, trackId)
+        .then((r) => {
+          if (cancelled) return;
+          if (r.peaks?.length) setWaveform({ trackId, peaks: r.peaks });
+          else if ((r.state === 'queued' || r.state === 'running') && ++polls < WAVEFORM_MAX_POLLS) timer = window.setTimeout(load, WAVEFORM_POLL_MS);
+        })
+        .catch(() => {});
+    };
+    load();
+    return () => {
+      cancelled = true;
+      if (timer != null) clearTimeout(timer);
+    };
+  }, [token, trackId]);
+
+  return waveform?.trackId === trackId ? waveform.peaks : null;
+}
+
+// Mirrored bars scaled to the loudest bucket, so quiet intros and drops stand out on any master
+function waveformPath(peaks: number[]) {
+  const max = Math.max(1, ...peaks);
+  let d = '';
+  peaks.forEach((p, i) => {
+    const h = Math.max(2, (p / max) * 100);
+    d += `M${i} ${(100 - h) / 2}h0.8v${h}h-0.8z`;
+  });
+  return d;
+}
+
+// Seek bar drawn as a waveform; falls back to the plain bar until peaks are available
+export function WaveformProgress({
+  peaks,
+  progress,
+  onSeek,
+  className,
+  barClassName,
+}: {
+  peaks: number[] | null;
+  progress: number;
+  onSeek: (fraction: number) => void;
+  className: string;
+  barClassName: string;
+}) {
+  // useId output contains characters that are not valid inside url(#...)
+  const clipId = `waveform-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const path = useMemo(() => (peaks ? waveformPath(peaks) : null), [peaks]);
+  const pct = Math.max(0, Math.min(1, progress));
+
+  return (
+    <div
+      className={`${className} cursor-pointer`}
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+      }}
+    >
+      {path && peaks ? (
+        <svg className="w-full h-full block" viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none">
+          <defs>
+            <clipPath id={clipId}>
+              <rect x="0" y="0" width={pct * peaks.length} height="100" />
+            </clipPath>
+          </defs>
+          <path d={path} className="fill-white/25" />
+          <path d={path} className="fill-cyan-500" clipPath={`url(#${clipId})`} />
+        </svg>
+      ) : (
+        <div className={`${barClassName} h-full bg-cyan-500 transition-all duration-150`} style={{ width: `${pct * 100}%` }} />
+      )}
+    </div>
+  );
+}
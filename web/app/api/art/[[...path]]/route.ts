@@ -32,6 +32,21 @@ export async function GET(_req: Request, ctx: { params: Promise<{ path?: string[
     return new Response(upstream.body, { status: upstream.status, headers });
   }
 
+  // album/<id> serves the art picked for that album
+  if (path.length === 2 && path[0] === 'album' && /^\d+$/.test(path[1])) {
+    const base = process.env.API_INTERNAL_BASE ?? 'http://api:3000';
+    const upstream = await fetch(`${base}/api/albums/${path[1]}/art`, {
+      headers: { authorization: `Bearer ${token}` },
+    });
+
+    const headers = new Headers();
+    for (const k of ['content-type', 'content-length', 'cache-control', 'etag']) {
+      const v = upstream.headers.get(k);
+      if (v) headers.set(k, v);
+    }
+    return new Response(upstream.body, { status: upstream.status, headers });
+  }
+
   // Otherwise, proxy to direct art path endpoint
   const upstream = await fetch(apiUrlFor(path), {
     headers: { authorization: `Bearer ${token}` },
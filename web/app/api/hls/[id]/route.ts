@@ -6,9 +6,10 @@ function apiUrlFor(id: string) {
 }
 
 function rewriteManifest(text: string, id: string) {
-  // The API returns segment URIs like "seg_00000.ts".
+  // The API returns relative URIs: "seg_00000.ts" for single-rendition caches,
+  // "v0.m3u8" variant playlists for multi-bitrate ones (their segments then resolve next to them).
   // The browser needs to fetch them via our Next proxy (so auth cookie works).
-  return text.replace(/^(seg_[0-9]+\.ts)$/gm, `/api/hls/${encodeURIComponent(id)}/seg/$1`);
+  return text.replace(/^((?:seg_[0-9]+\.ts)|(?:v[0-9]+\.m3u8))$/gm, `/api/hls/${encodeURIComponent(id)}/seg/$1`);
 }
 
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
@@ -5,13 +5,21 @@ function apiUrlFor(id: string, seg: string) {
   return `${base}/api/hls/${encodeURIComponent(id)}/${encodeURIComponent(seg)}`;
 }
 
-export async function GET(_req: Request, ctx: { params: Promise<{ id: string; seg: string }> }) {
+export async function GET(req: Request, ctx: { params: Promise<{ id: string; seg: string }> }) {
   const { id, seg } = await ctx.params;
   const cookieStore = await cookies();
   const token = cookieStore.get('mvbar_token')?.value;
   if (!token) return new Response('Unauthorized', { status: 401 });
 
-  const upstream = await fetch(apiUrlFor(id, seg), { headers: { authorization: `Bearer ${token}` } });
+  const userAgent = req.headers.get('user-agent') ?? undefined;
+  const forwardedFor = req.headers.get('x-forwarded-for') ?? undefined;
+  const upstream = await fetch(apiUrlFor(id, seg), {
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...(userAgent ? { 'user-agent': userAgent } : {}),
+      ...(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}),
+    },
+  });
 
   const headers = new Headers();
   for (const k of ['content-type', 'content-length']) {
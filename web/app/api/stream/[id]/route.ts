@@ -12,11 +12,16 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
   if (!token) return new Response('Unauthorized', { status: 401 });
 
   const range = req.headers.get('range') ?? undefined;
+  // Lets the API tell players apart in the active streams list
+  const userAgent = req.headers.get('user-agent') ?? undefined;
+  const forwardedFor = req.headers.get('x-forwarded-for') ?? undefined;
 
   const upstream = await fetch(apiUrlFor(id), {
     headers: {
       authorization: `Bearer ${token}`,
       ...(range ? { range } : {}),
+      ...(userAgent ? { 'user-agent': userAgent } : {}),
+      ...(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}),
     },
   });
 
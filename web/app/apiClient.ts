@@ -26,7 +26,10 @@ export async function login(email: string, password: string) {
 }
 
 export async function me(token?: string) {
-  return (await apiFetch('/auth/me', { method: 'GET' }, token)) as { ok: boolean; user?: { id: string; email: string; role: string } };
+  return (await apiFetch('/auth/me', { method: 'GET' }, token)) as {
+    ok: boolean;
+    user?: { id: string; email: string; role: string; avatar_path?: string | null; download_allowed?: boolean };
+  };
 }
 
 export async function logout(token?: string) {
@@ -59,23 +62,104 @@ export async function adminLibraryWritable(token: string) {
   };
 }
 
-export async function adminUpdateTrackMetadata(
+export type TrackMetadataPatch = {
+  title?: string | null;
+  artists?: string[] | null;
+  album?: string | null;
+  albumArtist?: string | null;
+  trackNumber?: number | null;
+  discNumber?: number | null;
+  year?: number | null;
+  genre?: string | null;
+  country?: string | null;
+  language?: string | null;
+  composer?: string | null;
+  bpm?: number | null;
+  initialKey?: string | null;
+  isrc?: string | null;
+  musicbrainzTrackId?: string | null;
+  musicbrainzReleaseId?: string | null;
+  musicbrainzArtistId?: string | null;
+  musicbrainzAlbumArtistId?: string | null;
+};
+
+export async function adminUpdateTrackMetadata(token: string, trackId: number, payload: TrackMetadataPatch) {
+  return (await apiFetch(`/admin/tracks/${trackId}/metadata`, { method: 'POST', body: JSON.stringify(payload) }, token)) as { ok: boolean };
+}
+
+export type TrackExtendedMetadata = {
+  composer: string | null;
+  bpm: number | null;
+  initialKey: string | null;
+  isrc: string | null;
+  musicbrainzTrackId: string | null;
+  musicbrainzReleaseId: string | null;
+  musicbrainzArtistId: string | null;
+  musicbrainzAlbumArtistId: string | null;
+};
+
+export async function adminGetTrackMetadata(token: string, trackId: number) {
+  return (await apiFetch(`/admin/tracks/${trackId}/metadata`, { method: 'GET' }, token)) as TrackExtendedMetadata & {
+    ok: boolean;
+    format: 'id3' | 'vorbis' | 'mp4' | null;
+    canUndo: boolean;
+  };
+}
+
+export async function adminUndoTrackMetadata(token: string, trackId: number) {
+  return (await apiFetch(`/admin/tracks/${trackId}/metadata/undo`, { method: 'POST', body: JSON.stringify({}) }, token)) as { ok: boolean };
+}
+
+export type BulkTagField =
+  | 'title' | 'album' | 'artists' | 'albumArtist' | 'genre' | 'year' | 'trackNumber' | 'discNumber' | 'country' | 'language'
+  | 'composer' | 'bpm' | 'initialKey' | 'isrc'
+  | 'musicbrainzTrackId' | 'musicbrainzReleaseId' | 'musicbrainzArtistId' | 'musicbrainzAlbumArtistId';
+
+export type BulkTagChange = {
+  trackId: number;
+  path: string;
+  fields: Partial<Record<BulkTagField, { from: string[]; to: string[] }>>;
+};
+
+export async function adminBulkUpdateTrackMetadata(
   token: string,
-  trackId: number,
   payload: {
-    title?: string | null;
-    artists?: string[] | null;
-    album?: string | null;
-    albumArtist?: string | null;
-    trackNumber?: number | null;
-    discNumber?: number | null;
-    year?: number | null;
-    genre?: string | null;
-    country?: string | null;
-    language?: string | null;
+    trackIds?: number[];
+    albumId?: number;
+    set?: TrackMetadataPatch;
+    replace?: Array<{ field: BulkTagField; find: string; replace: string; regex?: boolean; caseSensitive?: boolean }>;
+    renumber?: boolean;
+    dryRun?: boolean;
   }
 ) {
-  return (await apiFetch(`/admin/tracks/${trackId}/metadata`, { method: 'POST', body: JSON.stringify(payload) }, token)) as { ok: boolean };
+  return (await apiFetch('/admin/tracks/metadata/bulk', { method: 'POST', body: JSON.stringify(payload) }, token)) as {
+    ok: boolean;
+    dryRun: boolean;
+    total: number;
+    changes: BulkTagChange[];
+    updated?: number;
+    failed?: Array<{ trackId: number; path: string; error: string }>;
+  };
+}
+
+export type OrganizeReport = {
+  ok: boolean;
+  dryRun: boolean;
+  template: string;
+  total: number;
+  unchanged: number;
+  moves: Array<{ trackId: number; from: string; to: string; sidecars: Array<{ from: string; to: string }> }>;
+  covers: Array<{ from: string; to: string[]; keepSource: boolean }>;
+  conflicts: Array<{ trackId: number; from: string; to: string; reason: string }>;
+  moved?: number;
+  failed?: Array<{ trackId: number; from: string; to: string; reason: string }>;
+};
+
+export async function adminOrganizeLibrary(
+  token: string,
+  payload: { libraryId: number; template: string; albumId?: number; trackIds?: number[]; dryRun: boolean }
+) {
+  return (await apiFetch('/admin/library/organize', { method: 'POST', body: JSON.stringify(payload) }, token)) as OrganizeReport;
 }
 
 export async function listLibraries(token: string) {
@@ -92,7 +176,45 @@ export async function adminDeleteLibrary(token: string, libraryId: number, opts?
 }
 
 export async function listAdminUsers(token: string) {
-  return (await apiFetch('/admin/users', { method: 'GET' }, token)) as { ok: boolean; users: Array<{ id: string; email: string; role: string }> };
+  return (await apiFetch('/admin/users', { method: 'GET' }, token)) as {
+    ok: boolean;
+    users: Array<{ id: string; email: string; role: string; download_allowed: boolean }>;
+  };
+}
+
+export async function adminSetUserDownload(token: string, userId: string, allowed: boolean) {
+  return (await apiFetch(`/admin/users/${encodeURIComponent(userId)}/download`, { method: 'PUT', body: JSON.stringify({ allowed }) }, token)) as { ok: boolean };
+}
+
+export type ActiveStream = {
+  id: string;
+  userId: string;
+  email: string | null;
+  client: 'web' | 'hls' | 'cast' | 'subsonic';
+  clientName: string | null;
+  ip: string;
+  trackId: number;
+  title: string | null;
+  artist: string | null;
+  durationMs: number | null;
+  profile: string;
+  bytesSent: number;
+  startedAt: number;
+  lastActiveAt: number;
+};
+
+export type StreamBandwidthRow = { day: string; userId: string; email: string | null; client: string; bytes: number; streams: number };
+
+export async function adminListStreams(token: string) {
+  return (await apiFetch('/admin/streams', { method: 'GET' }, token)) as { ok: boolean; sessions: ActiveStream[] };
+}
+
+export async function adminKillStream(token: string, sessionId: string) {
+  return (await apiFetch(`/admin/streams/${encodeURIComponent(sessionId)}`, { method: 'DELETE' }, token)) as { ok: boolean };
+}
+
+export async function adminStreamBandwidth(token: string, days = 14) {
+  return (await apiFetch(`/admin/streams/bandwidth?days=${days}`, { method: 'GET' }, token)) as { ok: boolean; days: number; rows: StreamBandwidthRow[] };
 }
 
 export async function adminCreateUser(token: string, params: { email: string; password: string; role: 'admin' | 'user' }) {
@@ -204,6 +326,136 @@ export async function listFavorites(token: string, limit = 100, offset = 0) {
   };
 }
 
+export async function setTrackRating(token: string, trackId: number, rating: number) {
+  return (await apiFetch(`/ratings/${trackId}`, { method: 'PUT', body: JSON.stringify({ rating }) }, token)) as {
+    ok: boolean;
+    trackId: number;
+    rating: number;
+  };
+}
+
+export async function listRatings(token: string) {
+  return (await apiFetch('/ratings', { method: 'GET' }, token)) as {
+    ok: boolean;
+    ratings: Array<{ trackId: number; rating: number }>;
+  };
+}
+
+export async function getPlayQueue(token: string) {
+  return (await apiFetch('/queue', { method: 'GET' }, token)) as {
+    ok: boolean;
+    tracks: Array<{ id: number; title: string | null; artist: string | null; album: string | null; duration_ms: number | null }>;
+    index: number;
+    positionMs: number;
+    changedBy: string | null;
+    updatedAt: string | null;
+  };
+}
+
+export async function savePlayQueue(token: string, body: { trackIds: number[]; index: number; positionMs: number; clientId: string }) {
+  return (await apiFetch('/queue', { method: 'PUT', body: JSON.stringify({ ...body, client: 'web' }) }, token)) as {
+    ok: boolean;
+    updatedAt: string;
+  };
+}
+
+export type Share = {
+  id: number;
+  url: string;
+  kind: string;
+  title: string | null;
+  description: string | null;
+  owner: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  expired: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  trackCount: number;
+};
+
+export async function listShares(token: string, all = false) {
+  return (await apiFetch(`/shares${all ? '?all=1' : ''}`, { method: 'GET' }, token)) as { ok: boolean; shares: Share[] };
+}
+
+export async function createShare(
+  token: string,
+  body: { kind?: 'track' | 'album' | 'tracks'; title?: string; trackIds?: number[]; playlistId?: number; description?: string; password?: string; expiresAt?: string | null }
+) {
+  return (await apiFetch('/shares', { method: 'POST', body: JSON.stringify(body) }, token)) as { ok: boolean; share: Share | null };
+}
+
+export async function deleteShare(token: string, id: number) {
+  return (await apiFetch(`/shares/${id}`, { method: 'DELETE' }, token)) as { ok: boolean };
+}
+
+export type RadioStation = {
+  id: number;
+  name: string;
+  streamUrl: string;
+  homepageUrl: string | null;
+  artworkUrl: string | null;
+  relay: boolean;
+  shared: boolean;
+  editable: boolean;
+  // Relay URL on our origin when the relay is enabled, otherwise the station's own stream
+  playUrl: string;
+};
+
+export async function listRadioStations(token: string) {
+  return (await apiFetch('/radio', { method: 'GET' }, token)) as { ok: boolean; stations: RadioStation[] };
+}
+
+export async function createRadioStation(
+  token: string,
+  body: { name: string; streamUrl: string; homepageUrl?: string; artworkUrl?: string; relay?: boolean; shared?: boolean }
+) {
+  return (await apiFetch('/radio', { method: 'POST', body: JSON.stringify(body) }, token)) as { ok: boolean; station: RadioStation };
+}
+
+export async function updateRadioStation(
+  token: string,
+  id: number,
+  body: { name?: string; streamUrl?: string; homepageUrl?: string | null; artworkUrl?: string | null; relay?: boolean }
+) {
+  return (await apiFetch(`/radio/${id}`, { method: 'PATCH', body: JSON.stringify(body) }, token)) as { ok: boolean; station: RadioStation | null };
+}
+
+export async function deleteRadioStation(token: string, id: number) {
+  return (await apiFetch(`/radio/${id}`, { method: 'DELETE' }, token)) as { ok: boolean };
+}
+
+export type ChatMessage = {
+  id: number;
+  userId: string;
+  username: string;
+  message: string;
+  time: number;
+};
+
+export async function listChatMessages(token: string, since?: number) {
+  const qs = since ? `?since=${since}` : '';
+  return (await apiFetch(`/chat${qs}`, { method: 'GET' }, token)) as { ok: boolean; messages: ChatMessage[] };
+}
+
+export async function sendChatMessage(token: string, message: string) {
+  return (await apiFetch('/chat', { method: 'POST', body: JSON.stringify({ message }) }, token)) as { ok: boolean; message: ChatMessage };
+}
+
+export type PublicShare = {
+  ok: boolean;
+  share: { title: string | null; description: string | null; kind: string; owner: string; expiresAt: string | null };
+  tracks: Array<{ id: number; title: string | null; artist: string | null; album: string | null; duration_ms: number | null; streamUrl: string; artUrl: string | null }>;
+};
+
+export async function openPublicShare(shareToken: string, password?: string) {
+  return (await apiFetch(`/public/shares/${encodeURIComponent(shareToken)}`, {
+    method: 'POST',
+    body: JSON.stringify(password ? { password } : {})
+  })) as PublicShare;
+}
+
 export async function browseArtists(token: string, limit = 50, offset = 0, sort: 'az' | 'tracks_desc' | 'albums_desc' = 'az', q?: string) {
   const url = `/browse/artists?limit=${limit}&offset=${offset}&sort=${sort}${q ? `&q=${encodeURIComponent(q)}` : ''}`;
   return (await apiFetch(url, { method: 'GET' }, token)) as {
@@ -219,8 +471,18 @@ export async function browseArtistById(token: string, id: number) {
   return (await apiFetch(`/browse/artist/${id}`, { method: 'GET' }, token)) as {
     ok: boolean;
     artist: { id: number; name: string; art_path: string | null; art_hash: string | null };
-    albums: Array<{ album: string; display_artist: string; track_count: number; art_path: string | null; art_hash: string | null }>;
-    appearsOn: Array<{ album: string; album_artist: string; track_count: number; art_path: string | null; art_hash: string | null }>;
+    albums: Array<{ id: number; album: string; display_artist: string; track_count: number; art_path: string | null; art_hash: string | null }>;
+    appearsOn: Array<{ id: number; album: string; album_artist: string; track_count: number; art_path: string | null; art_hash: string | null }>;
+  };
+}
+
+export async function browseArtistInfo(token: string, id: number) {
+  return (await apiFetch(`/browse/artist/${id}/info`, { method: 'GET' }, token)) as {
+    ok: boolean;
+    biography: string;
+    musicBrainzId: string | null;
+    lastfmUrl: string | null;
+    similar: Array<{ id: number; name: string; art_path: string | null; art_hash: string | null }>;
   };
 }
 
@@ -228,8 +490,8 @@ export async function browseArtist(token: string, name: string) {
   return (await apiFetch(`/browse/artist?name=${encodeURIComponent(name)}`, { method: 'GET' }, token)) as {
     ok: boolean;
     artist: string;
-    albums: Array<{ album: string; track_count: number }>;
-    appearsOn?: Array<{ album: string; track_count: number }>;
+    albums: Array<{ id: number; album: string; track_count: number }>;
+    appearsOn?: Array<{ id: number; album: string; track_count: number }>;
     tracks: Array<{ id: string; title: string | null; artist: string | null; album: string | null; duration_ms: number | null }>;
   };
 }
@@ -238,7 +500,7 @@ export async function browseAlbums(token: string, limit = 50, offset = 0, sort:
   const url = `/browse/albums?limit=${limit}&offset=${offset}&sort=${sort}${artistId ? `&artistId=${artistId}` : ''}${q ? `&q=${encodeURIComponent(q)}` : ''}`;
   return (await apiFetch(url, { method: 'GET' }, token)) as {
     ok: boolean;
-    albums: Array<{ display_artist: string; album: string; track_count: number; art_path: string | null; art_hash: string | null }>;
+    albums: Array<{ id: number; display_artist: string; album: string; track_count: number; art_path: string | null; art_hash: string | null }>;
     total: number;
     limit: number;
     offset: number;
@@ -344,38 +606,47 @@ export async function recordSkip(token: string, trackId: number, pct: number) {
   return (await apiFetch(`/stats/skip/${trackId}`, { method: 'POST', body: JSON.stringify({ pct }) }, token)) as { ok: boolean };
 }
 
+export type AlbumDetailResponse = {
+  ok: boolean;
+  album: {
+    id: number | null;
+    name: string;
+    artist: string;
+    art_path: string | null;
+    art_hash: string | null;
+    track_count: number;
+    total_discs?: number;
+  };
+  tracks: Array<{
+    id: number;
+    title: string | null;
+    artist: string | null;
+    album_artist: string | null;
+    album: string | null;
+    duration_ms: number | null;
+    art_path: string | null;
+    path?: string;
+    genre?: string | null;
+    country?: string | null;
+    language?: string | null;
+    year?: number | null;
+    album_id?: number | null;
+    artists: Array<{ id: number; name: string }>;
+    discNumber?: number | null;
+    trackNumber?: number | null;
+  }>;
+};
+
+export async function browseAlbumById(token: string, id: number) {
+  return (await apiFetch(`/browse/albums/${id}`, { method: 'GET' }, token)) as AlbumDetailResponse;
+}
+
+// Name-based lookup for links made before albums had ids
 export async function browseAlbum(token: string, artist: string | null | undefined, album: string, artistId?: number) {
   let url = `/browse/album?album=${encodeURIComponent(album)}`;
   if (artist) url += `&artist=${encodeURIComponent(artist)}`;
   if (artistId) url += `&artistId=${artistId}`;
-  return (await apiFetch(url, { method: 'GET' }, token)) as {
-    ok: boolean;
-    album: {
-      name: string;
-      artist: string;
-      art_path: string | null;
-      art_hash: string | null;
-      track_count: number;
-      total_discs?: number;
-    };
-    tracks: Array<{
-      id: number;
-      title: string | null;
-      artist: string | null;
-      album_artist: string | null;
-      album: string | null;
-      duration_ms: number | null;
-      art_path: string | null;
-      path?: string;
-      genre?: string | null;
-      country?: string | null;
-      language?: string | null;
-      year?: number | null;
-      artists: Array<{ id: number; name: string }>;
-      discNumber?: number | null;
-      trackNumber?: number | null;
-    }>;
-  };
+  return (await apiFetch(url, { method: 'GET' }, token)) as AlbumDetailResponse;
 }
 
 export async function getRecommendations(token: string) {
@@ -404,6 +675,30 @@ export async function requestHlsTranscode(token: string, trackId: number) {
   };
 }
 
+// Drops our pending transcode for a track the user moved away from
+export async function cancelHlsTranscode(token: string, trackId: number) {
+  return (await apiFetch(`/hls/${trackId}/cancel`, { method: 'POST' }, token)) as { ok: boolean; cancelled: number };
+}
+
+// Warms the HLS cache for upcoming queue entries; also cancels prefetches that fell out of the queue
+export async function prefetchHlsTranscodes(token: string, trackIds: number[]) {
+  return (await apiFetch('/hls/prefetch', { method: 'POST', body: JSON.stringify({ trackIds }) }, token)) as {
+    ok: boolean;
+    queued: number[];
+    ready: number[];
+    cancelled: number;
+  };
+}
+
+// Queues HLS transcodes for an album below plays and prefetches so it starts instantly later
+export async function adminPretranscodeHls(token: string, payload: { albumId?: number; trackIds?: number[] }) {
+  return (await apiFetch('/admin/hls/pretranscode', { method: 'POST', body: JSON.stringify(payload) }, token)) as {
+    ok: boolean;
+    queued: number;
+    cached: number;
+  };
+}
+
 export async function getHlsStatus(token: string, trackId: number) {
   return (await apiFetch(`/hls/${trackId}/status`, { method: 'GET' }, token)) as {
     ok: boolean;
@@ -415,6 +710,75 @@ export async function getHlsStatus(token: string, trackId: number) {
   };
 }
 
+// ReplayGain in dB (relative to -18 LUFS) with linear peaks; null when the track has not been analyzed
+export type TrackReplayGain = {
+  trackGain: number | null;
+  trackPeak: number | null;
+  albumGain: number | null;
+  albumPeak: number | null;
+};
+
+export async function getTrackReplayGain(token: string, trackId: number) {
+  return (await apiFetch(`/library/tracks/${trackId}/replaygain`, { method: 'GET' }, token)) as { ok: boolean } & TrackReplayGain;
+}
+
+// Encoder delay/padding in samples and the total encoded sample count, when the scanner found gapless info
+export type TrackGapless = {
+  album: string | null;
+  albumArtist: string | null;
+  encoderDelay: number | null;
+  encoderPadding: number | null;
+  sampleRate: number | null;
+  sampleCount: number | null;
+};
+
+export async function getTrackGapless(token: string, trackId: number) {
+  return (await apiFetch(`/library/tracks/${trackId}/gapless`, { method: 'GET' }, token)) as { ok: boolean } & TrackGapless;
+}
+
+export type DownloadTarget =
+  | { kind: 'album'; albumId: number }
+  | { kind: 'artist'; artistId: number }
+  | { kind: 'playlist'; playlistId: number }
+  | { kind: 'smart-playlist'; smartPlaylistId: number }
+  | { kind: 'folder'; libraryId: number; path: string };
+
+export type DownloadOptions = { pattern?: string; format?: 'mp3' | 'opus'; bitrate?: number };
+
+// ZIP downloads are plain GETs so the browser streams them to disk; the auth cookie authenticates them
+export function downloadZipUrl(target: DownloadTarget, opts: DownloadOptions = {}) {
+  const qs = new URLSearchParams();
+  let path: string;
+  if (target.kind === 'album') {
+    path = `albums/${target.albumId}`;
+  } else if (target.kind === 'artist') {
+    path = `artist/${target.artistId}`;
+  } else if (target.kind === 'playlist') {
+    path = `playlist/${target.playlistId}`;
+  } else if (target.kind === 'smart-playlist') {
+    path = `smart-playlist/${target.smartPlaylistId}`;
+  } else {
+    path = 'folder';
+    qs.set('libraryId', String(target.libraryId));
+    qs.set('path', target.path);
+  }
+  if (opts.pattern) qs.set('pattern', opts.pattern);
+  if (opts.format) qs.set('format', opts.format);
+  if (opts.format && opts.bitrate) qs.set('bitrate', String(opts.bitrate));
+  const query = qs.toString();
+  return `${API_BASE}/download/${path}${query ? `?${query}` : ''}`;
+}
+
+// Seek-bar peaks (0-255 per bucket); null while the worker is still generating them
+export type TrackWaveform = {
+  state: 'queued' | 'running' | 'done' | 'failed';
+  peaks: number[] | null;
+};
+
+export async function getTrackWaveform(token: string, trackId: number) {
+  return (await apiFetch(`/library/tracks/${trackId}/waveform`, { method: 'GET' }, token)) as { ok: boolean } & TrackWaveform;
+}
+
 export async function getLibraryStats(token: string) {
   return (await apiFetch('/admin/library/stats', { method: 'GET' }, token)) as {
     ok: boolean;
@@ -486,6 +850,10 @@ export type SmartFilters = {
     min: number | null;
     max: number | null;
   };
+  rating: {
+    min: number | null;
+    max: number | null;
+  };
   dateAdded: {
     from: string | null;
     to: string | null;
@@ -612,6 +980,30 @@ export async function clearSubsonicPassword(token: string) {
   return (await apiFetch('/subsonic/password', { method: 'DELETE' }, token)) as { ok: boolean };
 }
 
+export type SubsonicApiKey = {
+  id: number;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export async function listSubsonicApiKeys(token: string) {
+  return (await apiFetch('/subsonic/api-keys', { method: 'GET' }, token)) as { ok: boolean; keys: SubsonicApiKey[] };
+}
+
+// The plain key is only returned by this call
+export async function createSubsonicApiKey(token: string, name: string) {
+  return (await apiFetch('/subsonic/api-keys', {
+    method: 'POST',
+    body: JSON.stringify({ name })
+  }, token)) as { ok: boolean; key: string; apiKey: SubsonicApiKey };
+}
+
+export async function revokeSubsonicApiKey(token: string, id: number) {
+  return (await apiFetch(`/subsonic/api-keys/${id}`, { method: 'DELETE' }, token)) as { ok: boolean };
+}
+
 export async function getListenBrainzRecommendations(token: string) {
   return (await apiFetch('/listenbrainz/recommendations', { method: 'GET' }, token)) as {
     ok: boolean;
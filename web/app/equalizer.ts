@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePreferences, type UserPreferences } from './preferencesStore';
+
+export type EqBandType = 'lowshelf' | 'peaking' | 'highshelf';
+
+export interface EqBand {
+  type: EqBandType;
+  freq: number;
+  gain: number;
+  q: number;
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  preamp: number;
+  bands: EqBand[];
+}
+
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_GAIN_RANGE = 12;
+// Key used for outputs without a preset of their own, and when the browser hides device names
+export const DEFAULT_OUTPUT_KEY = 'default';
+
+export function flatBands(): EqBand[] {
+  return EQ_FREQUENCIES.map((freq, i) => ({
+    type: i === 0 ? 'lowshelf' : i === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking',
+    freq,
+    gain: 0,
+    q: 1.41,
+  }));
+}
+
+function builtin(id: string, name: string, gains: number[], preamp = 0): EqPreset {
+  return { id: `builtin:${id}`, name, preamp, bands: flatBands().map((b, i) => ({ ...b, gain: gains[i] })) };
+}
+
+// Read-only presets offered next to the user's own; a negative preamp leaves headroom for the boosts
+export const BUILTIN_EQ_PRESETS: EqPreset[] = [
+  builtin('bass', 'Bass Boost', [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], -5),
+  builtin('treble', 'Treble Boost', [0, 0, 0, 0, 0, 1, 2, 4, 5, 6], -5),
+  builtin('vocal', 'Vocal', [-2, -2, -1, 0, 2, 4, 4, 2, 0, -1], -3),
+  builtin('loudness', 'Loudness', [5, 4, 2, 0, -1, -1, 0, 2, 4, 5], -4),
+];
+
+export function isBuiltinPreset(id: string) {
+  return id.startsWith('builtin:');
+}
+
+export function allEqPresets(prefs: UserPreferences) {
+  return [...BUILTIN_EQ_PRESETS, ...(prefs.eq_presets ?? [])];
+}
+
+// Preset for an output: its own choice, else the default output's, else none (flat)
+export function resolveEqPreset(prefs: UserPreferences, outputKey: string): EqPreset | null {
+  const outputs = prefs.eq_outputs ?? {};
+  const id = outputKey in outputs ? outputs[outputKey] : outputs[DEFAULT_OUTPUT_KEY] ?? null;
+  if (!id) return null;
+  return allEqPresets(prefs).find((p) => p.id === id) ?? null;
+}
+
+type AudioOutput = { key: string; named: boolean };
+
+// The system default output's name. Browsers list the default first (Chrome also as "Default - <device>"),
+// but only name devices once the page holds a media permission; until then every output shares the default key.
+async function detectOutput(): Promise<AudioOutput> {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const outputs = devices.filter((d) => d.kind === 'audiooutput');
+    const current = outputs.find((d) => d.deviceId === 'default') ?? outputs[0];
+    const label = current?.label.replace(/^default\s*-\s*/i, '').trim();
+    return label ? { key: label, named: true } : { key: DEFAULT_OUTPUT_KEY, named: false };
+  } catch {
+    return { key: DEFAULT_OUTPUT_KEY, named: false };
+  }
+}
+
+// Device names are only exposed after a media permission; a short microphone grant unlocks them.
+// The stream is stopped right away and nothing is recorded. Resolves false when refused or unsupported.
+export async function requestOutputNames(): Promise<boolean> {
+  const media = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+  if (!media?.getUserMedia) return false;
+  try {
+    const stream = await media.getUserMedia({ audio: true });
+    stream.getTracks().forEach((t) => t.stop());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Current output device, updated when headphones or speakers are plugged in or removed.
+// `named` is false while the browser hides device names; refresh re-reads them after a permission grant.
+export function useAudioOutput() {
+  const [output, setOutput] = useState<AudioOutput>({ key: DEFAULT_OUTPUT_KEY, named: false });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const media = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!media?.enumerateDevices) return;
+    let cancelled = false;
+    const refresh = () => {
+      detectOutput().then((o) => { if (!cancelled) setOutput(o); });
+    };
+    refresh();
+    media.addEventListener?.('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      media.removeEventListener?.('devicechange', refresh);
+    };
+  }, [version]);
+
+  return { ...output, refresh: () => setVersion((v) => v + 1) };
+}
+
+export function useAudioOutputKey() {
+  return useAudioOutput().key;
+}
+
+export function useActiveEqPreset() {
+  const outputKey = useAudioOutputKey();
+  const preferences = usePreferences((s) => s.preferences);
+  return resolveEqPreset(preferences, outputKey);
+}
+
+export type EqChain = { input: GainNode; filters: BiquadFilterNode[] };
+
+// Preamp followed by one biquad per band; the caller connects its sources to input
+export function createEqChain(ctx: AudioContext): EqChain {
+  const input = ctx.createGain();
+  const filters = EQ_FREQUENCIES.map(() => ctx.createBiquadFilter());
+  let node: AudioNode = input;
+  for (const f of filters) node = node.connect(f);
+  node.connect(ctx.destination);
+  applyEqPreset({ input, filters }, null);
+  return { input, filters };
+}
+
+export function applyEqPreset(chain: EqChain, preset: EqPreset | null) {
+  const bands = preset?.bands.length === chain.filters.length ? preset.bands : flatBands();
+  chain.input.gain.value = preset ? Math.pow(10, preset.preamp / 20) : 1;
+  chain.filters.forEach((f, i) => {
+    const b = bands[i];
+    f.type = b.type;
+    f.frequency.value = b.freq;
+    f.Q.value = b.q;
+    f.gain.value = preset ? b.gain : 0;
+  });
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { create } from 'zustand';
-import { closePodcastPlayer, closeAudiobookPlayer } from './uiStore';
+import { closePodcastPlayer, closeAudiobookPlayer, closeRadioPlayer } from './uiStore';
 import { useToastStore } from './Toast';
 
 export type QueueTrack = { id: number; title: string | null; artist: string | null; album?: string | null };
@@ -10,6 +10,8 @@ type PlayerState = {
   queue: QueueTrack[];
   index: number;
   isOpen: boolean;
+  // Position to seek to once the current track loads (set when a saved queue is restored)
+  resumePositionMs: number;
   setQueueAndPlay: (tracks: QueueTrack[], startIndex: number) => void;
   playTrackNow: (t: QueueTrack) => void;
   playIndex: (idx: number) => void;
@@ -24,21 +26,26 @@ type PlayerState = {
   prev: () => void;
   close: () => void;
   reset: () => void;
+  restoreQueue: (tracks: QueueTrack[], index: number, positionMs: number) => void;
+  takeResumePosition: () => number;
 };
 
 export const usePlayer = create<PlayerState>((set, get) => ({
   queue: [],
   index: 0,
   isOpen: false,
+  resumePositionMs: 0,
   setQueueAndPlay: (tracks, startIndex) => {
     closePodcastPlayer();
     closeAudiobookPlayer();
+    closeRadioPlayer();
     const idx = Math.max(0, Math.min(startIndex, tracks.length - 1));
     set({ queue: tracks, index: idx, isOpen: tracks.length > 0 });
   },
   playTrackNow: (t) => {
     closePodcastPlayer();
     closeAudiobookPlayer();
+    closeRadioPlayer();
     set({ queue: [t], index: 0, isOpen: true });
   },
   playIndex: (idx) => {
@@ -46,6 +53,7 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     if (idx >= 0 && idx < s.queue.length) {
       closePodcastPlayer();
       closeAudiobookPlayer();
+      closeRadioPlayer();
       set({ index: idx, isOpen: true });
     }
   },
@@ -73,6 +81,7 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     if (s.queue.length === 0) {
       closePodcastPlayer();
       closeAudiobookPlayer();
+      closeRadioPlayer();
       set({ queue: [t], index: 0, isOpen: true });
     } else {
       const insertAt = s.index + 1;
@@ -90,6 +99,7 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     if (s.queue.length === 0) {
       closePodcastPlayer();
       closeAudiobookPlayer();
+      closeRadioPlayer();
       set({ queue: tracks, index: 0, isOpen: true });
     } else {
       const insertAt = s.index + 1;
@@ -157,5 +167,18 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     set({ index: s.index - 1, isOpen: true });
   },
   close: () => set({ isOpen: false }),
-  reset: () => set({ queue: [], index: 0, isOpen: false }),
+  reset: () => set({ queue: [], index: 0, isOpen: false, resumePositionMs: 0 }),
+  restoreQueue: (tracks, index, positionMs) => {
+    if (tracks.length === 0) return;
+    closePodcastPlayer();
+    closeAudiobookPlayer();
+    closeRadioPlayer();
+    const idx = Math.max(0, Math.min(index, tracks.length - 1));
+    set({ queue: tracks, index: idx, isOpen: true, resumePositionMs: Math.max(0, positionMs) });
+  },
+  takeResumePosition: () => {
+    const ms = get().resumePositionMs;
+    if (ms > 0) set({ resumePositionMs: 0 });
+    return ms;
+  },
 }));
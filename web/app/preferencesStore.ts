@@ -2,10 +2,18 @@
 
 import { create } from 'zustand';
 import { apiFetch } from './apiClient';
+import type { EqPreset } from './equalizer';
 
 export interface UserPreferences {
   auto_continue: boolean;
   prefer_hls: boolean;
+  transcode_format: 'raw' | 'mp3' | 'opus' | 'aac';
+  transcode_max_bitrate: number;
+  replaygain_mode: 'off' | 'track' | 'album';
+  crossfade_seconds: number;
+  eq_presets: EqPreset[];
+  // Output device key -> preset id; null plays flat
+  eq_outputs: Record<string, string | null>;
 }
 
 interface PreferencesState {
@@ -15,12 +23,19 @@ interface PreferencesState {
   loading: boolean;
   load: (token: string) => Promise<void>;
   update: (token: string, updates: Partial<UserPreferences>) => Promise<void>;
+  applyRemote: (preferences: UserPreferences) => void;
   reset: () => void;
 }
 
 const DEFAULT_PREFS: UserPreferences = {
   auto_continue: false,
   prefer_hls: false,
+  transcode_format: 'raw',
+  transcode_max_bitrate: 0,
+  replaygain_mode: 'off',
+  crossfade_seconds: 0,
+  eq_presets: [],
+  eq_outputs: {},
 };
 
 export const usePreferences = create<PreferencesState>((set, get) => ({
@@ -64,5 +79,8 @@ export const usePreferences = create<PreferencesState>((set, get) => ({
     }
   },
 
+  // Saved from another browser of the same user
+  applyRemote: (preferences: UserPreferences) => set({ preferences: { ...DEFAULT_PREFS, ...preferences } }),
+
   reset: () => set({ preferences: DEFAULT_PREFS, lastfmEnabled: false, loaded: false, loading: false }),
 }));
@@ -0,0 +1,35 @@
+'use client';
+
+import { create } from 'zustand';
+import { listRatings, setTrackRating } from './apiClient';
+
+type RatingsState = {
+  ratings: Map<number, number>;
+  lastChange: number;
+  refresh: (token: string) => Promise<void>;
+  getRating: (trackId: number) => number;
+  setRating: (token: string, trackId: number, rating: number) => Promise<void>;
+  applyRemote: (trackId: number, rating: number) => void;
+  clear: () => void;
+};
+
+export const useRatings = create<RatingsState>((set, get) => ({
+  ratings: new Map<number, number>(),
+  lastChange: 0,
+  refresh: async (token: string) => {
+    const r = await listRatings(token);
+    set({ ratings: new Map((r.ratings ?? []).map((x) => [Number(x.trackId), Number(x.rating)])), lastChange: Date.now() });
+  },
+  getRating: (trackId: number) => get().ratings.get(trackId) ?? 0,
+  setRating: async (token: string, trackId: number, rating: number) => {
+    await setTrackRating(token, trackId, rating);
+    get().applyRemote(trackId, rating);
+  },
+  applyRemote: (trackId: number, rating: number) => {
+    const ratings = new Map(get().ratings);
+    if (rating > 0) ratings.set(trackId, rating);
+    else ratings.delete(trackId);
+    set({ ratings, lastChange: Date.now() });
+  },
+  clear: () => set({ ratings: new Map<number, number>(), lastChange: 0 })
+}));
@@ -20,7 +20,8 @@ export type Route =
   | { type: 'recently-added' }
   | { type: 'browse'; sub?: 'artists' | 'albums' | 'genres' | 'countries' | 'languages' }
   | { type: 'browse-artist'; artistId: number; artistName: string }
-  | { type: 'browse-album'; artist: string; album: string; artistId?: number }
+  // artist/artistId only come from album links made before albums had ids (albumId 0)
+  | { type: 'browse-album'; albumId: number; album: string; artist?: string; artistId?: number }
   | { type: 'browse-genre'; genre: string }
   | { type: 'browse-country'; country: string }
   | { type: 'browse-language'; language: string }
@@ -32,6 +33,8 @@ export type Route =
   | { type: 'podcast'; podcastId: number }
   | { type: 'audiobooks' }
   | { type: 'audiobook'; audiobookId: number }
+  | { type: 'radio' }
+  | { type: 'chat' }
   | { type: 'settings' }
   | { type: 'admin' };
 
@@ -61,7 +64,9 @@ function routeToHash(route: Route): string {
     case 'recently-added': return '#/recently-added';
     case 'browse': return route.sub ? `#/browse/${route.sub}` : '#/browse';
     case 'browse-artist': return `#/browse/artist/${route.artistId}/${encodeURIComponent(route.artistName)}`;
-    case 'browse-album': return `#/browse/album/${encodeURIComponent(route.artist)}/${encodeURIComponent(route.album)}${route.artistId ? `?artistId=${route.artistId}` : ''}`;
+    case 'browse-album':
+      if (route.albumId) return `#/browse/albums/${route.albumId}/${encodeURIComponent(route.album)}`;
+      return `#/browse/album/${encodeURIComponent(route.artist ?? '')}/${encodeURIComponent(route.album)}${route.artistId ? `?artistId=${route.artistId}` : ''}`;
     case 'browse-genre': return `#/browse/genre/${encodeURIComponent(route.genre)}`;
     case 'browse-country': return `#/browse/country/${encodeURIComponent(route.country)}`;
     case 'browse-language': return `#/browse/language/${encodeURIComponent(route.language)}`;
@@ -73,6 +78,8 @@ function routeToHash(route: Route): string {
     case 'podcast': return `#/podcast/${route.podcastId}`;
     case 'audiobooks': return '#/audiobooks';
     case 'audiobook': return `#/audiobook/${route.audiobookId}`;
+    case 'radio': return '#/radio';
+    case 'chat': return '#/chat';
     case 'settings': return '#/settings';
     case 'admin': return '#/admin';
     default: return '#/for-you';
@@ -93,15 +100,20 @@ function hashToRoute(hash: string): Route {
   if (path === 'history') return { type: 'history' };
   if (path === 'settings') return { type: 'settings' };
   if (path === 'admin') return { type: 'admin' };
+  if (path === 'radio') return { type: 'radio' };
+  if (path === 'chat') return { type: 'chat' };
   
   // Browse routes
   if (parts[0] === 'browse') {
     if (parts[1] === 'artist' && parts[2]) {
       return { type: 'browse-artist', artistId: parseInt(parts[2], 10), artistName: parts[3] || '' };
     }
+    if (parts[1] === 'albums' && parts[2] && /^\d+$/.test(parts[2])) {
+      return { type: 'browse-album', albumId: parseInt(parts[2], 10), album: parts[3] || '' };
+    }
     if (parts[1] === 'album' && parts[2] && parts[3]) {
       const artistId = query.get('artistId');
-      return { type: 'browse-album', artist: parts[2], album: parts[3].split('?')[0], artistId: artistId ? parseInt(artistId, 10) : undefined };
+      return { type: 'browse-album', albumId: 0, artist: parts[2], album: parts[3].split('?')[0], artistId: artistId ? parseInt(artistId, 10) : undefined };
     }
     if (parts[1] === 'genre' && parts[2]) {
       return { type: 'browse-genre', genre: parts[2] };
@@ -341,6 +353,8 @@ export function getTabFromRoute(route: Route): string {
     case 'audiobooks':
     case 'audiobook':
       return 'audiobooks';
+    case 'radio': return 'radio';
+    case 'chat': return 'chat';
     case 'settings': return 'settings';
     case 'admin': return 'admin';
     default: return 'for-you';
@@ -0,0 +1,6 @@
+import { SharePage } from '../../SharePage';
+
+export default async function Share({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <SharePage shareToken={token} />;
+}
@@ -2,7 +2,7 @@
 
 import { create } from 'zustand';
 
-type User = { id: string; email: string; role: string; avatar_path?: string | null };
+type User = { id: string; email: string; role: string; avatar_path?: string | null; download_allowed?: boolean };
 
 type AuthState = {
   token: string | null;
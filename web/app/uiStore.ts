@@ -1,6 +1,7 @@
 'use client';
 
 import { create } from 'zustand';
+import type { RadioStation } from './apiClient';
 
 /**
  * UI Store - manages UI state that is NOT navigation
@@ -9,6 +10,7 @@ import { create } from 'zustand';
  * This store manages:
  * - Podcast episode playback (persists across navigation)
  * - Audiobook chapter playback (persists across navigation)
+ * - Internet radio playback (persists across navigation)
  * - UI preferences
  */
 
@@ -51,6 +53,10 @@ type UiState = {
   audiobookChapter: AudiobookChapter | null;
   setAudiobookChapter: (chapter: AudiobookChapter | null) => void;
   closeAudiobookPlayer: () => void;
+  // Radio player state (persists across navigation)
+  radioStation: RadioStation | null;
+  setRadioStation: (station: RadioStation | null) => void;
+  closeRadioPlayer: () => void;
 };
 
 export const useUi = create<UiState>((set) => ({
@@ -61,7 +67,7 @@ export const useUi = create<UiState>((set) => ({
       import('./playerStore').then(({ usePlayer }) => {
         usePlayer.getState().close();
       });
-      set({ audiobookChapter: null });
+      set({ audiobookChapter: null, radioStation: null });
     }
     set({ podcastEpisode: episode });
   },
@@ -73,11 +79,23 @@ export const useUi = create<UiState>((set) => ({
       import('./playerStore').then(({ usePlayer }) => {
         usePlayer.getState().close();
       });
-      set({ podcastEpisode: null });
+      set({ podcastEpisode: null, radioStation: null });
     }
     set({ audiobookChapter: chapter });
   },
   closeAudiobookPlayer: () => set({ audiobookChapter: null }),
+  radioStation: null,
+  setRadioStation: (station) => {
+    // Close the other players when tuning in
+    if (station) {
+      import('./playerStore').then(({ usePlayer }) => {
+        usePlayer.getState().close();
+      });
+      set({ podcastEpisode: null, audiobookChapter: null });
+    }
+    set({ radioStation: station });
+  },
+  closeRadioPlayer: () => set({ radioStation: null }),
 }));
 
 // Helper to close podcast when music starts (called from playerStore)
@@ -89,3 +107,8 @@ export function closePodcastPlayer() {
 export function closeAudiobookPlayer() {
   useUi.setState({ audiobookChapter: null });
 }
+
+// Helper to close radio when music starts (called from playerStore)
+export function closeRadioPlayer() {
+  useUi.setState({ radioStation: null });
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { getPlayQueue, savePlayQueue } from './apiClient';
+import { usePlayer, type QueueTrack } from './playerStore';
+import { useQueueUpdates } from './useWebSocket';
+
+// Identifies this browser tab so it can ignore its own queue:changed echoes
+const clientId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const SAVE_DEBOUNCE_MS = 1500;
+const POSITION_SAVE_INTERVAL_MS = 30000;
+
+function queueKey(queue: QueueTrack[], index: number) {
+  return `${queue.map((t) => t.id).join(',')}|${index}`;
+}
+
+// Keeps the player queue in sync with the server-side play queue shared with Subsonic clients
+export function usePlayQueueSync(token: string | null, positionSec: number) {
+  const positionRef = useRef(positionSec);
+  positionRef.current = positionSec;
+  const hydratedRef = useRef(false);
+  const lastKeyRef = useRef<string | null>(null);
+  const lastSavedPositionRef = useRef(0);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const lastRemoteUpdate = useQueueUpdates((s) => s.lastUpdate);
+
+  async function loadRemote(force: boolean) {
+    if (!token) return;
+    const r = await getPlayQueue(token);
+    const player = usePlayer.getState();
+    if (!force && player.queue.length > 0) return;
+    const tracks: QueueTrack[] = (r.tracks ?? []).map((t) => ({ id: Number(t.id), title: t.title, artist: t.artist, album: t.album }));
+    if (tracks.length === 0) return;
+    lastKeyRef.current = queueKey(tracks, r.index);
+    lastSavedPositionRef.current = r.positionMs;
+    player.restoreQueue(tracks, r.index, r.positionMs);
+  }
+
+  async function save() {
+    if (!token || !hydratedRef.current) return;
+    const { queue, index } = usePlayer.getState();
+    const positionMs = Math.round(positionRef.current * 1000);
+    lastKeyRef.current = queueKey(queue, index);
+    lastSavedPositionRef.current = positionMs;
+    await savePlayQueue(token, { trackIds: queue.map((t) => t.id), index, positionMs, clientId });
+  }
+
+  // Pick up the saved queue when signing in, unless something is already queued locally
+  useEffect(() => {
+    hydratedRef.current = false;
+    if (!token) return;
+    loadRemote(false)
+      .catch(() => {})
+      .finally(() => {
+        hydratedRef.current = true;
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // Save whenever the queue contents or the current entry change
+  useEffect(() => {
+    return usePlayer.subscribe((state) => {
+      // An emptied queue (sign-out, removing the last entry) keeps the saved one for other devices
+      if (!hydratedRef.current || state.queue.length === 0) return;
+      if (queueKey(state.queue, state.index) === lastKeyRef.current) return;
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(() => {
+        save().catch(() => {});
+      }, SAVE_DEBOUNCE_MS);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // Periodically persist the playback position so another device can resume close to it
+  useEffect(() => {
+    if (!token) return;
+    const timer = setInterval(() => {
+      if (!usePlayer.getState().isOpen) return;
+      const positionMs = Math.round(positionRef.current * 1000);
+      if (Math.abs(positionMs - lastSavedPositionRef.current) < 5000) return;
+      save().catch(() => {});
+    }, POSITION_SAVE_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // Another session saved the queue: adopt it when this tab isn't playing anything
+  useEffect(() => {
+    if (!lastRemoteUpdate || !token) return;
+    const event = useQueueUpdates.getState().lastEvent;
+    if (!event || event.clientId === clientId) return;
+    if (usePlayer.getState().isOpen) return;
+    loadRemote(true).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastRemoteUpdate]);
+}
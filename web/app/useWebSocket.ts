@@ -3,13 +3,16 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { create } from 'zustand';
 import { useFavorites } from './favoritesStore';
+import { useRatings } from './ratingsStore';
+import { usePreferences, type UserPreferences } from './preferencesStore';
 import { useToastStore } from './Toast';
 import { useAuth } from './store';
+import type { ActiveStream, ChatMessage } from './apiClient';
 
 type LibraryUpdate = {
   type: 'library:update';
   data: {
-    event: 'track_added' | 'track_updated' | 'track_removed';
+    event: 'track_added' | 'track_updated' | 'track_removed' | 'track_moved';
     path?: string;
     title?: string;
     artist?: string;
@@ -25,6 +28,30 @@ type FavoriteUpdate = {
   };
 };
 
+type RatingUpdate = {
+  type: 'rating:changed';
+  data: {
+    trackId: number;
+    rating: number;
+  };
+};
+
+type PreferencesUpdate = {
+  type: 'preferences:changed';
+  data: {
+    preferences: UserPreferences;
+  };
+};
+
+type QueueUpdate = {
+  type: 'queue:changed';
+  data: {
+    changedBy: string;
+    clientId: string | null;
+    updatedAt: string;
+  };
+};
+
 type PodcastProgressUpdate = {
   type: 'podcast:progress';
   data: {
@@ -34,6 +61,19 @@ type PodcastProgressUpdate = {
   };
 };
 
+type RadioNowPlayingUpdate = {
+  type: 'radio:now_playing';
+  data: {
+    stationId: number;
+    title: string;
+  };
+};
+
+type ChatMessageUpdate = {
+  type: 'chat:message';
+  data: ChatMessage;
+};
+
 type PlaylistUpdate = {
   type: 'playlist:created' | 'playlist:updated' | 'playlist:item_added' | 'playlist:item_removed';
   data: {
@@ -77,7 +117,17 @@ type AdminUserPendingUpdate = {
   data: { email?: string; status?: string };
 };
 
-type WSMessage = LibraryUpdate | FavoriteUpdate | PodcastProgressUpdate | PlaylistUpdate | HistoryUpdate | ScanProgressUpdate | AdminUserPendingUpdate | { type: 'connected' } | { type: 'ping' };
+type StreamsUpdate = {
+  type: 'streams:update';
+  data: { sessions: ActiveStream[] };
+};
+
+type StreamKilledUpdate = {
+  type: 'stream:killed';
+  data: { trackId: number; client: ActiveStream['client'] };
+};
+
+type WSMessage = LibraryUpdate | FavoriteUpdate | RatingUpdate | PreferencesUpdate | QueueUpdate | PodcastProgressUpdate | RadioNowPlayingUpdate | ChatMessageUpdate | PlaylistUpdate | HistoryUpdate | ScanProgressUpdate | AdminUserPendingUpdate | StreamsUpdate | StreamKilledUpdate | { type: 'connected' } | { type: 'ping' };
 
 // Store for library update notifications
 interface LibraryUpdateStore {
@@ -150,6 +200,37 @@ export const useAdminPending = create<AdminPendingStore>((set) => ({
   },
 }));
 
+// Store for play queue changes saved by another session (web tab or Subsonic client)
+interface QueueUpdateStore {
+  lastUpdate: number;
+  lastEvent: QueueUpdate['data'] | null;
+}
+
+export const useQueueUpdates = create<QueueUpdateStore>(() => ({
+  lastUpdate: 0,
+  lastEvent: null,
+}));
+
+// Store for the ICY "now playing" title of the relayed radio station
+interface RadioNowPlayingStore {
+  stationId: number | null;
+  title: string | null;
+}
+
+export const useRadioNowPlaying = create<RadioNowPlayingStore>(() => ({
+  stationId: null,
+  title: null,
+}));
+
+// Store for the latest chat message pushed by the server
+interface ChatMessageStore {
+  lastMessage: ChatMessage | null;
+}
+
+export const useChatMessages = create<ChatMessageStore>(() => ({
+  lastMessage: null,
+}));
+
 // Store for history update notifications
 interface HistoryUpdateStore {
   lastUpdate: number;
@@ -197,6 +278,26 @@ export const useScanProgress = create<ScanProgressStore>((set) => ({
   }),
 }));
 
+// Store for live stream sessions (admin)
+interface ActiveStreamsStore {
+  sessions: ActiveStream[] | null;
+  lastUpdate: number;
+}
+
+export const useActiveStreams = create<ActiveStreamsStore>(() => ({
+  sessions: null,
+  lastUpdate: 0,
+}));
+
+// Store for streams of this user that an admin stopped
+interface StreamKillStore {
+  lastKill: (StreamKilledUpdate['data'] & { at: number }) | null;
+}
+
+export const useStreamKills = create<StreamKillStore>(() => ({
+  lastKill: null,
+}));
+
 // Global WebSocket reference for sending messages
 let globalWs: WebSocket | null = null;
 
@@ -242,9 +343,22 @@ export function useWebSocket(isAdmin = false) {
             useFavorites.getState().addToSet(msg.data.trackId);
           } else if (msg.type === 'favorite:removed') {
             useFavorites.getState().removeFromSet(msg.data.trackId);
+          } else if (msg.type === 'rating:changed') {
+            useRatings.getState().applyRemote(msg.data.trackId, msg.data.rating);
+          } else if (msg.type === 'preferences:changed') {
+            usePreferences.getState().applyRemote(msg.data.preferences);
+          } else if (msg.type === 'queue:changed') {
+            useQueueUpdates.setState({
+              lastUpdate: Date.now(),
+              lastEvent: msg.data,
+            });
           } else if (msg.type === 'podcast:progress') {
             // Podcast progress update from another device
             usePodcastProgress.getState().setProgress(msg.data);
+          } else if (msg.type === 'radio:now_playing') {
+            useRadioNowPlaying.setState({ stationId: msg.data.stationId, title: msg.data.title });
+          } else if (msg.type === 'chat:message') {
+            useChatMessages.setState({ lastMessage: msg.data });
           } else if (msg.type === 'playlist:created' || msg.type === 'playlist:updated' || msg.type === 'playlist:item_added' || msg.type === 'playlist:item_removed') {
             // Playlist updates
             usePlaylistUpdates.setState({
@@ -260,6 +374,11 @@ export function useWebSocket(isAdmin = false) {
           } else if (msg.type === 'scan:progress') {
             // Scan progress update (admin)
             useScanProgress.getState().setProgress(msg.data);
+          } else if (msg.type === 'streams:update') {
+            useActiveStreams.setState({ sessions: msg.data.sessions, lastUpdate: Date.now() });
+          } else if (msg.type === 'stream:killed') {
+            useStreamKills.setState({ lastKill: { ...msg.data, at: Date.now() } });
+            useToastStore.getState().show('Playback was stopped by an administrator', 'error');
           } else if (msg.type === 'user:pending') {
             if (useAuth.getState().user?.role === 'admin') {
               useAdminPending.setState((s) => ({ count: s.count + 1, lastEvent: Date.now() }));
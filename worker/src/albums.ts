@@ -0,0 +1,158 @@
+import path from 'node:path';
+import type { PoolClient } from 'pg';
+import { db } from './db.js';
+
+type AlbumTrackRow = {
+  id: number;
+  library_id: number;
+  path: string;
+  album: string | null;
+  album_artist: string | null;
+  musicbrainz_release_id: string | null;
+  year: number | null;
+  art_path: string | null;
+  art_hash: string | null;
+  album_id: number | null;
+};
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+// Per-disc subfolders ("CD1", "Disc 2") belong to the album folder above them
+const DISC_FOLDER_RE = /^(cd|disc|disk)\s*\d+$/i;
+
+let albumsTableReady: boolean | null = null;
+
+async function hasAlbumsTable(q: Queryable) {
+  if (albumsTableReady) return true;
+  const r = await q.query<{ ok: boolean }>("select to_regclass('public.albums') is not null as ok");
+  albumsTableReady = Boolean(r.rows[0]?.ok);
+  return albumsTableReady;
+}
+
+function albumFolder(trackPath: string) {
+  const dir = path.posix.dirname(trackPath.replace(/\\/g, '/'));
+  return DISC_FOLDER_RE.test(path.posix.basename(dir)) ? path.posix.dirname(dir) : dir;
+}
+
+/**
+ * Identity of the album a track belongs to. Tagged releases share one album across folders and
+ * libraries; untagged files group by folder + album + album artist so same-named albums stay apart.
+ */
+export function albumKey(t: { libraryId: number; path: string; album: string | null; albumArtist: string | null; musicbrainzReleaseId: string | null }) {
+  const album = t.album?.trim();
+  if (!album) return null;
+  const mbid = t.musicbrainzReleaseId?.trim().toLowerCase();
+  if (mbid) return `mb:${mbid}`;
+  const artist = t.albumArtist?.trim().toLowerCase() ?? '';
+  return `dir:${t.libraryId}:${albumFolder(t.path)}:${album.toLowerCase()}:${artist}`;
+}
+
+/**
+ * Creates or updates the albums for the given tracks and points tracks.album_id at them.
+ * Runs inside the caller's transaction when given a client.
+ */
+export async function assignAlbums(q: Queryable, trackIds: number[]) {
+  if (trackIds.length === 0 || !(await hasAlbumsTable(q))) return;
+
+  const r = await q.query<AlbumTrackRow>(
+    `select id, library_id, path, album, album_artist, musicbrainz_release_id, year, art_path, art_hash, album_id
+       from tracks where id = any($1) and deleted_at is null
+      order by disc_number nulls first, track_number nulls first, path`,
+    [trackIds]
+  );
+
+  const groups = new Map<string, AlbumTrackRow[]>();
+  const untitled: number[] = [];
+  for (const row of r.rows) {
+    const key = albumKey({
+      libraryId: Number(row.library_id),
+      path: row.path,
+      album: row.album,
+      albumArtist: row.album_artist,
+      musicbrainzReleaseId: row.musicbrainz_release_id,
+    });
+    if (!key) {
+      if (row.album_id != null) untitled.push(row.id);
+      continue;
+    }
+    const list = groups.get(key) ?? [];
+    list.push(row);
+    groups.set(key, list);
+  }
+
+  if (untitled.length > 0) {
+    await q.query('update tracks set album_id = null where id = any($1)', [untitled]);
+  }
+
+  for (const [key, rows] of groups) {
+    const ids = rows.map((x) => x.id);
+    const first = rows[0];
+    const albumArtist = rows.find((x) => x.album_artist?.trim())?.album_artist?.trim() ?? null;
+    const years = rows.map((x) => x.year).filter((y): y is number => y != null);
+    const year = years.length ? Math.min(...years) : null;
+    const art = rows.find((x) => x.art_path);
+    const fields = [first.album!.trim(), albumArtist, first.musicbrainz_release_id?.trim() || null, year, art?.art_path ?? null, art?.art_hash ?? null];
+
+    let albumId: number | null = null;
+    const existing = await q.query<{ id: number }>('select id from albums where album_key = $1', [key]);
+    if (existing.rows[0]) {
+      albumId = Number(existing.rows[0].id);
+    } else {
+      // A retag that moves every track of an album keeps its id (and with it links and shares)
+      const previous = new Set(rows.map((x) => x.album_id));
+      const prevId = previous.size === 1 ? first.album_id : null;
+      if (prevId != null) {
+        const others = await q.query('select 1 from tracks where album_id = $1 and not (id = any($2)) and deleted_at is null limit 1', [prevId, ids]);
+        if (others.rowCount === 0) {
+          const moved = await q.query<{ id: number }>('update albums set album_key = $2 where id = $1 returning id', [prevId, key]);
+          if (moved.rows[0]) albumId = Number(moved.rows[0].id);
+        }
+      }
+    }
+    if (albumId == null) {
+      const ins = await q.query<{ id: number }>(
+        `insert into albums (album_key, name, album_artist, musicbrainz_release_id, year, art_path, art_hash)
+         values ($1, $2, $3, $4, $5, $6, $7)
+         on conflict (album_key) do update set updated_at = now()
+         returning id`,
+        [key, ...fields]
+      );
+      albumId = Number(ins.rows[0].id);
+    } else {
+      await q.query(
+        `update albums set name = $2, album_artist = $3, musicbrainz_release_id = $4,
+                year = coalesce($5, year), art_path = coalesce($6, art_path), art_hash = coalesce($7, art_hash), updated_at = now()
+          where id = $1`,
+        [albumId, ...fields]
+      );
+    }
+
+    await q.query('update tracks set album_id = $1 where id = any($2) and album_id is distinct from $1', [albumId, ids]);
+  }
+}
+
+/** Assigns albums to tracks scanned before albums existed, then drops albums left without tracks. */
+export async function reconcileAlbums() {
+  if (!(await hasAlbumsTable(db()))) return { assigned: 0, removed: 0 };
+
+  let assigned = 0;
+  let lastId = 0;
+  for (;;) {
+    const r = await db().query<{ id: number }>(
+      `select id from tracks
+        where album_id is null and deleted_at is null and coalesce(album, '') <> '' and id > $1
+        order by id limit 1000`,
+      [lastId]
+    );
+    if (r.rows.length === 0) break;
+    const ids = r.rows.map((x) => Number(x.id));
+    await assignAlbums(db(), ids);
+    assigned += ids.length;
+    lastId = ids[ids.length - 1];
+  }
+
+  const removed = await db().query(
+    'delete from albums a where not exists (select 1 from tracks t where t.album_id = a.id and t.deleted_at is null)'
+  );
+  return { assigned, removed: removed.rowCount ?? 0 };
+}
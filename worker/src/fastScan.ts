@@ -8,7 +8,9 @@ import { writeArt } from './art.js';
 import { indexAllTracks, indexChangedTracks, ensureTracksIndex } from './indexer.js';
 import logger from './logger.js';
 import { asciiFold } from './tagRules.js';
+import { assignAlbums, reconcileAlbums } from './albums.js';
 import { detectTempoBpm, type OnsetMethod } from './tempoDetector.js';
+import { backfillContentHashes, contentHash, detectMoves, hasContentHashColumn } from './moves.js';
 
 const LYRICS_DIR = process.env.LYRICS_DIR ?? '/data/cache/lyrics';
 const ART_DIR = process.env.ART_DIR ?? '/data/cache/art';
@@ -114,6 +116,17 @@ interface TrackData {
   musicbrainzReleaseId: string | null;
   musicbrainzArtistId: string | null;
   musicbrainzAlbumArtistId: string | null;
+  // ReplayGain
+  replayGainTrackGain: number | null;
+  replayGainTrackPeak: number | null;
+  replayGainAlbumGain: number | null;
+  replayGainAlbumPeak: number | null;
+  // Gapless
+  encoderDelay: number | null;
+  encoderPadding: number | null;
+  sampleRate: number | null;
+  sampleCount: number | null;
+  contentHash: string | null;
 }
 
 interface FileInfo {
@@ -205,6 +218,9 @@ async function processFilesParallel<T, R>(
 }
 
 // Batch upsert tracks
+// True in an upsert when the file on disk is not the one the row was scanned from
+const CONTENT_CHANGED = '(tracks.mtime_ms IS DISTINCT FROM EXCLUDED.mtime_ms OR tracks.size_bytes IS DISTINCT FROM EXCLUDED.size_bytes)';
+
 async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
   if (tracks.length === 0) return;
   
@@ -262,6 +278,16 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
     const mbReleaseIds = tracks.map(t => t.musicbrainzReleaseId);
     const mbArtistIds = tracks.map(t => t.musicbrainzArtistId);
     const mbAlbumArtistIds = tracks.map(t => t.musicbrainzAlbumArtistId);
+    // ReplayGain
+    const rgTrackGains = tracks.map(t => t.replayGainTrackGain);
+    const rgTrackPeaks = tracks.map(t => t.replayGainTrackPeak);
+    const rgAlbumGains = tracks.map(t => t.replayGainAlbumGain);
+    const rgAlbumPeaks = tracks.map(t => t.replayGainAlbumPeak);
+    // Gapless
+    const encoderDelays = tracks.map(t => t.encoderDelay);
+    const encoderPaddings = tracks.map(t => t.encoderPadding);
+    const sampleRates = tracks.map(t => t.sampleRate);
+    const sampleCounts = tracks.map(t => t.sampleCount);
     
     // Insert/update tracks and get their IDs
     const trackResult = await client.query<{ id: number; path: string }>(`
@@ -273,7 +299,9 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         bpm, initial_key, composer, conductor, publisher, copyright, comment, mood, grouping,
         isrc, release_date, original_year, compilation,
         title_sort, artist_sort, album_sort, album_artist_sort,
-        musicbrainz_track_id, musicbrainz_release_id, musicbrainz_artist_id, musicbrainz_album_artist_id
+        musicbrainz_track_id, musicbrainz_release_id, musicbrainz_artist_id, musicbrainz_album_artist_id,
+        replaygain_track_gain, replaygain_track_peak, replaygain_album_gain, replaygain_album_peak,
+        encoder_delay, encoder_padding, sample_rate, sample_count
       )
       SELECT 
         u.library_id, u.path, u.mtime_ms, u.size_bytes, u.ext,
@@ -287,7 +315,9 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         u.bpm, u.initial_key, u.composer, u.conductor, u.publisher, u.copyright, u.comment, u.mood, u.grouping,
         u.isrc, u.release_date, u.original_year, u.compilation,
         u.title_sort, u.artist_sort, u.album_sort, u.album_artist_sort,
-        u.mb_track_id, u.mb_release_id, u.mb_artist_id, u.mb_album_artist_id
+        u.mb_track_id, u.mb_release_id, u.mb_artist_id, u.mb_album_artist_id,
+        u.rg_track_gain, u.rg_track_peak, u.rg_album_gain, u.rg_album_peak,
+        u.encoder_delay, u.encoder_padding, u.sample_rate, u.sample_count
       FROM unnest(
         $1::bigint[], $2::text[], $3::bigint[], $4::bigint[], $5::text[],
         $6::text[], $7::text[], $8::text[], $9::text[], $10::text[],
@@ -298,7 +328,9 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         $31::text[], $32::text[], $33::text[], $34::text[], $35::text[],
         $36::text[], $37::text[], $38::text[], $39::int[], $40::boolean[],
         $41::text[], $42::text[], $43::text[], $44::text[],
-        $45::text[], $46::text[], $47::text[], $48::text[]
+        $45::text[], $46::text[], $47::text[], $48::text[],
+        $49::real[], $50::real[], $51::real[], $52::real[],
+        $53::int[], $54::int[], $55::int[], $56::bigint[]
       ) AS u(
         library_id, path, mtime_ms, size_bytes, ext, title, artist, album, album_artist, genre,
         country, language, year, duration_ms, art_path, art_mime, art_hash, lyrics_path,
@@ -307,9 +339,23 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         bpm, initial_key, composer, conductor, publisher, copyright, comment, mood, grouping,
         isrc, release_date, original_year, compilation,
         title_sort, artist_sort, album_sort, album_artist_sort,
-        mb_track_id, mb_release_id, mb_artist_id, mb_album_artist_id
+        mb_track_id, mb_release_id, mb_artist_id, mb_album_artist_id,
+        rg_track_gain, rg_track_peak, rg_album_gain, rg_album_peak,
+        encoder_delay, encoder_padding, sample_rate, sample_count
       )
       ON CONFLICT (library_id, path) DO UPDATE SET
+        -- ReplayGain comes from the file once its content changed; before that, values measured by the
+        -- loudness backfill survive rescans of untagged files. A changed file is measured again.
+        replaygain_track_gain = CASE WHEN ${CONTENT_CHANGED} THEN EXCLUDED.replaygain_track_gain
+          ELSE COALESCE(EXCLUDED.replaygain_track_gain, tracks.replaygain_track_gain) END,
+        replaygain_track_peak = CASE WHEN ${CONTENT_CHANGED} THEN EXCLUDED.replaygain_track_peak
+          ELSE COALESCE(EXCLUDED.replaygain_track_peak, tracks.replaygain_track_peak) END,
+        replaygain_album_gain = CASE WHEN ${CONTENT_CHANGED} THEN EXCLUDED.replaygain_album_gain
+          ELSE COALESCE(EXCLUDED.replaygain_album_gain, tracks.replaygain_album_gain) END,
+        replaygain_album_peak = CASE WHEN ${CONTENT_CHANGED} THEN EXCLUDED.replaygain_album_peak
+          ELSE COALESCE(EXCLUDED.replaygain_album_peak, tracks.replaygain_album_peak) END,
+        loudness_lufs = CASE WHEN ${CONTENT_CHANGED} THEN NULL ELSE tracks.loudness_lufs END,
+        loudness_checked_at = CASE WHEN ${CONTENT_CHANGED} THEN NULL ELSE tracks.loudness_checked_at END,
         mtime_ms = EXCLUDED.mtime_ms,
         size_bytes = EXCLUDED.size_bytes,
         ext = EXCLUDED.ext,
@@ -354,6 +400,10 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         musicbrainz_release_id = COALESCE(EXCLUDED.musicbrainz_release_id, tracks.musicbrainz_release_id),
         musicbrainz_artist_id = COALESCE(EXCLUDED.musicbrainz_artist_id, tracks.musicbrainz_artist_id),
         musicbrainz_album_artist_id = COALESCE(EXCLUDED.musicbrainz_album_artist_id, tracks.musicbrainz_album_artist_id),
+        encoder_delay = EXCLUDED.encoder_delay,
+        encoder_padding = EXCLUDED.encoder_padding,
+        sample_rate = EXCLUDED.sample_rate,
+        sample_count = EXCLUDED.sample_count,
         updated_at = now()
       RETURNING id, path
     `, [
@@ -370,7 +420,9 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
       copyrights, comments, moods, groupings,
       isrcs, releaseDates, originalYears, compilations,
       titleSorts, artistSorts, albumSorts, albumArtistSorts,
-      mbTrackIds, mbReleaseIds, mbArtistIds, mbAlbumArtistIds
+      mbTrackIds, mbReleaseIds, mbArtistIds, mbAlbumArtistIds,
+      rgTrackGains, rgTrackPeaks, rgAlbumGains, rgAlbumPeaks,
+      encoderDelays, encoderPaddings, sampleRates, sampleCounts
     ]);
     
     // Build path -> track mapping for artist updates
@@ -378,6 +430,16 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
     for (const row of trackResult.rows) {
       pathToTrackId.set(row.path, row.id);
     }
+
+    if (await hasContentHashColumn(client)) {
+      const hashed = tracks.filter(t => t.contentHash && pathToTrackId.has(t.path));
+      if (hashed.length > 0) {
+        await client.query(
+          'UPDATE tracks t SET content_hash = u.hash FROM unnest($1::bigint[], $2::text[]) AS u(id, hash) WHERE t.id = u.id',
+          [hashed.map(t => pathToTrackId.get(t.path)), hashed.map(t => t.contentHash)]
+        );
+      }
+    }
     
     // Update track_artists for each track
     for (const track of tracks) {
@@ -477,6 +539,8 @@ async function batchUpsertTracks(tracks: TrackData[]): Promise<void> {
         }
       }
     }
+
+    await assignAlbums(client, [...pathToTrackId.values()]);
     
     await client.query('COMMIT');
   } catch (e) {
@@ -783,6 +847,32 @@ export async function runFastScan(
     }
   }
   
+  // Follow files moved/renamed outside mvbar: re-point the old row so its id (playlists, favorites,
+  // history) survives. Moved files are then processed as updates and their old paths aren't orphans.
+  const diskPaths = new Set(allFiles.map(f => f.relPath));
+  const freshFiles = filesToProcess.filter(f => !existingTracks.has(f.relPath) && !deletedTracks.has(f.relPath));
+  let movedTracks = 0;
+  if (freshFiles.length > 0) {
+    if (shouldCancel()) cancelNow('detecting_moves');
+    const vanishedPaths = [...existingTracks.keys()].filter(p => !diskPaths.has(p));
+    const moves = await detectMoves(libraryId, vanishedPaths, freshFiles, diskPaths);
+    for (const m of moves) {
+      await db().query(
+        'UPDATE tracks SET path = $2, deleted_at = NULL, updated_at = now() WHERE id = $1',
+        [m.trackId, m.to]
+      );
+      const prev = existingTracks.get(m.from);
+      existingTracks.delete(m.from);
+      existingTracks.set(m.to, { mtimeMs: 0, sizeBytes: 0, birthtimeMs: null, bpm: prev?.bpm ?? m.bpm });
+      await audit('track_moved', { trackId: m.trackId, path: m.to, from: m.from, to: m.to, match: m.match, restored: m.wasDeleted, actor: 'worker' });
+      publishUpdate('track_moved', { trackId: m.trackId, from: m.from, to: m.to });
+    }
+    movedTracks = moves.length;
+    if (movedTracks > 0) {
+      logger.info('scan', `Followed ${movedTracks} moved/renamed tracks`);
+    }
+  }
+
   logger.info('scan', `${filesToProcess.length} files to process, ${skippedFiles} unchanged`);
   
   // Update Redis progress
@@ -898,6 +988,7 @@ export async function runFastScan(
         }
         
         const isNew = !existing;
+        const hash = await contentHash(file.fullPath, file.sizeBytes);
         return {
           libraryId,
           path: file.relPath,
@@ -952,6 +1043,17 @@ export async function runFastScan(
           musicbrainzReleaseId: tags.musicbrainzReleaseId ?? null,
           musicbrainzArtistId: tags.musicbrainzArtistId ?? null,
           musicbrainzAlbumArtistId: tags.musicbrainzAlbumArtistId ?? null,
+          // ReplayGain
+          replayGainTrackGain: tags.replayGainTrackGain ?? null,
+          replayGainTrackPeak: tags.replayGainTrackPeak ?? null,
+          replayGainAlbumGain: tags.replayGainAlbumGain ?? null,
+          replayGainAlbumPeak: tags.replayGainAlbumPeak ?? null,
+          // Gapless
+          encoderDelay: tags.encoderDelay ?? null,
+          encoderPadding: tags.encoderPadding ?? null,
+          sampleRate: tags.sampleRate ?? null,
+          sampleCount: tags.sampleCount ?? null,
+          contentHash: hash,
           isNew,
         };
       } catch {
@@ -1003,7 +1105,6 @@ export async function runFastScan(
   
   // Phase 5: Soft-delete orphan tracks (in DB but not on disk)
   // Using soft-delete preserves user data (history, favorites, playlists)
-  const diskPaths = new Set(allFiles.map(f => f.relPath));
   const orphanPaths: string[] = [];
   for (const [dbPath] of existingTracks) {
     if (!diskPaths.has(dbPath)) {
@@ -1032,6 +1133,24 @@ export async function runFastScan(
     
     logger.success('scan', `Soft-deleted ${orphanPaths.length} orphan tracks`);
   }
+
+  // Content hashes for rows scanned before they existed; moved files are matched by them
+  try {
+    const hashed = await backfillContentHashes(libraryId, new Map(allFiles.map(f => [f.relPath, f])));
+    if (hashed > 0) logger.info('scan', `Stored content hashes for ${hashed} existing tracks`);
+  } catch (e) {
+    logger.warn('scan', `Content hash backfill failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Albums: backfill tracks from older scans and drop albums whose tracks are gone
+  try {
+    const albums = await reconcileAlbums();
+    if (albums.assigned > 0 || albums.removed > 0) {
+      logger.info('scan', `Albums: ${albums.assigned} tracks assigned, ${albums.removed} empty albums removed`);
+    }
+  } catch (e) {
+    logger.warn('scan', `Album reconcile failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
   
   if (shouldCancel()) cancelNow('before_indexing');
 
@@ -1049,7 +1168,7 @@ export async function runFastScan(
     getPublisher().set('scan:progress', JSON.stringify(progress));
     publishUpdate('scan:progress', progress);
   }
-  const hasChanges = filesToProcess.length > 0 || orphanPaths.length > 0 || filesToRestore.length > 0;
+  const hasChanges = filesToProcess.length > 0 || orphanPaths.length > 0 || filesToRestore.length > 0 || movedTracks > 0;
   if (forceFullScan) {
     logger.info('search', 'Full search re-index...');
     await ensureTracksIndex();
@@ -0,0 +1,129 @@
+import { readdir, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from './db.js';
+import logger from './logger.js';
+
+const HLS_DIR = process.env.HLS_DIR ?? '/hls';
+
+// 0 disables the size budget
+const HLS_CACHE_MAX_BYTES = Math.max(0, Number(process.env.HLS_CACHE_MAX_MB ?? '10240')) * 1024 * 1024;
+const HLS_FAILED_JOB_TTL_HOURS = Math.max(1, Number(process.env.HLS_FAILED_JOB_TTL_HOURS ?? '24'));
+
+// Leftover folders younger than this may still belong to a transcode that is being published
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+// Total size of a published cache folder (renditions are written flat, no subfolders)
+export async function hlsCacheSize(cacheKey: string) {
+  const dir = path.join(HLS_DIR, cacheKey);
+  let total = 0;
+  try {
+    for (const name of await readdir(dir)) {
+      try {
+        total += (await stat(path.join(dir, name))).size;
+      } catch {
+        // file vanished
+      }
+    }
+  } catch {
+    return 0;
+  }
+  return total;
+}
+
+async function removeCacheDir(cacheKey: string) {
+  const dir = path.resolve(HLS_DIR, cacheKey);
+  if (!dir.startsWith(path.resolve(HLS_DIR) + path.sep)) return;
+  await rm(dir, { recursive: true, force: true });
+}
+
+async function expireFailedJobs() {
+  const r = await db().query(
+    `delete from transcode_jobs
+      where state = 'failed' and coalesce(finished_at, requested_at) < now() - make_interval(hours => $1)`,
+    [HLS_FAILED_JOB_TTL_HOURS]
+  );
+  return r.rowCount ?? 0;
+}
+
+// Jobs published before sizes were tracked
+async function backfillSizes() {
+  const r = await db().query<{ id: number; cache_key: string }>(
+    "select id, cache_key from transcode_jobs where state = 'done' and size_bytes is null limit 500"
+  );
+  for (const row of r.rows) {
+    await db().query('update transcode_jobs set size_bytes = $2 where id = $1', [row.id, await hlsCacheSize(row.cache_key)]);
+  }
+}
+
+// Least recently used caches beyond the budget are dropped; the next play re-queues them
+async function evictOverBudget() {
+  const r = await db().query<{ cache_key: string; size_bytes: string | null }>(
+    `select cache_key, max(size_bytes) as size_bytes, max(coalesce(last_accessed_at, finished_at)) as used_at
+       from transcode_jobs
+      where state = 'done'
+      group by cache_key
+      order by used_at desc nulls last`
+  );
+
+  let kept = 0;
+  let evicted = 0;
+  let freed = 0;
+  for (const row of r.rows) {
+    const size = Number(row.size_bytes ?? 0);
+    if (kept + size <= HLS_CACHE_MAX_BYTES) {
+      kept += size;
+      continue;
+    }
+    await db().query("delete from transcode_jobs where cache_key = $1 and state in ('done','failed')", [row.cache_key]);
+    await removeCacheDir(row.cache_key);
+    evicted++;
+    freed += size;
+  }
+  return { evicted, freed, kept };
+}
+
+// Folders with no job row (purged rows, crashed publishes, old cache keys)
+async function removeOrphans() {
+  let entries: string[];
+  try {
+    entries = await readdir(HLS_DIR);
+  } catch {
+    return 0;
+  }
+  const r = await db().query<{ cache_key: string }>('select distinct cache_key from transcode_jobs');
+  const known = new Set(r.rows.map((x) => x.cache_key));
+
+  let removed = 0;
+  for (const name of entries) {
+    if (known.has(name)) continue;
+    try {
+      const st = await stat(path.join(HLS_DIR, name));
+      if (!st.isDirectory() || Date.now() - st.mtimeMs < ORPHAN_MIN_AGE_MS) continue;
+      await removeCacheDir(name);
+      removed++;
+    } catch {
+      // raced with another cleanup
+    }
+  }
+  return removed;
+}
+
+export async function runHlsCacheMaintenance(): Promise<void> {
+  try {
+    const expired = await expireFailedJobs();
+    await backfillSizes();
+    const { evicted, freed, kept } = HLS_CACHE_MAX_BYTES > 0 ? await evictOverBudget() : { evicted: 0, freed: 0, kept: 0 };
+    const orphans = await removeOrphans();
+    if (expired || evicted || orphans) {
+      logger.info('hls-cache', 'Cache maintenance finished', {
+        expiredFailedJobs: expired,
+        evicted,
+        freedMb: Math.round(freed / 1024 / 1024),
+        keptMb: Math.round(kept / 1024 / 1024),
+        orphans,
+      });
+    }
+  } catch (e) {
+    logger.error('hls-cache', `Cache maintenance failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
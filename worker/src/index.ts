@@ -2,10 +2,13 @@ import 'dotenv/config';
 
 import Redis from 'ioredis';
 import { db, initDb } from './db.js';
-import * as transcodeJobs from './transcodeRepo.js';
-import { transcodeTrackToHls } from './transcoder.js';
+import { assignAlbums } from './albums.js';
+import { runHlsCacheMaintenance } from './hlsCache.js';
+import { handleTranscodeCommand, runTranscodeWorkers, TRANSCODE_COMMANDS_CHANNEL } from './transcodeQueue.js';
 import { runFastScan } from './fastScan.js';
 import { runTempoBackfillBatch } from './tempoBackfill.js';
+import { runLoudnessBackfillBatch } from './loudnessBackfill.js';
+import { removeStaleWaveforms, runWaveformQueue } from './waveform.js';
 import { startPodcastRefresh } from './podcastRefresh.js';
 import { scanAudiobooks } from './audiobookScanner.js';
 import logger from './logger.js';
@@ -28,6 +31,9 @@ const rescanIntervalMs = parseInt(process.env.RESCAN_INTERVAL_MS ?? '300000', 10
 const tempoDetectEnabled = process.env.TEMPO_DETECT === '1' && (process.env.TEMPO_MODE ?? 'batch') === 'batch';
 const tempoBackfillIntervalMs = parseInt(process.env.TEMPO_BACKFILL_INTERVAL_MS ?? '1800000', 10); // Default 30 minutes
 
+const loudnessDetectEnabled = process.env.LOUDNESS_DETECT === '1';
+const loudnessBackfillIntervalMs = parseInt(process.env.LOUDNESS_BACKFILL_INTERVAL_MS ?? '1800000', 10); // Default 30 minutes
+
 logger.success('worker', 'Started', { musicDirs, useFastScan, rescanIntervalMs });
 
 await initDb();
@@ -48,17 +54,32 @@ let cancelRequested = false;
 
 // Listen for rescan/cancel commands from API (must be active during long scans)
 const subscriber = new Redis(REDIS_URL);
-subscriber.subscribe('library:commands', (err) => {
+subscriber.subscribe('library:commands', TRANSCODE_COMMANDS_CHANNEL, (err) => {
   if (err) logger.error('worker', `Failed to subscribe to commands: ${err.message}`);
-  else logger.info('worker', 'Listening for rescan commands');
+  else logger.info('worker', 'Listening for rescan and transcode commands');
 });
 
 subscriber.on('message', async (channel, message) => {
   try {
     const cmd = JSON.parse(message);
-    if (cmd.command === 'rescan') {
+    if (channel === TRANSCODE_COMMANDS_CHANNEL) {
+      handleTranscodeCommand(cmd);
+    } else if (cmd.command === 'rescan') {
       logger.info('scan', `Manual rescan triggered by ${cmd.by || 'unknown'}${cmd.force ? ' (FORCE FULL)' : ''}`);
       periodicRescan(cmd.force === true);
+    } else if (cmd.command === 'reassign_albums') {
+      // Organizer moves keep mtime and size, so the scan would leave folder-keyed albums on the old folder
+      const trackIds: number[] = Array.isArray(cmd.trackIds) ? cmd.trackIds.map(Number).filter(Number.isInteger) : [];
+      try {
+        await assignAlbums(db(), trackIds);
+        logger.info('scan', `Reassigned albums for ${trackIds.length} moved tracks (by ${cmd.by || 'unknown'})`);
+      } catch (e) {
+        logger.error('scan', `Album reassignment failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      // The rescan picks up sidecars and drops albums the moves left empty
+      periodicRescan(false);
+    } else if (cmd.command === 'waveform') {
+      runWaveformQueue();
     } else if (cmd.command === 'cancel_scan') {
       cancelRequested = true;
       logger.info('scan', `Scan cancel requested by ${cmd.by || 'unknown'}`);
@@ -139,6 +160,39 @@ if (tempoDetectEnabled) {
   setInterval(runIfIdle, tempoBackfillIntervalMs);
 }
 
+// Schedule ReplayGain loudness backfill for tracks without gain tags
+if (loudnessDetectEnabled) {
+  let loudnessBackfillInProgress = false;
+  const runIfIdle = async () => {
+    if (loudnessBackfillInProgress) return;
+    if (scanInProgress) return;
+    loudnessBackfillInProgress = true;
+    try {
+      await runLoudnessBackfillBatch();
+    } catch (e) {
+      logger.error('loudness', `Loudness backfill failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      loudnessBackfillInProgress = false;
+    }
+  };
+
+  logger.info('worker', `Scheduling loudness backfill every ${Math.round(loudnessBackfillIntervalMs / 1000)}s`);
+  setTimeout(runIfIdle, 90_000);
+  setInterval(runIfIdle, loudnessBackfillIntervalMs);
+}
+
+// HLS cache budget, failed-job expiry and orphan cleanup
+const hlsCacheSweepIntervalMs = parseInt(process.env.HLS_CACHE_SWEEP_INTERVAL_MS ?? '900000', 10); // Default 15 minutes
+logger.info('worker', `Scheduling HLS cache maintenance every ${Math.round(hlsCacheSweepIntervalMs / 1000)}s`);
+setTimeout(runHlsCacheMaintenance, 30_000);
+setInterval(runHlsCacheMaintenance, hlsCacheSweepIntervalMs);
+
+// Seek-bar waveforms are requested by the player; polling only covers wake-ups lost while Redis reconnects
+const waveformPollIntervalMs = 60_000;
+setTimeout(runWaveformQueue, 20_000);
+setInterval(runWaveformQueue, waveformPollIntervalMs);
+setInterval(removeStaleWaveforms, 6 * 60 * 60 * 1000);
+
 // Start automatic podcast refresh (every hour by default)
 startPodcastRefresh();
 
@@ -197,22 +251,4 @@ process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
 // Main loop for Transcoding only (Scanning is now handled by periodic rescan)
-while (!shouldShutdown) {
-  const tj = await transcodeJobs.claimNextTranscodeJob();
-  if (tj) {
-    logger.info('transcode', `Processing track #${tj.track_id}`, { jobId: tj.id });
-    try {
-      const outDir = await transcodeTrackToHls(tj.track_id, tj.cache_key);
-      await transcodeJobs.finishTranscodeJob(tj.id, 'done', outDir, null);
-      logger.success('transcode', `Completed track #${tj.track_id}`);
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      await transcodeJobs.finishTranscodeJob(tj.id, 'failed', null, msg);
-      logger.error('transcode', `Failed track #${tj.track_id}`, { error: msg });
-    }
-    continue;
-  }
-  
-  // Sleep if no transcode work
-  await new Promise((r) => setTimeout(r, 2000));
-}
+await runTranscodeWorkers(() => shouldShutdown);
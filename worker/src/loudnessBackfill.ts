@@ -0,0 +1,184 @@
+import { spawn } from 'node:child_process';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from './db.js';
+import logger from './logger.js';
+
+function safeJoinMount(mountPath: string, relPath: string) {
+  const abs = path.resolve(mountPath, relPath);
+  const base = path.resolve(mountPath);
+  if (!abs.startsWith(base + path.sep)) throw new Error('invalid path');
+  return abs;
+}
+
+// ReplayGain 2.0 reference loudness
+const REFERENCE_LUFS = -18;
+
+const LOUDNESS_CONCURRENCY = Math.max(1, Math.min(8, Number(process.env.LOUDNESS_CONCURRENCY ?? '1')));
+const LOUDNESS_BACKFILL_BATCH = Math.max(1, Math.min(500, Number(process.env.LOUDNESS_BACKFILL_BATCH ?? '50')));
+const LOUDNESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+let loudnessInFlight = 0;
+const loudnessWaiters: Array<() => void> = [];
+async function withLoudnessSlot<T>(fn: () => Promise<T>): Promise<T> {
+  while (loudnessInFlight >= LOUDNESS_CONCURRENCY) {
+    await new Promise<void>((resolve) => loudnessWaiters.push(resolve));
+  }
+  loudnessInFlight++;
+  try {
+    return await fn();
+  } finally {
+    loudnessInFlight--;
+    loudnessWaiters.shift()?.();
+  }
+}
+
+type LoudnessResult = { integratedLufs: number; truePeakDbfs: number | null };
+
+// Runs the ebur128 filter over the whole file and parses the summary it prints on exit
+function measureLoudness(filePath: string): Promise<LoudnessResult> {
+  return new Promise((resolve, reject) => {
+    const ff = spawn('ffmpeg', [
+      '-hide_banner', '-nostats', '-i', filePath,
+      '-map', '0:a:0', '-af', 'ebur128=peak=true', '-f', 'null', '-',
+    ], { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    let stderr = '';
+    ff.stderr.on('data', (d) => {
+      stderr += d.toString();
+      // Only the trailing summary matters
+      if (stderr.length > 64 * 1024) stderr = stderr.slice(-16 * 1024);
+    });
+    const timer = setTimeout(() => ff.kill('SIGKILL'), LOUDNESS_TIMEOUT_MS);
+    ff.on('error', (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    ff.on('close', (code) => {
+      clearTimeout(timer);
+      if (code !== 0) return reject(new Error(`ffmpeg exited with ${code}: ${stderr.slice(-500)}`));
+      const summary = stderr.slice(stderr.lastIndexOf('Summary:'));
+      const integrated = summary.match(/I:\s+(-?[\d.]+) LUFS/);
+      if (!integrated) return reject(new Error('ebur128 summary not found'));
+      const integratedLufs = parseFloat(integrated[1]);
+      if (!Number.isFinite(integratedLufs) || integratedLufs < -70) return reject(new Error('track is silent'));
+      const peak = summary.match(/Peak:\s+(-?[\d.]+) dBFS/);
+      resolve({ integratedLufs, truePeakDbfs: peak ? parseFloat(peak[1]) : null });
+    });
+  });
+}
+
+// Album gain from the duration-weighted energy mean of every track's loudness; tagged album gains are kept.
+// Only the albums of the given tracks are recomputed.
+async function fillAlbumGains(trackIds: number[]) {
+  if (trackIds.length === 0) return 0;
+  const r = await db().query(
+    `with touched as (
+       select distinct lower(coalesce(album_artist, artist, '')) as aa, lower(album) as al
+         from tracks
+        where id = any($1::bigint[]) and album is not null
+     ),
+     albums as (
+       select lower(coalesce(album_artist, artist, '')) as aa, lower(album) as al,
+              count(*) filter (where coalesce(loudness_lufs, ${REFERENCE_LUFS} - replaygain_track_gain) is null) as missing,
+              sum(greatest(coalesce(duration_ms, 0), 1) * power(10, coalesce(loudness_lufs, ${REFERENCE_LUFS} - replaygain_track_gain) / 10.0))
+                / sum(greatest(coalesce(duration_ms, 0), 1)) as energy,
+              max(replaygain_track_peak) as peak,
+              bool_or(replaygain_album_gain is null) as needs_gain
+         from tracks
+        where deleted_at is null and album is not null
+          and (lower(coalesce(album_artist, artist, '')), lower(album)) in (select aa, al from touched)
+        group by 1, 2
+     )
+     update tracks t
+        set replaygain_album_gain = round((${REFERENCE_LUFS} - 10 * log(a.energy))::numeric, 2),
+            replaygain_album_peak = a.peak,
+            updated_at = now()
+       from albums a
+      where a.needs_gain and a.missing = 0 and a.energy > 0
+        and t.deleted_at is null and t.replaygain_album_gain is null
+        and lower(coalesce(t.album_artist, t.artist, '')) = a.aa and lower(t.album) = a.al`,
+    [trackIds]
+  );
+  return r.rowCount ?? 0;
+}
+
+export async function runLoudnessBackfillBatch(): Promise<void> {
+  const start = Date.now();
+  logger.info('loudness', 'Loudness backfill batch starting', {
+    batch: LOUDNESS_BACKFILL_BATCH,
+    concurrency: LOUDNESS_CONCURRENCY,
+  });
+
+  const r = await db().query<{ id: number; path: string; mount_path: string }>(
+    `select t.id, t.path, l.mount_path
+     from tracks t
+     join libraries l on l.id = t.library_id
+     where t.deleted_at is null and t.replaygain_track_gain is null and t.loudness_checked_at is null
+     order by t.id asc
+     limit $1`,
+    [LOUDNESS_BACKFILL_BATCH]
+  );
+
+  let tried = 0;
+  let applied = 0;
+  let failed = 0;
+  let missingFile = 0;
+  const measured: number[] = [];
+
+  await Promise.all(
+    r.rows.map(async (row) => {
+      tried++;
+      try {
+        const abs = safeJoinMount(row.mount_path, row.path);
+        try {
+          const st = await stat(abs);
+          if (!st.isFile()) {
+            missingFile++;
+            return;
+          }
+        } catch {
+          missingFile++;
+          return;
+        }
+
+        const res = await withLoudnessSlot(() => measureLoudness(abs));
+        const gain = Math.round((REFERENCE_LUFS - res.integratedLufs) * 100) / 100;
+        const peak = res.truePeakDbfs == null ? null : Math.pow(10, res.truePeakDbfs / 20);
+        const upd = await db().query(
+          `update tracks
+              set loudness_lufs=$2, replaygain_track_gain=$3, replaygain_track_peak=coalesce(replaygain_track_peak, $4),
+                  loudness_checked_at=now(), updated_at=now()
+            where id=$1 and replaygain_track_gain is null`,
+          [row.id, res.integratedLufs, gain, peak]
+        );
+        if ((upd.rowCount ?? 0) > 0) {
+          applied++;
+          measured.push(Number(row.id));
+        }
+      } catch (e) {
+        failed++;
+        // Not retried until the track is rescanned into a new row or the column is cleared
+        await db().query('update tracks set loudness_checked_at=now() where id=$1', [row.id]).catch(() => {});
+        logger.debug('loudness', `Loudness backfill failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    })
+  );
+
+  let albumTracks = 0;
+  try {
+    albumTracks = await fillAlbumGains(measured);
+  } catch (e) {
+    logger.error('loudness', `Album gain update failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const durSec = Math.round((Date.now() - start) / 1000);
+  logger.info('loudness', 'Loudness backfill batch complete', {
+    durationSec: durSec,
+    tried,
+    applied,
+    missingFile,
+    failed,
+    albumTracks,
+  });
+}
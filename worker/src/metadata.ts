@@ -1,5 +1,6 @@
 import { parseFile, type IAudioMetadata } from 'music-metadata';
 import { exec, execFile } from 'child_process';
+import { open } from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { mimeFromFormat, pickBestPicture } from './art.js';
@@ -22,7 +23,9 @@ function nativeValues(m: IAudioMetadata, names: string[]) {
     for (const t of m.native?.[tagType] ?? []) {
       const id = String((t as any).id ?? '').toLowerCase();
       const id2 = id.startsWith('txxx:') ? id.slice('txxx:'.length) : id;
-      if (!want.has(id) && !want.has(id2)) continue;
+      // MP4 freeform atoms ("----:com.apple.iTunes:ISRC") match on their name alone
+      const id3 = id.startsWith('----:') ? id.slice(id.lastIndexOf(':') + 1) : id;
+      if (!want.has(id) && !want.has(id2) && !want.has(id3)) continue;
       const val = (t as any).value;
       const pushVal = (x: unknown) => {
         if (typeof x === 'string') out.push(x);
@@ -97,8 +100,97 @@ export type TagResult = {
   musicbrainzReleaseId: string | null;
   musicbrainzArtistId: string | null;
   musicbrainzAlbumArtistId: string | null;
+
+  // ReplayGain (dB relative to -18 LUFS; peaks are linear sample amplitude)
+  replayGainTrackGain: number | null;
+  replayGainTrackPeak: number | null;
+  replayGainAlbumGain: number | null;
+  replayGainAlbumPeak: number | null;
+
+  // Gapless info: encoder delay/padding in samples and the total encoded sample count including both
+  encoderDelay: number | null;
+  encoderPadding: number | null;
+  sampleRate: number | null;
+  sampleCount: number | null;
 };
 
+type GaplessInfo = { delay: number; padding: number; sampleCount: number | null };
+
+// Encoder delay/padding from the LAME/Lavc info tag in the first MPEG frame (music-metadata does not expose them)
+async function readMp3Gapless(filePath: string): Promise<GaplessInfo | null> {
+  const fh = await open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(10);
+    await fh.read(head, 0, 10, 0);
+    let offset = 0;
+    if (head.toString('latin1', 0, 3) === 'ID3') {
+      const size = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+      offset = 10 + size + (head[5] & 0x10 ? 10 : 0);
+    }
+    const buf = Buffer.alloc(8192);
+    const { bytesRead } = await fh.read(buf, 0, buf.length, offset);
+    for (let i = 0; i + 4 < bytesRead; i++) {
+      if (buf[i] !== 0xff || (buf[i + 1] & 0xe0) !== 0xe0) continue;
+      const version = (buf[i + 1] >> 3) & 0x03; // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+      const layer = (buf[i + 1] >> 1) & 0x03; // 1 = Layer III
+      if (version === 1 || layer !== 1) continue;
+      const mono = ((buf[i + 3] >> 6) & 0x03) === 3;
+      let p = i + 4 + (version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+      if (p + 8 > bytesRead) return null;
+      const tag = buf.toString('latin1', p, p + 4);
+      if (tag !== 'Xing' && tag !== 'Info') return null;
+      const flags = buf.readUInt32BE(p + 4);
+      p += 8;
+      let frames: number | null = null;
+      if (flags & 0x1) { frames = buf.readUInt32BE(p); p += 4; }
+      if (flags & 0x2) p += 4;
+      if (flags & 0x4) p += 100;
+      if (flags & 0x8) p += 4;
+      if (p + 24 > bytesRead) return null;
+      const encoder = buf.toString('latin1', p, p + 4);
+      if (encoder !== 'LAME' && encoder !== 'Lavc' && encoder !== 'Lavf') return null;
+      // 12 bits delay + 12 bits padding, 21 bytes into the LAME extension
+      const delay = (buf[p + 21] << 4) | (buf[p + 22] >> 4);
+      const padding = ((buf[p + 22] & 0x0f) << 8) | buf[p + 23];
+      return { delay, padding, sampleCount: frames != null ? frames * (version === 3 ? 1152 : 576) : null };
+    }
+    return null;
+  } finally {
+    await fh.close();
+  }
+}
+
+// iTunSMPB: " 00000000 00000840 000001CC 0000000000046E00" = delay, padding, samples without either (hex)
+function parseITunSmpb(v: string | undefined): GaplessInfo | null {
+  if (!v) return null;
+  const parts = v.trim().split(/\s+/);
+  if (parts.length < 4) return null;
+  const delay = parseInt(parts[1], 16);
+  const padding = parseInt(parts[2], 16);
+  const samples = parseInt(parts[3], 16);
+  if (![delay, padding, samples].every(Number.isFinite) || samples <= 0) return null;
+  return { delay, padding, sampleCount: samples + delay + padding };
+}
+
+function parseGainDb(v: unknown): number | null {
+  if (v == null) return null;
+  const n = parseFloat(String(v).replace(/dB$/i, '').trim());
+  return Number.isFinite(n) && Math.abs(n) < 100 ? n : null;
+}
+
+function parsePeak(v: unknown): number | null {
+  if (v == null) return null;
+  const n = parseFloat(String(v).trim());
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+// R128_*_GAIN (Opus) is a Q7.8 integer relative to -23 LUFS; ReplayGain references -18 LUFS
+function r128ToReplayGain(v: unknown): number | null {
+  if (v == null) return null;
+  const n = parseInt(String(v).trim(), 10);
+  return Number.isFinite(n) ? Math.round((n / 256 + 5) * 100) / 100 : null;
+}
+
 function ffprobeDurationMs(filePath: string, timeoutMs = 15000): Promise<number | null> {
   return new Promise((resolve) => {
     execFile(
@@ -239,6 +331,36 @@ export async function readTags(filePath: string): Promise<TagResult> {
     ?? nativeValues(m, ['TXXX:MUSICBRAINZ_ALBUMARTISTID', 'TXXX:MusicBrainz Album Artist Id'])[0]
   );
 
+  // ReplayGain: REPLAYGAIN_* tags first, then Opus R128_* gains
+  const replayGainTrackGain =
+    (typeof commonAny.replaygain_track_gain?.dB === 'number' ? commonAny.replaygain_track_gain.dB : null)
+    ?? parseGainDb(nativeValues(m, ['replaygain_track_gain', 'TXXX:REPLAYGAIN_TRACK_GAIN', '----:com.apple.iTunes:replaygain_track_gain'])[0])
+    ?? r128ToReplayGain(nativeValues(m, ['r128_track_gain'])[0]);
+  const replayGainAlbumGain =
+    (typeof commonAny.replaygain_album_gain?.dB === 'number' ? commonAny.replaygain_album_gain.dB : null)
+    ?? parseGainDb(nativeValues(m, ['replaygain_album_gain', 'TXXX:REPLAYGAIN_ALBUM_GAIN', '----:com.apple.iTunes:replaygain_album_gain'])[0])
+    ?? r128ToReplayGain(nativeValues(m, ['r128_album_gain'])[0]);
+  const replayGainTrackPeak =
+    (typeof commonAny.replaygain_track_peak?.ratio === 'number' ? commonAny.replaygain_track_peak.ratio : null)
+    ?? parsePeak(nativeValues(m, ['replaygain_track_peak', 'TXXX:REPLAYGAIN_TRACK_PEAK', '----:com.apple.iTunes:replaygain_track_peak'])[0]);
+  const replayGainAlbumPeak =
+    (typeof commonAny.replaygain_album_peak?.ratio === 'number' ? commonAny.replaygain_album_peak.ratio : null)
+    ?? parsePeak(nativeValues(m, ['replaygain_album_peak', 'TXXX:REPLAYGAIN_ALBUM_PEAK', '----:com.apple.iTunes:replaygain_album_peak'])[0]);
+
+  // Gapless: iTunSMPB (AAC and some MP3 encoders) wins over the LAME header
+  let gapless = parseITunSmpb(nativeValues(m, ['itunsmpb', '----:com.apple.iTunes:iTunSMPB'])[0]);
+  if (!gapless && ext === '.mp3') {
+    try {
+      gapless = await readMp3Gapless(filePath);
+    } catch {
+      gapless = null;
+    }
+  }
+  const sampleRate = m.format.sampleRate ? Math.round(m.format.sampleRate) : null;
+  const encoderDelay = gapless?.delay ?? null;
+  const encoderPadding = gapless?.padding ?? null;
+  const sampleCount = gapless?.sampleCount ?? (m.format.numberOfSamples ? Math.round(m.format.numberOfSamples) : null);
+
   // === Genre/Country/Language classification ===
   const classified = splitAndClassifyTags({
     genres: m.common.genre ?? [],
@@ -424,7 +546,9 @@ export async function readTags(filePath: string): Promise<TagResult> {
     bpm, initialKey, composer, conductor, publisher, copyright, comment, mood, grouping,
     isrc, releaseDate, originalYear, compilation,
     titleSort, artistSort, albumSort, albumArtistSort,
-    musicbrainzTrackId, musicbrainzReleaseId, musicbrainzArtistId, musicbrainzAlbumArtistId
+    musicbrainzTrackId, musicbrainzReleaseId, musicbrainzArtistId, musicbrainzAlbumArtistId,
+    replayGainTrackGain, replayGainTrackPeak, replayGainAlbumGain, replayGainAlbumPeak,
+    encoderDelay, encoderPadding, sampleRate, sampleCount
   };
 }
 
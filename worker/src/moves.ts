@@ -0,0 +1,216 @@
+import { open } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { db } from './db.js';
+import { readTags, type TagResult } from './metadata.js';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+type SourceRow = {
+  id: number;
+  path: string;
+  size_bytes: string;
+  duration_ms: number | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  musicbrainz_track_id: string | null;
+  content_hash: string | null;
+  bpm: number | null;
+  deleted: boolean;
+};
+
+export type MoveCandidate = { relPath: string; fullPath: string; sizeBytes: number };
+
+export type TrackMove = {
+  trackId: number;
+  from: string;
+  to: string;
+  match: 'hash' | 'musicbrainz' | 'tags';
+  // The row had already been soft-deleted by an earlier scan
+  wasDeleted: boolean;
+  bpm: number | null;
+};
+
+const HASH_CHUNK = 64 * 1024;
+// Rows soft-deleted longer ago than this are not followed any more
+const MOVE_WINDOW_DAYS = 7;
+const DURATION_TOLERANCE_MS = 1000;
+// Tag reads spent on files whose size matches no vanished row (MusicBrainz ids survive re-tagging)
+const MAX_TAG_PROBES = 2000;
+const PARALLEL = 16;
+// Rows from before content hashes existed get theirs a slice per scan
+const HASH_BACKFILL_BATCH = 5000;
+
+let contentHashReady: boolean | null = null;
+
+export async function hasContentHashColumn(q: Queryable) {
+  if (contentHashReady) return true;
+  const r = await q.query<{ ok: boolean }>(
+    `select exists (
+       select 1 from information_schema.columns
+        where table_schema = 'public' and table_name = 'tracks' and column_name = 'content_hash'
+     ) as ok`
+  );
+  contentHashReady = Boolean(r.rows[0]?.ok);
+  return contentHashReady;
+}
+
+/** sha1 of the size plus the first and last 64KB: cheap on network mounts, and stable across moves. */
+export async function contentHash(fullPath: string, sizeBytes: number): Promise<string | null> {
+  let fh: Awaited<ReturnType<typeof open>> | null = null;
+  try {
+    fh = await open(fullPath, 'r');
+    const h = createHash('sha1').update(String(sizeBytes));
+    const head = Buffer.alloc(Math.min(HASH_CHUNK, sizeBytes));
+    await fh.read(head, 0, head.length, 0);
+    h.update(head);
+    if (sizeBytes > HASH_CHUNK) {
+      const tail = Buffer.alloc(Math.min(HASH_CHUNK, sizeBytes - HASH_CHUNK));
+      await fh.read(tail, 0, tail.length, sizeBytes - tail.length);
+      h.update(tail);
+    }
+    return h.digest('hex');
+  } catch {
+    return null;
+  } finally {
+    await fh?.close().catch(() => {});
+  }
+}
+
+/**
+ * Fills content_hash for rows scanned before the column existed, so moves of files that haven't changed
+ * since can still match by hash. Returns the number of rows filled.
+ */
+export async function backfillContentHashes(libraryId: number, onDisk: Map<string, MoveCandidate>): Promise<number> {
+  if (!(await hasContentHashColumn(db()))) return 0;
+  const r = await db().query<{ id: number; path: string; size_bytes: string }>(
+    `select id, path, size_bytes from tracks
+      where library_id = $1 and deleted_at is null and content_hash is null
+      order by id
+      limit $2`,
+    [libraryId, HASH_BACKFILL_BATCH]
+  );
+  const rows = r.rows.filter((row) => onDisk.get(row.path)?.sizeBytes === Number(row.size_bytes));
+  if (rows.length === 0) return 0;
+  const hashes = await mapParallel(rows, (row) => contentHash(onDisk.get(row.path)!.fullPath, Number(row.size_bytes)));
+  const ids = rows.map((row) => Number(row.id)).filter((_, i) => hashes[i]);
+  const values = hashes.filter((h): h is string => Boolean(h));
+  if (ids.length === 0) return 0;
+  await db().query(
+    'UPDATE tracks t SET content_hash = u.hash FROM unnest($1::bigint[], $2::text[]) AS u(id, hash) WHERE t.id = u.id AND t.content_hash IS NULL',
+    [ids, values]
+  );
+  return ids.length;
+}
+
+async function mapParallel<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = [];
+  for (let i = 0; i < items.length; i += PARALLEL) {
+    out.push(...(await Promise.all(items.slice(i, i + PARALLEL).map(fn))));
+  }
+  return out;
+}
+
+function groupBy<K>(rows: SourceRow[], key: (r: SourceRow) => K | null) {
+  const map = new Map<K, SourceRow[]>();
+  for (const r of rows) {
+    const k = key(r);
+    if (k == null) continue;
+    const list = map.get(k) ?? [];
+    list.push(r);
+    map.set(k, list);
+  }
+  return map;
+}
+
+const norm = (s: string | null | undefined) => (s ?? '').trim().toLowerCase();
+
+/**
+ * Pairs files that appeared in this scan with rows whose file just disappeared, so a move or
+ * rename keeps the track id (and with it playlists, favorites and history).
+ * Matches by content hash, then MusicBrainz track id, then size + duration + title/artist/album.
+ * A file only matches when exactly one unclaimed row qualifies.
+ */
+export async function detectMoves(
+  libraryId: number,
+  vanishedPaths: string[],
+  fresh: MoveCandidate[],
+  diskPaths: Set<string>
+): Promise<TrackMove[]> {
+  if (fresh.length === 0) return [];
+  const hasHash = await hasContentHashColumn(db());
+
+  const r = await db().query<SourceRow>(
+    `select id, path, size_bytes, duration_ms, title, artist, album, musicbrainz_track_id, bpm,
+            ${hasHash ? 'content_hash' : 'null::text as content_hash'},
+            deleted_at is not null as deleted
+       from tracks
+      where library_id = $1
+        and ((deleted_at is null and path = any($2))
+          or deleted_at > now() - make_interval(days => $3))`,
+    [libraryId, vanishedPaths, MOVE_WINDOW_DAYS]
+  );
+  // A soft-deleted row whose file is back in place is a restore, not a move source
+  const sources = r.rows.filter((row) => !diskPaths.has(row.path));
+  if (sources.length === 0) return [];
+
+  const bySize = groupBy(sources, (s) => Number(s.size_bytes));
+  const byHash = groupBy(sources, (s) => s.content_hash);
+  const byMbid = groupBy(sources, (s) => norm(s.musicbrainz_track_id) || null);
+
+  const claimed = new Set<number>();
+  const moves: TrackMove[] = [];
+  const pick = (rows: SourceRow[] | undefined, ok: (s: SourceRow) => boolean = () => true) => {
+    const free = (rows ?? []).filter((s) => !claimed.has(s.id) && ok(s));
+    return free.length === 1 ? free[0] : null;
+  };
+  const claim = (s: SourceRow, file: MoveCandidate, match: TrackMove['match']) => {
+    claimed.add(s.id);
+    moves.push({ trackId: Number(s.id), from: s.path, to: file.relPath, match, wasDeleted: s.deleted, bpm: s.bpm });
+  };
+
+  // Pass 1: identical bytes. Only files with the size of a vanished row can hash-match.
+  const sameSize = fresh.filter((f) => bySize.has(f.sizeBytes));
+  const unmatched = new Set(fresh);
+  if (byHash.size > 0) {
+    const hashes = await mapParallel(sameSize, (f) => contentHash(f.fullPath, f.sizeBytes));
+    sameSize.forEach((file, i) => {
+      const s = hashes[i] ? pick(byHash.get(hashes[i]!)) : null;
+      if (!s) return;
+      claim(s, file, 'hash');
+      unmatched.delete(file);
+    });
+  }
+  if (claimed.size === sources.length) return moves;
+
+  // Pass 2: tags. Same-size files first, then a bounded number of others for MusicBrainz ids.
+  const probe = [
+    ...sameSize.filter((f) => unmatched.has(f)),
+    ...(byMbid.size > 0 ? fresh.filter((f) => unmatched.has(f) && !bySize.has(f.sizeBytes)).slice(0, MAX_TAG_PROBES) : []),
+  ];
+  const tags = await mapParallel(probe, (f) => readTags(f.fullPath).catch((): TagResult | null => null));
+  probe.forEach((file, i) => {
+    const t = tags[i];
+    if (!t || claimed.size === sources.length) return;
+    const mbid = norm(t.musicbrainzTrackId);
+    const byId = mbid ? pick(byMbid.get(mbid)) : null;
+    if (byId) {
+      claim(byId, file, 'musicbrainz');
+      return;
+    }
+    if (!norm(t.title) || t.durationMs == null) return;
+    const byTags = pick(
+      bySize.get(file.sizeBytes),
+      (s) =>
+        s.duration_ms != null &&
+        Math.abs(s.duration_ms - t.durationMs!) <= DURATION_TOLERANCE_MS &&
+        norm(s.title) === norm(t.title) &&
+        norm(s.artist) === norm(t.artist) &&
+        norm(s.album) === norm(t.album)
+    );
+    if (byTags) claim(byTags, file, 'tags');
+  });
+
+  return moves;
+}
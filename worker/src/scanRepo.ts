@@ -1,4 +1,5 @@
 import { db } from './db.js';
+import { assignAlbums } from './albums.js';
 
 const cleanStr = (s: string) => s.replace(/\0/g, '');
 const cleanOpt = (s?: string | null) => (s == null ? null : cleanStr(s));
@@ -315,6 +316,8 @@ export async function upsertTrack(params: {
           );
         }
       }
+
+      await assignAlbums(client, [trackId]);
     } finally {
       client.release();
     }
@@ -0,0 +1,109 @@
+import os from 'node:os';
+import * as transcodeJobs from './transcodeRepo.js';
+import { transcodeTrackToHls } from './transcoder.js';
+import { hlsCacheSize } from './hlsCache.js';
+import logger from './logger.js';
+
+export const TRANSCODE_COMMANDS_CHANNEL = 'transcode:commands';
+
+const TRANSCODE_CONCURRENCY = Math.max(1, Math.min(8, parseInt(process.env.TRANSCODE_CONCURRENCY ?? '1', 10) || 1));
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_AFTER_MS = 4 * HEARTBEAT_INTERVAL_MS;
+// Pub/sub wake-ups are the fast path; this only covers messages lost while Redis reconnects
+const IDLE_POLL_MS = 30_000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+const running = new Map<number, AbortController>();
+let idleWaiters: Array<() => void> = [];
+
+function waitForWork(ms: number) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      idleWaiters = idleWaiters.filter((w) => w !== done);
+      resolve();
+    }
+    idleWaiters.push(done);
+  });
+}
+
+function wakeIdleLoops() {
+  for (const waiter of [...idleWaiters]) waiter();
+}
+
+// Messages on transcode:commands: {command:'wake'} after a job is queued, {command:'cancel', jobId} for running jobs
+export function handleTranscodeCommand(cmd: { command?: string; jobId?: number }) {
+  if (cmd.command === 'wake') {
+    wakeIdleLoops();
+  } else if (cmd.command === 'cancel' && typeof cmd.jobId === 'number') {
+    // Only the worker running the job holds its controller; the others ignore the message
+    running.get(cmd.jobId)?.abort();
+  }
+}
+
+async function runJob(tj: transcodeJobs.TranscodeJob) {
+  const controller = new AbortController();
+  running.set(tj.id, controller);
+  const heartbeat = setInterval(() => {
+    transcodeJobs.heartbeatTranscodeJob(tj.id).catch(() => {});
+  }, HEARTBEAT_INTERVAL_MS);
+
+  logger.info('transcode', `Processing track #${tj.track_id}`, { jobId: tj.id, workerId });
+  try {
+    const outDir = await transcodeTrackToHls(tj.track_id, tj.cache_key, tj.profiles, controller.signal);
+    await transcodeJobs.finishTranscodeJob(tj.id, 'done', outDir, null, await hlsCacheSize(outDir));
+    logger.success('transcode', `Completed track #${tj.track_id}`);
+  } catch (e) {
+    if (controller.signal.aborted) {
+      await transcodeJobs.deleteTranscodeJob(tj.id);
+      logger.info('transcode', `Cancelled track #${tj.track_id}`, { jobId: tj.id });
+    } else {
+      const msg = e instanceof Error ? e.message : String(e);
+      await transcodeJobs.finishTranscodeJob(tj.id, 'failed', null, msg);
+      logger.error('transcode', `Failed track #${tj.track_id}`, { error: msg });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    running.delete(tj.id);
+  }
+}
+
+async function transcodeLoop(shouldStop: () => boolean) {
+  while (!shouldStop()) {
+    try {
+      const tj = await transcodeJobs.claimNextTranscodeJob(workerId);
+      if (tj) {
+        await runJob(tj);
+        continue;
+      }
+    } catch (e) {
+      logger.error('transcode', `Claiming a job failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await waitForWork(IDLE_POLL_MS);
+  }
+}
+
+// Runs TRANSCODE_CONCURRENCY claim loops until shouldStop() turns true
+export async function runTranscodeWorkers(shouldStop: () => boolean) {
+  const requeueStale = async () => {
+    try {
+      const n = await transcodeJobs.requeueStaleTranscodeJobs(STALE_AFTER_MS);
+      if (n > 0) {
+        logger.warn('transcode', `Re-queued ${n} job(s) from unresponsive workers`);
+        wakeIdleLoops();
+      }
+    } catch (e) {
+      logger.error('transcode', `Re-queue of stale jobs failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+  await requeueStale();
+  const staleTimer = setInterval(requeueStale, HEARTBEAT_INTERVAL_MS);
+
+  logger.info('transcode', `Starting ${TRANSCODE_CONCURRENCY} transcode loop(s)`, { workerId });
+  try {
+    await Promise.all(Array.from({ length: TRANSCODE_CONCURRENCY }, () => transcodeLoop(shouldStop)));
+  } finally {
+    clearInterval(staleTimer);
+  }
+}
@@ -4,6 +4,7 @@ export type TranscodeJob = {
   id: number;
   track_id: number;
   cache_key: string;
+  profiles: string | null;
   state: 'queued' | 'running' | 'done' | 'failed';
 };
 
@@ -12,10 +13,12 @@ function isMissingTranscodeJobsTable(e: unknown) {
   return msg.includes('relation "transcode_jobs" does not exist');
 }
 
-export async function claimNextTranscodeJob() {
+// SKIP LOCKED lets several worker loops and containers claim from the same queue
+export async function claimNextTranscodeJob(workerId: string) {
   try {
     const r = await db().query<TranscodeJob>(
-      "update transcode_jobs set state='running', started_at=now() where id = (select id from transcode_jobs where state='queued' order by id asc limit 1 for update skip locked) returning id, track_id, cache_key, state"
+      "update transcode_jobs set state='running', started_at=now(), heartbeat_at=now(), claimed_by=$1 where id = (select id from transcode_jobs where state='queued' order by priority desc, id asc limit 1 for update skip locked) returning id, track_id, cache_key, profiles, state",
+      [workerId]
     );
     return r.rows[0] ?? null;
   } catch (e) {
@@ -24,9 +27,34 @@ export async function claimNextTranscodeJob() {
   }
 }
 
-export async function finishTranscodeJob(id: number, state: 'done' | 'failed', outDir: string | null, error: string | null) {
+export async function heartbeatTranscodeJob(id: number) {
+  await db().query("update transcode_jobs set heartbeat_at=now() where id=$1 and state='running'", [id]);
+}
+
+// Cancelled jobs leave no row behind so the next play simply queues a fresh one
+export async function deleteTranscodeJob(id: number) {
+  await db().query('delete from transcode_jobs where id=$1', [id]);
+}
+
+// Jobs whose worker stopped sending heartbeats (crashed or killed container) go back to the queue
+export async function requeueStaleTranscodeJobs(staleAfterMs: number) {
+  try {
+    const r = await db().query(
+      `update transcode_jobs
+          set state='queued', started_at=null, heartbeat_at=null, claimed_by=null
+        where state='running' and coalesce(heartbeat_at, started_at) < now() - make_interval(secs => $1)`,
+      [staleAfterMs / 1000]
+    );
+    return r.rowCount ?? 0;
+  } catch (e) {
+    if (isMissingTranscodeJobsTable(e)) return 0;
+    throw e;
+  }
+}
+
+export async function finishTranscodeJob(id: number, state: 'done' | 'failed', outDir: string | null, error: string | null, sizeBytes: number | null = null) {
   try {
-    await db().query('update transcode_jobs set state=$2, finished_at=now(), out_dir=$3, error=$4 where id=$1', [id, state, outDir, error]);
+    await db().query('update transcode_jobs set state=$2, finished_at=now(), out_dir=$3, error=$4, size_bytes=$5 where id=$1', [id, state, outDir, error, sizeBytes]);
   } catch (e) {
     if (isMissingTranscodeJobsTable(e)) return;
     throw e;
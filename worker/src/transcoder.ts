@@ -1,5 +1,5 @@
 import { spawn } from 'node:child_process';
-import { mkdir, rename, rm } from 'node:fs/promises';
+import { mkdir, rename, rm, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import { db } from './db.js';
 
@@ -12,9 +12,9 @@ function safeJoinMount(mountPath: string, relPath: string) {
   return abs;
 }
 
-function run(cmd: string, args: string[]) {
+function run(cmd: string, args: string[], signal?: AbortSignal) {
   return new Promise<void>((resolve, reject) => {
-    const p = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const p = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'], signal });
     let err = '';
     p.stderr.on('data', (d) => (err += d.toString('utf8')));
     p.on('error', reject);
@@ -25,7 +25,62 @@ function run(cmd: string, args: string[]) {
   });
 }
 
-export async function transcodeTrackToHls(trackId: number, cacheKey: string) {
+type HlsProfile = { codec: 'aac' | 'opus'; kbps: number };
+
+// Job profile sets look like "aac-64,aac-128,opus-96"; null = legacy single 192k AAC rendition
+function parseProfiles(raw: string | null): HlsProfile[] {
+  const profiles: HlsProfile[] = [];
+  for (const part of (raw ?? '').split(',')) {
+    const m = /^(aac|opus)-(\d+)$/.exec(part.trim());
+    if (m) profiles.push({ codec: m[1] as HlsProfile['codec'], kbps: Number(m[2]) });
+  }
+  return profiles;
+}
+
+function renditionArgs(input: string, dir: string, name: string, profile: HlsProfile) {
+  // Opus only works in fMP4 segments; AAC stays in MPEG-TS for the widest client support
+  const fmp4 = profile.codec === 'opus';
+  return [
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-i',
+    input,
+    '-vn',
+    '-c:a',
+    fmp4 ? 'libopus' : 'aac',
+    '-b:a',
+    `${profile.kbps}k`,
+    ...(fmp4 ? ['-ar', '48000'] : []),
+    '-f',
+    'hls',
+    '-hls_time',
+    '6',
+    '-hls_playlist_type',
+    'vod',
+    ...(fmp4 ? ['-hls_segment_type', 'fmp4', '-hls_fmp4_init_filename', `${name}_init.mp4`] : []),
+    '-hls_segment_filename',
+    path.join(dir, fmp4 ? `${name}_%05d.m4s` : `${name}_%05d.ts`),
+    path.join(dir, `${name}.m3u8`)
+  ];
+}
+
+function masterPlaylist(profiles: HlsProfile[]) {
+  // fMP4 variants need protocol version 7
+  const version = profiles.some((p) => p.codec === 'opus') ? 7 : 3;
+  const lines = ['#EXTM3U', `#EXT-X-VERSION:${version}`, '#EXT-X-INDEPENDENT-SEGMENTS'];
+  // Lowest bitrate first so players without ABR logic start on something that loads
+  const order = profiles.map((p, i) => ({ p, i })).sort((a, b) => a.p.kbps - b.p.kbps);
+  for (const { p, i } of order) {
+    const codecs = p.codec === 'opus' ? 'opus' : 'mp4a.40.2';
+    // Peak bandwidth with ~10% container overhead
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${Math.round(p.kbps * 1100)},AVERAGE-BANDWIDTH=${p.kbps * 1000},CODECS="${codecs}"`);
+    lines.push(`v${i}.m3u8`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export async function transcodeTrackToHls(trackId: number, cacheKey: string, profileSet: string | null = null, signal?: AbortSignal) {
   const r = await db().query<{ path: string; mount_path: string }>(
     'select t.path, l.mount_path from tracks t join libraries l on l.id=t.library_id where t.id=$1',
     [trackId]
@@ -39,6 +94,21 @@ export async function transcodeTrackToHls(trackId: number, cacheKey: string) {
   const tmpDir = path.join(HLS_DIR, `${cacheKey}.tmp_${Date.now()}`);
   await mkdir(tmpDir, { recursive: true });
 
+  const profiles = parseProfiles(profileSet);
+  if (profiles.length > 0) {
+    try {
+      for (const [i, profile] of profiles.entries()) {
+        await run('ffmpeg', renditionArgs(input, tmpDir, `v${i}`, profile), signal);
+      }
+      await writeFile(path.join(tmpDir, 'index.m3u8'), masterPlaylist(profiles));
+    } catch (e) {
+      await rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+      throw e;
+    }
+    await publish(tmpDir, outDir);
+    return cacheKey;
+  }
+
   const manifest = path.join(tmpDir, 'index.m3u8');
   const seg = path.join(tmpDir, 'seg_%05d.ts');
 
@@ -63,9 +133,14 @@ export async function transcodeTrackToHls(trackId: number, cacheKey: string) {
     '-hls_segment_filename',
     seg,
     manifest
-  ]);
+  ], signal);
 
-  // Atomic publish.
+  await publish(tmpDir, outDir);
+  return cacheKey;
+}
+
+// Atomic publish.
+async function publish(tmpDir: string, outDir: string) {
   try {
     await rename(tmpDir, outDir);
   } catch {
@@ -73,6 +148,4 @@ export async function transcodeTrackToHls(trackId: number, cacheKey: string) {
     try { await rm(outDir, { recursive: true, force: true }); } catch {}
     await rename(tmpDir, outDir);
   }
-
-  return cacheKey;
 }
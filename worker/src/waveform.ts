@@ -0,0 +1,201 @@
+import { spawn } from 'node:child_process';
+import { mkdir, readdir, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from './db.js';
+import logger from './logger.js';
+
+const WAVEFORM_DIR = process.env.WAVEFORM_DIR ?? '/data/cache/waveforms';
+const WAVEFORM_BUCKETS = Math.max(100, Math.min(5000, Number(process.env.WAVEFORM_BUCKETS ?? '1000')));
+const WAVEFORM_TIMEOUT_MS = 10 * 60 * 1000;
+// Running jobs older than this belong to a worker that died mid-decode
+const STALE_RUNNING_MINUTES = 30;
+
+// Decoded at a low rate; peaks are first collected per 10ms so memory stays flat for long mixes
+const DECODE_SAMPLE_RATE = 8000;
+const FRAMES_PER_SLICE = DECODE_SAMPLE_RATE / 100;
+
+function safeJoinMount(mountPath: string, relPath: string) {
+  const abs = path.resolve(mountPath, relPath);
+  const base = path.resolve(mountPath);
+  if (!abs.startsWith(base + path.sep)) throw new Error('invalid path');
+  return abs;
+}
+
+function waveformFile(trackId: number, mtimeMs: number) {
+  return path.join(WAVEFORM_DIR, `${trackId}-${mtimeMs}.bin`);
+}
+
+function isMissingWaveformJobsTable(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  return msg.includes('relation "waveform_jobs" does not exist');
+}
+
+// Same decode as the tempo detector (mono f32le on stdout), but reduced while streaming
+function decodeSlicePeaks(filePath: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const ff = spawn('ffmpeg', [
+      '-v', 'error', '-i', filePath, '-vn',
+      '-ac', '1', '-ar', String(DECODE_SAMPLE_RATE), '-f', 'f32le', 'pipe:1',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    const slices: number[] = [];
+    let slicePeak = 0;
+    let sliceFrames = 0;
+    let carry: Buffer = Buffer.alloc(0);
+    let stderr = '';
+
+    ff.stdout.on('data', (d: Buffer) => {
+      const buf = carry.length ? Buffer.concat([carry, d]) : d;
+      const whole = buf.length - (buf.length % 4);
+      for (let o = 0; o < whole; o += 4) {
+        const v = Math.abs(buf.readFloatLE(o));
+        if (v > slicePeak) slicePeak = v;
+        if (++sliceFrames === FRAMES_PER_SLICE) {
+          slices.push(slicePeak);
+          slicePeak = 0;
+          sliceFrames = 0;
+        }
+      }
+      carry = buf.subarray(whole);
+    });
+    ff.stderr.on('data', (d) => {
+      if (stderr.length < 4096) stderr += d.toString();
+    });
+
+    const timer = setTimeout(() => ff.kill('SIGKILL'), WAVEFORM_TIMEOUT_MS);
+    ff.on('error', (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    ff.on('close', (code) => {
+      clearTimeout(timer);
+      if (code !== 0) return reject(new Error(`ffmpeg decode failed (code ${code}): ${stderr.trim() || 'unknown'}`));
+      if (sliceFrames > 0) slices.push(slicePeak);
+      if (slices.length === 0) return reject(new Error('no audio decoded'));
+      resolve(slices);
+    });
+  });
+}
+
+// Max of the slices falling into each bucket, scaled to one byte (255 = full scale)
+function toBuckets(slices: number[]) {
+  const out = Buffer.alloc(WAVEFORM_BUCKETS);
+  for (let b = 0; b < WAVEFORM_BUCKETS; b++) {
+    const from = Math.floor((b * slices.length) / WAVEFORM_BUCKETS);
+    const to = Math.max(from + 1, Math.floor(((b + 1) * slices.length) / WAVEFORM_BUCKETS));
+    let peak = 0;
+    for (let i = from; i < to && i < slices.length; i++) if (slices[i] > peak) peak = slices[i];
+    out[b] = Math.round(Math.min(1, peak) * 255);
+  }
+  return out;
+}
+
+type WaveformJob = { track_id: number; mtime_ms: string; path: string; mount_path: string };
+
+async function claimNextWaveformJob() {
+  try {
+    const r = await db().query<WaveformJob>(
+      `update waveform_jobs w set state='running', started_at=now()
+         from tracks t join libraries l on l.id = t.library_id
+        where w.track_id = (select track_id from waveform_jobs where state='queued' order by requested_at asc limit 1 for update skip locked)
+          and t.id = w.track_id
+       returning w.track_id, w.mtime_ms, t.path, l.mount_path`
+    );
+    return r.rows[0] ?? null;
+  } catch (e) {
+    if (isMissingWaveformJobsTable(e)) return null;
+    throw e;
+  }
+}
+
+async function finishWaveformJob(trackId: number, mtimeMs: string, state: 'done' | 'failed', error: string | null) {
+  // A newer request for a changed file keeps its own state
+  await db().query(
+    'update waveform_jobs set state=$3, finished_at=now(), error=$4 where track_id=$1 and mtime_ms=$2',
+    [trackId, mtimeMs, state, error]
+  );
+}
+
+async function runJob(job: WaveformJob) {
+  const trackId = Number(job.track_id);
+  try {
+    const abs = safeJoinMount(job.mount_path, job.path);
+    const peaks = toBuckets(await decodeSlicePeaks(abs));
+    await mkdir(WAVEFORM_DIR, { recursive: true });
+    const out = waveformFile(trackId, Number(job.mtime_ms));
+    const tmp = `${out}.tmp`;
+    await writeFile(tmp, peaks);
+    await rename(tmp, out);
+    await finishWaveformJob(trackId, job.mtime_ms, 'done', null);
+    logger.debug('waveform', `Generated waveform for track #${trackId}`);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    await finishWaveformJob(trackId, job.mtime_ms, 'failed', msg).catch(() => {});
+    logger.warn('waveform', `Waveform failed for track #${trackId}`, { error: msg });
+  }
+}
+
+let draining = false;
+
+// Works through the queue until it is empty; wake-ups while draining are absorbed by the running loop
+export async function runWaveformQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    await db().query(
+      `update waveform_jobs set state='queued', started_at=null
+        where state='running' and started_at < now() - make_interval(mins => $1)`,
+      [STALE_RUNNING_MINUTES]
+    ).catch((e) => {
+      if (!isMissingWaveformJobsTable(e)) throw e;
+    });
+    for (;;) {
+      const job = await claimNextWaveformJob();
+      if (!job) break;
+      await runJob(job);
+    }
+  } catch (e) {
+    logger.error('waveform', `Waveform queue failed: ${e instanceof Error ? e.message : String(e)}`);
+  } finally {
+    draining = false;
+  }
+}
+
+// Files for deleted tracks or older versions of a file
+export async function removeStaleWaveforms(): Promise<void> {
+  let names: string[];
+  try {
+    names = await readdir(WAVEFORM_DIR);
+  } catch {
+    return;
+  }
+  const files = new Map<string, string>();
+  for (const name of names) {
+    const m = name.match(/^(\d+)-(\d+)\.bin(\.tmp)?$/);
+    if (m) files.set(name, `${m[1]}-${m[2]}`);
+  }
+  if (files.size === 0) return;
+
+  try {
+    const r = await db().query<{ key: string }>(
+      "select id || '-' || mtime_ms as key from tracks where deleted_at is null and id = any($1::bigint[])",
+      [[...new Set([...files.values()].map((k) => k.split('-')[0]))]]
+    );
+    const current = new Set(r.rows.map((x) => x.key));
+    let removed = 0;
+    for (const [name, key] of files) {
+      if (current.has(key) && !name.endsWith('.tmp')) continue;
+      try {
+        // A temp file may belong to a decode that is still being written
+        if (name.endsWith('.tmp') && Date.now() - (await stat(path.join(WAVEFORM_DIR, name))).mtimeMs < WAVEFORM_TIMEOUT_MS) continue;
+        await unlink(path.join(WAVEFORM_DIR, name));
+        removed++;
+      } catch {
+        // already gone
+      }
+    }
+    if (removed) logger.info('waveform', `Removed ${removed} stale waveform file(s)`);
+  } catch (e) {
+    logger.error('waveform', `Waveform cleanup failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}